@@ -13,8 +13,10 @@ function App() {
   const removeWire = useStore((state) => state.removeWire);
   const setSelectedComponent = useStore((state) => state.setSelectedComponent);
   const setSelectedWire = useStore((state) => state.setSelectedWire);
+  const undo = useStore((state) => state.undo);
+  const redo = useStore((state) => state.redo);
 
-  // Keyboard-Handler für Entf-Taste
+  // Keyboard-Handler für Entf-Taste und Rückgängig/Wiederholen
   const handleKeyDown = useCallback((event: KeyboardEvent) => {
     // Ignoriere Tasteneingaben wenn ein Input-Element fokussiert ist
     const activeElement = document.activeElement;
@@ -27,6 +29,21 @@ function App() {
       return;
     }
 
+    // Strg+Z: Rückgängig, Strg+Y bzw. Strg+Umschalt+Z: Wiederholen
+    if (event.ctrlKey || event.metaKey) {
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+        return;
+      }
+      if (key === 'y' || (key === 'z' && event.shiftKey)) {
+        event.preventDefault();
+        redo();
+        return;
+      }
+    }
+
     // Entf-Taste (Delete) zum Löschen
     if (event.key === 'Delete') {
       if (selectedComponentId) {
@@ -37,7 +54,7 @@ function App() {
         setSelectedWire(null);
       }
     }
-  }, [selectedComponentId, selectedWireId, removeComponent, removeWire, setSelectedComponent, setSelectedWire]);
+  }, [selectedComponentId, selectedWireId, removeComponent, removeWire, setSelectedComponent, setSelectedWire, undo, redo]);
 
   useEffect(() => {
     window.addEventListener('keydown', handleKeyDown);
@@ -0,0 +1,126 @@
+import React, { useMemo, useState } from 'react';
+import { useStore } from '../../store/useStore';
+import { validateProjekt } from '../../utils/projekt';
+import { dimensioniereVerteiler } from '../../utils/dimensionierung';
+
+interface DimensionierungDialogProps {
+  verbraucherIds?: string[];  // Nur diese Verbraucher (Standard: ganzer Verteiler)
+  onClose: () => void;
+}
+
+/**
+ * Prüfdialog für die automatische Dimensionierung.
+ * Ausgewählte Vorschläge werden als ein einziger Undo-Schritt übernommen.
+ */
+export const DimensionierungDialog: React.FC<DimensionierungDialogProps> = ({ verbraucherIds, onClose }) => {
+  const { verteiler, weitereVerteiler, applyDimensionierung } = useStore();
+
+  const vorschlaege = useMemo(() => {
+    const projekt = validateProjekt([verteiler, ...weitereVerteiler]);
+    const { pruefVerteiler, kontext } = projekt[verteiler.id];
+    return dimensioniereVerteiler(pruefVerteiler, kontext, verbraucherIds);
+  }, [verteiler, weitereVerteiler, verbraucherIds]);
+
+  const [ausgewaehlt, setAusgewaehlt] = useState<Set<string>>(
+    () => new Set(vorschlaege.filter((v) => v.aenderungen.length > 0).map((v) => v.id))
+  );
+
+  const mitAenderungen = vorschlaege.filter((v) => v.aenderungen.length > 0);
+  const nurHinweise = vorschlaege.filter((v) => v.aenderungen.length === 0 && v.hinweise.length > 0);
+
+  const toggle = (id: string) => {
+    const neu = new Set(ausgewaehlt);
+    if (neu.has(id)) {
+      neu.delete(id);
+    } else {
+      neu.add(id);
+    }
+    setAusgewaehlt(neu);
+  };
+
+  const handleApply = () => {
+    applyDimensionierung(mitAenderungen.filter((v) => ausgewaehlt.has(v.id)));
+    onClose();
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black bg-opacity-50 z-50" onClick={onClose} />
+      <div className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-white rounded-lg shadow-xl z-50 w-[560px] max-h-[80vh] flex flex-col">
+        <div className="p-4 border-b">
+          <h2 className="text-lg font-bold text-gray-800">📐 Dimensionierung</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Vorschläge für Schutzeinrichtungen, Querschnitte und FI-Typen in „{verteiler.name}".
+          </p>
+        </div>
+
+        <div className="p-4 space-y-3 overflow-y-auto">
+          {mitAenderungen.length === 0 && (
+            <p className="text-sm text-green-600">✓ Keine Änderungen erforderlich.</p>
+          )}
+
+          {mitAenderungen.map((vorschlag) => (
+            <label
+              key={vorschlag.id}
+              className="flex items-start gap-3 p-2 border rounded cursor-pointer hover:bg-gray-50"
+            >
+              <input
+                type="checkbox"
+                checked={ausgewaehlt.has(vorschlag.id)}
+                onChange={() => toggle(vorschlag.id)}
+                className="mt-1"
+              />
+              <div className="flex-1 text-sm">
+                <div className="font-medium text-gray-800">
+                  {vorschlag.art === 'komponente' ? '🔧' : '⚡'} {vorschlag.name}
+                </div>
+                {vorschlag.aenderungen.map((a, i) => (
+                  <div key={i} className="text-xs text-gray-600">
+                    {a.bezeichnung}: <span className="line-through text-gray-400">{a.alt}</span> → <span className="font-medium text-blue-600">{a.neu}</span>
+                  </div>
+                ))}
+                {vorschlag.art === 'verbraucher' && (vorschlag.spannungsfallProzent !== undefined || vorschlag.schleifenimpedanz !== undefined) && (
+                  <div className="text-xs text-gray-400">
+                    {vorschlag.spannungsfallProzent !== undefined && `ΔU ${vorschlag.spannungsfallProzent.toFixed(2)}%`}
+                    {vorschlag.spannungsfallProzent !== undefined && vorschlag.schleifenimpedanz !== undefined && ' • '}
+                    {vorschlag.schleifenimpedanz !== undefined && `Zs ${vorschlag.schleifenimpedanz.toFixed(0)}mΩ`}
+                  </div>
+                )}
+                {vorschlag.hinweise.map((h, i) => (
+                  <div key={i} className="text-xs text-orange-600">⚠️ {h}</div>
+                ))}
+              </div>
+            </label>
+          ))}
+
+          {nurHinweise.length > 0 && (
+            <div className="pt-2 border-t space-y-1">
+              <h3 className="text-xs font-semibold text-gray-500">Hinweise</h3>
+              {nurHinweise.map((vorschlag) => (
+                <div key={vorschlag.id} className="text-xs text-orange-600">
+                  <span className="font-medium">{vorschlag.name}:</span> {vorschlag.hinweise.join(' • ')}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 bg-gray-200 text-gray-700 text-sm rounded hover:bg-gray-300"
+          >
+            Abbrechen
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={ausgewaehlt.size === 0}
+            className="px-3 py-1.5 bg-blue-500 text-white text-sm rounded hover:bg-blue-600 disabled:opacity-50"
+          >
+            Übernehmen ({[...ausgewaehlt].filter((id) => mitAenderungen.some((v) => v.id === id)).length})
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
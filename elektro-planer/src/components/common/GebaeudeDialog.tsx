@@ -0,0 +1,185 @@
+import React, { useMemo } from 'react';
+import { useStore } from '../../store/useStore';
+import type { Raumart } from '../../types';
+import { RAUMART_BEZEICHNUNGEN } from '../../types';
+import { RAUM_FI_PFLICHT } from '../../utils/gebaeude';
+
+interface GebaeudeDialogProps {
+  onClose: () => void;
+}
+
+/**
+ * Bearbeitung des Gebäudemodells: Gebäude → Geschosse → Räume.
+ * Die Raumart bestimmt raumbezogene Prüfungen (z.B. FI-Schutz im Bad).
+ */
+export const GebaeudeDialog: React.FC<GebaeudeDialogProps> = ({ onClose }) => {
+  const {
+    verteiler,
+    weitereVerteiler,
+    gebaeude,
+    addGebaeude,
+    updateGebaeude,
+    addGeschoss,
+    updateGeschoss,
+    addRaum,
+    updateRaum,
+    moveRaum,
+    removeGebaeudeElement,
+  } = useStore();
+
+  // Anzahl der Verbraucher je Raum über alle Verteiler des Projekts
+  const verbraucherJeRaum = useMemo(() => {
+    const anzahl = new Map<string, number>();
+    for (const v of [verteiler, ...weitereVerteiler].flatMap((vt) => vt.verbraucher)) {
+      if (v.raumId) anzahl.set(v.raumId, (anzahl.get(v.raumId) ?? 0) + 1);
+    }
+    return anzahl;
+  }, [verteiler, weitereVerteiler]);
+
+  const alleGeschosse = gebaeude.flatMap((g) =>
+    g.geschosse.map((gs) => ({ id: gs.id, name: gebaeude.length > 1 ? `${g.name} · ${gs.name}` : gs.name }))
+  );
+
+  const loeschen = (id: string, bezeichnung: string) => {
+    if (confirm(`${bezeichnung} löschen? Zugeordnete Verbraucher verlieren ihre Raumzuordnung.`)) {
+      removeGebaeudeElement(id);
+    }
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black bg-opacity-50 z-50" onClick={onClose} />
+      <div className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-white rounded-lg shadow-xl z-50 w-[720px] max-w-[95vw] max-h-[85vh] flex flex-col">
+        <div className="p-4 border-b">
+          <h2 className="text-lg font-bold text-gray-800">🏠 Gebäude & Räume</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Verbraucher werden Räumen zugeordnet. Räume mit ⚠️ verlangen für alle Stromkreise einen FI mit IΔn ≤ 30 mA.
+          </p>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          {gebaeude.length === 0 && (
+            <p className="text-sm text-gray-400">Noch kein Gebäude angelegt.</p>
+          )}
+
+          {gebaeude.map((g) => (
+            <div key={g.id} className="border rounded-lg">
+              <div className="flex items-center gap-2 p-2 bg-gray-50 border-b">
+                <input
+                  type="text"
+                  value={g.name}
+                  onChange={(e) => updateGebaeude(g.id, { name: e.target.value })}
+                  className="flex-1 px-2 py-1 border rounded text-sm font-semibold"
+                />
+                <button
+                  onClick={() => addGeschoss(g.id)}
+                  className="px-2 py-1 text-xs border rounded hover:bg-white"
+                >
+                  + Geschoss
+                </button>
+                <button
+                  onClick={() => loeschen(g.id, `Gebäude "${g.name}"`)}
+                  className="text-gray-400 hover:text-red-600"
+                  title="Gebäude löschen"
+                >
+                  🗑️
+                </button>
+              </div>
+
+              <div className="p-2 space-y-3">
+                {g.geschosse.map((gs) => (
+                  <div key={gs.id}>
+                    <div className="flex items-center gap-2 mb-1">
+                      <input
+                        type="text"
+                        value={gs.name}
+                        onChange={(e) => updateGeschoss(gs.id, { name: e.target.value })}
+                        className="w-40 px-2 py-1 border rounded text-sm"
+                      />
+                      <button
+                        onClick={() => addRaum(gs.id)}
+                        className="px-2 py-1 text-xs border rounded hover:bg-gray-50"
+                      >
+                        + Raum
+                      </button>
+                      <button
+                        onClick={() => loeschen(gs.id, `Geschoss "${gs.name}"`)}
+                        className="ml-auto text-gray-400 hover:text-red-600"
+                        title="Geschoss löschen"
+                      >
+                        🗑️
+                      </button>
+                    </div>
+
+                    <div className="ml-4 space-y-1">
+                      {gs.raeume.map((r) => (
+                        <div key={r.id} className="flex items-center gap-2 text-sm">
+                          <input
+                            type="text"
+                            value={r.name}
+                            onChange={(e) => updateRaum(r.id, { name: e.target.value })}
+                            className="flex-1 px-2 py-1 border rounded text-sm"
+                          />
+                          <select
+                            value={r.raumart}
+                            onChange={(e) => updateRaum(r.id, { raumart: e.target.value as Raumart })}
+                            className="px-1 py-1 border rounded text-xs"
+                            title={RAUM_FI_PFLICHT[r.raumart]}
+                          >
+                            {(Object.keys(RAUMART_BEZEICHNUNGEN) as Raumart[]).map((art) => (
+                              <option key={art} value={art}>
+                                {RAUM_FI_PFLICHT[art] ? '⚠️ ' : ''}{RAUMART_BEZEICHNUNGEN[art]}
+                              </option>
+                            ))}
+                          </select>
+                          <select
+                            value={gs.id}
+                            onChange={(e) => moveRaum(r.id, e.target.value)}
+                            className="w-28 px-1 py-1 border rounded text-xs"
+                            title="In anderes Geschoss verschieben"
+                          >
+                            {alleGeschosse.map((ziel) => (
+                              <option key={ziel.id} value={ziel.id}>{ziel.name}</option>
+                            ))}
+                          </select>
+                          <span className="w-10 text-right text-xs text-gray-400" title="Zugeordnete Verbraucher">
+                            {verbraucherJeRaum.get(r.id) ?? 0} ⚡
+                          </span>
+                          <button
+                            onClick={() => loeschen(r.id, `Raum "${r.name}"`)}
+                            className="text-gray-400 hover:text-red-600"
+                            title="Raum löschen"
+                          >
+                            ✕
+                          </button>
+                        </div>
+                      ))}
+                      {gs.raeume.length === 0 && (
+                        <p className="text-xs text-gray-400">Keine Räume</p>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-4 border-t flex justify-between">
+          <button
+            onClick={addGebaeude}
+            className="px-3 py-1.5 text-sm border rounded hover:bg-gray-50"
+          >
+            + Gebäude
+          </button>
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 bg-gray-200 text-gray-700 text-sm rounded hover:bg-gray-300"
+          >
+            Schließen
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -1,42 +1,112 @@
 import React, { useState, useRef } from 'react';
 import { useStore } from '../../store/useStore';
-import { exportToPDF, exportToExcel } from '../../utils/export';
-import type { Phase, Verteiler } from '../../types';
+import {
+  exportToPDF,
+  exportToExcel,
+  exportStromlaufplanPDF,
+  exportStromlaufplanSVG,
+  exportKlemmenplanPDF,
+  exportKlemmenplanExcel,
+  exportStromkreisverzeichnisPDF,
+} from '../../utils/export';
+import type { Phase, Verteiler, ComponentType, Gebaeude } from '../../types';
 import { PHASE_COLORS } from '../../types';
+import { STANDARD_BMK_PRAEFIXE } from '../../utils/kennzeichnung';
+import { getSpannungsfallGrenzwerte } from '../../utils/validation';
+import { PruefprotokollDialog } from './PruefprotokollDialog';
+import { KatalogDialog } from './KatalogDialog';
 
 // Projektdatei-Struktur
 interface ProjectFile {
   version: string;
   timestamp: string;
   verteiler: Verteiler;
+  weitereVerteiler?: Verteiler[];  // Weitere Haupt-/Unterverteiler des Projekts
+  gebaeude?: Gebaeude[];           // Gebäude/Geschosse/Räume des Projekts
 }
 
+// Komponententypen mit einstellbarem Kennbuchstaben (BMK)
+const BMK_TYPEN: [ComponentType, string][] = [
+  ['versorgungsklemme', 'Versorgungsklemme'],
+  ['zaehler', 'Zähler'],
+  ['nh-sicherung', 'NH-Sicherung'],
+  ['neozed-sicherung', 'Neozed'],
+  ['schraub-sicherung', 'Schraubsicherung'],
+  ['fi-schalter', 'FI-Schalter'],
+  ['ls-schalter', 'LS-Schalter'],
+  ['fi-ls-kombi', 'FI/LS'],
+  ['ueberspannungsschutz', 'Überspannungsschutz'],
+  ['isolationsueberwachung', 'Isolationswächter'],
+  ['schuetz', 'Schütz'],
+  ['klemme', 'Klemme'],
+  ['abgangsklemme', 'Abgangsklemme'],
+  ['pen-aufteilung', 'PEN-Aufteilung'],
+  ['sammelschiene', 'Sammelschiene'],
+  ['phasenschiene', 'Phasenschiene'],
+];
+
 export const Header: React.FC = () => {
   const {
     verteiler,
+    weitereVerteiler,
+    gebaeude,
     ui,
     setWiringMode,
     setWiringOrthoMode,
+    routeAllWires,
     setSelectedPhase,
     resetProject,
     resetProjectCustom,
     loadProject,
     updateVerteilerInfo,
+    updateBmkPraefixe,
+    renumberKennzeichnung,
+    history,
+    undo,
+    redo,
   } = useStore();
   const [showSettings, setShowSettings] = useState(false);
   const [showExportMenu, setShowExportMenu] = useState(false);
   const [showNewProjectDialog, setShowNewProjectDialog] = useState(false);
+  const [showPruefprotokoll, setShowPruefprotokoll] = useState(false);
+  const [showKatalog, setShowKatalog] = useState(false);
   const [customSlots, setCustomSlots] = useState(24);
   const [customSchienen, setCustomSchienen] = useState(3);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const undoLabel = history.past[history.past.length - 1]?.label;
+  const redoLabel = history.future[0]?.label;
+
   const handleExportPDF = async () => {
-    await exportToPDF(verteiler);
+    await exportToPDF(verteiler, gebaeude);
     setShowExportMenu(false);
   };
 
   const handleExportExcel = () => {
-    exportToExcel(verteiler);
+    exportToExcel(verteiler, gebaeude);
+    setShowExportMenu(false);
+  };
+
+  const handleExportStromlaufplan = (format: 'pdf' | 'svg') => {
+    if (format === 'pdf') {
+      exportStromlaufplanPDF(verteiler);
+    } else {
+      exportStromlaufplanSVG(verteiler);
+    }
+    setShowExportMenu(false);
+  };
+
+  const handleExportKlemmenplan = (format: 'pdf' | 'excel') => {
+    if (format === 'pdf') {
+      exportKlemmenplanPDF(verteiler, gebaeude);
+    } else {
+      exportKlemmenplanExcel(verteiler, gebaeude);
+    }
+    setShowExportMenu(false);
+  };
+
+  const handleExportStromkreisverzeichnis = () => {
+    exportStromkreisverzeichnisPDF(verteiler, gebaeude);
     setShowExportMenu(false);
   };
 
@@ -60,6 +130,8 @@ export const Header: React.FC = () => {
       version: '1.0',
       timestamp: new Date().toISOString(),
       verteiler: verteiler,
+      weitereVerteiler: weitereVerteiler,
+      gebaeude: gebaeude,
     };
 
     const jsonString = JSON.stringify(projectData, null, 2);
@@ -100,7 +172,11 @@ export const Header: React.FC = () => {
         }
 
         // Lade das Projekt
-        loadProject({ verteiler: projectData.verteiler });
+        loadProject({
+          verteiler: projectData.verteiler,
+          weitereVerteiler: projectData.weitereVerteiler,
+          gebaeude: projectData.gebaeude,
+        });
         alert(`Projekt "${projectData.verteiler.name}" erfolgreich geladen!`);
       } catch (error) {
         console.error('Fehler beim Laden der Projektdatei:', error);
@@ -163,6 +239,28 @@ export const Header: React.FC = () => {
             />
           </div>
 
+          {/* Rückgängig / Wiederholen */}
+          <div className="flex items-center gap-1 border-r pr-2 mr-2">
+            <button
+              onClick={undo}
+              disabled={!undoLabel}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded disabled:opacity-40 disabled:hover:bg-transparent"
+              title={undoLabel ? `Rückgängig: ${undoLabel} (Strg+Z)` : 'Nichts rückgängig zu machen'}
+            >
+              <span>↶</span>
+              {undoLabel && <span className="max-w-[9rem] truncate">{undoLabel}</span>}
+            </button>
+            <button
+              onClick={redo}
+              disabled={!redoLabel}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded disabled:opacity-40 disabled:hover:bg-transparent"
+              title={redoLabel ? `Wiederholen: ${redoLabel} (Strg+Y)` : 'Nichts zu wiederholen'}
+            >
+              <span>↷</span>
+              {redoLabel && <span className="max-w-[9rem] truncate">{redoLabel}</span>}
+            </button>
+          </div>
+
           {/* Verdrahtungsmodus */}
           <div className="flex items-center gap-2 border-r pr-2 mr-2">
             <button
@@ -195,10 +293,22 @@ export const Header: React.FC = () => {
               </button>
             )}
 
+            {/* Alle Leitungen automatisch neu verlegen */}
+            {ui.wiringMode && (
+              <button
+                onClick={routeAllWires}
+                disabled={verteiler.verbindungen.length === 0}
+                className="px-2 py-1.5 text-sm rounded text-gray-600 hover:bg-gray-100 border disabled:opacity-40 disabled:hover:bg-transparent"
+                title="Alle Leitungen automatisch im Bahnenraster neu verlegen"
+              >
+                ⤳ Neu verlegen
+              </button>
+            )}
+
             {/* Phasen-Auswahl */}
             {ui.wiringMode && (
               <div className="flex gap-1">
-                {(['L1', 'L2', 'L3', 'N', 'PE'] as Phase[]).map((phase) => (
+                {(['L1', 'L2', 'L3', 'N', 'PE', 'PEN'] as Phase[]).map((phase) => (
                   <button
                     key={phase}
                     onClick={() => setSelectedPhase(phase)}
@@ -246,6 +356,54 @@ export const Header: React.FC = () => {
                 >
                   📊 Excel Export
                 </button>
+                <button
+                  onClick={() => handleExportStromlaufplan('pdf')}
+                  className="w-full px-4 py-2 text-left text-sm hover:bg-gray-50"
+                >
+                  ⚡ Stromlaufplan (PDF)
+                </button>
+                <button
+                  onClick={() => handleExportStromlaufplan('svg')}
+                  className="w-full px-4 py-2 text-left text-sm hover:bg-gray-50"
+                >
+                  ⚡ Stromlaufplan (SVG)
+                </button>
+                <button
+                  onClick={() => handleExportKlemmenplan('pdf')}
+                  className="w-full px-4 py-2 text-left text-sm hover:bg-gray-50"
+                >
+                  🔌 Klemmenplan (PDF)
+                </button>
+                <button
+                  onClick={() => handleExportKlemmenplan('excel')}
+                  className="w-full px-4 py-2 text-left text-sm hover:bg-gray-50"
+                >
+                  🔌 Klemmenplan (Excel)
+                </button>
+                <button
+                  onClick={handleExportStromkreisverzeichnis}
+                  className="w-full px-4 py-2 text-left text-sm hover:bg-gray-50"
+                >
+                  🏷️ Stromkreisverzeichnis (PDF)
+                </button>
+                <button
+                  onClick={() => {
+                    setShowPruefprotokoll(true);
+                    setShowExportMenu(false);
+                  }}
+                  className="w-full px-4 py-2 text-left text-sm hover:bg-gray-50"
+                >
+                  📋 Prüfprotokoll…
+                </button>
+                <button
+                  onClick={() => {
+                    setShowKatalog(true);
+                    setShowExportMenu(false);
+                  }}
+                  className="w-full px-4 py-2 text-left text-sm hover:bg-gray-50"
+                >
+                  🛒 Stückliste / Angebot…
+                </button>
               </div>
             )}
           </div>
@@ -290,6 +448,38 @@ export const Header: React.FC = () => {
                 <option value={100}>100 A</option>
               </select>
             </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1" title="Zulässiger Spannungsfall bis zum Ende einer Zuleitung zu einem Unterverteiler">
+                ΔU Hauptleitung (%)
+              </label>
+              <input
+                type="number"
+                min="0.1"
+                max="10"
+                step="0.1"
+                value={getSpannungsfallGrenzwerte(verteiler).hauptleitung}
+                onChange={(e) => updateVerteilerInfo({
+                  spannungsfallGrenzwerte: { ...getSpannungsfallGrenzwerte(verteiler), hauptleitung: Number(e.target.value) || 0.1 },
+                })}
+                className="w-full px-2 py-1.5 border rounded text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1" title="Zulässiger Spannungsfall vom Netzanschluss bis zum Verbraucher">
+                ΔU Endstromkreis (%)
+              </label>
+              <input
+                type="number"
+                min="0.1"
+                max="10"
+                step="0.1"
+                value={getSpannungsfallGrenzwerte(verteiler).endstromkreis}
+                onChange={(e) => updateVerteilerInfo({
+                  spannungsfallGrenzwerte: { ...getSpannungsfallGrenzwerte(verteiler), endstromkreis: Number(e.target.value) || 0.1 },
+                })}
+                className="w-full px-2 py-1.5 border rounded text-sm"
+              />
+            </div>
           </div>
           <div className="mt-3">
             <label className="block text-xs text-gray-500 mb-1">Beschreibung</label>
@@ -301,6 +491,38 @@ export const Header: React.FC = () => {
               placeholder="Optionale Beschreibung des Verteilers..."
             />
           </div>
+
+          {/* Betriebsmittelkennzeichnung nach IEC 81346 */}
+          <div className="mt-3">
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-xs text-gray-500">Kennbuchstaben (IEC 81346)</label>
+              <button
+                onClick={renumberKennzeichnung}
+                className="px-2 py-1 text-xs text-gray-600 border rounded hover:bg-gray-100"
+                title="Kennzeichen und Leitungsnummern in Einbaureihenfolge (Schiene, Steckplatz) neu vergeben"
+              >
+                🔢 Neu nummerieren
+              </button>
+            </div>
+            <div className="grid grid-cols-7 gap-2">
+              {BMK_TYPEN.map(([type, label]) => (
+                <div key={type}>
+                  <label className="block text-[10px] text-gray-400 truncate" title={label}>{label}</label>
+                  <input
+                    type="text"
+                    value={verteiler.bmkPraefixe?.[type] ?? ''}
+                    placeholder={STANDARD_BMK_PRAEFIXE[type]}
+                    onChange={(e) => updateBmkPraefixe({
+                      ...verteiler.bmkPraefixe,
+                      [type]: e.target.value.replace(/[^A-Za-z]/g, '').toUpperCase() || undefined,
+                    })}
+                    className="w-full px-2 py-1 border rounded text-sm font-mono"
+                    maxLength={3}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
         </div>
       )}
 
@@ -414,6 +636,12 @@ export const Header: React.FC = () => {
           </div>
         </>
       )}
+
+      {/* Prüfprotokoll (Erstprüfung) */}
+      {showPruefprotokoll && <PruefprotokollDialog onClose={() => setShowPruefprotokoll(false)} />}
+
+      {/* Hersteller-Katalog und Stückliste */}
+      {showKatalog && <KatalogDialog onClose={() => setShowKatalog(false)} />}
     </header>
   );
 };
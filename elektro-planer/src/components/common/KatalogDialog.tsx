@@ -0,0 +1,266 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { useStore } from '../../store/useStore';
+import { COMPONENT_LIBRARY } from '../../types';
+import { importiereKatalogCsv, importiereKatalogDatanorm } from '../../utils/katalog';
+import { erstelleStueckliste } from '../../utils/stueckliste';
+import { exportStuecklisteExcel, exportAngebotPDF } from '../../utils/export';
+
+interface KatalogDialogProps {
+  onClose: () => void;
+}
+
+const formatEuro = (wert: number): string =>
+  wert.toLocaleString('de-AT', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * Hersteller-Katalog (Import aus CSV/Datanorm) und daraus bepreiste Stückliste des Projekts
+ */
+export const KatalogDialog: React.FC<KatalogDialogProps> = ({ onClose }) => {
+  const {
+    verteiler,
+    weitereVerteiler,
+    katalog,
+    importKatalog,
+    updateKatalogArtikel,
+    removeKatalogArtikel,
+    clearKatalog,
+  } = useStore();
+  const [ansicht, setAnsicht] = useState<'stueckliste' | 'katalog'>('stueckliste');
+  const [hersteller, setHersteller] = useState('');
+  const [filter, setFilter] = useState('');
+  const csvInputRef = useRef<HTMLInputElement>(null);
+  const datanormInputRef = useRef<HTMLInputElement>(null);
+
+  const alleVerteiler = useMemo(() => [verteiler, ...weitereVerteiler], [verteiler, weitereVerteiler]);
+  const stueckliste = useMemo(() => erstelleStueckliste(alleVerteiler, katalog), [alleVerteiler, katalog]);
+  const titel = alleVerteiler.find((v) => !v.einspeisung)?.name ?? verteiler.name;
+
+  const gefiltert = katalog.filter((a) =>
+    `${a.hersteller} ${a.artikelnummer} ${a.bezeichnung}`.toLowerCase().includes(filter.toLowerCase())
+  );
+
+  const handleImport = (format: 'csv' | 'datanorm') => (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const inhalt = e.target?.result as string;
+        const artikel = format === 'csv'
+          ? importiereKatalogCsv(inhalt, hersteller)
+          : importiereKatalogDatanorm(inhalt, hersteller);
+        if (artikel.length === 0) {
+          alert('Die Datei enthält keine lesbaren Artikel.');
+          return;
+        }
+        importKatalog(artikel);
+        const zugeordnet = artikel.filter((a) => a.variantId || a.kabel).length;
+        alert(`${artikel.length} Artikel importiert, davon ${zugeordnet} automatisch zugeordnet.`);
+      } catch (error) {
+        alert(error instanceof Error ? error.message : 'Fehler beim Lesen der Katalogdatei.');
+      }
+    };
+    // Datanorm-Dateien sind üblicherweise nicht UTF-8-kodiert
+    reader.readAsText(file, format === 'datanorm' ? 'ISO-8859-1' : 'UTF-8');
+    event.target.value = '';
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black bg-opacity-50 z-50" onClick={onClose} />
+      <div className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-white rounded-lg shadow-xl z-50 w-[960px] max-w-[95vw] max-h-[90vh] flex flex-col">
+        <div className="p-4 border-b flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-bold text-gray-800">🛒 Stückliste & Katalog</h2>
+            <p className="text-sm text-gray-500 mt-1">
+              {katalog.length} Katalogartikel · {stueckliste.positionen.length} Positionen im Projekt „{titel}"
+            </p>
+          </div>
+          <div className="flex gap-1">
+            {(['stueckliste', 'katalog'] as const).map((a) => (
+              <button
+                key={a}
+                onClick={() => setAnsicht(a)}
+                className={`px-3 py-1.5 text-sm rounded ${ansicht === a ? 'bg-blue-500 text-white' : 'text-gray-600 hover:bg-gray-100'}`}
+              >
+                {a === 'stueckliste' ? 'Stückliste' : 'Katalog'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {ansicht === 'stueckliste' ? (
+          <div className="p-4 overflow-y-auto">
+            {stueckliste.ohneArtikel > 0 && (
+              <p className="mb-2 text-xs text-orange-600">
+                ⚠️ {stueckliste.ohneArtikel} Position(en) ohne Katalogartikel – im Angebot ohne Preis.
+              </p>
+            )}
+            <table className="w-full text-sm border">
+              <thead className="bg-gray-50 text-xs text-gray-500">
+                <tr>
+                  <th className="px-2 py-1 text-left border">Pos.</th>
+                  <th className="px-2 py-1 text-left border">Bezeichnung</th>
+                  <th className="px-2 py-1 text-left border">Artikel</th>
+                  <th className="px-2 py-1 text-right border">Menge</th>
+                  <th className="px-2 py-1 text-right border">EP [€]</th>
+                  <th className="px-2 py-1 text-right border">GP [€]</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stueckliste.positionen.map((p) => (
+                  <tr key={p.position} title={p.kennzeichen.join(', ')}>
+                    <td className="px-2 py-1 border">{p.position}</td>
+                    <td className="px-2 py-1 border">{p.bezeichnung}</td>
+                    <td className="px-2 py-1 border text-xs">
+                      {p.artikelnummer
+                        ? `${p.hersteller ?? ''} ${p.artikelnummer}`.trim()
+                        : <span className="text-orange-600">nicht im Katalog</span>}
+                    </td>
+                    <td className="px-2 py-1 border text-right whitespace-nowrap">
+                      {p.menge.toLocaleString('de-AT')} {p.einheit}
+                    </td>
+                    <td className="px-2 py-1 border text-right">{p.einzelpreis !== null ? formatEuro(p.einzelpreis) : '-'}</td>
+                    <td className="px-2 py-1 border text-right">{p.gesamtpreis !== null ? formatEuro(p.gesamtpreis) : '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="font-semibold">
+                  <td colSpan={5} className="px-2 py-1 border text-right">Summe netto</td>
+                  <td className="px-2 py-1 border text-right">{formatEuro(stueckliste.summe)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        ) : (
+          <div className="p-4 space-y-3 overflow-y-auto">
+            <div className="flex items-end gap-2">
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Hersteller (falls nicht in der Datei)</label>
+                <input
+                  type="text"
+                  value={hersteller}
+                  onChange={(e) => setHersteller(e.target.value)}
+                  className="px-2 py-1.5 border rounded text-sm"
+                />
+              </div>
+              <button
+                onClick={() => csvInputRef.current?.click()}
+                className="px-3 py-1.5 text-sm border rounded hover:bg-gray-50"
+                title="Spalten: Artikelnummer; Bezeichnung; Preis; optional Hersteller, Einheit, Variante, Bemessungsstrom, Charakteristik, Polzahl, Fehlerstrom, FI-Typ, Adern, Querschnitt, Material"
+              >
+                📥 CSV importieren
+              </button>
+              <button
+                onClick={() => datanormInputRef.current?.click()}
+                className="px-3 py-1.5 text-sm border rounded hover:bg-gray-50"
+              >
+                📥 Datanorm importieren
+              </button>
+              <input ref={csvInputRef} type="file" accept=".csv,.txt" onChange={handleImport('csv')} className="hidden" />
+              <input ref={datanormInputRef} type="file" accept=".001,.002,.003,.dat,.txt" onChange={handleImport('datanorm')} className="hidden" />
+              <input
+                type="text"
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder="Suchen…"
+                className="ml-auto px-2 py-1.5 border rounded text-sm"
+              />
+              <button
+                onClick={() => confirm('Gesamten Katalog löschen?') && clearKatalog()}
+                disabled={katalog.length === 0}
+                className="px-3 py-1.5 text-sm text-red-600 border rounded hover:bg-red-50 disabled:opacity-40"
+              >
+                Leeren
+              </button>
+            </div>
+
+            {katalog.length === 0 ? (
+              <p className="text-sm text-gray-400">Noch keine Artikel – Katalog als CSV oder Datanorm importieren.</p>
+            ) : (
+              <table className="w-full text-sm border">
+                <thead className="bg-gray-50 text-xs text-gray-500">
+                  <tr>
+                    <th className="px-2 py-1 text-left border">Hersteller</th>
+                    <th className="px-2 py-1 text-left border">Art.-Nr.</th>
+                    <th className="px-2 py-1 text-left border">Bezeichnung</th>
+                    <th className="px-2 py-1 text-right border">Preis [€]</th>
+                    <th className="px-2 py-1 text-left border">Zuordnung</th>
+                    <th className="px-2 py-1 border" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {gefiltert.map((a) => (
+                    <tr key={a.id}>
+                      <td className="px-2 py-1 border">{a.hersteller || '-'}</td>
+                      <td className="px-2 py-1 border font-mono text-xs">{a.artikelnummer}</td>
+                      <td className="px-2 py-1 border">{a.bezeichnung}</td>
+                      <td className="px-2 py-1 border text-right whitespace-nowrap">
+                        {formatEuro(a.preis)} / {a.einheit}
+                      </td>
+                      <td className="px-2 py-1 border text-xs">
+                        {a.kabel ? (
+                          `${a.kabel.adern === 1 ? 'Ader' : `${a.kabel.adern}×`}${a.kabel.querschnitt.toLocaleString('de-AT')} mm² ${a.kabel.leitermaterial === 'aluminium' ? 'Al' : 'Cu'}`
+                        ) : (
+                          <>
+                            <select
+                              value={a.variantId ?? ''}
+                              onChange={(e) => updateKatalogArtikel(a.id, { variantId: e.target.value || undefined })}
+                              className="px-1 py-0.5 border rounded text-xs"
+                            >
+                              <option value="">– keine –</option>
+                              {COMPONENT_LIBRARY.map((item) => (
+                                <option key={item.variantId} value={item.variantId}>{item.name}</option>
+                              ))}
+                            </select>
+                            {a.merkmale && Object.keys(a.merkmale).length > 0 && (
+                              <div className="text-gray-400">
+                                {Object.entries(a.merkmale).map(([k, w]) => `${k}: ${w}`).join(', ')}
+                              </div>
+                            )}
+                          </>
+                        )}
+                      </td>
+                      <td className="px-2 py-1 border text-center">
+                        <button
+                          onClick={() => removeKatalogArtikel(a.id)}
+                          className="text-gray-400 hover:text-red-600"
+                          title="Artikel entfernen"
+                        >
+                          ✕
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+
+        <div className="p-4 border-t flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 bg-gray-200 text-gray-700 text-sm rounded hover:bg-gray-300"
+          >
+            Schließen
+          </button>
+          <button
+            onClick={() => exportStuecklisteExcel(stueckliste, titel)}
+            className="px-3 py-1.5 bg-green-600 text-white text-sm rounded hover:bg-green-700"
+          >
+            📊 Stückliste (Excel)
+          </button>
+          <button
+            onClick={() => exportAngebotPDF(stueckliste, titel)}
+            className="px-3 py-1.5 bg-blue-500 text-white text-sm rounded hover:bg-blue-600"
+          >
+            📄 Angebot (PDF)
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,110 @@
+import React, { useMemo } from 'react';
+import { useStore } from '../../store/useStore';
+import { validateProjekt } from '../../utils/projekt';
+import { optimierePhasen } from '../../utils/phasenoptimierung';
+import type { Phase } from '../../types';
+
+interface PhasenOptimierungDialogProps {
+  onClose: () => void;
+}
+
+const ANZEIGE_PHASEN: Phase[] = ['L1', 'L2', 'L3', 'N'];
+
+/**
+ * Prüfdialog für den automatischen Phasenausgleich.
+ * Zeigt die Phasenlasten vor/nach der Umverdrahtung und die umzuklemmenden Stromkreise.
+ */
+export const PhasenOptimierungDialog: React.FC<PhasenOptimierungDialogProps> = ({ onClose }) => {
+  const { verteiler, weitereVerteiler, applyPhasenoptimierung, runValidation } = useStore();
+
+  const optimierung = useMemo(() => {
+    const projekt = validateProjekt([verteiler, ...weitereVerteiler]);
+    return optimierePhasen(projekt[verteiler.id].pruefVerteiler);
+  }, [verteiler, weitereVerteiler]);
+
+  const handleApply = () => {
+    applyPhasenoptimierung(optimierung);
+    runValidation();
+    onClose();
+  };
+
+  // N wird als Strom angezeigt (N-Last = N-Strom × 230 V)
+  const formatLast = (phase: Phase, last: number) =>
+    phase === 'N' ? `${(last / 230).toFixed(1)} A` : `${(last / 1000).toFixed(2)} kW`;
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black bg-opacity-50 z-50" onClick={onClose} />
+      <div className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-white rounded-lg shadow-xl z-50 w-[480px] max-h-[80vh] flex flex-col">
+        <div className="p-4 border-b">
+          <h2 className="text-lg font-bold text-gray-800">⚖️ Phasen ausgleichen</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Umverteilung der 1-phasigen Stromkreise in „{verteiler.name}" auf L1/L2/L3.
+          </p>
+        </div>
+
+        <div className="p-4 space-y-3 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500">
+                <th className="text-left font-normal">Leiter</th>
+                <th className="text-right font-normal">Vorher</th>
+                <th className="text-right font-normal">Nachher</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ANZEIGE_PHASEN.map((phase) => (
+                <tr key={phase}>
+                  <td className="font-medium">{phase}</td>
+                  <td className="text-right text-gray-600">{formatLast(phase, optimierung.vorher[phase])}</td>
+                  <td className={`text-right font-medium ${
+                    optimierung.nachher[phase] < optimierung.vorher[phase] - 1 ? 'text-green-600' : 'text-gray-800'
+                  }`}>
+                    {formatLast(phase, optimierung.nachher[phase])}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {optimierung.verschiebungen.length === 0 ? (
+            <p className="text-sm text-green-600">✓ Die Phasenaufteilung ist bereits optimal.</p>
+          ) : (
+            <div className="pt-2 border-t space-y-1">
+              <h3 className="text-xs font-semibold text-gray-500">Umklemmen</h3>
+              {optimierung.verschiebungen.map((v) => (
+                <div key={v.gruppeId} className="text-xs text-gray-700">
+                  <span className="font-medium">{v.verbraucherNamen.join(', ')}</span>:{' '}
+                  <span className="text-gray-400">{v.von}</span> → <span className="font-medium text-blue-600">{v.nach}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {optimierung.nichtVerschiebbar.length > 0 && (
+            <div className="pt-2 border-t text-xs text-orange-600">
+              ⚠️ Nicht umklemmbar (Sammel-/Phasenschiene, Klemme oder mehrdeutige Verdrahtung):{' '}
+              {optimierung.nichtVerschiebbar.join(', ')}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 bg-gray-200 text-gray-700 text-sm rounded hover:bg-gray-300"
+          >
+            Abbrechen
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={optimierung.verschiebungen.length === 0}
+            className="px-3 py-1.5 bg-blue-500 text-white text-sm rounded hover:bg-blue-600 disabled:opacity-50"
+          >
+            Übernehmen ({optimierung.verschiebungen.length})
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,271 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useStore } from '../../store/useStore';
+import type { Pruefmessung } from '../../types';
+import { validateProjekt } from '../../utils/projekt';
+import {
+  erstellePruefung,
+  getGesamtstatus,
+  formatWert,
+  PRUEF_STATUS_TEXT,
+  type PruefPunkt,
+  type PruefStatus,
+} from '../../utils/pruefprotokoll';
+import { exportPruefprotokollPDF } from '../../utils/export';
+
+interface PruefprotokollDialogProps {
+  onClose: () => void;
+}
+
+const STATUS_FARBE: Record<PruefStatus, string> = {
+  bestanden: 'text-green-600',
+  'nicht-bestanden': 'text-red-600 font-semibold',
+  offen: 'text-gray-400',
+  entfaellt: 'text-gray-300',
+};
+
+const MESSWERTE: { feld: keyof Pruefmessung; titel: string; punkt: 'isolation' | 'schleifenimpedanz' | 'fiAusloesezeit' | 'fiAusloesestrom' | 'schutzleiter' }[] = [
+  { feld: 'isolationswiderstand', titel: 'Riso [MΩ]', punkt: 'isolation' },
+  { feld: 'schleifenimpedanz', titel: 'Zs [Ω]', punkt: 'schleifenimpedanz' },
+  { feld: 'fiAusloesezeit', titel: 'tΔ [ms]', punkt: 'fiAusloesezeit' },
+  { feld: 'fiAusloesestrom', titel: 'IΔ [mA]', punkt: 'fiAusloesestrom' },
+  { feld: 'schutzleiterWiderstand', titel: 'RPE [Ω]', punkt: 'schutzleiter' },
+];
+
+/**
+ * Unterschriftenfeld: zeichnet mit Maus/Stift auf ein Canvas und speichert als PNG-Data-URL
+ */
+const Unterschrift: React.FC<{ wert?: string; onChange: (wert: string | undefined) => void }> = ({ wert, onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const gespeichert = useRef(wert);
+  const zeichnet = useRef(false);
+
+  // Gespeicherte Unterschrift einmalig ins Canvas laden, damit weitergezeichnet werden kann
+  useEffect(() => {
+    if (!gespeichert.current) return;
+    const bild = new Image();
+    bild.onload = () => canvasRef.current?.getContext('2d')?.drawImage(bild, 0, 0);
+    bild.src = gespeichert.current;
+  }, []);
+
+  const getPunkt = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * e.currentTarget.width,
+      y: ((e.clientY - rect.top) / rect.height) * e.currentTarget.height,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    zeichnet.current = true;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y } = getPunkt(e);
+    ctx.lineWidth = 2;
+    ctx.lineCap = 'round';
+    ctx.strokeStyle = '#1e3a8a';
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!zeichnet.current) return;
+    const ctx = e.currentTarget.getContext('2d');
+    const { x, y } = getPunkt(e);
+    ctx?.lineTo(x, y);
+    ctx?.stroke();
+  };
+
+  const handlePointerUp = () => {
+    if (!zeichnet.current || !canvasRef.current) return;
+    zeichnet.current = false;
+    onChange(canvasRef.current.toDataURL('image/png'));
+  };
+
+  const handleLoeschen = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    onChange(undefined);
+  };
+
+  return (
+    <div>
+      <div className="border rounded bg-white w-[300px] h-[100px]">
+        <canvas
+          ref={canvasRef}
+          width={300}
+          height={100}
+          className="w-full h-full cursor-crosshair touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        />
+      </div>
+      <button onClick={handleLoeschen} className="mt-1 text-xs text-gray-500 hover:text-red-600">
+        Unterschrift löschen
+      </button>
+    </div>
+  );
+};
+
+const PruefZelle: React.FC<{ punkt: PruefPunkt; onChange: (wert: number | undefined) => void }> = ({ punkt, onChange }) => {
+  if (punkt.status === 'entfaellt') {
+    return <td className="px-2 py-1 border text-center text-gray-300">–</td>;
+  }
+  return (
+    <td className="px-2 py-1 border">
+      <input
+        type="number"
+        step="any"
+        min={0}
+        value={punkt.gemessen ?? ''}
+        onChange={(e) => onChange(e.target.value === '' ? undefined : parseFloat(e.target.value))}
+        className={`w-20 px-1 py-0.5 border rounded text-sm ${punkt.status === 'nicht-bestanden' ? 'border-red-400 bg-red-50' : ''}`}
+      />
+      <div className="text-[10px] text-gray-400 whitespace-nowrap">
+        {punkt.berechnet !== undefined && `ber. ${formatWert(punkt.berechnet)} · `}
+        {punkt.grenzwert}
+      </div>
+    </td>
+  );
+};
+
+/**
+ * Erstprüfung nach ÖVE E 8001-6-61: Messwerte je Stromkreis erfassen, gegen die
+ * Grenzwerte der Planung prüfen und als unterschriebenes PDF ausgeben.
+ */
+export const PruefprotokollDialog: React.FC<PruefprotokollDialogProps> = ({ onClose }) => {
+  const { verteiler, weitereVerteiler, updatePruefprotokoll, setPruefmessung } = useStore();
+  const protokoll = verteiler.pruefprotokoll;
+
+  const pruefungen = useMemo(() => {
+    const { pruefVerteiler, result } = validateProjekt([verteiler, ...weitereVerteiler])[verteiler.id];
+    return erstellePruefung(pruefVerteiler, result, protokoll);
+  }, [verteiler, weitereVerteiler, protokoll]);
+
+  const gesamt = getGesamtstatus(pruefungen);
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black bg-opacity-50 z-50" onClick={onClose} />
+      <div className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-white rounded-lg shadow-xl z-50 w-[1000px] max-w-[95vw] max-h-[90vh] flex flex-col">
+        <div className="p-4 border-b">
+          <h2 className="text-lg font-bold text-gray-800">📋 Prüfprotokoll</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Erstprüfung nach ÖVE E 8001-6-61 für „{verteiler.name}". Messwerte werden mit den berechneten Grenzwerten verglichen.
+          </p>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Prüfer</label>
+              <input
+                type="text"
+                value={protokoll?.pruefer ?? ''}
+                onChange={(e) => updatePruefprotokoll({ pruefer: e.target.value })}
+                className="w-full px-2 py-1.5 border rounded text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Prüfdatum</label>
+              <input
+                type="date"
+                value={protokoll?.datum ?? ''}
+                onChange={(e) => updatePruefprotokoll({ datum: e.target.value })}
+                className="w-full px-2 py-1.5 border rounded text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Messgerät</label>
+              <input
+                type="text"
+                value={protokoll?.messgeraet ?? ''}
+                onChange={(e) => updatePruefprotokoll({ messgeraet: e.target.value })}
+                placeholder="z.B. Installationstester, Seriennr."
+                className="w-full px-2 py-1.5 border rounded text-sm"
+              />
+            </div>
+          </div>
+
+          {pruefungen.length === 0 ? (
+            <p className="text-sm text-gray-400">Keine zugeordneten Stromkreise vorhanden.</p>
+          ) : (
+            <table className="w-full text-sm border">
+              <thead className="bg-gray-50 text-xs text-gray-500">
+                <tr>
+                  <th className="px-2 py-1 text-left border">Stromkreis</th>
+                  <th className="px-2 py-1 text-left border">Schutz / FI</th>
+                  {MESSWERTE.map((m) => (
+                    <th key={m.feld} className="px-2 py-1 text-left border">{m.titel}</th>
+                  ))}
+                  <th className="px-2 py-1 text-left border">Ergebnis</th>
+                </tr>
+              </thead>
+              <tbody>
+                {pruefungen.map((p) => (
+                  <tr key={p.verbraucherId}>
+                    <td className="px-2 py-1 border">{p.verbraucherName}</td>
+                    <td className="px-2 py-1 border text-xs">
+                      <div>{p.schutzeinrichtung}</div>
+                      <div className="text-gray-400">{p.fi ?? 'ohne FI'}</div>
+                    </td>
+                    {MESSWERTE.map((m) => (
+                      <PruefZelle
+                        key={m.feld}
+                        punkt={p[m.punkt]}
+                        onChange={(wert) => setPruefmessung(p.verbraucherId, { [m.feld]: wert })}
+                      />
+                    ))}
+                    <td className={`px-2 py-1 border ${STATUS_FARBE[p.status]}`}>{PRUEF_STATUS_TEXT[p.status]}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Bemerkungen</label>
+              <textarea
+                value={protokoll?.bemerkungen ?? ''}
+                onChange={(e) => updatePruefprotokoll({ bemerkungen: e.target.value })}
+                rows={4}
+                className="w-full px-2 py-1.5 border rounded text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Unterschrift Prüfer</label>
+              <Unterschrift
+                wert={protokoll?.unterschrift}
+                onChange={(unterschrift) => updatePruefprotokoll({ unterschrift })}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t flex items-center justify-between">
+          <span className={`text-sm ${STATUS_FARBE[gesamt]}`}>
+            {gesamt === 'bestanden' && '✓ Alle Prüfungen bestanden'}
+            {gesamt === 'nicht-bestanden' && '✗ Grenzwerte überschritten'}
+            {gesamt === 'offen' && 'Messwerte unvollständig'}
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-3 py-1.5 bg-gray-200 text-gray-700 text-sm rounded hover:bg-gray-300"
+            >
+              Schließen
+            </button>
+            <button
+              onClick={() => exportPruefprotokollPDF(verteiler, pruefungen)}
+              className="px-3 py-1.5 bg-blue-500 text-white text-sm rounded hover:bg-blue-600"
+            >
+              📄 PDF erstellen
+            </button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,300 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { useStore } from '../../store/useStore';
+import {
+  IMPORT_FELDER,
+  leseTabellen,
+  schlageZuordnungVor,
+  pruefeImport,
+  type SpaltenZuordnung,
+  type TabellenZelle,
+} from '../../utils/verbraucherImport';
+
+interface VerbraucherImportDialogProps {
+  onClose: () => void;
+}
+
+type Schritt = 'datei' | 'zuordnung' | 'vorschau';
+
+/**
+ * Assistent zum Import von Verbraucherlisten (Raumbuch) aus XLSX/CSV:
+ * Datei wählen → Spalten zuordnen → geprüfte Vorschau → Import als ein Undo-Schritt.
+ */
+export const VerbraucherImportDialog: React.FC<VerbraucherImportDialogProps> = ({ onClose }) => {
+  const { addVerbraucherListe } = useStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [schritt, setSchritt] = useState<Schritt>('datei');
+  const [dateiname, setDateiname] = useState('');
+  const [tabellen, setTabellen] = useState<Record<string, TabellenZelle[][]>>({});
+  const [blatt, setBlatt] = useState('');
+  const [mitKopfzeile, setMitKopfzeile] = useState(true);
+  const [zuordnung, setZuordnung] = useState<SpaltenZuordnung | null>(null);
+  const [nachRaum, setNachRaum] = useState(true);
+
+  const tabelle = useMemo(() => tabellen[blatt] ?? [], [tabellen, blatt]);
+  const spaltenAnzahl = Math.max(0, ...tabelle.map((z) => z.length));
+  const spaltenNamen = Array.from({ length: spaltenAnzahl }, (_, i) =>
+    mitKopfzeile && tabelle[0]?.[i] ? tabelle[0][i] : `Spalte ${String.fromCharCode(65 + (i % 26))}`
+  );
+
+  const zeilen = useMemo(
+    () => (zuordnung ? pruefeImport(tabelle, zuordnung, mitKopfzeile) : []),
+    [tabelle, zuordnung, mitKopfzeile]
+  );
+  const gueltig = zeilen.filter((z) => z.verbraucher !== null);
+
+  const waehleBlatt = (name: string, daten = tabellen) => {
+    setBlatt(name);
+    setZuordnung(schlageZuordnungVor(daten[name]?.[0] ?? []));
+  };
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const daten = leseTabellen(e.target?.result as ArrayBuffer, file.name);
+        const erstesBlatt = Object.keys(daten).find((name) => daten[name].length > 0);
+        if (!erstesBlatt) {
+          alert('Die Datei enthält keine Daten.');
+          return;
+        }
+        setDateiname(file.name);
+        setTabellen(daten);
+        waehleBlatt(erstesBlatt, daten);
+      } catch {
+        alert('Die Datei konnte nicht gelesen werden. Unterstützt werden XLSX, XLS und CSV.');
+      }
+    };
+    reader.readAsArrayBuffer(file);
+    event.target.value = '';
+  };
+
+  const handleImport = () => {
+    const zeilenImport = [...gueltig];
+    if (nachRaum) {
+      // Stabil nach Geschoss und Raum sortieren, Reihenfolge innerhalb des Raums bleibt erhalten
+      const vergleiche = (a?: string, b?: string) => (a ?? '').localeCompare(b ?? '', 'de');
+      zeilenImport.sort((a, b) => vergleiche(a.raum.geschoss, b.raum.geschoss) || vergleiche(a.raum.raum, b.raum.raum));
+    }
+    addVerbraucherListe(
+      zeilenImport.map((z) => z.verbraucher!),
+      zeilenImport.map((z) => z.raum)
+    );
+    onClose();
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black bg-opacity-50 z-50" onClick={onClose} />
+      <div className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-white rounded-lg shadow-xl z-50 w-[760px] max-w-[95vw] max-h-[85vh] flex flex-col">
+        <div className="p-4 border-b">
+          <h2 className="text-lg font-bold text-gray-800">📥 Verbraucher importieren</h2>
+          <div className="flex gap-3 mt-2 text-xs">
+            {(['datei', 'zuordnung', 'vorschau'] as Schritt[]).map((s, i) => (
+              <span key={s} className={schritt === s ? 'font-semibold text-blue-600' : 'text-gray-400'}>
+                {i + 1}. {s === 'datei' ? 'Datei' : s === 'zuordnung' ? 'Spalten zuordnen' : 'Prüfen & importieren'}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div className="p-4 space-y-3 overflow-y-auto">
+          {schritt === 'datei' && (
+            <>
+              <p className="text-sm text-gray-600">
+                Verbraucherliste (Raumbuch) als Excel- oder CSV-Datei wählen. Eine Zeile je Verbraucher,
+                Spaltenüberschriften werden automatisch erkannt.
+              </p>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="px-3 py-1.5 text-sm border rounded hover:bg-gray-50"
+              >
+                📂 Datei wählen…
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".xlsx,.xls,.csv"
+                onChange={handleFileSelect}
+                className="hidden"
+              />
+              {dateiname && (
+                <div className="space-y-2 text-sm">
+                  <div className="text-gray-700">📄 {dateiname}</div>
+                  {Object.keys(tabellen).length > 1 && (
+                    <div>
+                      <label className="block text-xs text-gray-500 mb-1">Tabellenblatt</label>
+                      <select
+                        value={blatt}
+                        onChange={(e) => waehleBlatt(e.target.value)}
+                        className="px-2 py-1.5 border rounded text-sm"
+                      >
+                        {Object.keys(tabellen).map((name) => (
+                          <option key={name} value={name}>{name} ({tabellen[name].length} Zeilen)</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                  <label className="flex items-center gap-2 text-sm">
+                    <input type="checkbox" checked={mitKopfzeile} onChange={(e) => setMitKopfzeile(e.target.checked)} />
+                    Erste Zeile enthält Spaltenüberschriften
+                  </label>
+                </div>
+              )}
+            </>
+          )}
+
+          {schritt === 'zuordnung' && zuordnung && (
+            <table className="w-full text-sm">
+              <thead className="text-xs text-gray-500">
+                <tr>
+                  <th className="py-1 text-left">Feld</th>
+                  <th className="py-1 text-left">Spalte</th>
+                  <th className="py-1 text-left">Beispiel</th>
+                </tr>
+              </thead>
+              <tbody>
+                {IMPORT_FELDER.map((definition) => {
+                  const index = zuordnung[definition.feld];
+                  const beispiel = index !== null ? tabelle[mitKopfzeile ? 1 : 0]?.[index] : undefined;
+                  return (
+                    <tr key={definition.feld} className="border-t">
+                      <td className="py-1 pr-2">
+                        {definition.bezeichnung}
+                        {definition.pflicht && <span className="text-red-500"> *</span>}
+                      </td>
+                      <td className="py-1 pr-2">
+                        <select
+                          value={index ?? ''}
+                          onChange={(e) =>
+                            setZuordnung({
+                              ...zuordnung,
+                              [definition.feld]: e.target.value === '' ? null : Number(e.target.value),
+                            })
+                          }
+                          className="w-full px-2 py-1 border rounded text-sm"
+                        >
+                          <option value="">– Standardwert –</option>
+                          {spaltenNamen.map((name, i) => (
+                            <option key={i} value={i}>{name}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="py-1 text-xs text-gray-400">{beispiel || '-'}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+
+          {schritt === 'vorschau' && (
+            <>
+              <div className="text-sm">
+                <span className="text-green-600">✓ {gueltig.length} gültig</span>
+                {zeilen.length > gueltig.length && (
+                  <span className="ml-3 text-red-600">✗ {zeilen.length - gueltig.length} fehlerhaft (werden übersprungen)</span>
+                )}
+              </div>
+              <table className="w-full text-xs border">
+                <thead className="bg-gray-50 text-gray-500">
+                  <tr>
+                    <th className="px-2 py-1 text-left border">Zeile</th>
+                    <th className="px-2 py-1 text-left border">Name</th>
+                    <th className="px-2 py-1 text-left border">Raum</th>
+                    <th className="px-2 py-1 text-left border">Typ</th>
+                    <th className="px-2 py-1 text-right border">Leistung</th>
+                    <th className="px-2 py-1 text-left border">Phasen</th>
+                    <th className="px-2 py-1 text-left border">Leitung</th>
+                    <th className="px-2 py-1 text-left border">Meldungen</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {zeilen.map((z) => (
+                    <tr key={z.zeile} className={z.verbraucher ? '' : 'bg-red-50'}>
+                      <td className="px-2 py-1 border">{z.zeile}</td>
+                      <td className="px-2 py-1 border">{z.verbraucher?.name ?? '-'}</td>
+                      <td className="px-2 py-1 border">
+                        {[z.raum.geschoss, z.raum.raum].filter(Boolean).join(' · ') || '-'}
+                      </td>
+                      <td className="px-2 py-1 border">{z.verbraucher?.typ ?? '-'}</td>
+                      <td className="px-2 py-1 border text-right">
+                        {z.verbraucher ? `${z.verbraucher.leistung.toLocaleString('de-AT')} W` : '-'}
+                      </td>
+                      <td className="px-2 py-1 border">{z.verbraucher?.phasen.join(', ') ?? '-'}</td>
+                      <td className="px-2 py-1 border whitespace-nowrap">
+                        {z.verbraucher
+                          ? [
+                              z.verbraucher.leitungsquerschnitt ? `${z.verbraucher.leitungsquerschnitt.toLocaleString('de-AT')} mm²` : null,
+                              z.verbraucher.leitungslaenge ? `${z.verbraucher.leitungslaenge.toLocaleString('de-AT')} m` : null,
+                              z.verbraucher.verlegeart,
+                            ].filter(Boolean).join(' · ')
+                          : '-'}
+                      </td>
+                      <td className="px-2 py-1 border">
+                        {z.fehler.map((f, i) => <div key={i} className="text-red-600">{f}</div>)}
+                        {z.hinweise.map((h, i) => <div key={i} className="text-orange-600">{h}</div>)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={nachRaum} onChange={(e) => setNachRaum(e.target.checked)} />
+                Nach Raum sortiert anlegen (fehlende Geschosse und Räume werden angelegt)
+              </label>
+            </>
+          )}
+        </div>
+
+        <div className="p-4 border-t flex justify-between">
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 bg-gray-200 text-gray-700 text-sm rounded hover:bg-gray-300"
+          >
+            Abbrechen
+          </button>
+          <div className="flex gap-2">
+            {schritt !== 'datei' && (
+              <button
+                onClick={() => setSchritt(schritt === 'vorschau' ? 'zuordnung' : 'datei')}
+                className="px-3 py-1.5 text-sm border rounded hover:bg-gray-50"
+              >
+                ← Zurück
+              </button>
+            )}
+            {schritt === 'datei' && (
+              <button
+                onClick={() => setSchritt('zuordnung')}
+                disabled={tabelle.length === 0}
+                className="px-3 py-1.5 bg-blue-500 text-white text-sm rounded hover:bg-blue-600 disabled:opacity-50"
+              >
+                Weiter →
+              </button>
+            )}
+            {schritt === 'zuordnung' && (
+              <button
+                onClick={() => setSchritt('vorschau')}
+                disabled={zuordnung?.name === null}
+                className="px-3 py-1.5 bg-blue-500 text-white text-sm rounded hover:bg-blue-600 disabled:opacity-50"
+              >
+                Prüfen →
+              </button>
+            )}
+            {schritt === 'vorschau' && (
+              <button
+                onClick={handleImport}
+                disabled={gueltig.length === 0}
+                className="px-3 py-1.5 bg-blue-500 text-white text-sm rounded hover:bg-blue-600 disabled:opacity-50"
+              >
+                {gueltig.length} Verbraucher importieren
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
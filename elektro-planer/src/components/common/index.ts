@@ -1 +1,7 @@
 export { Header } from './Header';
+export { DimensionierungDialog } from './DimensionierungDialog';
+export { PhasenOptimierungDialog } from './PhasenOptimierungDialog';
+export { PruefprotokollDialog } from './PruefprotokollDialog';
+export { KatalogDialog } from './KatalogDialog';
+export { VerbraucherImportDialog } from './VerbraucherImportDialog';
+export { GebaeudeDialog } from './GebaeudeDialog';
@@ -1,6 +1,17 @@
 import React from 'react';
 import type { ElektroComponent, Phase } from '../../types';
 import { PHASE_COLORS } from '../../types';
+import {
+  LS_ICONS,
+  FI_ICONS,
+  FILS_ICONS,
+  NH_ICON,
+  SCHRAUB_ICON,
+  NEOZED_ICONS,
+  SAMMELSCHIENE_ICONS,
+  VERSORGUNG_ICON,
+  ABGANG_ICONS,
+} from './symbolBilder';
 
 interface IconProps {
   width: number;
@@ -13,14 +24,7 @@ interface IconProps {
 // LS-SCHALTER (Leitungsschutzschalter)
 // ==========================================
 export const LSSchalterIcon: React.FC<IconProps> = ({ width, height, polzahl = 1 }) => {
-  const iconMap: Record<number, string> = {
-    1: '/Leitungsschutzschalter 1 polig.png',
-    2: '/Leitungsschutzschalter 2 polig.png',
-    3: '/Leitungsschutzschalter 3 polig.png',
-    4: '/Leitungsschutzschalter 4 polig.png',
-  };
-
-  const iconPath = iconMap[polzahl] || iconMap[1];
+  const iconPath = LS_ICONS[polzahl] || LS_ICONS[1];
 
   return (
     <img
@@ -35,12 +39,7 @@ export const LSSchalterIcon: React.FC<IconProps> = ({ width, height, polzahl = 1
 // FI-SCHALTER (Fehlerstrom-Schutzschalter)
 // ==========================================
 export const FISchalterIcon: React.FC<IconProps> = ({ width, height, polzahl = 4 }) => {
-  const iconMap: Record<number, string> = {
-    2: '/RCD 2 Polig.png',
-    4: '/RCD 4 polig.png',
-  };
-
-  const iconPath = iconMap[polzahl] || iconMap[4];
+  const iconPath = FI_ICONS[polzahl] || FI_ICONS[4];
 
   return (
     <img
@@ -55,14 +54,7 @@ export const FISchalterIcon: React.FC<IconProps> = ({ width, height, polzahl = 4
 // FI/LS-KOMBINATION
 // ==========================================
 export const FILSKombiIcon: React.FC<IconProps> = ({ width, height, polzahl = 2 }) => {
-  const iconMap: Record<number, string> = {
-    1: '/RCDLS 2 polig.png', // 1P+N verwendet 2-polig Icon
-    2: '/RCDLS 2 polig.png',
-    3: '/RCDLS 4polig.png',
-    4: '/RCDLS 4polig.png',
-  };
-
-  const iconPath = iconMap[polzahl] || iconMap[2];
+  const iconPath = FILS_ICONS[polzahl] || FILS_ICONS[2];
 
   return (
     <img
@@ -79,7 +71,7 @@ export const FILSKombiIcon: React.FC<IconProps> = ({ width, height, polzahl = 2
 export const NHSicherungIcon: React.FC<IconProps> = ({ width, height }) => {
   return (
     <img
-      src="/3 fach NH Sicherung.png"
+      src={NH_ICON}
       alt="NH-Sicherung 3-fach"
       style={{ width: `${width}px`, height: `${height}px`, objectFit: 'contain' }}
     />
@@ -92,7 +84,7 @@ export const NHSicherungIcon: React.FC<IconProps> = ({ width, height }) => {
 export const SchraubSicherungIcon: React.FC<IconProps> = ({ width, height }) => {
   return (
     <img
-      src="/Schmelzsicherung 1fach.png"
+      src={SCHRAUB_ICON}
       alt="Schraub-Sicherung 1-fach"
       style={{ width: `${width}px`, height: `${height}px`, objectFit: 'contain' }}
     />
@@ -103,12 +95,7 @@ export const SchraubSicherungIcon: React.FC<IconProps> = ({ width, height }) =>
 // NEOZED-SICHERUNG (1-polig oder 3-polig)
 // ==========================================
 export const NeozedSicherungIcon: React.FC<IconProps> = ({ width, height, polzahl = 1 }) => {
-  const iconMap: Record<number, string> = {
-    1: '/Schmelzsicherung 1fach.png',
-    3: '/Schmelzsicherung 3 Fach.png',
-  };
-
-  const iconPath = iconMap[polzahl] || iconMap[1];
+  const iconPath = NEOZED_ICONS[polzahl] || NEOZED_ICONS[1];
 
   return (
     <img
@@ -123,15 +110,7 @@ export const NeozedSicherungIcon: React.FC<IconProps> = ({ width, height, polzah
 // SAMMELSCHIENE / VERTEILERKLEMME
 // ==========================================
 export const SammelSchieneIcon: React.FC<IconProps & { phase: Phase }> = ({ width, height, phase }) => {
-  const iconMap: Record<Phase, string> = {
-    L1: '/Verteilerklemme L.png',
-    L2: '/Verteilerklemme L.png', // Verwende L-Icon für alle Außenleiter
-    L3: '/Verteilerklemme L.png',
-    N: '/Verteilerklemme N.png',
-    PE: '/Verteilerklemme PE.png',
-  };
-
-  const iconPath = iconMap[phase];
+  const iconPath = SAMMELSCHIENE_ICONS[phase];
 
   return (
     <img
@@ -227,7 +206,7 @@ export const KlemmeIcon: React.FC<IconProps & { phase: Phase }> = ({ width, heig
 export const VersorgungsklemmeIcon: React.FC<IconProps> = ({ width, height }) => {
   return (
     <img
-      src="/Abgangsklemm 5 polig.png"
+      src={VERSORGUNG_ICON}
       alt="Versorgungsklemme 5-polig"
       style={{ width: `${width}px`, height: `${height}px`, objectFit: 'contain' }}
     />
@@ -238,12 +217,7 @@ export const VersorgungsklemmeIcon: React.FC<IconProps> = ({ width, height }) =>
 // ABGANGSKLEMME (3-polig oder 5-polig)
 // ==========================================
 export const AbgangsklemmeIcon: React.FC<IconProps> = ({ width, height, polzahl = 3 }) => {
-  const iconMap: Record<number, string> = {
-    3: '/Abgangsklemm 3 polig.png',
-    5: '/Abgangsklemm 5 polig.png',
-  };
-
-  const iconPath = iconMap[polzahl] || iconMap[3];
+  const iconPath = ABGANG_ICONS[polzahl] || ABGANG_ICONS[3];
 
   return (
     <img
@@ -302,6 +276,65 @@ export const UeberspannungsschutzIcon: React.FC<IconProps & { systemTyp: 'AC' |
   );
 };
 
+// ==========================================
+// PEN-AUFTEILUNG (PEN → N + PE)
+// ==========================================
+export const PenAufteilungIcon: React.FC<IconProps> = ({ width, height }) => {
+  const cx = width / 2;
+  const xN = width * 0.25;
+  const xPE = width * 0.75;
+  const mitte = height * 0.5;
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`}>
+      {/* PEN-Eingang oben */}
+      <line x1={cx} y1={0} x2={cx} y2={mitte} stroke={PHASE_COLORS.PEN} strokeWidth={2} />
+      <circle cx={cx} cy={height * 0.15} r={3} fill={PHASE_COLORS.PEN} stroke="#333" strokeWidth={1} />
+      {/* Klemmkörper */}
+      <rect x={2} y={height * 0.25} width={width - 4} height={height * 0.5} fill="#f5f5f5" stroke="#333" strokeWidth={1.5} rx={2} />
+      {/* Aufteilungspunkt */}
+      <circle cx={cx} cy={mitte} r={2.5} fill="#333" />
+      <line x1={cx} y1={mitte} x2={xN} y2={height * 0.75} stroke={PHASE_COLORS.N} strokeWidth={2} />
+      <line x1={cx} y1={mitte} x2={xPE} y2={height * 0.75} stroke={PHASE_COLORS.PE} strokeWidth={2} />
+      {/* Ausgänge N und PE */}
+      <line x1={xN} y1={height * 0.75} x2={xN} y2={height} stroke={PHASE_COLORS.N} strokeWidth={2} />
+      <line x1={xPE} y1={height * 0.75} x2={xPE} y2={height} stroke={PHASE_COLORS.PE} strokeWidth={2} />
+      <text x={cx} y={height * 0.38} textAnchor="middle" fontSize={6} fill="#666">PEN</text>
+    </svg>
+  );
+};
+
+// ==========================================
+// ISOLATIONSÜBERWACHUNG (IMD)
+// ==========================================
+export const IsolationsueberwachungIcon: React.FC<IconProps & { ansprechwert: number }> = ({ width, height, ansprechwert }) => {
+  const xL1 = width * 0.25;
+  const xL2 = width * 0.75;
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`}>
+      {/* Netzankopplung L1/L2 */}
+      <line x1={xL1} y1={0} x2={xL1} y2={height * 0.2} stroke="#333" strokeWidth={2} />
+      <line x1={xL2} y1={0} x2={xL2} y2={height * 0.2} stroke="#333" strokeWidth={2} />
+
+      {/* Gehäuse */}
+      <rect x={2} y={height * 0.2} width={width - 4} height={height * 0.6} fill="#e0f2f1" stroke="#333" strokeWidth={1.5} rx={2} />
+
+      {/* Messgerät-Symbol: R> im Kreis */}
+      <circle cx={width / 2} cy={height * 0.45} r={Math.min(width, height) * 0.16} fill="white" stroke="#333" strokeWidth={1} />
+      <text x={width / 2} y={height * 0.45 + 3} textAnchor="middle" fontSize={8} fill="#333" fontWeight="bold">R&lt;</text>
+
+      {/* Ansprechwert */}
+      <text x={width / 2} y={height * 0.72} textAnchor="middle" fontSize={6} fill="#666">{ansprechwert}kΩ</text>
+
+      {/* Erdanschluss E */}
+      <line x1={width / 2} y1={height * 0.8} x2={width / 2} y2={height} stroke="#16a34a" strokeWidth={2} />
+
+      <text x={width / 2} y={height * 0.15} textAnchor="middle" fontSize={6} fill="#666">IMD</text>
+    </svg>
+  );
+};
+
 // ==========================================
 // ICON SELECTOR
 // ==========================================
@@ -333,6 +366,10 @@ export const getComponentIcon = (component: ElektroComponent, width: number, hei
       return <AbgangsklemmeIcon width={width} height={height} polzahl={component.polzahl} />;
     case 'ueberspannungsschutz':
       return <UeberspannungsschutzIcon width={width} height={height} systemTyp={component.systemTyp} polzahl={component.polzahl} />;
+    case 'pen-aufteilung':
+      return <PenAufteilungIcon width={width} height={height} />;
+    case 'isolationsueberwachung':
+      return <IsolationsueberwachungIcon width={width} height={height} ansprechwert={component.ansprechwert} />;
     default:
       return null;
   }
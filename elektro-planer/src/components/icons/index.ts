@@ -1 +1,2 @@
 export * from './SchaltplanIcons';
+export * from './symbolBilder';
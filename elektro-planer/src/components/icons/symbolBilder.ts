@@ -0,0 +1,76 @@
+import type { ElektroComponent, Phase } from '../../types';
+
+// ==========================================
+// BILDPFADE DER SYMBOLE
+// ==========================================
+export const LS_ICONS: Record<number, string> = {
+  1: '/Leitungsschutzschalter 1 polig.png',
+  2: '/Leitungsschutzschalter 2 polig.png',
+  3: '/Leitungsschutzschalter 3 polig.png',
+  4: '/Leitungsschutzschalter 4 polig.png',
+};
+
+export const FI_ICONS: Record<number, string> = {
+  2: '/RCD 2 Polig.png',
+  4: '/RCD 4 polig.png',
+};
+
+export const FILS_ICONS: Record<number, string> = {
+  1: '/RCDLS 2 polig.png', // 1P+N verwendet 2-polig Icon
+  2: '/RCDLS 2 polig.png',
+  3: '/RCDLS 4polig.png',
+  4: '/RCDLS 4polig.png',
+};
+
+export const NH_ICON = '/3 fach NH Sicherung.png';
+export const SCHRAUB_ICON = '/Schmelzsicherung 1fach.png';
+
+export const NEOZED_ICONS: Record<number, string> = {
+  1: '/Schmelzsicherung 1fach.png',
+  3: '/Schmelzsicherung 3 Fach.png',
+};
+
+export const SAMMELSCHIENE_ICONS: Record<Phase, string> = {
+  L1: '/Verteilerklemme L.png',
+  L2: '/Verteilerklemme L.png', // Verwende L-Icon für alle Außenleiter
+  L3: '/Verteilerklemme L.png',
+  N: '/Verteilerklemme N.png',
+  PE: '/Verteilerklemme PE.png',
+  PEN: '/Verteilerklemme PE.png', // PEN wie PE (grün-gelb)
+};
+
+export const VERSORGUNG_ICON = '/Abgangsklemm 5 polig.png';
+
+export const ABGANG_ICONS: Record<number, string> = {
+  3: '/Abgangsklemm 3 polig.png',
+  5: '/Abgangsklemm 5 polig.png',
+};
+
+/**
+ * Bildpfad des Symbols einer Komponente.
+ * Liefert null für Symbole, die als SVG gezeichnet werden (Zähler, Schütz, Klemme, SPD).
+ */
+export const getComponentIconSrc = (component: ElektroComponent): string | null => {
+  switch (component.type) {
+    case 'ls-schalter':
+      return LS_ICONS[component.polzahl] || LS_ICONS[1];
+    case 'fi-schalter':
+      return FI_ICONS[component.polzahl] || FI_ICONS[4];
+    case 'fi-ls-kombi':
+      return FILS_ICONS[component.polzahl] || FILS_ICONS[2];
+    case 'nh-sicherung':
+      return NH_ICON;
+    case 'schraub-sicherung':
+      return SCHRAUB_ICON;
+    case 'neozed-sicherung':
+      return NEOZED_ICONS[component.polzahl] || NEOZED_ICONS[1];
+    case 'sammelschiene':
+      return SAMMELSCHIENE_ICONS[component.phase];
+    case 'versorgungsklemme':
+      return VERSORGUNG_ICON;
+    case 'abgangsklemme':
+      return ABGANG_ICONS[component.polzahl] || ABGANG_ICONS[3];
+    default:
+      return null;
+  }
+};
@@ -9,11 +9,14 @@ import type {
   SchraubSicherungParams,
   NeozedSicherungParams,
   SammelSchieneParams,
+  PhasenschieneParams,
   ZaehlerParams,
   SchuetzParams,
   KlemmeParams,
   VersorgungsklemmeParams,
   UeberspannungsschutzParams,
+  IsolationsueberwachungParams,
+  PenAufteilungParams,
   Phase,
   Netzsystem,
   SicherungsKennlinie,
@@ -92,6 +95,16 @@ export const PropertyPanel: React.FC = () => {
             className="w-full px-2 py-1.5 border rounded text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
           />
         </div>
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Betriebsmittelkennzeichen (BMK)</label>
+          <input
+            type="text"
+            value={selectedComponent.bmk ?? ''}
+            onChange={(e) => handleUpdate({ bmk: e.target.value || undefined })}
+            placeholder="z.B. -F1"
+            className="w-full px-2 py-1.5 border rounded text-sm font-mono focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
       </div>
 
       {/* Typ-spezifische Eigenschaften */}
@@ -153,7 +166,8 @@ export const PropertyPanel: React.FC = () => {
                         wire.phase === 'L2' ? '#000000' :
                         wire.phase === 'L3' ? '#808080' :
                         wire.phase === 'N' ? '#3B82F6' :
-                        wire.phase === 'PE' ? '#22C55E' : '#888',
+                        wire.phase === 'PE' ? '#22C55E' :
+                        wire.phase === 'PEN' ? '#0EA5E9' : '#888',
                     }}
                   />
                   <span className="text-gray-600">{terminal}</span>
@@ -196,6 +210,8 @@ function renderTypeSpecificProperties(
       return <NeozedSicherungProperties component={component} onUpdate={handleUpdate} />;
     case 'sammelschiene':
       return <SammelSchieneProperties component={component} onUpdate={handleUpdate} />;
+    case 'phasenschiene':
+      return <PhasenschieneProperties component={component} onUpdate={handleUpdate} />;
     case 'zaehler':
       return <ZaehlerProperties component={component} onUpdate={handleUpdate} />;
     case 'schuetz':
@@ -206,6 +222,10 @@ function renderTypeSpecificProperties(
       return <VersorgungsklemmeProperties component={component} onUpdate={handleUpdate} />;
     case 'ueberspannungsschutz':
       return <UeberspannungsschutzProperties component={component} onUpdate={handleUpdate} />;
+    case 'isolationsueberwachung':
+      return <IsolationsueberwachungProperties component={component} onUpdate={handleUpdate} />;
+    case 'pen-aufteilung':
+      return <PenAufteilungProperties component={component} onUpdate={handleUpdate} />;
     default:
       return null;
   }
@@ -634,6 +654,7 @@ const SammelSchieneProperties: React.FC<{
         { value: 'L3', label: 'L3 (Grau)' },
         { value: 'N', label: 'N (Blau)' },
         { value: 'PE', label: 'PE (Grün/Gelb)' },
+        { value: 'PEN', label: 'PEN (Grün/Gelb, blau markiert)' },
       ]}
       onChange={(v) => onUpdate({ phase: v as Phase })}
     />
@@ -653,6 +674,55 @@ const SammelSchieneProperties: React.FC<{
   </div>
 );
 
+// Phasenschiene (Kammschiene)
+const PhasenschieneProperties: React.FC<{
+  component: PhasenschieneParams;
+  onUpdate: (updates: Partial<PhasenschieneParams>) => void;
+}> = ({ component, onUpdate }) => (
+  <div className="space-y-3">
+    <PropertyInput
+      label="Leiterfolge"
+      value={component.polzahl}
+      options={[
+        { value: 1, label: '1-polig (L)' },
+        { value: 2, label: '1P+N (L, N)' },
+        { value: 3, label: '3-polig (L1, L2, L3)' },
+        { value: 4, label: '3P+N (L1, L2, L3, N)' },
+      ]}
+      onChange={(v) => onUpdate({ polzahl: v })}
+    />
+    <PropertyInput
+      label="Länge"
+      value={component.teilungseinheiten}
+      unit="TE"
+      onChange={(v) => onUpdate({ teilungseinheiten: Math.max(1, Math.round(v)) })}
+    />
+    <PropertyInput
+      label="Bemessungsstrom"
+      value={component.bemessungsStrom}
+      unit="A"
+      options={[
+        { value: 40, label: '40 A' },
+        { value: 63, label: '63 A' },
+        { value: 80, label: '80 A' },
+        { value: 100, label: '100 A' },
+      ]}
+      onChange={(v) => onUpdate({ bemessungsStrom: v })}
+    />
+    <PropertyInput
+      label="Querschnitt"
+      value={component.querschnitt}
+      unit="mm²"
+      options={[
+        { value: 10, label: '10 mm²' },
+        { value: 16, label: '16 mm²' },
+        { value: 25, label: '25 mm²' },
+      ]}
+      onChange={(v) => onUpdate({ querschnitt: v })}
+    />
+  </div>
+);
+
 // Zähler
 const ZaehlerProperties: React.FC<{
   component: ZaehlerParams;
@@ -743,6 +813,7 @@ const KlemmeProperties: React.FC<{
         { value: 'L3', label: 'L3 (Grau)' },
         { value: 'N', label: 'N (Blau)' },
         { value: 'PE', label: 'PE (Grün/Gelb)' },
+        { value: 'PEN', label: 'PEN (Grün/Gelb, blau markiert)' },
       ]}
       onChange={(v) => onUpdate({ phase: v as Phase })}
     />
@@ -788,6 +859,26 @@ const VersorgungsklemmeProperties: React.FC<{
       ]}
       onChange={(v) => onUpdate({ netzsystem: v as Netzsystem })}
     />
+    {(component.netzsystem === 'TN-C' || component.netzsystem === 'TN-C-S') && (
+      <PropertyInput
+        label="Einspeisung"
+        value={component.penLeiter ? 'pen' : 'getrennt'}
+        type="text"
+        options={[
+          { value: 'getrennt', label: '5-Leiter (L1, L2, L3, N, PE)' },
+          { value: 'pen', label: '4-Leiter mit PEN (Aufteilung im Verteiler)' },
+        ]}
+        onChange={(v) => onUpdate({ penLeiter: v === 'pen' ? true : undefined })}
+      />
+    )}
+    {component.netzsystem === 'TT' && (
+      <PropertyInput
+        label="Erderwiderstand RA"
+        value={component.erderwiderstand ?? ''}
+        unit="Ω"
+        onChange={(v) => onUpdate({ erderwiderstand: v > 0 ? v : undefined })}
+      />
+    )}
   </div>
 );
 
@@ -815,6 +906,8 @@ const UeberspannungsschutzProperties: React.FC<{
       unit="V"
       options={[
         { value: 230, label: '230 V' },
+        { value: 275, label: '275 V' },
+        { value: 320, label: '320 V' },
         { value: 400, label: '400 V' },
         { value: 600, label: '600 V' },
         { value: 1000, label: '1000 V' },
@@ -837,5 +930,59 @@ const UeberspannungsschutzProperties: React.FC<{
       ]}
       onChange={(v) => onUpdate({ nennAbleistrom: v })}
     />
+    {component.systemTyp === 'AC' && (
+      <PropertyInput
+        label="Max. Vorsicherung"
+        value={component.maxVorsicherung ?? ''}
+        unit="A"
+        onChange={(v) => onUpdate({ maxVorsicherung: v > 0 ? v : undefined })}
+      />
+    )}
+  </div>
+);
+
+// Isolationsüberwachung (IMD)
+const IsolationsueberwachungProperties: React.FC<{
+  component: IsolationsueberwachungParams;
+  onUpdate: (updates: Partial<IsolationsueberwachungParams>) => void;
+}> = ({ component, onUpdate }) => (
+  <div className="space-y-3">
+    <PropertyInput
+      label="Ansprechwert Alarm"
+      value={component.ansprechwert}
+      unit="kΩ"
+      onChange={(v) => onUpdate({ ansprechwert: v })}
+    />
+    <PropertyInput
+      label="Ansprechwert Vorwarnung"
+      value={component.vorwarnwert}
+      unit="kΩ"
+      onChange={(v) => onUpdate({ vorwarnwert: v })}
+    />
+  </div>
+);
+
+// PEN-Aufteilung
+const PenAufteilungProperties: React.FC<{
+  component: PenAufteilungParams;
+  onUpdate: (updates: Partial<PenAufteilungParams>) => void;
+}> = ({ component, onUpdate }) => (
+  <div className="space-y-3">
+    <PropertyInput
+      label="Max. Querschnitt"
+      value={component.querschnitt}
+      unit="mm²"
+      options={[
+        { value: 10, label: '10 mm²' },
+        { value: 16, label: '16 mm²' },
+        { value: 25, label: '25 mm²' },
+        { value: 35, label: '35 mm²' },
+        { value: 50, label: '50 mm²' },
+      ]}
+      onChange={(v) => onUpdate({ querschnitt: v })}
+    />
+    <p className="text-xs text-gray-500">
+      Nach der Aufteilung N und PE getrennt weiterführen und nicht wieder verbinden.
+    </p>
   </div>
 );
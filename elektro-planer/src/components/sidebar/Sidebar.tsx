@@ -5,6 +5,7 @@ import { PropertyPanel } from './PropertyPanel';
 import { WirePropertyPanel } from './WirePropertyPanel';
 import { VerbraucherPanel } from './VerbraucherPanel';
 import { ValidationPanel } from './ValidationPanel';
+import { VerteilerAuswahl } from './VerteilerAuswahl';
 
 export const Sidebar: React.FC = () => {
   const { ui, setActiveTab } = useStore();
@@ -20,6 +21,9 @@ export const Sidebar: React.FC = () => {
 
   return (
     <div className="w-80 bg-white border-l border-gray-200 flex flex-col h-full">
+      {/* Verteiler-Auswahl (Haupt-/Unterverteiler) */}
+      <VerteilerAuswahl />
+
       {/* Tab-Navigation */}
       <div className="flex border-b">
         {tabs.map((tab) => (
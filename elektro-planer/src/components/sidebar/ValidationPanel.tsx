@@ -1,9 +1,16 @@
 import React, { useState } from 'react';
 import { useStore } from '../../store/useStore';
-import type { ValidationError, StromkreisResult } from '../../types';
+import type { ValidationError, StromkreisResult, KurzschlussWerte } from '../../types';
+import { PhasenOptimierungDialog } from '../common';
+import { getSpannungsfallGrenzwerte, istITSystem, istZuleitungsVerbraucher } from '../../utils/validation';
 
 export const ValidationPanel: React.FC = () => {
-  const { validationResult, runValidation, clearValidation, setSelectedComponent, ui } = useStore();
+  const { verteiler, validationResult, runValidation, clearValidation, setSelectedComponent, ui } = useStore();
+  const spannungsfallGrenzwerte = getSpannungsfallGrenzwerte(verteiler);
+  const [showPhasenOptimierung, setShowPhasenOptimierung] = useState(false);
+  const itSystemMeldungen = validationResult
+    ? [...validationResult.errors, ...validationResult.warnings].filter((e) => e.typ === 'it-system')
+    : [];
 
   const handleRunValidation = () => {
     runValidation();
@@ -103,7 +110,7 @@ export const ValidationPanel: React.FC = () => {
               </div>
               <div className="flex justify-between">
                 <span className="text-gray-600">Max. Spannungsfall:</span>
-                <span className={`font-medium ${validationResult.berechnungen.spannungsfall > 4 ? 'text-red-600' : ''}`}>
+                <span className={`font-medium ${validationResult.berechnungen.spannungsfall > spannungsfallGrenzwerte.endstromkreis ? 'text-red-600' : ''}`}>
                   {validationResult.berechnungen.spannungsfall.toFixed(2)} %
                 </span>
               </div>
@@ -149,9 +156,20 @@ export const ValidationPanel: React.FC = () => {
                   );
                 })}
               </div>
+              <button
+                onClick={() => setShowPhasenOptimierung(true)}
+                className="mt-2 w-full px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+              >
+                ⚖️ Phasen ausgleichen
+              </button>
             </div>
           </div>
 
+          {/* Kurzschlussströme pro Knoten */}
+          {validationResult.berechnungen.kurzschlussstroeme.length > 0 && (
+            <KurzschlussListe kurzschlussstroeme={validationResult.berechnungen.kurzschlussstroeme} />
+          )}
+
           {/* Stromkreis-Ergebnisse */}
           {validationResult.stromkreise && validationResult.stromkreise.length > 0 && (
             <div>
@@ -166,6 +184,30 @@ export const ValidationPanel: React.FC = () => {
             </div>
           )}
 
+          {/* IT-System: Isolationsüberwachung, zweiter Fehler, Neutralleiter */}
+          {istITSystem(verteiler) && (
+            <div>
+              <h4 className="text-xs font-medium text-purple-600 uppercase tracking-wide mb-2">
+                IT-System ({itSystemMeldungen.length})
+              </h4>
+              {itSystemMeldungen.length === 0 ? (
+                <div className="text-xs text-green-700 bg-green-50 border border-green-300 rounded p-2">
+                  ✅ Isolationsüberwachung und Abschaltung beim zweiten Fehler in Ordnung
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {itSystemMeldungen.map((meldung) => (
+                    <ErrorItem
+                      key={meldung.id}
+                      error={meldung}
+                      onClick={() => handleErrorClick(meldung)}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Fehlerliste */}
           {validationResult.errors.length > 0 && (
             <div>
@@ -229,6 +271,10 @@ export const ValidationPanel: React.FC = () => {
           </button>
         </div>
       )}
+
+      {showPhasenOptimierung && (
+        <PhasenOptimierungDialog onClose={() => setShowPhasenOptimierung(false)} />
+      )}
     </div>
   );
 };
@@ -236,7 +282,11 @@ export const ValidationPanel: React.FC = () => {
 // Stromkreis-Item Komponente mit aufklappbaren Details
 const StromkreisItem: React.FC<{ stromkreis: StromkreisResult }> = ({ stromkreis }) => {
   const [isExpanded, setIsExpanded] = useState(false);
-  const { setSelectedVerbraucher } = useStore();
+  const { verteiler, setSelectedVerbraucher } = useStore();
+  const grenzwerte = getSpannungsfallGrenzwerte(verteiler);
+  const spannungsfallGrenzwert = istZuleitungsVerbraucher(stromkreis.verbraucherId)
+    ? grenzwerte.hauptleitung
+    : grenzwerte.endstromkreis;
 
   const getStatusColor = (status: StromkreisResult['status']) => {
     switch (status) {
@@ -315,7 +365,7 @@ const StromkreisItem: React.FC<{ stromkreis: StromkreisResult }> = ({ stromkreis
             {stromkreis.berechnungen.spannungsfall !== undefined && (
               <div className="flex justify-between">
                 <span className="text-gray-600">Spannungsfall:</span>
-                <span className={`font-medium ${stromkreis.berechnungen.spannungsfall > 4 ? 'text-red-600' : ''}`}>
+                <span className={`font-medium ${stromkreis.berechnungen.spannungsfall > spannungsfallGrenzwert ? 'text-red-600' : ''}`}>
                   {stromkreis.berechnungen.spannungsfall.toFixed(2)} %
                 </span>
               </div>
@@ -328,6 +378,22 @@ const StromkreisItem: React.FC<{ stromkreis: StromkreisResult }> = ({ stromkreis
                 </span>
               </div>
             )}
+            {stromkreis.berechnungen.kurzschlussstrom3p !== undefined && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Ik3 max (Schutzeinr.):</span>
+                <span className="font-medium">
+                  {stromkreis.berechnungen.kurzschlussstrom3p.toFixed(2)} kA
+                </span>
+              </div>
+            )}
+            {stromkreis.berechnungen.kurzschlussstrom1p !== undefined && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Ik1 max (Schutzeinr.):</span>
+                <span className="font-medium">
+                  {stromkreis.berechnungen.kurzschlussstrom1p.toFixed(2)} kA
+                </span>
+              </div>
+            )}
           </div>
 
           {/* Fehler und Warnungen */}
@@ -357,6 +423,49 @@ const StromkreisItem: React.FC<{ stromkreis: StromkreisResult }> = ({ stromkreis
   );
 };
 
+// Kurzschlussströme pro Knoten (aufklappbar)
+const KurzschlussListe: React.FC<{ kurzschlussstroeme: KurzschlussWerte[] }> = ({ kurzschlussstroeme }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const { setSelectedComponent } = useStore();
+
+  return (
+    <div className="bg-gray-50 p-3 rounded-lg">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between text-xs font-medium text-gray-500 uppercase tracking-wide"
+      >
+        <span>Kurzschlussströme ({kurzschlussstroeme.length})</span>
+        <span className="text-gray-400">{isExpanded ? '▼' : '▶'}</span>
+      </button>
+
+      {isExpanded && (
+        <table className="w-full mt-2 text-xs">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="text-left font-normal">Knoten</th>
+              <th className="text-right font-normal">Ik3 max</th>
+              <th className="text-right font-normal">Ik1 max</th>
+            </tr>
+          </thead>
+          <tbody>
+            {kurzschlussstroeme.map((werte) => (
+              <tr
+                key={werte.komponenteId}
+                onClick={() => setSelectedComponent(werte.komponenteId)}
+                className="cursor-pointer hover:bg-gray-100"
+              >
+                <td className="truncate max-w-[120px]">{werte.komponenteName}</td>
+                <td className="text-right font-medium">{werte.ik3.toFixed(2)} kA</td>
+                <td className="text-right font-medium">{werte.ik1.toFixed(2)} kA</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
 // Fehler-Item Komponente
 const ErrorItem: React.FC<{
   error: ValidationError;
@@ -5,6 +5,12 @@ import { useStore } from '../../store/useStore';
 import type { Verbraucher, VerbraucherTyp, Phase, Verlegeart, Leitermaterial } from '../../types';
 import { VERBRAUCHER_DEFAULTS, VERFUEGBARE_QUERSCHNITTE, PHASE_COLORS, VERLEGEART_BESCHREIBUNGEN } from '../../types';
 import { detectPhaseForComponent } from '../../utils/circuitGraph';
+import { berechneKabelbelastbarkeit, hatDcFehlerstromerkennungOption } from '../../utils/validation';
+import { DimensionierungDialog } from '../common/DimensionierungDialog';
+import { VerbraucherImportDialog } from '../common/VerbraucherImportDialog';
+import { GebaeudeDialog } from '../common/GebaeudeDialog';
+import { getAlleRaeume, getRaumBezeichnung, RAUM_FI_PFLICHT } from '../../utils/gebaeude';
+import { getKabeltyp, KABELTYPEN } from '../../utils/kabeltypen';
 
 const VERBRAUCHER_ICONS: Record<VerbraucherTyp, string> = {
   licht: '💡',
@@ -16,12 +22,95 @@ const VERBRAUCHER_ICONS: Record<VerbraucherTyp, string> = {
   heizung: '🔥',
   klimaanlage: '❄️',
   wallbox: '🚗',
+  photovoltaik: '☀️',
+  frequenzumrichter: '🌀',
   sonstige: '⚡',
 };
 
+/** Filterwert für Verbraucher ohne Raumzuordnung */
+const OHNE_RAUM = '__ohne-raum';
+
+/**
+ * Auswahl eines Raums aus dem Gebäudemodell (gruppiert nach Geschoss)
+ */
+const RaumSelect: React.FC<{ value: string | undefined; onChange: (raumId: string | undefined) => void; className: string }> = ({
+  value,
+  onChange,
+  className,
+}) => {
+  const gebaeude = useStore((state) => state.gebaeude);
+  const geschosse = getAlleRaeume(gebaeude).reduce((acc, e) => {
+    const titel = gebaeude.length > 1 ? `${e.gebaeude.name} · ${e.geschoss.name}` : e.geschoss.name;
+    const gruppe = acc.find((g) => g.id === e.geschoss.id);
+    if (gruppe) gruppe.raeume.push(e.raum);
+    else acc.push({ id: e.geschoss.id, titel, raeume: [e.raum] });
+    return acc;
+  }, [] as { id: string; titel: string; raeume: { id: string; name: string }[] }[]);
+
+  return (
+    <select value={value ?? ''} onChange={(e) => onChange(e.target.value || undefined)} className={className}>
+      <option value="">-- Kein Raum --</option>
+      {geschosse.map((g) => (
+        <optgroup key={g.id} label={g.titel}>
+          {g.raeume.map((r) => (
+            <option key={r.id} value={r.id}>{r.name}</option>
+          ))}
+        </optgroup>
+      ))}
+    </select>
+  );
+};
+
+/**
+ * Auswahl eines Kabeltyps (gruppiert nach Bauart). Angeboten werden Typen mit
+ * passender Aderzahl und Einzeladern; ein bereits gewählter Typ bleibt sichtbar.
+ */
+const KabeltypSelect: React.FC<{
+  value: string | undefined;
+  adern: number;
+  onChange: (updates: Partial<Verbraucher>) => void;
+  className: string;
+}> = ({ value, adern, onChange, className }) => {
+  const bauarten = KABELTYPEN
+    .filter((k) => k.adern === 1 || k.adern === adern || k.id === value)
+    .reduce((acc, k) => {
+      const gruppe = acc.find((g) => g.bauart === k.bauart);
+      if (gruppe) gruppe.typen.push(k);
+      else acc.push({ bauart: k.bauart, typen: [k] });
+      return acc;
+    }, [] as { bauart: string; typen: typeof KABELTYPEN }[]);
+
+  const handleChange = (id: string) => {
+    const kabeltyp = getKabeltyp(id);
+    onChange(kabeltyp
+      ? { kabeltypId: kabeltyp.id, leitungsquerschnitt: kabeltyp.querschnitt, leitermaterial: kabeltyp.leitermaterial }
+      : { kabeltypId: undefined });
+  };
+
+  return (
+    <select value={value ?? ''} onChange={(e) => handleChange(e.target.value)} className={className}>
+      <option value="">-- Kein Kabeltyp --</option>
+      {bauarten.map((g) => (
+        <optgroup key={g.bauart} label={g.bauart}>
+          {g.typen.map((k) => (
+            <option key={k.id} value={k.id}>
+              {k.bezeichnung} ({k.isolierung}, ⌀ {k.aussendurchmesser} mm)
+            </option>
+          ))}
+        </optgroup>
+      ))}
+    </select>
+  );
+};
+
 export const VerbraucherPanel: React.FC = () => {
-  const { verteiler, addVerbraucher, updateVerbraucher, removeVerbraucher, ui, setSelectedVerbraucher } = useStore();
+  const { verteiler, gebaeude, addVerbraucher, updateVerbraucher, removeVerbraucher, ui, setSelectedVerbraucher } = useStore();
   const [isAdding, setIsAdding] = useState(false);
+  const [showDimensionierung, setShowDimensionierung] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showGebaeude, setShowGebaeude] = useState(false);
+  const [raumFilter, setRaumFilter] = useState('');
+  const [gruppierung, setGruppierung] = useState<'schutz' | 'raum'>('schutz');
   const [newVerbraucher, setNewVerbraucher] = useState<Partial<Verbraucher>>({
     typ: 'steckdose',
     name: '',
@@ -51,7 +140,9 @@ export const VerbraucherPanel: React.FC = () => {
       leitungsquerschnitt: newVerbraucher.leitungsquerschnitt || 2.5,
       verlegeart: newVerbraucher.verlegeart as Verlegeart || 'B1',
       leitermaterial: newVerbraucher.leitermaterial as Leitermaterial || 'kupfer',
+      kabeltypId: newVerbraucher.kabeltypId,
       zugewieseneKomponente: newVerbraucher.zugewieseneKomponente,
+      raumId: newVerbraucher.raumId,
     };
 
     addVerbraucher(verbraucher);
@@ -81,26 +172,109 @@ export const VerbraucherPanel: React.FC = () => {
     });
   };
 
+  const raeume = getAlleRaeume(gebaeude);
+  const gefiltert = verteiler.verbraucher.filter((v) =>
+    !raumFilter ||
+    (raumFilter === OHNE_RAUM ? !raeume.some((e) => e.raum.id === v.raumId) : v.raumId === raumFilter)
+  );
+
   // Gruppiere nach zugewiesener Komponente
-  const groupedVerbraucher = verteiler.verbraucher.reduce((acc, v) => {
+  const groupedVerbraucher = gefiltert.reduce((acc, v) => {
     const key = v.zugewieseneKomponente || 'unassigned';
     if (!acc[key]) acc[key] = [];
     acc[key].push(v);
     return acc;
   }, {} as Record<string, Verbraucher[]>);
 
+  // Gruppiere nach Raum (Reihenfolge wie im Gebäudemodell, Verbraucher ohne Raum zuletzt)
+  const raumGruppen = [
+    ...raeume.map((e) => ({
+      id: e.raum.id,
+      titel: getRaumBezeichnung(gebaeude, e.raum.id) ?? e.raum.name,
+      fiPflicht: !!RAUM_FI_PFLICHT[e.raum.raumart],
+      verbraucher: gefiltert.filter((v) => v.raumId === e.raum.id),
+    })),
+    {
+      id: OHNE_RAUM,
+      titel: 'Ohne Raum',
+      fiPflicht: false,
+      verbraucher: gefiltert.filter((v) => !raeume.some((e) => e.raum.id === v.raumId)),
+    },
+  ].filter((g) => g.verbraucher.length > 0);
+
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
         <h3 className="font-semibold text-gray-700">Verbraucher</h3>
-        <button
-          onClick={() => setIsAdding(true)}
-          className="px-2 py-1 bg-blue-500 text-white text-xs rounded hover:bg-blue-600"
-        >
-          + Hinzufügen
-        </button>
+        <div className="flex gap-1">
+          <button
+            onClick={() => setShowDimensionierung(true)}
+            disabled={verteiler.verbraucher.length === 0}
+            className="px-2 py-1 bg-gray-200 text-gray-700 text-xs rounded hover:bg-gray-300 disabled:opacity-50"
+            title="Alle Stromkreise dimensionieren"
+          >
+            📐 Dimensionieren
+          </button>
+          <button
+            onClick={() => setShowGebaeude(true)}
+            className="px-2 py-1 bg-gray-200 text-gray-700 text-xs rounded hover:bg-gray-300"
+            title="Gebäude, Geschosse und Räume bearbeiten"
+          >
+            🏠 Räume
+          </button>
+          <button
+            onClick={() => setShowImport(true)}
+            className="px-2 py-1 bg-gray-200 text-gray-700 text-xs rounded hover:bg-gray-300"
+            title="Verbraucherliste (Raumbuch) aus Excel/CSV importieren"
+          >
+            📥 Import
+          </button>
+          <button
+            onClick={() => setIsAdding(true)}
+            className="px-2 py-1 bg-blue-500 text-white text-xs rounded hover:bg-blue-600"
+          >
+            + Hinzufügen
+          </button>
+        </div>
       </div>
 
+      {showDimensionierung && (
+        <DimensionierungDialog onClose={() => setShowDimensionierung(false)} />
+      )}
+
+      {showImport && (
+        <VerbraucherImportDialog onClose={() => setShowImport(false)} />
+      )}
+
+      {showGebaeude && (
+        <GebaeudeDialog onClose={() => setShowGebaeude(false)} />
+      )}
+
+      {/* Filter und Gruppierung */}
+      {verteiler.verbraucher.length > 0 && (
+        <div className="flex gap-2">
+          <select
+            value={raumFilter}
+            onChange={(e) => setRaumFilter(e.target.value)}
+            className="flex-1 min-w-0 px-2 py-1 border rounded text-xs"
+          >
+            <option value="">Alle Räume</option>
+            <option value={OHNE_RAUM}>Ohne Raum</option>
+            {raeume.map((e) => (
+              <option key={e.raum.id} value={e.raum.id}>{getRaumBezeichnung(gebaeude, e.raum.id)}</option>
+            ))}
+          </select>
+          <select
+            value={gruppierung}
+            onChange={(e) => setGruppierung(e.target.value as 'schutz' | 'raum')}
+            className="px-2 py-1 border rounded text-xs"
+          >
+            <option value="schutz">nach Abgang</option>
+            <option value="raum">nach Raum</option>
+          </select>
+        </div>
+      )}
+
       {/* Neuer Verbraucher Dialog */}
       {isAdding && (
         <div className="bg-blue-50 p-3 rounded-lg space-y-3">
@@ -130,6 +304,15 @@ export const VerbraucherPanel: React.FC = () => {
             />
           </div>
 
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Raum</label>
+            <RaumSelect
+              value={newVerbraucher.raumId}
+              onChange={(raumId) => setNewVerbraucher({ ...newVerbraucher, raumId })}
+              className="w-full px-2 py-1.5 border rounded text-sm"
+            />
+          </div>
+
           <div>
             <label className="block text-xs text-gray-500 mb-1">Zuweisung</label>
             <select
@@ -225,13 +408,24 @@ export const VerbraucherPanel: React.FC = () => {
             </div>
           </div>
 
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Kabeltyp</label>
+            <KabeltypSelect
+              value={newVerbraucher.kabeltypId}
+              adern={(newVerbraucher.phasen?.length ?? 1) + 2}
+              onChange={(updates) => setNewVerbraucher({ ...newVerbraucher, ...updates })}
+              className="w-full px-2 py-1.5 border rounded text-sm"
+            />
+          </div>
+
           <div className="grid grid-cols-2 gap-2">
             <div>
               <label className="block text-xs text-gray-500 mb-1">Querschnitt (mm²)</label>
               <select
                 value={newVerbraucher.leitungsquerschnitt || ''}
                 onChange={(e) => setNewVerbraucher({ ...newVerbraucher, leitungsquerschnitt: e.target.value ? Number(e.target.value) : undefined })}
-                className="w-full px-2 py-1.5 border rounded text-sm"
+                disabled={!!newVerbraucher.kabeltypId}
+                className="w-full px-2 py-1.5 border rounded text-sm disabled:bg-gray-100"
               >
                 <option value="">-- Auswählen --</option>
                 {VERFUEGBARE_QUERSCHNITTE.map((q) => (
@@ -246,7 +440,8 @@ export const VerbraucherPanel: React.FC = () => {
               <select
                 value={newVerbraucher.leitermaterial || 'kupfer'}
                 onChange={(e) => setNewVerbraucher({ ...newVerbraucher, leitermaterial: e.target.value as Leitermaterial })}
-                className="w-full px-2 py-1.5 border rounded text-sm"
+                disabled={!!newVerbraucher.kabeltypId}
+                className="w-full px-2 py-1.5 border rounded text-sm disabled:bg-gray-100"
               >
                 <option value="kupfer">Kupfer</option>
                 <option value="aluminium">Aluminium</option>
@@ -290,8 +485,25 @@ export const VerbraucherPanel: React.FC = () => {
 
       {/* Verbraucher-Liste */}
       <div className="space-y-4">
+        {/* Nach Raum gruppiert */}
+        {gruppierung === 'raum' && raumGruppen.map((gruppe) => (
+          <div key={gruppe.id}>
+            <h4
+              className={`text-xs font-medium uppercase tracking-wide mb-2 ${gruppe.id === OHNE_RAUM ? 'text-orange-600' : 'text-gray-500'}`}
+              title={gruppe.fiPflicht ? 'Alle Stromkreise benötigen einen FI mit IΔn ≤ 30 mA' : undefined}
+            >
+              {gruppe.fiPflicht && '⚠️ '}{gruppe.titel}
+            </h4>
+            <div className="space-y-2">
+              {gruppe.verbraucher.map((v) => (
+                <VerbraucherItem key={v.id} verbraucher={v} />
+              ))}
+            </div>
+          </div>
+        ))}
+
         {/* Nicht zugewiesene Verbraucher */}
-        {groupedVerbraucher['unassigned']?.length > 0 && (
+        {gruppierung === 'schutz' && groupedVerbraucher['unassigned']?.length > 0 && (
           <div>
             <h4 className="text-xs font-medium text-orange-600 uppercase tracking-wide mb-2">
               ⚠️ Nicht zugewiesen
@@ -305,7 +517,7 @@ export const VerbraucherPanel: React.FC = () => {
         )}
 
         {/* Nach Schutzeinrichtung gruppiert */}
-        {Object.entries(groupedVerbraucher)
+        {gruppierung === 'schutz' && Object.entries(groupedVerbraucher)
           .filter(([key]) => key !== 'unassigned')
           .map(([componentId, verbraucherList]) => {
             const component = verteiler.komponenten.find((c) => c.id === componentId);
@@ -328,6 +540,12 @@ export const VerbraucherPanel: React.FC = () => {
             Noch keine Verbraucher hinzugefügt
           </p>
         )}
+
+        {verteiler.verbraucher.length > 0 && gefiltert.length === 0 && (
+          <p className="text-sm text-gray-400 text-center py-4">
+            Keine Verbraucher in diesem Raum
+          </p>
+        )}
       </div>
     </div>
   );
@@ -335,9 +553,14 @@ export const VerbraucherPanel: React.FC = () => {
 
 // Einzelner Verbraucher
 const VerbraucherItem: React.FC<{ verbraucher: Verbraucher }> = ({ verbraucher }) => {
-  const { ui, setSelectedVerbraucher, updateVerbraucher, removeVerbraucher, verteiler, assignVerbraucherToComponent } = useStore();
+  const { ui, setSelectedVerbraucher, updateVerbraucher, removeVerbraucher, verteiler, gebaeude, assignVerbraucherToComponent } = useStore();
   const [isEditing, setIsEditing] = useState(false);
+  const [showDimensionierung, setShowDimensionierung] = useState(false);
   const isSelected = ui.selectedVerbraucherId === verbraucher.id;
+  const imErdreich = verbraucher.verlegeart === 'D1' || verbraucher.verlegeart === 'D2';
+  const kabelbelastbarkeit = berechneKabelbelastbarkeit(verbraucher);
+  const kabeltyp = getKabeltyp(verbraucher.kabeltypId);
+  const raumBezeichnung = getRaumBezeichnung(gebaeude, verbraucher.raumId);
 
   // Verbraucher können nur Abgangsklemmen zugewiesen werden
   const abgangsklemmen = verteiler.komponenten.filter(
@@ -414,6 +637,9 @@ const VerbraucherItem: React.FC<{ verbraucher: Verbraucher }> = ({ verbraucher }
         <div className="flex-1 min-w-0">
           <div className="text-sm font-medium text-gray-800 truncate">
             {verbraucher.name}
+            {raumBezeichnung && (
+              <span className="ml-1 text-xs font-normal text-gray-400">📍 {raumBezeichnung}</span>
+            )}
           </div>
           <div className="text-xs text-gray-500 flex items-center gap-1">
             <span>{verbraucher.leistung}W</span>
@@ -439,10 +665,14 @@ const VerbraucherItem: React.FC<{ verbraucher: Verbraucher }> = ({ verbraucher }
             <div className="text-xs text-blue-600">
               {verbraucher.leitungslaenge && `${verbraucher.leitungslaenge}m`}
               {verbraucher.leitungslaenge && verbraucher.leitungsquerschnitt && ' • '}
-              {verbraucher.leitungsquerschnitt && `${verbraucher.leitungsquerschnitt}mm²`}
-              {verbraucher.leitungsquerschnitt && verbraucher.leitermaterial && ' • '}
-              {verbraucher.leitermaterial && verbraucher.leitermaterial.charAt(0).toUpperCase() + verbraucher.leitermaterial.slice(1)}
-              {verbraucher.leitermaterial && verbraucher.verlegeart && ' • '}
+              {kabeltyp ? kabeltyp.bezeichnung : (
+                <>
+                  {verbraucher.leitungsquerschnitt && `${verbraucher.leitungsquerschnitt}mm²`}
+                  {verbraucher.leitungsquerschnitt && verbraucher.leitermaterial && ' • '}
+                  {verbraucher.leitermaterial && verbraucher.leitermaterial.charAt(0).toUpperCase() + verbraucher.leitermaterial.slice(1)}
+                </>
+              )}
+              {(kabeltyp || verbraucher.leitermaterial) && verbraucher.verlegeart && ' • '}
               {verbraucher.verlegeart && `${verbraucher.verlegeart}`}
             </div>
           )}
@@ -456,6 +686,16 @@ const VerbraucherItem: React.FC<{ verbraucher: Verbraucher }> = ({ verbraucher }
         >
           ✏️
         </button>
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            setShowDimensionierung(true);
+          }}
+          className="text-gray-400 hover:text-gray-600"
+          title="Stromkreis dimensionieren"
+        >
+          📐
+        </button>
         <button
           onClick={(e) => {
             e.stopPropagation();
@@ -469,9 +709,26 @@ const VerbraucherItem: React.FC<{ verbraucher: Verbraucher }> = ({ verbraucher }
         </button>
       </div>
 
+      {showDimensionierung && (
+        <div onClick={(e) => e.stopPropagation()}>
+          <DimensionierungDialog
+            verbraucherIds={[verbraucher.id]}
+            onClose={() => setShowDimensionierung(false)}
+          />
+        </div>
+      )}
+
       {/* Editing Panel */}
       {isEditing && (
         <div className="mt-3 pt-3 border-t space-y-2" onClick={(e) => e.stopPropagation()}>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Raum</label>
+            <RaumSelect
+              value={verbraucher.raumId}
+              onChange={(raumId) => updateVerbraucher(verbraucher.id, { raumId })}
+              className="w-full px-2 py-1 border rounded text-sm"
+            />
+          </div>
           <div>
             <label className="block text-xs text-gray-500 mb-1">Zuweisung</label>
             <select
@@ -519,6 +776,16 @@ const VerbraucherItem: React.FC<{ verbraucher: Verbraucher }> = ({ verbraucher }
               />
             </div>
           </div>
+          {hatDcFehlerstromerkennungOption(verbraucher.typ) && (
+            <label className="flex items-center gap-2 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={!!verbraucher.dcFehlerstromerkennung}
+                onChange={(e) => updateVerbraucher(verbraucher.id, { dcFehlerstromerkennung: e.target.checked || undefined })}
+              />
+              Integrierte DC-Fehlerstromerkennung (6 mA) – FI Typ A ausreichend
+            </label>
+          )}
           <div className="grid grid-cols-3 gap-2">
             <div>
               <label className="block text-xs text-gray-500 mb-1">cos φ</label>
@@ -549,7 +816,8 @@ const VerbraucherItem: React.FC<{ verbraucher: Verbraucher }> = ({ verbraucher }
               <select
                 value={verbraucher.leitungsquerschnitt || ''}
                 onChange={(e) => updateVerbraucher(verbraucher.id, { leitungsquerschnitt: e.target.value ? Number(e.target.value) : undefined })}
-                className="w-full px-2 py-1 border rounded text-sm"
+                disabled={!!kabeltyp}
+                className="w-full px-2 py-1 border rounded text-sm disabled:bg-gray-100"
               >
                 <option value="">-- Auswählen --</option>
                 {VERFUEGBARE_QUERSCHNITTE.map((q) => (
@@ -560,13 +828,23 @@ const VerbraucherItem: React.FC<{ verbraucher: Verbraucher }> = ({ verbraucher }
               </select>
             </div>
           </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Kabeltyp</label>
+            <KabeltypSelect
+              value={verbraucher.kabeltypId}
+              adern={verbraucher.phasen.length + 2}
+              onChange={(updates) => updateVerbraucher(verbraucher.id, updates)}
+              className="w-full px-2 py-1 border rounded text-sm"
+            />
+          </div>
           <div className="grid grid-cols-2 gap-2">
             <div>
               <label className="block text-xs text-gray-500 mb-1">Leitermaterial</label>
               <select
                 value={verbraucher.leitermaterial || 'kupfer'}
                 onChange={(e) => updateVerbraucher(verbraucher.id, { leitermaterial: e.target.value as Leitermaterial })}
-                className="w-full px-2 py-1 border rounded text-sm"
+                disabled={!!kabeltyp}
+                className="w-full px-2 py-1 border rounded text-sm disabled:bg-gray-100"
               >
                 <option value="kupfer">Kupfer</option>
                 <option value="aluminium">Aluminium</option>
@@ -588,6 +866,56 @@ const VerbraucherItem: React.FC<{ verbraucher: Verbraucher }> = ({ verbraucher }
               </select>
             </div>
           </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Umgebungstemp. (°C)</label>
+              <input
+                type="number"
+                min="-10"
+                max="80"
+                step="1"
+                value={verbraucher.umgebungstemperatur ?? ''}
+                onChange={(e) => updateVerbraucher(verbraucher.id, { umgebungstemperatur: e.target.value ? Number(e.target.value) : undefined })}
+                placeholder={imErdreich ? '20' : '30'}
+                className="w-full px-2 py-1 border rounded text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Häufung (Stromkreise)</label>
+              <input
+                type="number"
+                min="1"
+                step="1"
+                value={verbraucher.haeufung ?? ''}
+                onChange={(e) => updateVerbraucher(verbraucher.id, { haeufung: e.target.value ? Number(e.target.value) : undefined })}
+                placeholder="1"
+                className="w-full px-2 py-1 border rounded text-sm"
+              />
+            </div>
+            {imErdreich && (
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Bodenwärmewid. (K·m/W)</label>
+                <input
+                  type="number"
+                  min="0.5"
+                  max="3"
+                  step="0.1"
+                  value={verbraucher.bodenWaermewiderstand ?? ''}
+                  onChange={(e) => updateVerbraucher(verbraucher.id, { bodenWaermewiderstand: e.target.value ? Number(e.target.value) : undefined })}
+                  placeholder="2.5"
+                  className="w-full px-2 py-1 border rounded text-sm"
+                />
+              </div>
+            )}
+          </div>
+          {kabelbelastbarkeit && (
+            <div className="text-xs text-gray-500">
+              Strombelastbarkeit Iz: {kabelbelastbarkeit.tabellenwert}A
+              {kabelbelastbarkeit.isolierung !== 'PVC' && ` (${kabelbelastbarkeit.isolierung})`}
+              {kabelbelastbarkeit.strombelastbarkeit !== kabelbelastbarkeit.tabellenwert &&
+                ` → ${kabelbelastbarkeit.strombelastbarkeit.toFixed(1)}A (reduziert)`}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { useStore } from '../../store/useStore';
+import type { Verlegeart, Leitermaterial, VerteilerEinspeisung } from '../../types';
+import { VERFUEGBARE_QUERSCHNITTE, VERLEGEART_BESCHREIBUNGEN } from '../../types';
+import { getVerteilerBaum, getNachfolgendeVerteilerIds } from '../../utils/projekt';
+
+// Komponenten-Typen, die einen Unterverteiler speisen können
+const SPEISENDE_TYPEN = ['abgangsklemme', 'ls-schalter', 'fi-ls-kombi', 'nh-sicherung', 'neozed-sicherung', 'schraub-sicherung'];
+
+/**
+ * Auswahl des aktiven Verteilers im Projekt (Hauptverteiler → Unterverteiler)
+ * inkl. Bearbeitung der Zuleitung des aktiven Unterverteilers.
+ */
+export const VerteilerAuswahl: React.FC = () => {
+  const {
+    verteiler,
+    weitereVerteiler,
+    setActiveVerteiler,
+    addUnterverteiler,
+    removeVerteiler,
+    updateEinspeisung,
+  } = useStore();
+  const [showZuleitung, setShowZuleitung] = useState(false);
+
+  const alleVerteiler = [verteiler, ...weitereVerteiler];
+  const baum = getVerteilerBaum(alleVerteiler);
+  const einspeisung = verteiler.einspeisung;
+
+  // Mögliche Quell-Verteiler: alle außer dem aktiven und seinen Unterverteilern
+  const nachfolger = getNachfolgendeVerteilerIds(alleVerteiler, verteiler.id);
+  const moeglicheQuellen = alleVerteiler.filter((v) => v.id !== verteiler.id && !nachfolger.has(v.id));
+
+  const quellVerteiler = alleVerteiler.find((v) => v.id === einspeisung?.quellVerteilerId);
+  const speisendeKomponenten = quellVerteiler?.komponenten.filter((k) => SPEISENDE_TYPEN.includes(k.type)) ?? [];
+
+  const handleEinspeisungUpdate = (updates: Partial<VerteilerEinspeisung>) => {
+    if (!einspeisung) return;
+    updateEinspeisung(verteiler.id, { ...einspeisung, ...updates });
+  };
+
+  const handleQuelleChange = (quellVerteilerId: string) => {
+    if (!quellVerteilerId) {
+      updateEinspeisung(verteiler.id, undefined);
+      return;
+    }
+    updateEinspeisung(verteiler.id, {
+      laenge: 20,
+      querschnitt: 10,
+      verlegeart: 'B2',
+      leitermaterial: 'kupfer',
+      ...einspeisung,
+      quellVerteilerId,
+      quellKomponenteId: undefined,
+    });
+  };
+
+  const handleDelete = () => {
+    if (confirm(`Verteiler "${verteiler.name}" wirklich löschen?`)) {
+      removeVerteiler(verteiler.id);
+    }
+  };
+
+  return (
+    <div className="border-b p-3 space-y-2 bg-gray-50">
+      <div className="flex items-center gap-2">
+        <select
+          value={verteiler.id}
+          onChange={(e) => setActiveVerteiler(e.target.value)}
+          className="flex-1 px-2 py-1.5 border rounded text-sm bg-white"
+          title="Aktiver Verteiler"
+        >
+          {baum.map(({ verteiler: v, tiefe }) => (
+            <option key={v.id} value={v.id}>
+              {'\u00A0\u00A0'.repeat(tiefe)}{tiefe > 0 ? '└ ' : ''}{v.name}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={addUnterverteiler}
+          className="px-2 py-1.5 text-sm text-gray-600 hover:bg-gray-200 rounded"
+          title={`Unterverteiler an "${verteiler.name}" anlegen`}
+        >
+          ➕ UV
+        </button>
+        {alleVerteiler.length > 1 && (
+          <button
+            onClick={handleDelete}
+            className="px-2 py-1.5 text-sm text-red-500 hover:bg-red-50 rounded"
+            title="Aktiven Verteiler löschen"
+          >
+            🗑️
+          </button>
+        )}
+      </div>
+
+      {/* Zuleitung (nur wenn mehrere Verteiler vorhanden) */}
+      {alleVerteiler.length > 1 && (
+        <div>
+          <button
+            onClick={() => setShowZuleitung(!showZuleitung)}
+            className="w-full text-left text-xs text-gray-600 hover:text-gray-800"
+          >
+            {showZuleitung ? '▼' : '▶'} Zuleitung:{' '}
+            {quellVerteiler
+              ? `von ${quellVerteiler.name} (${einspeisung!.querschnitt}mm², ${einspeisung!.laenge}m)`
+              : 'Hauptverteiler (Netzanschluss)'}
+          </button>
+
+          {showZuleitung && (
+            <div className="mt-2 space-y-2">
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Gespeist von</label>
+                <select
+                  value={einspeisung?.quellVerteilerId ?? ''}
+                  onChange={(e) => handleQuelleChange(e.target.value)}
+                  className="w-full px-2 py-1.5 border rounded text-sm bg-white"
+                >
+                  <option value="">Netzanschluss (Hauptverteiler)</option>
+                  {moeglicheQuellen.map((v) => (
+                    <option key={v.id} value={v.id}>{v.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              {einspeisung && (
+                <>
+                  <div>
+                    <label className="block text-xs text-gray-500 mb-1">Abgang im Quell-Verteiler</label>
+                    <select
+                      value={einspeisung.quellKomponenteId ?? ''}
+                      onChange={(e) => handleEinspeisungUpdate({ quellKomponenteId: e.target.value || undefined })}
+                      className="w-full px-2 py-1.5 border rounded text-sm bg-white"
+                    >
+                      <option value="">– nicht zugeordnet –</option>
+                      {speisendeKomponenten.map((k) => (
+                        <option key={k.id} value={k.id}>{k.name}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="block text-xs text-gray-500 mb-1">Länge (m)</label>
+                      <input
+                        type="number"
+                        min={0.1}
+                        step={0.5}
+                        value={einspeisung.laenge}
+                        onChange={(e) => handleEinspeisungUpdate({ laenge: Number(e.target.value) })}
+                        className="w-full px-2 py-1.5 border rounded text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-500 mb-1">Querschnitt</label>
+                      <select
+                        value={einspeisung.querschnitt}
+                        onChange={(e) => handleEinspeisungUpdate({ querschnitt: Number(e.target.value) })}
+                        className="w-full px-2 py-1.5 border rounded text-sm bg-white"
+                      >
+                        {VERFUEGBARE_QUERSCHNITTE.map((q) => (
+                          <option key={q} value={q}>{q} mm²</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-500 mb-1">Material</label>
+                      <select
+                        value={einspeisung.leitermaterial}
+                        onChange={(e) => handleEinspeisungUpdate({ leitermaterial: e.target.value as Leitermaterial })}
+                        className="w-full px-2 py-1.5 border rounded text-sm bg-white"
+                      >
+                        <option value="kupfer">Kupfer</option>
+                        <option value="aluminium">Aluminium</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-500 mb-1">Verlegeart</label>
+                      <select
+                        value={einspeisung.verlegeart}
+                        onChange={(e) => handleEinspeisungUpdate({ verlegeart: e.target.value as Verlegeart })}
+                        className="w-full px-2 py-1.5 border rounded text-sm bg-white"
+                      >
+                        {(Object.keys(VERLEGEART_BESCHREIBUNGEN) as Verlegeart[]).map((art) => (
+                          <option key={art} value={art} title={VERLEGEART_BESCHREIBUNGEN[art]}>{art}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+
+                  <p className="text-xs text-gray-500">
+                    Schleifenimpedanz und Spannungsfall an der Versorgungsklemme werden aus dem
+                    Quell-Verteiler und der Zuleitung berechnet.
+                  </p>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
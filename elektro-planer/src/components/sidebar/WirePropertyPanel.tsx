@@ -2,6 +2,8 @@ import React from 'react';
 import { useStore } from '../../store/useStore';
 import type { Wire, Phase } from '../../types';
 import { PHASE_COLORS } from '../../types';
+import { verlegeLeitung } from '../../utils/leitungsfuehrung';
+import { getBezeichnung } from '../../utils/kennzeichnung';
 
 export const WirePropertyPanel: React.FC = () => {
   const { verteiler, ui, updateWire, removeWire, setSelectedWire } = useStore();
@@ -18,6 +20,11 @@ export const WirePropertyPanel: React.FC = () => {
     updateWire(selectedWire.id, updates);
   };
 
+  const handleRoute = () => {
+    const waypoints = verlegeLeitung(verteiler, selectedWire);
+    if (waypoints) handleUpdate({ waypoints });
+  };
+
   const handleDelete = () => {
     removeWire(selectedWire.id);
     setSelectedWire(null);
@@ -35,14 +42,26 @@ export const WirePropertyPanel: React.FC = () => {
       <div className="bg-gray-50 p-3 rounded text-sm">
         <div className="text-xs text-gray-500 mb-1">Verbindung</div>
         <div className="font-medium">
-          {vonComponent?.name || 'Unbekannt'} ({selectedWire.von.terminal})
+          {vonComponent ? getBezeichnung(vonComponent) : 'Unbekannt'} ({selectedWire.von.terminal})
         </div>
         <div className="text-gray-400 text-center">↓</div>
         <div className="font-medium">
-          {nachComponent?.name || 'Unbekannt'} ({selectedWire.nach.terminal})
+          {nachComponent ? getBezeichnung(nachComponent) : 'Unbekannt'} ({selectedWire.nach.terminal})
         </div>
       </div>
 
+      {/* Leitungsnummer */}
+      <div>
+        <label className="block text-xs text-gray-500 mb-1">Leitungsnummer</label>
+        <input
+          type="number"
+          min={1}
+          value={selectedWire.leitungsnummer ?? ''}
+          onChange={(e) => handleUpdate({ leitungsnummer: e.target.value ? Number(e.target.value) : undefined })}
+          className="w-full px-2 py-1.5 border rounded text-sm focus:ring-1 focus:ring-blue-500"
+        />
+      </div>
+
       {/* Phase/Farbe */}
       <div>
         <label className="block text-xs text-gray-500 mb-1">Phase / Farbe</label>
@@ -56,6 +75,7 @@ export const WirePropertyPanel: React.FC = () => {
           <option value="L3">L3 (Grau)</option>
           <option value="N">N (Blau)</option>
           <option value="PE">PE (Grün/Gelb)</option>
+          <option value="PEN">PEN (Grün/Gelb, blau markiert)</option>
         </select>
         {/* Farb-Vorschau */}
         <div
@@ -143,6 +163,15 @@ export const WirePropertyPanel: React.FC = () => {
 
       <hr className="my-4" />
 
+      {/* Automatische Leitungsführung */}
+      <button
+        onClick={handleRoute}
+        className="w-full px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded hover:bg-gray-200 transition-colors"
+        title="Leitung orthogonal im Bahnenraster verlegen, ohne andere Leitungen zu überlappen"
+      >
+        Automatisch verlegen
+      </button>
+
       {/* Lösch-Button */}
       <button
         onClick={handleDelete}
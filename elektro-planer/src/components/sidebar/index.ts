@@ -3,3 +3,4 @@ export { ComponentLibrary } from './ComponentLibrary';
 export { PropertyPanel } from './PropertyPanel';
 export { VerbraucherPanel } from './VerbraucherPanel';
 export { ValidationPanel } from './ValidationPanel';
+export { VerteilerAuswahl } from './VerteilerAuswahl';
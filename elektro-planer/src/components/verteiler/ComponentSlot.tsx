@@ -9,6 +9,7 @@ interface ComponentSlotProps {
   railIndex: number;
   slotIndex: number;
   isOccupied: boolean;
+  phasenschieneAktiv?: boolean; // Phasenschiene wird gezogen: auch belegte Slots sind Ziel
 }
 
 const TE_WIDTH = 18;
@@ -17,66 +18,49 @@ export const ComponentSlot: React.FC<ComponentSlotProps> = ({
   railIndex,
   slotIndex,
   isOccupied,
+  phasenschieneAktiv = false,
 }) => {
   const { addComponent, moveComponent, verteiler } = useStore();
 
   const [{ isOver, canDrop }, drop] = useDrop<DragItem, void, { isOver: boolean; canDrop: boolean }>(() => ({
     accept: ['component', 'placed-component'],
     canDrop: (item) => {
-      if (isOccupied) return false;
-
-      // Finde die Bibliotheks-Komponente anhand der variantId oder sourceId
-      let libItem = item.variantId
+      // Finde die Bibliotheks-Komponente anhand der variantId oder die verschobene Komponente
+      const libItem = item.variantId
         ? COMPONENT_LIBRARY.find((c) => c.variantId === item.variantId)
         : null;
+      const existingComp = item.sourceId
+        ? verteiler.komponenten.find(k => k.id === item.sourceId)
+        : null;
+      const gezogen = existingComp ?? libItem;
+      if (!gezogen) return !isOccupied;
 
-      // Bei verschobenen Komponenten: Finde die aktuelle Komponente
-      if (item.sourceId) {
-        const existingComp = verteiler.komponenten.find(k => k.id === item.sourceId);
-        if (existingComp) {
-          const endSlot = slotIndex + existingComp.teilungseinheiten;
-          const schiene = verteiler.hutschienen.find((h) => h.index === railIndex);
-          if (!schiene || endSlot > schiene.slots) return false;
+      // Phasenschienen liegen auf den Geräten: sie belegen eine eigene Ebene
+      const istPhasenschiene = gezogen.type === 'phasenschiene';
+      if (isOccupied && !istPhasenschiene) return false;
 
-          const belegteSlots = verteiler.komponenten
-            .filter((k) => k.position.rail === railIndex && k.id !== item.sourceId)
-            .flatMap((k) => {
-              const slots = [];
-              for (let i = 0; i < k.teilungseinheiten; i++) {
-                slots.push(k.position.slot + i);
-              }
-              return slots;
-            });
+      const endSlot = slotIndex + gezogen.teilungseinheiten;
+      const schiene = verteiler.hutschienen.find((h) => h.index === railIndex);
+      if (!schiene || endSlot > schiene.slots) return false;
 
-          for (let i = slotIndex; i < endSlot; i++) {
-            if (belegteSlots.includes(i)) return false;
+      // Prüfe ob alle benötigten Slots der gleichen Ebene frei sind
+      const belegteSlots = verteiler.komponenten
+        .filter((k) =>
+          k.position.rail === railIndex &&
+          k.id !== item.sourceId &&
+          (k.type === 'phasenschiene') === istPhasenschiene
+        )
+        .flatMap((k) => {
+          const slots = [];
+          for (let i = 0; i < k.teilungseinheiten; i++) {
+            slots.push(k.position.slot + i);
           }
-          return true;
-        }
-      }
-
-      // Prüfe ob genug Platz für die neue Komponente
-      if (libItem) {
-        const endSlot = slotIndex + libItem.teilungseinheiten;
-        const schiene = verteiler.hutschienen.find((h) => h.index === railIndex);
-        if (!schiene || endSlot > schiene.slots) return false;
+          return slots;
+        });
 
-        // Prüfe ob alle benötigten Slots frei sind
-        const belegteSlots = verteiler.komponenten
-          .filter((k) => k.position.rail === railIndex)
-          .flatMap((k) => {
-            const slots = [];
-            for (let i = 0; i < k.teilungseinheiten; i++) {
-              slots.push(k.position.slot + i);
-            }
-            return slots;
-          });
-
-        for (let i = slotIndex; i < endSlot; i++) {
-          if (belegteSlots.includes(i)) return false;
-        }
+      for (let i = slotIndex; i < endSlot; i++) {
+        if (belegteSlots.includes(i)) return false;
       }
-
       return true;
     },
     drop: (item) => {
@@ -109,7 +93,7 @@ export const ComponentSlot: React.FC<ComponentSlotProps> = ({
       `}
       style={{
         width: `${TE_WIDTH}px`,
-        pointerEvents: isOccupied ? 'none' : 'auto',
+        pointerEvents: isOccupied && !phasenschieneAktiv ? 'none' : 'auto',
       }}
     />
   );
@@ -196,6 +180,14 @@ function createComponentFromVariant(
         laenge: (libItem.defaultParams as any).laenge || 12,
         querschnitt: (libItem.defaultParams as any).querschnitt || 16,
       };
+    case 'phasenschiene':
+      return {
+        ...baseParams,
+        type: 'phasenschiene',
+        polzahl: (libItem.defaultParams as any).polzahl || 3,
+        bemessungsStrom: (libItem.defaultParams as any).bemessungsStrom || 63,
+        querschnitt: (libItem.defaultParams as any).querschnitt || 10,
+      };
     case 'zaehler':
       return {
         ...baseParams,
@@ -243,6 +235,20 @@ function createComponentFromVariant(
         bemessungsSpannung: (libItem.defaultParams as any).bemessungsSpannung || 400,
         nennAbleistrom: (libItem.defaultParams as any).nennAbleistrom || 20,
         polzahl: (libItem.defaultParams as any).polzahl || 3,
+        maxVorsicherung: (libItem.defaultParams as any).maxVorsicherung,
+      };
+    case 'pen-aufteilung':
+      return {
+        ...baseParams,
+        type: 'pen-aufteilung',
+        querschnitt: (libItem.defaultParams as any).querschnitt || 16,
+      };
+    case 'isolationsueberwachung':
+      return {
+        ...baseParams,
+        type: 'isolationsueberwachung',
+        ansprechwert: (libItem.defaultParams as any).ansprechwert || 50,
+        vorwarnwert: (libItem.defaultParams as any).vorwarnwert || 100,
       };
     default:
       return null;
@@ -1,8 +1,11 @@
 import React from 'react';
+import { useDragLayer } from 'react-dnd';
 import { useStore } from '../../store/useStore';
-import type { Hutschiene as HutschieneType } from '../../types';
+import type { Hutschiene as HutschieneType, DragItem, PhasenschieneParams } from '../../types';
+import { COMPONENT_LIBRARY } from '../../types';
 import { ComponentSlot } from './ComponentSlot';
 import { PlacedComponent } from './PlacedComponent';
+import { PlacedPhasenschiene } from './PlacedPhasenschiene';
 import { TE_WIDTH, COMPONENT_HEIGHT, WIRE_AREA_TOP, WIRE_AREA_BOTTOM, HUTSCHIENE_HORIZONTAL_MARGIN } from '../../utils/constants';
 
 interface HutschieneProps {
@@ -13,8 +16,21 @@ export const Hutschiene: React.FC<HutschieneProps> = ({ hutschiene }) => {
   const { verteiler } = useStore();
 
   const komponenten = verteiler.komponenten.filter(
-    (k) => k.position.rail === hutschiene.index
+    (k) => k.position.rail === hutschiene.index && k.type !== 'phasenschiene'
   );
+  const phasenschienen = verteiler.komponenten.filter(
+    (k): k is PhasenschieneParams => k.position.rail === hutschiene.index && k.type === 'phasenschiene'
+  );
+
+  // Wird gerade eine Phasenschiene gezogen, liegen die Drop-Zonen über den Geräten
+  const phasenschieneAktiv = useDragLayer((monitor) => {
+    const item = monitor.getItem() as DragItem | null;
+    if (!monitor.isDragging() || !item) return false;
+    const typ = item.sourceId
+      ? verteiler.komponenten.find((k) => k.id === item.sourceId)?.type
+      : COMPONENT_LIBRARY.find((c) => c.variantId === item.variantId)?.type;
+    return typ === 'phasenschiene';
+  });
 
   const belegung: (string | null)[] = new Array(hutschiene.slots).fill(null);
   for (const komp of komponenten) {
@@ -78,7 +94,7 @@ export const Hutschiene: React.FC<HutschieneProps> = ({ hutschiene }) => {
             width: `${hutschiene.slots * TE_WIDTH}px`,
             height: `${COMPONENT_HEIGHT}px`,
             top: `${WIRE_AREA_TOP}px`,
-            zIndex: 2,
+            zIndex: phasenschieneAktiv ? 5 : 2,
           }}
         >
           {Array.from({ length: hutschiene.slots }).map((_, slotIndex) => (
@@ -87,6 +103,7 @@ export const Hutschiene: React.FC<HutschieneProps> = ({ hutschiene }) => {
               railIndex={hutschiene.index}
               slotIndex={slotIndex}
               isOccupied={belegung[slotIndex] !== null}
+              phasenschieneAktiv={phasenschieneAktiv}
             />
           ))}
         </div>
@@ -111,6 +128,27 @@ export const Hutschiene: React.FC<HutschieneProps> = ({ hutschiene }) => {
             />
           ))}
         </div>
+
+        {/* Phasenschienen - über den Eingangsklemmen der Geräte */}
+        <div
+          className="absolute"
+          style={{
+            left: `${HUTSCHIENE_HORIZONTAL_MARGIN}px`,
+            width: `${hutschiene.slots * TE_WIDTH}px`,
+            height: `${COMPONENT_HEIGHT}px`,
+            top: `${WIRE_AREA_TOP}px`,
+            zIndex: 4,
+            pointerEvents: 'none',
+          }}
+        >
+          {phasenschienen.map((schiene) => (
+            <PlacedPhasenschiene
+              key={schiene.id}
+              component={schiene}
+              teWidth={TE_WIDTH}
+            />
+          ))}
+        </div>
       </div>
     </div>
   );
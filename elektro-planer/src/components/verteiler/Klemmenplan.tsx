@@ -0,0 +1,67 @@
+import React, { useMemo } from 'react';
+import { useStore } from '../../store/useStore';
+import { PHASE_COLORS } from '../../types';
+import { erstelleKlemmenplan } from '../../utils/klemmenplan';
+
+/**
+ * Klemmenplan aller Abgangsklemmen des aktiven Verteilers – eine Tabelle je Klemmenleiste
+ */
+export const Klemmenplan: React.FC = () => {
+  const verteiler = useStore((state) => state.verteiler);
+  const gebaeude = useStore((state) => state.gebaeude);
+  const klemmenleisten = useMemo(() => erstelleKlemmenplan(verteiler, gebaeude), [verteiler, gebaeude]);
+
+  if (klemmenleisten.length === 0) {
+    return <div className="p-6 text-sm text-gray-400">Keine Abgangsklemmen im Verteiler.</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {klemmenleisten.map((leiste) => (
+        <div key={leiste.komponente.id}>
+          <h3 className="font-semibold text-gray-700 mb-2">
+            {leiste.bezeichnung}
+            <span className="ml-2 text-sm font-normal text-gray-500">
+              {leiste.komponente.name} · {leiste.komponente.polzahl}-polig · max. {leiste.komponente.querschnitt} mm²
+            </span>
+          </h3>
+          <table className="w-full text-sm border">
+            <thead className="bg-gray-50 text-xs text-gray-500">
+              <tr>
+                <th className="px-2 py-1 text-left border">Klemme</th>
+                <th className="px-2 py-1 text-left border">Zuleitung (intern)</th>
+                <th className="px-2 py-1 text-left border">Kabel</th>
+                <th className="px-2 py-1 text-left border">Ader</th>
+                <th className="px-2 py-1 text-left border">Ziel</th>
+                <th className="px-2 py-1 text-left border">Verbraucher</th>
+              </tr>
+            </thead>
+            <tbody>
+              {leiste.zeilen.map((zeile) => (
+                <tr key={zeile.klemme}>
+                  <td className="px-2 py-1 border whitespace-nowrap">
+                    <span
+                      className="inline-block w-2.5 h-2.5 rounded-full mr-1.5 align-middle"
+                      style={{ backgroundColor: PHASE_COLORS[zeile.phase] }}
+                    />
+                    {zeile.klemme}: {zeile.bezeichnung}
+                    {zeile.bezeichnung !== zeile.phase && (
+                      <span className="text-xs text-gray-400"> ({zeile.phase})</span>
+                    )}
+                  </td>
+                  <td className="px-2 py-1 border">
+                    {zeile.zuleitung ?? <span className="text-orange-600">nicht angeschlossen</span>}
+                  </td>
+                  <td className="px-2 py-1 border">{zeile.kabel ?? '-'}</td>
+                  <td className="px-2 py-1 border">{zeile.ader}</td>
+                  <td className="px-2 py-1 border">{zeile.ziel ?? '-'}</td>
+                  <td className="px-2 py-1 border">{zeile.verbraucher ?? <span className="text-gray-400">Reserve</span>}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -1,10 +1,12 @@
 import React from 'react';
 import { useDrag, useDrop } from 'react-dnd';
 import { useStore } from '../../store/useStore';
-import type { ElektroComponent, Phase } from '../../types';
+import type { ElektroComponent, Phase, Wire } from '../../types';
 import { PHASE_COLORS } from '../../types';
 import { getComponentTerminals, type Terminal } from '../../utils/terminals';
+import { verlegeLeitung } from '../../utils/leitungsfuehrung';
 import { getComponentIcon } from '../icons/SchaltplanIcons';
+import { getBezeichnung } from '../../utils/kennzeichnung';
 
 interface PlacedComponentProps {
   component: ElektroComponent;
@@ -24,6 +26,8 @@ const VERBRAUCHER_ICONS: Record<string, string> = {
   heizung: '🔥',
   klimaanlage: '❄️',
   wallbox: '🚗',
+  photovoltaik: '☀️',
+  frequenzumrichter: '🌀',
   sonstige: '⚡',
 };
 
@@ -31,21 +35,25 @@ export const PlacedComponent: React.FC<PlacedComponentProps> = ({
   component,
   teWidth,
 }) => {
-  const { verteiler, ui, setSelectedComponent, removeComponent, setWiringStart, setWiringMode, setActiveTab, addWire, clearWiringWaypoints, assignVerbraucherToComponent } = useStore();
+  const { verteiler, ui, setSelectedComponent, removeComponent, setWiringStart, setWiringMode, setActiveTab, addWire, clearWiringWaypoints, assignVerbraucherToComponent, beginneHistorienSchritt } = useStore();
   const isSelected = ui.selectedComponentId === component.id;
   const componentWidth = component.teilungseinheiten * teWidth - 2;
 
   const [{ isDragging }, drag] = useDrag(() => ({
     type: 'placed-component',
-    item: {
-      type: 'component',
-      componentType: component.type,
-      sourceId: component.id,
+    // Jede Drag-Geste wird ein eigener Undo-Schritt
+    item: () => {
+      beginneHistorienSchritt();
+      return {
+        type: 'component',
+        componentType: component.type,
+        sourceId: component.id,
+      };
     },
     collect: (monitor) => ({
       isDragging: monitor.isDragging(),
     }),
-  }), [component]);
+  }), [component, beginneHistorienSchritt]);
 
   // Drop-Funktionalität für Abgangsklemmen (akzeptiert Verbraucher)
   const [{ isOver, canDrop }, drop] = useDrop(() => ({
@@ -138,7 +146,7 @@ export const PlacedComponent: React.FC<PlacedComponentProps> = ({
     } else if (ui.wiringStart.componentId !== component.id) {
       // Erlaube Verbindungen zwischen allen Phasen (für Klemmen etc.)
       // Die Drahtfarbe wird von der Startphase bestimmt
-      addWire({
+      const wire: Wire = {
         id: crypto.randomUUID(),
         von: ui.wiringStart,
         nach: {
@@ -151,7 +159,12 @@ export const PlacedComponent: React.FC<PlacedComponentProps> = ({
         laenge: 1,
         phase: ui.wiringStart.phase, // Farbe vom Startpunkt
         material: 'Cu',
-      });
+      };
+      // Ohne gesetzte Zwischenpunkte: automatisch im Bahnenraster verlegen
+      if (wire.waypoints.length === 0) {
+        wire.waypoints = verlegeLeitung(verteiler, wire) ?? [];
+      }
+      addWire(wire);
       setWiringStart(null);
       clearWiringWaypoints();
     } else {
@@ -180,13 +193,14 @@ export const PlacedComponent: React.FC<PlacedComponentProps> = ({
   };
 
   const getTooltip = (): string => {
+    const bezeichnung = getBezeichnung(component);
     if (component.type === 'abgangsklemme') {
       const count = component.zugewieseneVerbraucher?.length || 0;
       return count > 0
-        ? `${component.name} - ${count} Verbraucher zugewiesen\n(Verbraucher hierher ziehen zum Zuweisen)`
-        : `${component.name}\n(Verbraucher hierher ziehen zum Zuweisen)`;
+        ? `${bezeichnung} - ${count} Verbraucher zugewiesen\n(Verbraucher hierher ziehen zum Zuweisen)`
+        : `${bezeichnung}\n(Verbraucher hierher ziehen zum Zuweisen)`;
     }
-    return component.name;
+    return bezeichnung;
   };
 
   return (
@@ -231,6 +245,18 @@ export const PlacedComponent: React.FC<PlacedComponentProps> = ({
         {getComponentIcon(component, Math.max(componentWidth - 5, 12), Math.max(COMPONENT_HEIGHT - 35, 35))}
       </div>
 
+      {/* Betriebsmittelkennzeichen */}
+      {component.bmk && (
+        <div
+          className="absolute left-0 right-0 text-center pointer-events-none"
+          style={{ top: '7px', height: '10px' }}
+        >
+          <span className="text-[8px] text-blue-700 font-semibold truncate block leading-[10px] bg-white/70">
+            {component.bmk}
+          </span>
+        </div>
+      )}
+
       <div
         className="absolute left-0 right-0 text-center bg-gray-100 border-t border-gray-300"
         style={{ bottom: '10px', height: '14px' }}
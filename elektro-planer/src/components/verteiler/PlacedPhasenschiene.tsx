@@ -0,0 +1,77 @@
+import React from 'react';
+import { useDrag } from 'react-dnd';
+import { useStore } from '../../store/useStore';
+import type { PhasenschieneParams } from '../../types';
+import { PHASE_COLORS } from '../../types';
+import { getPhasenschienenLeiter } from '../../utils/phasenschiene';
+
+interface PlacedPhasenschieneProps {
+  component: PhasenschieneParams;
+  teWidth: number;
+}
+
+/**
+ * Phasenschiene (Kammschiene) als Balken über den Eingangsklemmen der Geräte.
+ * Jeder Stift ist in der Farbe seines Leiters dargestellt.
+ */
+export const PlacedPhasenschiene: React.FC<PlacedPhasenschieneProps> = ({ component, teWidth }) => {
+  const { ui, setSelectedComponent, setWiringMode, clearWiringWaypoints, setActiveTab, beginneHistorienSchritt } = useStore();
+  const isSelected = ui.selectedComponentId === component.id;
+  const leiter = getPhasenschienenLeiter(component);
+
+  const [{ isDragging }, drag] = useDrag(() => ({
+    type: 'placed-component',
+    // Jede Drag-Geste wird ein eigener Undo-Schritt
+    item: () => {
+      beginneHistorienSchritt();
+      return {
+        type: 'component',
+        componentType: component.type,
+        sourceId: component.id,
+      };
+    },
+    collect: (monitor) => ({
+      isDragging: monitor.isDragging(),
+    }),
+  }), [component, beginneHistorienSchritt]);
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (ui.wiringMode) {
+      setWiringMode(false);
+      clearWiringWaypoints();
+      setActiveTab('komponenten');
+    }
+    setSelectedComponent(component.id);
+  };
+
+  return (
+    <div
+      ref={drag as unknown as React.Ref<HTMLDivElement>}
+      onClick={handleClick}
+      className={`
+        absolute flex rounded-sm cursor-pointer pointer-events-auto
+        bg-amber-200/90 border border-amber-600
+        ${isDragging ? 'opacity-50' : ''}
+        ${isSelected ? 'ring-2 ring-blue-500 ring-offset-1' : ''}
+        ${component.hasError ? 'error-highlight' : ''}
+      `}
+      style={{
+        left: `${component.position.slot * teWidth}px`,
+        width: `${component.teilungseinheiten * teWidth - 2}px`,
+        top: '6px',
+        height: '10px',
+      }}
+      title={`${component.name} - ${component.bemessungsStrom}A, ${component.querschnitt}mm²`}
+    >
+      {Array.from({ length: component.teilungseinheiten }).map((_, stift) => (
+        <div key={stift} className="flex-1 flex justify-center">
+          <div
+            className="rounded-sm"
+            style={{ width: '4px', height: '8px', backgroundColor: PHASE_COLORS[leiter[stift % leiter.length]] }}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useMemo } from 'react';
+import { useStore } from '../../store/useStore';
+import type { StromlaufplanBlatt } from '../../utils/stromlaufplan';
+import { erstelleStromlaufplan } from '../../utils/stromlaufplan';
+
+interface StromlaufplanSvgProps {
+  blatt: StromlaufplanBlatt;
+  y?: number;                   // Versatz beim Stapeln mehrerer Blätter in einem SVG
+}
+
+/**
+ * Zeichnet ein Blatt des Stromlaufplans als eigenständiges SVG.
+ *
+ * WICHTIG: Nur SVG-Elemente verwenden – dieselben Primitive werden für den
+ * PDF-Export direkt mit jsPDF gezeichnet.
+ */
+export const StromlaufplanSvg: React.FC<StromlaufplanSvgProps> = ({ blatt, y }) => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    y={y}
+    width={blatt.breite}
+    height={blatt.hoehe}
+    viewBox={`0 0 ${blatt.breite} ${blatt.hoehe}`}
+    fontFamily="Helvetica, Arial, sans-serif"
+  >
+    <rect x={0} y={0} width={blatt.breite} height={blatt.hoehe} fill="#ffffff" />
+
+    {blatt.rechtecke.map((r, i) => (
+      <rect key={`r${i}`} x={r.x} y={r.y} width={r.breite} height={r.hoehe} fill="none" stroke={r.farbe} strokeWidth={0.8} />
+    ))}
+
+    {blatt.linien.map((l, i) => (
+      <line
+        key={`l${i}`}
+        x1={l.x1}
+        y1={l.y1}
+        x2={l.x2}
+        y2={l.y2}
+        stroke={l.farbe}
+        strokeWidth={l.staerke}
+        strokeDasharray={l.gestrichelt ? '3 2' : undefined}
+      />
+    ))}
+
+    {blatt.punkte.map((p, i) => (
+      <circle
+        key={`p${i}`}
+        cx={p.x}
+        cy={p.y}
+        r={p.radius}
+        fill={p.gefuellt ? p.farbe : '#ffffff'}
+        stroke={p.farbe}
+        strokeWidth={0.8}
+      />
+    ))}
+
+    {blatt.texte.map((t, i) => (
+      <text
+        key={`t${i}`}
+        x={t.x}
+        y={t.y}
+        fontSize={t.groesse}
+        fontWeight={t.fett ? 'bold' : 'normal'}
+        textAnchor={t.anker}
+        fill={t.farbe ?? '#111827'}
+        transform={t.gedreht ? `rotate(-90, ${t.x}, ${t.y})` : undefined}
+      >
+        {t.text}
+      </text>
+    ))}
+  </svg>
+);
+
+/**
+ * Stromlaufplan des aktiven Verteilers – alle Blätter untereinander
+ */
+export const Stromlaufplan: React.FC = () => {
+  const verteiler = useStore((state) => state.verteiler);
+  const blaetter = useMemo(() => erstelleStromlaufplan(verteiler), [verteiler]);
+
+  if (blaetter.length === 0) {
+    return <div className="p-6 text-sm text-gray-400">Keine Komponenten im Verteiler.</div>;
+  }
+
+  return (
+    <div className="flex flex-col gap-6">
+      {blaetter.map((blatt) => (
+        <div key={blatt.nummer} className="shadow-md">
+          <StromlaufplanSvg blatt={blatt} />
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useMemo } from 'react';
+import { useStore } from '../../store/useStore';
+import { getComponentIcon } from '../icons/SchaltplanIcons';
+import { getComponentIconSrc } from '../icons/symbolBilder';
+import type { Uebersichtsschaltplan as UebersichtsschaltplanModell, SchemaSymbol } from '../../utils/uebersichtsschaltplan';
+import { erstelleUebersichtsschaltplan } from '../../utils/uebersichtsschaltplan';
+
+interface UebersichtsschaltplanSvgProps {
+  plan: UebersichtsschaltplanModell;
+}
+
+const renderSymbol = (symbol: SchemaSymbol, index: number) => {
+  const src = getComponentIconSrc(symbol.komponente);
+  if (src) {
+    return (
+      <image
+        key={index}
+        href={encodeURI(src)}
+        x={symbol.x}
+        y={symbol.y}
+        width={symbol.breite}
+        height={symbol.hoehe}
+        preserveAspectRatio="xMidYMid meet"
+      />
+    );
+  }
+  // Als SVG gezeichnete Symbole (Zähler, Schütz, SPD) direkt einbetten
+  return (
+    <g key={index} transform={`translate(${symbol.x}, ${symbol.y})`}>
+      {getComponentIcon(symbol.komponente, symbol.breite, symbol.hoehe)}
+    </g>
+  );
+};
+
+/**
+ * Zeichnet einen Übersichtsschaltplan als eigenständiges SVG.
+ *
+ * WICHTIG: Nur SVG-Elemente verwenden (kein HTML/foreignObject) – das SVG wird
+ * für den PDF-Export als Bild gerastert.
+ */
+export const UebersichtsschaltplanSvg: React.FC<UebersichtsschaltplanSvgProps> = ({ plan }) => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    width={plan.breite}
+    height={plan.hoehe}
+    viewBox={`0 0 ${plan.breite} ${plan.hoehe}`}
+    fontFamily="Helvetica, Arial, sans-serif"
+  >
+    <rect x={0} y={0} width={plan.breite} height={plan.hoehe} fill="#ffffff" />
+
+    {plan.linien.map((l, i) => (
+      <g key={i}>
+        <line x1={l.x1} y1={l.y1} x2={l.x2} y2={l.y2} stroke="#111827" strokeWidth={1.5} />
+        {l.pfeil && (
+          <polygon points={`${l.x2 - 4},${l.y2 - 7} ${l.x2 + 4},${l.y2 - 7} ${l.x2},${l.y2}`} fill="#111827" />
+        )}
+      </g>
+    ))}
+
+    {plan.symbole.map(renderSymbol)}
+
+    {plan.texte.map((t, i) => (
+      <text
+        key={i}
+        x={t.x}
+        y={t.y}
+        fontSize={t.groesse}
+        fontWeight={t.fett ? 'bold' : 'normal'}
+        textAnchor={t.anker}
+        fill={t.farbe ?? '#111827'}
+        transform={t.gedreht ? `rotate(-90, ${t.x}, ${t.y})` : undefined}
+      >
+        {t.text}
+      </text>
+    ))}
+  </svg>
+);
+
+/**
+ * Übersichtsschaltplan des aktiven Verteilers – wird bei jeder Änderung neu erzeugt
+ */
+export const Uebersichtsschaltplan: React.FC = () => {
+  const verteiler = useStore((state) => state.verteiler);
+  const plan = useMemo(() => erstelleUebersichtsschaltplan(verteiler), [verteiler]);
+
+  if (plan.symbole.length === 0) {
+    return (
+      <div className="p-6 text-sm text-gray-400">
+        Keine Versorgungsklemme vorhanden – der Übersichtsschaltplan beginnt an der Einspeisung.
+      </div>
+    );
+  }
+
+  return <UebersichtsschaltplanSvg plan={plan} />;
+};
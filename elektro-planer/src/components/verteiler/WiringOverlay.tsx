@@ -2,13 +2,11 @@ import React, { useRef, useEffect, useState } from 'react';
 import { useStore } from '../../store/useStore';
 import type { Wire, WireWaypoint } from '../../types';
 import { PHASE_COLORS } from '../../types';
-import { getComponentTerminals } from '../../utils/terminals';
+import { getAnschlussBezeichnung } from '../../utils/kennzeichnung';
+import type { TerminalPosition } from '../../utils/leitungsfuehrung';
+import { getComponentTopY, getLaneY, getTerminalPosition as getTerminalPositionImVerteiler } from '../../utils/leitungsfuehrung';
 import {
   TE_WIDTH,
-  COMPONENT_HEIGHT,
-  WIRE_AREA_TOP,
-  WIRE_AREA_BOTTOM,
-  LABEL_HEIGHT,
   RAIL_TOTAL_HEIGHT,
   WIRE_LANES,
   WIRE_LANE_SPACING,
@@ -26,23 +24,6 @@ export const WiringOverlay: React.FC = () => {
   const svgWidth = maxSlots * TE_WIDTH + 2 * HUTSCHIENE_HORIZONTAL_MARGIN + 100;
   const svgHeight = verteiler.hutschienen.length * RAIL_TOTAL_HEIGHT + 50;
 
-  // Berechne die Y-Position der Komponenten-Oberkante für eine Hutschiene
-  const getComponentTopY = (railIndex: number): number => {
-    return railIndex * RAIL_TOTAL_HEIGHT + LABEL_HEIGHT + WIRE_AREA_TOP;
-  };
-
-  // Berechne die Y-Position für eine Drahtbahn
-  const getLaneY = (railIndex: number, position: 'top' | 'bottom', laneIndex: number): number => {
-    const componentTopY = getComponentTopY(railIndex);
-    if (position === 'top') {
-      // Oberhalb der Komponente (von unten nach oben nummeriert)
-      return componentTopY - (laneIndex + 1) * WIRE_LANE_SPACING;
-    } else {
-      // Unterhalb der Komponente (von oben nach unten nummeriert)
-      return componentTopY + COMPONENT_HEIGHT + (laneIndex + 1) * WIRE_LANE_SPACING;
-    }
-  };
-
   // Snap Position zum nächsten Rasterpunkt
   const snapToGrid = (x: number, y: number): { x: number; y: number; railIndex: number; position: 'top' | 'bottom'; laneIndex: number } | null => {
     // Finde die nächste Hutschiene
@@ -95,58 +76,8 @@ export const WiringOverlay: React.FC = () => {
     return () => window.removeEventListener('mousemove', handleMouseMove);
   }, [ui.wiringMode, verteiler.hutschienen.length]);
 
-  const getTerminalPosition = (componentId: string, terminalId: string): { x: number; y: number; position: 'top' | 'bottom'; rail: number } | null => {
-    const component = verteiler.komponenten.find((c) => c.id === componentId);
-    if (!component) return null;
-
-    const terminals = getComponentTerminals(component);
-    const terminal = terminals.find(t => t.id === terminalId);
-
-    const componentWidth = component.teilungseinheiten * TE_WIDTH - 2;
-    const componentX = HUTSCHIENE_HORIZONTAL_MARGIN + component.position.slot * TE_WIDTH;
-    // Verwende die gleiche Berechnung wie getComponentTopY
-    const componentY = getComponentTopY(component.position.rail);
-
-    // Terminal-Offset: In PlacedComponent.tsx sind die Terminals um 6px versetzt
-    const TERMINAL_OFFSET = 6;
-    // Padding: px-1 = 4px auf jeder Seite
-    const TERMINAL_PADDING = 4;
-    // Terminal-Größe (für Zentrierung)
-    const TERMINAL_SIZE = 10;
-
-    if (!terminal) {
-      return {
-        x: componentX + componentWidth / 2,
-        y: componentY + COMPONENT_HEIGHT / 2,
-        position: 'top',
-        rail: component.position.rail,
-      };
-    }
-
-    // Berechne die Terminal-Positionen entsprechend justify-around + px-1
-    // Die Terminals sind in einem Bereich von (componentWidth - 2*TERMINAL_PADDING)
-    // justify-around: gleicher Abstand zwischen allen Elementen, halber Abstand am Rand
-    const samePositionTerminals = terminals.filter(t => t.position === terminal.position);
-    const terminalIndex = samePositionTerminals.findIndex(t => t.id === terminal.id);
-    const numTerminals = samePositionTerminals.length;
-
-    // Verfügbare Breite für Terminals (abzüglich Padding)
-    const availableWidth = componentWidth - 2 * TERMINAL_PADDING;
-
-    // justify-around: Elemente gleichmäßig verteilen mit halbem Abstand am Rand
-    // Position = padding + (index + 0.5) * (availableWidth / numTerminals)
-    const terminalX = componentX + TERMINAL_PADDING + (terminalIndex + 0.5) * (availableWidth / numTerminals);
-
-    return {
-      x: terminalX,
-      // Top-Terminals sind 6px oberhalb, Bottom-Terminals 6px unterhalb der Komponente
-      y: terminal.position === 'top'
-        ? componentY - TERMINAL_OFFSET
-        : componentY + COMPONENT_HEIGHT + TERMINAL_OFFSET,
-      position: terminal.position,
-      rail: component.position.rail,
-    };
-  };
+  const getTerminalPosition = (componentId: string, terminalId: string): TerminalPosition | null =>
+    getTerminalPositionImVerteiler(verteiler, componentId, terminalId);
 
   // Erstelle SVG-Pfad aus Waypoints
   const createPathFromWaypoints = (startX: number, startY: number, waypoints: WireWaypoint[], endX: number, endY: number): string => {
@@ -172,6 +103,11 @@ export const WiringOverlay: React.FC = () => {
 
     const path = createPathFromWaypoints(vonPos.x, vonPos.y, waypoints, nachPos.x, nachPos.y);
 
+    // Tooltip mit Leitungsnummer und Kennzeichen der Anschlüsse, z.B. "Leitung 3: -F1:OUT_L1 → -X2:IN"
+    const tooltip = `${wire.leitungsnummer !== undefined ? `Leitung ${wire.leitungsnummer}: ` : ''}`
+      + `${getAnschlussBezeichnung(verteiler, wire.von)} → ${getAnschlussBezeichnung(verteiler, wire.nach)}`
+      + ` (${wire.phase}, ${wire.querschnitt} mm² ${wire.material})`;
+
     return (
       <g
         key={wire.id}
@@ -179,6 +115,7 @@ export const WiringOverlay: React.FC = () => {
         onClick={(e) => handleWireClick(e, wire.id)}
         style={{ pointerEvents: 'auto' }}
       >
+        <title>{tooltip}</title>
         {/* Highlight für ausgewählten Draht */}
         {isSelected && (
           <path
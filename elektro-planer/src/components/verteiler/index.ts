@@ -1,5 +1,9 @@
 export { Hutschiene } from './Hutschiene';
 export { ComponentSlot } from './ComponentSlot';
 export { PlacedComponent } from './PlacedComponent';
+export { PlacedPhasenschiene } from './PlacedPhasenschiene';
 export { VerteilerCanvas } from './VerteilerCanvas';
 export { WiringOverlay } from './WiringOverlay';
+export { Uebersichtsschaltplan, UebersichtsschaltplanSvg } from './Uebersichtsschaltplan';
+export { Stromlaufplan, StromlaufplanSvg } from './Stromlaufplan';
+export { Klemmenplan } from './Klemmenplan';
@@ -12,29 +12,101 @@ import type {
   ValidationResult,
   Phase,
   Hutschiene,
+  VerteilerEinspeisung,
+  Pruefprotokoll,
+  Pruefmessung,
+  KatalogArtikel,
+  Gebaeude,
+  Geschoss,
+  Raum,
 } from '../types';
-import { validateVerteiler } from '../utils/validation';
-import { updateWireCurrentsInVerteiler } from '../utils/circuitGraph';
+import { validateProjekt, getNachfolgendeVerteilerIds } from '../utils/projekt';
+import type { DimensionierungsVorschlag } from '../utils/dimensionierung';
+import type { PhasenOptimierung } from '../utils/phasenoptimierung';
+import { verlegeAlleLeitungen } from '../utils/leitungsfuehrung';
+import {
+  getNaechsteBmk,
+  getNaechsteLeitungsnummer,
+  nummeriereNeu,
+  aenderePraefixe,
+  ergaenzeKennzeichnung,
+} from '../utils/kennzeichnung';
+import { leeresPruefprotokoll } from '../utils/pruefprotokoll';
+import { getAlleRaeume, ordneRaeumeZu, migriereVerbrauchergruppen } from '../utils/gebaeude';
+
+// ==========================================
+// HISTORIE (UNDO/REDO)
+// ==========================================
+
+/** Maximale Anzahl an Rückgängig-Schritten */
+const HISTORY_LIMIT = 100;
+
+/**
+ * Ein Eintrag im Undo/Redo-Stapel.
+ * Enthält den Verteiler-Zustand VOR (past) bzw. NACH (future) der Aktion.
+ */
+export interface HistoryEntry {
+  label: string;
+  verteiler: Verteiler;
+  weitereVerteiler: Verteiler[];
+  gebaeude: Gebaeude[];
+  coalesceKey?: string;
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
 
 // ==========================================
 // STORE INTERFACE
 // ==========================================
 
 interface AppState {
-  // Verteiler-Daten
+  // Verteiler-Daten (aktiver Verteiler)
   verteiler: Verteiler;
 
+  // Alle übrigen Verteiler des Projekts (Haupt-/Unterverteiler)
+  weitereVerteiler: Verteiler[];
+
+  // Gebäude → Geschosse → Räume des Projekts (verteilerübergreifend)
+  gebaeude: Gebaeude[];
+
   // UI-Zustand
   ui: UIState;
 
   // Validierungsergebnis
   validationResult: ValidationResult | null;
 
+  // Hersteller-Katalog (projektübergreifend, nicht Teil der Historie)
+  katalog: KatalogArtikel[];
+
+  // Undo/Redo-Historie (wird nicht persistiert)
+  history: HistoryState;
+
   // Aktionen - Verteiler
   setVerteiler: (verteiler: Verteiler) => void;
-  updateVerteilerInfo: (info: Partial<Pick<Verteiler, 'name' | 'beschreibung' | 'nennstrom'>>) => void;
+  updateVerteilerInfo: (info: Partial<Pick<Verteiler, 'name' | 'beschreibung' | 'nennstrom' | 'spannungsfallGrenzwerte'>>) => void;
   addHutschiene: () => void;
   removeHutschiene: (index: number) => void;
+  updateBmkPraefixe: (praefixe: Verteiler['bmkPraefixe']) => void;
+  renumberKennzeichnung: () => void;
+
+  // Aktionen - Projekt-Hierarchie
+  addUnterverteiler: () => void;
+  setActiveVerteiler: (id: string) => void;
+  removeVerteiler: (id: string) => void;
+  updateEinspeisung: (verteilerId: string, einspeisung: VerteilerEinspeisung | undefined) => void;
+
+  // Aktionen - Gebäude / Räume
+  addGebaeude: () => void;
+  updateGebaeude: (id: string, updates: Partial<Pick<Gebaeude, 'name'>>) => void;
+  addGeschoss: (gebaeudeId: string) => void;
+  updateGeschoss: (id: string, updates: Partial<Pick<Geschoss, 'name'>>) => void;
+  addRaum: (geschossId: string) => void;
+  updateRaum: (id: string, updates: Partial<Omit<Raum, 'id'>>) => void;
+  moveRaum: (raumId: string, geschossId: string) => void;
+  removeGebaeudeElement: (id: string) => void;
 
   // Aktionen - Komponenten
   addComponent: (component: ElektroComponent) => void;
@@ -44,15 +116,19 @@ interface AppState {
 
   // Aktionen - Verbraucher
   addVerbraucher: (verbraucher: Verbraucher) => void;
+  addVerbraucherListe: (verbraucher: Verbraucher[], raeume?: { raum?: string; geschoss?: string }[]) => void;
   updateVerbraucher: (id: string, updates: Partial<Verbraucher>) => void;
   removeVerbraucher: (id: string) => void;
   assignVerbraucherToComponent: (verbraucherId: string, componentId: string) => void;
+  applyDimensionierung: (vorschlaege: DimensionierungsVorschlag[]) => void;
+  applyPhasenoptimierung: (optimierung: PhasenOptimierung) => void;
 
   // Aktionen - Verdrahtung
   addWire: (wire: Wire) => void;
   updateWire: (id: string, updates: Partial<Wire>) => void;
   removeWire: (id: string) => void;
   clearWires: () => void;
+  routeAllWires: () => void;
   setSelectedWire: (id: string | null) => void;
 
   // Aktionen - UI
@@ -69,14 +145,30 @@ interface AppState {
   setShowErrors: (show: boolean) => void;
   setActiveTab: (tab: UIState['activeTab']) => void;
 
+  // Aktionen - Prüfprotokoll
+  updatePruefprotokoll: (updates: Partial<Omit<Pruefprotokoll, 'messungen'>>) => void;
+  setPruefmessung: (verbraucherId: string, messung: Partial<Pruefmessung>) => void;
+
+  // Aktionen - Katalog
+  importKatalog: (artikel: KatalogArtikel[]) => void;
+  updateKatalogArtikel: (id: string, updates: Partial<KatalogArtikel>) => void;
+  removeKatalogArtikel: (id: string) => void;
+  clearKatalog: () => void;
+
   // Aktionen - Validierung
   runValidation: () => void;
   clearValidation: () => void;
 
   // Aktionen - Projekt
-  loadProject: (project: { verteiler: Verteiler }) => void;
+  loadProject: (project: { verteiler: Verteiler; weitereVerteiler?: Verteiler[]; gebaeude?: Gebaeude[] }) => void;
   resetProject: () => void;
   resetProjectCustom: (config: { slots: number; schienen: number }) => void;
+
+  // Aktionen - Historie
+  undo: () => void;
+  redo: () => void;
+  beginneHistorienSchritt: () => void;
+  clearHistory: () => void;
 }
 
 // ==========================================
@@ -113,6 +205,79 @@ const createCustomVerteiler = (slots: number, schienen: number): Verteiler => ({
   nennstrom: 63,
 });
 
+const initialHistoryState: HistoryState = {
+  past: [],
+  future: [],
+};
+
+/**
+ * Legt den aktuellen Verteiler als Undo-Schritt ab und verwirft den Redo-Stapel.
+ * Muss im selben set()-Aufruf wie die eigentliche Änderung verwendet werden.
+ *
+ * WICHTIG: Aufeinanderfolgende Aufrufe mit gleichem coalesceKey werden zu einem
+ * Schritt zusammengefasst (z.B. Texteingaben in dasselbe Feld), bis beginneHistorienSchritt
+ * aufgerufen wird (z.B. zu Beginn jeder Drag-Geste). Der Snapshot vor der ersten
+ * Änderung bleibt dabei erhalten.
+ */
+const pushHistory = (
+  state: AppState,
+  label: string,
+  coalesceKey?: string
+): Pick<AppState, 'history'> => {
+  const past = state.history.past;
+  const last = past[past.length - 1];
+
+  if (
+    coalesceKey &&
+    last &&
+    last.coalesceKey === coalesceKey &&
+    state.history.future.length === 0
+  ) {
+    return { history: { past, future: [] } };
+  }
+
+  return {
+    history: {
+      past: [
+        ...past,
+        {
+          label,
+          verteiler: state.verteiler,
+          weitereVerteiler: state.weitereVerteiler,
+          gebaeude: state.gebaeude,
+          coalesceKey,
+        },
+      ].slice(-HISTORY_LIMIT),
+      future: [],
+    },
+  };
+};
+
+/**
+ * Wendet eine Änderung auf alle Geschosse aller Gebäude an
+ */
+const mapGeschosse = (gebaeude: Gebaeude[], aendern: (geschoss: Geschoss) => Geschoss): Gebaeude[] =>
+  gebaeude.map((g) => ({ ...g, geschosse: g.geschosse.map(aendern) }));
+
+/**
+ * Entfernt Auswahlen aus dem UI-Zustand, die im wiederhergestellten Verteiler
+ * nicht mehr existieren (nach Undo/Redo).
+ */
+const sanitizeUIState = (ui: UIState, verteiler: Verteiler): UIState => ({
+  ...ui,
+  selectedComponentId: verteiler.komponenten.some((k) => k.id === ui.selectedComponentId)
+    ? ui.selectedComponentId
+    : null,
+  selectedVerbraucherId: verteiler.verbraucher.some((v) => v.id === ui.selectedVerbraucherId)
+    ? ui.selectedVerbraucherId
+    : null,
+  selectedWireId: verteiler.verbindungen.some((w) => w.id === ui.selectedWireId)
+    ? ui.selectedWireId
+    : null,
+  wiringStart: null,
+  wiringWaypoints: [],
+});
+
 const initialUIState: UIState = {
   selectedComponentId: null,
   selectedVerbraucherId: null,
@@ -136,13 +301,21 @@ export const useStore = create<AppState>()(
   persist(
     (set, get) => ({
       verteiler: createEmptyVerteiler(),
+      weitereVerteiler: [],
+      gebaeude: [],
       ui: initialUIState,
       validationResult: null,
+      katalog: [],
+      history: initialHistoryState,
 
       // Verteiler-Aktionen
-      setVerteiler: (verteiler) => set({ verteiler }),
+      setVerteiler: (verteiler) => set((state) => ({
+        ...pushHistory(state, 'Verteiler ersetzen'),
+        verteiler,
+      })),
 
       updateVerteilerInfo: (info) => set((state) => ({
+        ...pushHistory(state, 'Verteiler-Einstellungen ändern', `info:${Object.keys(info).sort().join(',')}`),
         verteiler: { ...state.verteiler, ...info },
       })),
 
@@ -150,6 +323,7 @@ export const useStore = create<AppState>()(
         if (state.verteiler.hutschienen.length >= 5) return state;
         const newIndex = state.verteiler.hutschienen.length;
         return {
+          ...pushHistory(state, 'Hutschiene hinzufügen'),
           verteiler: {
             ...state.verteiler,
             hutschienen: [
@@ -163,6 +337,7 @@ export const useStore = create<AppState>()(
       removeHutschiene: (index) => set((state) => {
         if (state.verteiler.hutschienen.length <= 1) return state;
         return {
+          ...pushHistory(state, 'Hutschiene entfernen'),
           verteiler: {
             ...state.verteiler,
             hutschienen: state.verteiler.hutschienen
@@ -175,15 +350,234 @@ export const useStore = create<AppState>()(
         };
       }),
 
+      // Nur Komponenten mit geändertem Kennbuchstaben erhalten ein neues Kennzeichen,
+      // vollständig neu nummeriert wird nur über renumberKennzeichnung
+      updateBmkPraefixe: (praefixe) => set((state) => ({
+        ...pushHistory(state, 'Kennbuchstaben ändern', 'bmkPraefixe'),
+        verteiler: aenderePraefixe(state.verteiler, praefixe),
+      })),
+
+      renumberKennzeichnung: () => set((state) => ({
+        ...pushHistory(state, 'Kennzeichnung neu nummerieren'),
+        verteiler: { ...state.verteiler, ...nummeriereNeu(state.verteiler) },
+      })),
+
+      // Prüfprotokoll
+      updatePruefprotokoll: (updates) => set((state) => ({
+        ...pushHistory(state, 'Prüfprotokoll bearbeiten', 'pruefprotokoll'),
+        verteiler: {
+          ...state.verteiler,
+          pruefprotokoll: { ...(state.verteiler.pruefprotokoll ?? leeresPruefprotokoll()), ...updates },
+        },
+      })),
+
+      setPruefmessung: (verbraucherId, messung) => set((state) => {
+        const protokoll = state.verteiler.pruefprotokoll ?? leeresPruefprotokoll();
+        return {
+          ...pushHistory(state, 'Messwert eintragen', `pruefmessung-${verbraucherId}`),
+          verteiler: {
+            ...state.verteiler,
+            pruefprotokoll: {
+              ...protokoll,
+              messungen: {
+                ...protokoll.messungen,
+                [verbraucherId]: { ...protokoll.messungen[verbraucherId], ...messung },
+              },
+            },
+          },
+        };
+      }),
+
+      // Projekt-Hierarchie
+      addUnterverteiler: () => set((state) => {
+        const alleVerteiler = [state.verteiler, ...state.weitereVerteiler];
+        const unterverteiler: Verteiler = {
+          ...createEmptyVerteiler(),
+          name: `Unterverteiler ${alleVerteiler.length}`,
+          einspeisung: {
+            quellVerteilerId: state.verteiler.id,
+            laenge: 20,
+            querschnitt: 10,
+            verlegeart: 'B2',
+            leitermaterial: 'kupfer',
+          },
+        };
+        return {
+          ...pushHistory(state, `${unterverteiler.name} anlegen`),
+          verteiler: unterverteiler,
+          weitereVerteiler: alleVerteiler,
+          ui: sanitizeUIState(state.ui, unterverteiler),
+          validationResult: null,
+        };
+      }),
+
+      // Wechsel des aktiven Verteilers ist reine Navigation und erzeugt keinen Undo-Schritt
+      setActiveVerteiler: (id) => set((state) => {
+        if (id === state.verteiler.id) return state;
+        const ziel = state.weitereVerteiler.find((v) => v.id === id);
+        if (!ziel) return state;
+        return {
+          verteiler: ziel,
+          weitereVerteiler: [
+            ...state.weitereVerteiler.filter((v) => v.id !== id),
+            state.verteiler,
+          ],
+          ui: sanitizeUIState(state.ui, ziel),
+          validationResult: null,
+        };
+      }),
+
+      removeVerteiler: (id) => set((state) => {
+        const alleVerteiler = [state.verteiler, ...state.weitereVerteiler];
+        const zuEntfernen = alleVerteiler.find((v) => v.id === id);
+        if (!zuEntfernen || alleVerteiler.length <= 1) return state;
+
+        // Unterverteiler des entfernten Verteilers verlieren ihre Einspeisung
+        const verbleibend = alleVerteiler
+          .filter((v) => v.id !== id)
+          .map((v) => v.einspeisung?.quellVerteilerId === id ? { ...v, einspeisung: undefined } : v);
+
+        const aktiv = verbleibend.find((v) => v.id === state.verteiler.id)
+          ?? verbleibend.find((v) => v.id === zuEntfernen.einspeisung?.quellVerteilerId)
+          ?? verbleibend[0];
+
+        return {
+          ...pushHistory(state, `${zuEntfernen.name} löschen`),
+          verteiler: aktiv,
+          weitereVerteiler: verbleibend.filter((v) => v.id !== aktiv.id),
+          ui: sanitizeUIState(state.ui, aktiv),
+          validationResult: null,
+        };
+      }),
+
+      updateEinspeisung: (verteilerId, einspeisung) => set((state) => {
+        // Zyklen verhindern: Quelle darf weder der Verteiler selbst noch ein Unterverteiler davon sein
+        if (einspeisung) {
+          const nachfolger = getNachfolgendeVerteilerIds([state.verteiler, ...state.weitereVerteiler], verteilerId);
+          if (einspeisung.quellVerteilerId === verteilerId || nachfolger.has(einspeisung.quellVerteilerId)) {
+            return state;
+          }
+        }
+        const aktualisiere = (v: Verteiler): Verteiler =>
+          v.id === verteilerId ? { ...v, einspeisung } : v;
+        return {
+          ...pushHistory(state, 'Zuleitung ändern', `einspeisung:${verteilerId}`),
+          verteiler: aktualisiere(state.verteiler),
+          weitereVerteiler: state.weitereVerteiler.map(aktualisiere),
+        };
+      }),
+
+      // Gebäude / Geschosse / Räume
+      addGebaeude: () => set((state) => ({
+        ...pushHistory(state, 'Gebäude hinzufügen'),
+        gebaeude: [
+          ...state.gebaeude,
+          {
+            id: uuidv4(),
+            name: state.gebaeude.length === 0 ? 'Gebäude' : `Gebäude ${state.gebaeude.length + 1}`,
+            geschosse: [{ id: uuidv4(), name: 'EG', raeume: [] }],
+          },
+        ],
+      })),
+
+      updateGebaeude: (id, updates) => set((state) => ({
+        ...pushHistory(state, 'Gebäude umbenennen', `gebaeude:${id}`),
+        gebaeude: state.gebaeude.map((g) => (g.id === id ? { ...g, ...updates } : g)),
+      })),
+
+      addGeschoss: (gebaeudeId) => set((state) => ({
+        ...pushHistory(state, 'Geschoss hinzufügen'),
+        gebaeude: state.gebaeude.map((g) =>
+          g.id === gebaeudeId
+            ? { ...g, geschosse: [...g.geschosse, { id: uuidv4(), name: 'Neues Geschoss', raeume: [] }] }
+            : g
+        ),
+      })),
+
+      updateGeschoss: (id, updates) => set((state) => ({
+        ...pushHistory(state, 'Geschoss umbenennen', `geschoss:${id}`),
+        gebaeude: mapGeschosse(state.gebaeude, (gs) => (gs.id === id ? { ...gs, ...updates } : gs)),
+      })),
+
+      addRaum: (geschossId) => set((state) => ({
+        ...pushHistory(state, 'Raum hinzufügen'),
+        gebaeude: mapGeschosse(state.gebaeude, (gs) =>
+          gs.id === geschossId
+            ? { ...gs, raeume: [...gs.raeume, { id: uuidv4(), name: 'Neuer Raum', raumart: 'sonstige' }] }
+            : gs
+        ),
+      })),
+
+      updateRaum: (id, updates) => set((state) => ({
+        ...pushHistory(state, 'Raum ändern', `raum:${id}:${Object.keys(updates).sort().join(',')}`),
+        gebaeude: mapGeschosse(state.gebaeude, (gs) => ({
+          ...gs,
+          raeume: gs.raeume.map((r) => (r.id === id ? { ...r, ...updates } : r)),
+        })),
+      })),
+
+      moveRaum: (raumId, geschossId) => set((state) => {
+        const raum = getAlleRaeume(state.gebaeude).find((e) => e.raum.id === raumId)?.raum;
+        if (!raum) return state;
+        return {
+          ...pushHistory(state, `${raum.name} verschieben`),
+          gebaeude: mapGeschosse(state.gebaeude, (gs) => ({
+            ...gs,
+            raeume: gs.id === geschossId
+              ? [...gs.raeume.filter((r) => r.id !== raumId), raum]
+              : gs.raeume.filter((r) => r.id !== raumId),
+          })),
+        };
+      }),
+
+      // Entfernt ein Gebäude, Geschoss oder einen Raum – Verbraucher darin verlieren ihre Raumzuordnung
+      removeGebaeudeElement: (id) => set((state) => {
+        const entfernt = getAlleRaeume(state.gebaeude).filter(
+          (e) => e.gebaeude.id === id || e.geschoss.id === id || e.raum.id === id
+        );
+        const raumIds = new Set(entfernt.map((e) => e.raum.id));
+        const label = state.gebaeude.some((g) => g.id === id)
+          ? 'Gebäude löschen'
+          : entfernt.length === 1 && entfernt[0].raum.id === id ? `${entfernt[0].raum.name} löschen` : 'Geschoss löschen';
+        const bereinige = (v: Verteiler): Verteiler => ({
+          ...v,
+          verbraucher: v.verbraucher.map((vb) =>
+            vb.raumId && raumIds.has(vb.raumId) ? { ...vb, raumId: undefined } : vb
+          ),
+        });
+        return {
+          ...pushHistory(state, label),
+          gebaeude: state.gebaeude
+            .filter((g) => g.id !== id)
+            .map((g) => ({
+              ...g,
+              geschosse: g.geschosse
+                .filter((gs) => gs.id !== id)
+                .map((gs) => ({ ...gs, raeume: gs.raeume.filter((r) => r.id !== id) })),
+            })),
+          verteiler: bereinige(state.verteiler),
+          weitereVerteiler: state.weitereVerteiler.map(bereinige),
+        };
+      }),
+
       // Komponenten-Aktionen
       addComponent: (component) => set((state) => ({
+        ...pushHistory(state, `${component.name} hinzufügen`),
         verteiler: {
           ...state.verteiler,
-          komponenten: [...state.verteiler.komponenten, component],
+          komponenten: [
+            ...state.verteiler.komponenten,
+            { ...component, bmk: component.bmk ?? getNaechsteBmk(state.verteiler, component.type) },
+          ],
         },
       })),
 
       updateComponent: (id, updates) => set((state) => ({
+        ...pushHistory(
+          state,
+          `${state.verteiler.komponenten.find((c) => c.id === id)?.name ?? 'Komponente'} ändern`,
+          `component:${id}:${Object.keys(updates).sort().join(',')}`
+        ),
         verteiler: {
           ...state.verteiler,
           komponenten: state.verteiler.komponenten.map((c) =>
@@ -193,6 +587,10 @@ export const useStore = create<AppState>()(
       })),
 
       removeComponent: (id) => set((state) => ({
+        ...pushHistory(
+          state,
+          `${state.verteiler.komponenten.find((c) => c.id === id)?.name ?? 'Komponente'} löschen`
+        ),
         verteiler: {
           ...state.verteiler,
           komponenten: state.verteiler.komponenten.filter((c) => c.id !== id),
@@ -206,6 +604,11 @@ export const useStore = create<AppState>()(
       })),
 
       moveComponent: (id, position) => set((state) => ({
+        ...pushHistory(
+          state,
+          `${state.verteiler.komponenten.find((c) => c.id === id)?.name ?? 'Komponente'} verschieben`,
+          `move:${id}`
+        ),
         verteiler: {
           ...state.verteiler,
           komponenten: state.verteiler.komponenten.map((c) =>
@@ -216,12 +619,30 @@ export const useStore = create<AppState>()(
 
       // Verbraucher-Aktionen
       addVerbraucher: (verbraucher) => set((state) => ({
+        ...pushHistory(state, `${verbraucher.name} hinzufügen`),
         verteiler: {
           ...state.verteiler,
           verbraucher: [...state.verteiler.verbraucher, verbraucher],
         },
       })),
 
+      // Import aus dem Raumbuch – ein einziger Undo-Schritt für alle Verbraucher.
+      // Raumangaben (je Verbraucher) werden Räumen zugeordnet, fehlende Räume angelegt.
+      addVerbraucherListe: (verbraucher, raeume) => set((state) => {
+        const zuordnung = ordneRaeumeZu(state.gebaeude, raeume ?? []);
+        return {
+          ...pushHistory(state, `${verbraucher.length} Verbraucher importieren`),
+          gebaeude: zuordnung.gebaeude,
+          verteiler: {
+            ...state.verteiler,
+            verbraucher: [
+              ...state.verteiler.verbraucher,
+              ...verbraucher.map((v, i) => (zuordnung.raumIds[i] ? { ...v, raumId: zuordnung.raumIds[i] } : v)),
+            ],
+          },
+        };
+      }),
+
       updateVerbraucher: (id, updates) => set((state) => {
         // Finde den aktuellen Verbraucher um die alte Zuweisung zu kennen
         const currentVerbraucher = state.verteiler.verbraucher.find(v => v.id === id);
@@ -277,6 +698,11 @@ export const useStore = create<AppState>()(
         }
 
         return {
+          ...pushHistory(
+            state,
+            `${currentVerbraucher?.name ?? 'Verbraucher'} ändern`,
+            `verbraucher:${id}:${Object.keys(updates).sort().join(',')}`
+          ),
           verteiler: {
             ...state.verteiler,
             komponenten: updatedKomponenten,
@@ -288,6 +714,10 @@ export const useStore = create<AppState>()(
       }),
 
       removeVerbraucher: (id) => set((state) => ({
+        ...pushHistory(
+          state,
+          `${state.verteiler.verbraucher.find((v) => v.id === id)?.name ?? 'Verbraucher'} löschen`
+        ),
         verteiler: {
           ...state.verteiler,
           verbraucher: state.verteiler.verbraucher.filter((v) => v.id !== id),
@@ -346,6 +776,7 @@ export const useStore = create<AppState>()(
         }
 
         return {
+          ...pushHistory(state, 'Verbraucher zuweisen'),
           verteiler: {
             ...state.verteiler,
             komponenten: updatedKomponenten,
@@ -358,15 +789,68 @@ export const useStore = create<AppState>()(
         };
       }),
 
+      // Alle Vorschläge in einem Schritt übernehmen (ein Undo-Schritt)
+      applyDimensionierung: (vorschlaege) => set((state) => {
+        if (vorschlaege.length === 0) return state;
+
+        const komponentenUpdates = new Map<string, Partial<ElektroComponent>>();
+        const verbraucherUpdates = new Map<string, Partial<Verbraucher>>();
+        for (const vorschlag of vorschlaege) {
+          if (vorschlag.art === 'komponente') {
+            komponentenUpdates.set(vorschlag.id, { ...komponentenUpdates.get(vorschlag.id), ...vorschlag.updates } as Partial<ElektroComponent>);
+          } else {
+            verbraucherUpdates.set(vorschlag.id, { ...verbraucherUpdates.get(vorschlag.id), ...vorschlag.updates });
+          }
+        }
+
+        return {
+          ...pushHistory(state, vorschlaege.length === 1 ? `${vorschlaege[0].name} dimensionieren` : 'Dimensionierung übernehmen'),
+          verteiler: {
+            ...state.verteiler,
+            komponenten: state.verteiler.komponenten.map((k) =>
+              komponentenUpdates.has(k.id) ? { ...k, ...komponentenUpdates.get(k.id) } as ElektroComponent : k
+            ),
+            verbraucher: state.verteiler.verbraucher.map((v) =>
+              verbraucherUpdates.has(v.id) ? { ...v, ...verbraucherUpdates.get(v.id) } : v
+            ),
+          },
+        };
+      }),
+
+      applyPhasenoptimierung: (optimierung) => set((state) => {
+        if (optimierung.verschiebungen.length === 0) return state;
+
+        const wireUpdates = new Map(optimierung.wireUpdates.map((u) => [u.id, u.updates]));
+        const verbraucherUpdates = new Map(optimierung.verbraucherUpdates.map((u) => [u.id, u.updates]));
+
+        return {
+          ...pushHistory(state, 'Phasen ausgleichen'),
+          verteiler: {
+            ...state.verteiler,
+            verbindungen: state.verteiler.verbindungen.map((w) =>
+              wireUpdates.has(w.id) ? { ...w, ...wireUpdates.get(w.id) } : w
+            ),
+            verbraucher: state.verteiler.verbraucher.map((v) =>
+              verbraucherUpdates.has(v.id) ? { ...v, ...verbraucherUpdates.get(v.id) } : v
+            ),
+          },
+        };
+      }),
+
       // Verdrahtungs-Aktionen
       addWire: (wire) => set((state) => ({
+        ...pushHistory(state, 'Leitung verbinden'),
         verteiler: {
           ...state.verteiler,
-          verbindungen: [...state.verteiler.verbindungen, wire],
+          verbindungen: [
+            ...state.verteiler.verbindungen,
+            { ...wire, leitungsnummer: wire.leitungsnummer ?? getNaechsteLeitungsnummer(state.verteiler) },
+          ],
         },
       })),
 
       updateWire: (id, updates) => set((state) => ({
+        ...pushHistory(state, 'Leitung ändern', `wire:${id}:${Object.keys(updates).sort().join(',')}`),
         verteiler: {
           ...state.verteiler,
           verbindungen: state.verteiler.verbindungen.map((w) =>
@@ -376,6 +860,7 @@ export const useStore = create<AppState>()(
       })),
 
       removeWire: (id) => set((state) => ({
+        ...pushHistory(state, 'Leitung löschen'),
         verteiler: {
           ...state.verteiler,
           verbindungen: state.verteiler.verbindungen.filter((w) => w.id !== id),
@@ -384,6 +869,7 @@ export const useStore = create<AppState>()(
       })),
 
       clearWires: () => set((state) => ({
+        ...pushHistory(state, 'Alle Leitungen löschen'),
         verteiler: {
           ...state.verteiler,
           verbindungen: [],
@@ -391,6 +877,22 @@ export const useStore = create<AppState>()(
         ui: { ...state.ui, selectedWireId: null },
       })),
 
+      routeAllWires: () => set((state) => {
+        const verlegt = new Map(verlegeAlleLeitungen(state.verteiler).map((l) => [l.id, l.waypoints]));
+        if (verlegt.size === 0) return state;
+
+        return {
+          ...pushHistory(state, 'Alle Leitungen neu verlegen'),
+          verteiler: {
+            ...state.verteiler,
+            verbindungen: state.verteiler.verbindungen.map((w) => ({
+              ...w,
+              waypoints: verlegt.get(w.id) ?? w.waypoints,
+            })),
+          },
+        };
+      }),
+
       setSelectedWire: (id) => set((state) => ({
         ui: { ...state.ui, selectedWireId: id, selectedComponentId: null, selectedVerbraucherId: null },
       })),
@@ -444,18 +946,35 @@ export const useStore = create<AppState>()(
         ui: { ...state.ui, activeTab: tab },
       })),
 
+      // Katalog
+      // Artikel mit gleicher Hersteller-/Artikelnummer werden ersetzt (Preisaktualisierung)
+      importKatalog: (artikel) => set((state) => {
+        const schluessel = (a: KatalogArtikel) => `${a.hersteller}|${a.artikelnummer}`;
+        const neu = new Set(artikel.map(schluessel));
+        return { katalog: [...state.katalog.filter((a) => !neu.has(schluessel(a))), ...artikel] };
+      }),
+
+      updateKatalogArtikel: (id, updates) => set((state) => ({
+        katalog: state.katalog.map((a) => (a.id === id ? { ...a, ...updates } : a)),
+      })),
+
+      removeKatalogArtikel: (id) => set((state) => ({
+        katalog: state.katalog.filter((a) => a.id !== id),
+      })),
+
+      clearKatalog: () => set({ katalog: [] }),
+
       // Validierung
       runValidation: () => {
         const state = get();
 
-        // Berechne zuerst die Ströme für alle Drähte
-        const verteilerMitStrom = updateWireCurrentsInVerteiler(state.verteiler);
-
-        const result = validateVerteiler(verteilerMitStrom);
+        // Prüfe das gesamte Projekt, damit Zuleitungen und Lasten der
+        // Unterverteiler über alle Ebenen berücksichtigt werden
+        const { result, verbindungen } = validateProjekt([state.verteiler, ...state.weitereVerteiler], state.gebaeude)[state.verteiler.id];
 
         // Markiere Komponenten mit Fehlern
         const errorComponentIds = new Set(result.errors.map((e) => e.komponenteId));
-        const updatedKomponenten = verteilerMitStrom.komponenten.map((c) => ({
+        const updatedKomponenten = state.verteiler.komponenten.map((c) => ({
           ...c,
           hasError: errorComponentIds.has(c.id),
           errorMessages: result.errors
@@ -466,7 +985,9 @@ export const useStore = create<AppState>()(
         set({
           validationResult: result,
           verteiler: {
-            ...verteilerMitStrom,
+            ...state.verteiler,
+            // Drähte mit berechneten Strömen übernehmen
+            verbindungen,
             komponenten: updatedKomponenten,
           },
         });
@@ -485,36 +1006,134 @@ export const useStore = create<AppState>()(
       }),
 
       // Projekt-Aktionen
-      loadProject: (project) => set({
-        verteiler: {
-          ...project.verteiler,
-          // Migration: Füge Standardwerte für neue Felder hinzu, falls sie fehlen
-          verbraucher: project.verteiler.verbraucher.map((v) => ({
-            ...v,
-            verlegeart: v.verlegeart || 'B1',
-            leitermaterial: v.leitermaterial || 'kupfer',
-          })),
-        },
-        validationResult: null,
+      loadProject: (project) => set((state) => {
+        // Migration: Frühere Verbrauchergruppen werden zu Räumen
+        const migriert = migriereVerbrauchergruppen(
+          [project.verteiler, ...(project.weitereVerteiler ?? [])],
+          project.gebaeude ?? []
+        );
+        const [verteiler, ...weitereVerteiler] = migriert.verteiler;
+        return {
+          ...pushHistory(state, 'Projekt laden'),
+          weitereVerteiler: weitereVerteiler.map(ergaenzeKennzeichnung),
+          gebaeude: migriert.gebaeude,
+          verteiler: ergaenzeKennzeichnung({
+            ...verteiler,
+            // Migration: Füge Standardwerte für neue Felder hinzu, falls sie fehlen
+            verbraucher: verteiler.verbraucher.map((v) => ({
+              ...v,
+              verlegeart: v.verlegeart || 'B1',
+              leitermaterial: v.leitermaterial || 'kupfer',
+            })),
+          }),
+          ui: sanitizeUIState(state.ui, project.verteiler),
+          validationResult: null,
+        };
       }),
 
-      resetProject: () => set({
+      resetProject: () => set((state) => ({
+        ...pushHistory(state, 'Neues Projekt'),
+        weitereVerteiler: [],
+        gebaeude: [],
         verteiler: createEmptyVerteiler(),
         ui: initialUIState,
         validationResult: null,
-      }),
+      })),
 
-      resetProjectCustom: (config) => set({
+      resetProjectCustom: (config) => set((state) => ({
+        ...pushHistory(state, 'Neues Projekt'),
+        weitereVerteiler: [],
+        gebaeude: [],
         verteiler: createCustomVerteiler(config.slots, config.schienen),
         ui: initialUIState,
         validationResult: null,
+      })),
+
+      // Historie
+      // WICHTIG: runValidation/clearValidation erzeugen keinen Undo-Schritt, da sie nur
+      // abgeleitete Werte (Fehlermarkierungen, Leitungsströme) setzen.
+      undo: () => set((state) => {
+        const entry = state.history.past[state.history.past.length - 1];
+        if (!entry) return state;
+        return {
+          verteiler: entry.verteiler,
+          weitereVerteiler: entry.weitereVerteiler,
+          gebaeude: entry.gebaeude,
+          ui: sanitizeUIState(state.ui, entry.verteiler),
+          validationResult: null,
+          history: {
+            past: state.history.past.slice(0, -1),
+            future: [
+              {
+                label: entry.label,
+                verteiler: state.verteiler,
+                weitereVerteiler: state.weitereVerteiler,
+                gebaeude: state.gebaeude,
+              },
+              ...state.history.future,
+            ],
+          },
+        };
+      }),
+
+      redo: () => set((state) => {
+        const entry = state.history.future[0];
+        if (!entry) return state;
+        return {
+          verteiler: entry.verteiler,
+          weitereVerteiler: entry.weitereVerteiler,
+          gebaeude: entry.gebaeude,
+          ui: sanitizeUIState(state.ui, entry.verteiler),
+          validationResult: null,
+          history: {
+            past: [
+              ...state.history.past,
+              {
+                label: entry.label,
+                verteiler: state.verteiler,
+                weitereVerteiler: state.weitereVerteiler,
+                gebaeude: state.gebaeude,
+              },
+            ].slice(-HISTORY_LIMIT),
+            future: state.history.future.slice(1),
+          },
+        };
+      }),
+
+      // Beendet das Zusammenfassen: Die nächste Änderung legt einen eigenen Undo-Schritt an
+      beginneHistorienSchritt: () => set((state) => {
+        const last = state.history.past[state.history.past.length - 1];
+        if (!last?.coalesceKey) return state;
+        return {
+          history: {
+            ...state.history,
+            past: [...state.history.past.slice(0, -1), { ...last, coalesceKey: undefined }],
+          },
+        };
       }),
+
+      clearHistory: () => set({ history: initialHistoryState }),
     }),
     {
       name: 'elektro-planer-storage',
+      version: 1,
       partialize: (state) => ({
         verteiler: state.verteiler,
+        weitereVerteiler: state.weitereVerteiler,
+        gebaeude: state.gebaeude,
+        katalog: state.katalog,
       }),
+      // Version 0 → 1: Verbrauchergruppen werden zu Räumen des Gebäudemodells
+      migrate: (persisted, version) => {
+        const gespeichert = persisted as Pick<AppState, 'verteiler' | 'weitereVerteiler' | 'gebaeude' | 'katalog'>;
+        if (version >= 1 || !gespeichert.verteiler) return gespeichert;
+        const migriert = migriereVerbrauchergruppen(
+          [gespeichert.verteiler, ...(gespeichert.weitereVerteiler ?? [])],
+          gespeichert.gebaeude ?? []
+        );
+        const [verteiler, ...weitereVerteiler] = migriert.verteiler;
+        return { ...gespeichert, verteiler, weitereVerteiler, gebaeude: migriert.gebaeude };
+      },
     }
   )
 );
@@ -3,7 +3,7 @@
 // ==========================================
 
 // Phasen-Typen
-export type Phase = 'L1' | 'L2' | 'L3' | 'N' | 'PE';
+export type Phase = 'L1' | 'L2' | 'L3' | 'N' | 'PE' | 'PEN';
 
 // Phasen-Farben gemäß ÖVE-Normen
 export const PHASE_COLORS: Record<Phase, string> = {
@@ -12,6 +12,7 @@ export const PHASE_COLORS: Record<Phase, string> = {
   L3: '#808080', // Grau
   N: '#3B82F6',  // Blau
   PE: '#22C55E', // Grün-Gelb
+  PEN: '#0EA5E9', // Grün-Gelb mit blauer Markierung (Hellblau)
 };
 
 // ==========================================
@@ -26,12 +27,15 @@ export type ComponentType =
   | 'schraub-sicherung'
   | 'neozed-sicherung'
   | 'sammelschiene'
+  | 'phasenschiene'
   | 'zaehler'
   | 'schuetz'
   | 'klemme'
   | 'versorgungsklemme'
   | 'abgangsklemme'
-  | 'ueberspannungsschutz';
+  | 'ueberspannungsschutz'
+  | 'isolationsueberwachung'
+  | 'pen-aufteilung';
 
 // Netzsystem-Typen
 export type Netzsystem = 'TN-C' | 'TN-S' | 'TN-C-S' | 'TT' | 'IT';
@@ -73,6 +77,7 @@ export interface BaseComponentParams {
     slot: number;      // Position auf der Hutschiene (Teilungseinheiten)
   };
   teilungseinheiten: number; // Breite in TE (1 TE = 18mm)
+  bmk?: string;              // Betriebsmittelkennzeichen nach IEC 81346, z.B. "-F1"
   hasError?: boolean;
   errorMessages?: string[];
 }
@@ -131,6 +136,15 @@ export interface SammelSchieneParams extends BaseComponentParams {
   querschnitt: number;          // mm²
 }
 
+// Phasenschiene (Kammschiene) Parameter
+// Liegt auf den Eingangsklemmen der Geräte, teilungseinheiten = Länge der Schiene
+export interface PhasenschieneParams extends BaseComponentParams {
+  type: 'phasenschiene';
+  polzahl: 1 | 2 | 3 | 4;       // 1: L, 2: L+N, 3: L1-L3, 4: L1-L3+N
+  bemessungsStrom: number;      // Bemessungsstrom je Leiter [A]
+  querschnitt: number;          // mm²
+}
+
 // Zähler Parameter
 export interface ZaehlerParams extends BaseComponentParams {
   type: 'zaehler';
@@ -165,8 +179,17 @@ export interface KlemmeParams extends BaseComponentParams {
 export interface VersorgungsklemmeParams extends BaseComponentParams {
   type: 'versorgungsklemme';
   spannung: number;             // Nennspannung [V] (230/400)
-  schleifenimpedanz: number;    // Zs [Ω] Schleifenimpedanz
+  schleifenimpedanz: number;    // Zs [Ω] Schleifenimpedanz (Leiter bei 20 °C)
+  schleifenimpedanzBetriebswarm?: number; // Zs [Ω] mit betriebswarmer Zuleitung (Unterverteiler, wird bei der Projektprüfung gesetzt)
   netzsystem: Netzsystem;       // TN-C, TN-S, TN-C-S, TT, IT
+  erderwiderstand?: number;     // RA [Ω] Anlagenerder inkl. Schutzleiter (nur TT)
+  penLeiter?: boolean;          // Einspeisung als 4-Leiter mit PEN (nur TN-C / TN-C-S)
+}
+
+// PEN-Aufteilungsklemme: trennt den PEN in N und PE (Übergang TN-C → TN-S)
+export interface PenAufteilungParams extends BaseComponentParams {
+  type: 'pen-aufteilung';
+  querschnitt: number;          // max. mm²
 }
 
 // Abgangsklemme Parameter
@@ -185,6 +208,14 @@ export interface UeberspannungsschutzParams extends BaseComponentParams {
   bemessungsSpannung: number;   // Uc [V]
   nennAbleistrom: number;       // In [kA]
   polzahl: 2 | 3;               // 2-polig (DC) oder 3-polig (AC)
+  maxVorsicherung?: number;     // Größte zulässige Vorsicherung laut Hersteller [A]
+}
+
+// Isolationsüberwachungsgerät (IMD, IEC 61557-8) Parameter – nur im IT-System
+export interface IsolationsueberwachungParams extends BaseComponentParams {
+  type: 'isolationsueberwachung';
+  ansprechwert: number;         // Ansprechwert Alarm [kΩ]
+  vorwarnwert: number;          // Ansprechwert Vorwarnung [kΩ]
 }
 
 // Union-Typ für alle Komponenten
@@ -196,12 +227,15 @@ export type ElektroComponent =
   | SchraubSicherungParams
   | NeozedSicherungParams
   | SammelSchieneParams
+  | PhasenschieneParams
   | ZaehlerParams
   | SchuetzParams
   | KlemmeParams
   | VersorgungsklemmeParams
   | AbgangsklemmeParams
-  | UeberspannungsschutzParams;
+  | UeberspannungsschutzParams
+  | IsolationsueberwachungParams
+  | PenAufteilungParams;
 
 // ==========================================
 // VERBRAUCHER
@@ -217,6 +251,8 @@ export type VerbraucherTyp =
   | 'heizung'
   | 'klimaanlage'
   | 'wallbox'
+  | 'photovoltaik'
+  | 'frequenzumrichter'
   | 'sonstige';
 
 export interface Verbraucher {
@@ -228,12 +264,17 @@ export interface Verbraucher {
   phasen: Phase[];              // Angeschlossene Phasen
   gleichzeitigkeitsfaktor: number; // 0-1
   cosPhi: number;               // Leistungsfaktor (0.1 - 1.0), Default: 1.0
-  gruppe?: string;              // Optionale Gruppierung
+  raumId?: string;              // Raum im Gebäudemodell (siehe Gebaeude)
   zugewieseneKomponente?: string; // ID der zugewiesenen Schutzeinrichtung (LS oder Abgangsklemme)
   leitungslaenge?: number;      // Leitungslänge in [m]
   leitungsquerschnitt?: number; // Leitungsquerschnitt in [mm²]
+  kabeltypId?: string;          // Kabeltyp aus KABELTYPEN (bestimmt Querschnitt und Material)
   verlegeart: Verlegeart;       // Verlegeart gemäß ÖVE E 8101
   leitermaterial: Leitermaterial; // Kupfer oder Aluminium
+  umgebungstemperatur?: number; // [°C] Default: 30 °C (Luft) bzw. 20 °C (Erde, D1/D2)
+  haeufung?: number;            // Anzahl gemeinsam verlegter Stromkreise, Default: 1
+  bodenWaermewiderstand?: number; // [K·m/W] nur D1/D2, Default: 2,5
+  dcFehlerstromerkennung?: boolean; // Integrierte DC-Fehlerstromerkennung (RDC-DD 6 mA bzw. RCMU)
 }
 
 // Default-Werte für Verbraucher
@@ -247,6 +288,8 @@ export const VERBRAUCHER_DEFAULTS: Record<VerbraucherTyp, { leistung: number; sp
   heizung: { leistung: 2000, spannung: 230, cosPhi: 1.0 },
   klimaanlage: { leistung: 3000, spannung: 230, cosPhi: 0.85 },
   wallbox: { leistung: 11000, spannung: 400, cosPhi: 0.99 },
+  photovoltaik: { leistung: 10000, spannung: 400, cosPhi: 1.0 },
+  frequenzumrichter: { leistung: 5500, spannung: 400, cosPhi: 0.95 },
   sonstige: { leistung: 1000, spannung: 230, cosPhi: 0.9 },
 };
 
@@ -264,6 +307,82 @@ export const VERLEGEART_BESCHREIBUNGEN: Record<Verlegeart, string> = {
   D2: 'Mehradrige Kabel in Rohr in Erde',
 };
 
+// ==========================================
+// KABELTYPEN
+// ==========================================
+
+// Isolierwerkstoff – bestimmt die zulässige Leitertemperatur
+export type Isolierung = 'PVC' | 'XLPE';
+
+// Zulässige Betriebstemperatur am Leiter [°C]
+export const ISOLIERUNG_GRENZTEMPERATUR: Record<Isolierung, number> = {
+  PVC: 70,
+  XLPE: 90,
+};
+
+export interface Kabeltyp {
+  id: string;                   // z.B. "NYM-J 3x2.5"
+  bauart: string;               // z.B. "NYM-J", "NYY-J", "H07V-K"
+  bezeichnung: string;          // z.B. "NYM-J 3×2,5"
+  adern: number;                // 1 = Einzelader
+  querschnitt: number;          // [mm²]
+  leitermaterial: Leitermaterial;
+  isolierung: Isolierung;
+  aussendurchmesser: number;    // [mm]
+  reaktanz: number;             // Induktiver Blindwiderstand je Leiter bei 50 Hz [Ω/km]
+}
+
+// ==========================================
+// GEBÄUDE / GESCHOSSE / RÄUME
+// ==========================================
+
+// Raumart – bestimmt raumbezogene Anforderungen (z.B. FI-Schutz im Bad)
+export type Raumart =
+  | 'wohnraum'
+  | 'schlafraum'
+  | 'kueche'
+  | 'bad'
+  | 'wc'
+  | 'flur'
+  | 'keller'
+  | 'technik'
+  | 'garage'
+  | 'aussen'
+  | 'sonstige';
+
+export const RAUMART_BEZEICHNUNGEN: Record<Raumart, string> = {
+  wohnraum: 'Wohnraum',
+  schlafraum: 'Schlafraum',
+  kueche: 'Küche',
+  bad: 'Bad / Dusche',
+  wc: 'WC',
+  flur: 'Flur / Stiege',
+  keller: 'Keller',
+  technik: 'Technikraum',
+  garage: 'Garage',
+  aussen: 'Außenbereich',
+  sonstige: 'Sonstiger Raum',
+};
+
+export interface Raum {
+  id: string;
+  name: string;
+  raumart: Raumart;
+}
+
+export interface Geschoss {
+  id: string;
+  name: string;                 // z.B. "KG", "EG", "1. OG"
+  raeume: Raum[];
+}
+
+// Gebäude des Projekts – Verbraucher verweisen über raumId auf einen Raum
+export interface Gebaeude {
+  id: string;
+  name: string;
+  geschosse: Geschoss[];
+}
+
 // ==========================================
 // VERDRAHTUNG / VERBINDUNGEN
 // ==========================================
@@ -289,6 +408,7 @@ export interface Wire {
   laenge: number;               // [m]
   phase: Phase;
   material: 'Cu' | 'Al';
+  leitungsnummer?: number;      // Fortlaufende Leitungsnummer (Aderbeschriftung)
   strom?: number;               // Berechneter Maximalstrom [A] - wird bei Validierung gesetzt
   durchpihnittsstrom?: number;   // Berechneter Durchschnittsstrom mit GZF [A]
   stromWinkel?: number;          // Winkel des Stromphasors in Grad (nur für N-Drähte relevant)
@@ -304,6 +424,29 @@ export interface Hutschiene {
   slots: number;                // Anzahl TE (typisch 12, 18, 24)
 }
 
+/**
+ * Zuleitung eines Unterverteilers von einem übergeordneten Verteiler.
+ * Der Unterverteiler wird über eine Abgangsklemme oder Schutzeinrichtung
+ * des Quell-Verteilers an seiner Versorgungsklemme gespeist.
+ */
+export interface VerteilerEinspeisung {
+  quellVerteilerId: string;     // ID des speisenden (übergeordneten) Verteilers
+  quellKomponenteId?: string;   // Abgangsklemme oder Schutzeinrichtung im Quell-Verteiler
+  laenge: number;               // Leitungslänge [m]
+  querschnitt: number;          // Leitungsquerschnitt [mm²]
+  verlegeart: Verlegeart;
+  leitermaterial: Leitermaterial;
+}
+
+/**
+ * Zulässiger Spannungsfall [%] vom Netzanschluss bis zum Ende einer Leitung.
+ * Gilt für die Abgänge des jeweiligen Verteilers.
+ */
+export interface SpannungsfallGrenzwerte {
+  hauptleitung: number;         // bis zum Ende einer Zuleitung zu einem Unterverteiler [%]
+  endstromkreis: number;        // bis zum Verbraucher [%]
+}
+
 export interface Verteiler {
   id: string;
   name: string;
@@ -313,6 +456,55 @@ export interface Verteiler {
   verbraucher: Verbraucher[];
   verbindungen: Wire[];
   nennstrom: number;            // [A] Hauptsicherung
+  einspeisung?: VerteilerEinspeisung; // Nur bei Unterverteilern gesetzt
+  bmkPraefixe?: Partial<Record<ComponentType, string>>; // Abweichende Kennbuchstaben je Komponententyp
+  pruefprotokoll?: Pruefprotokoll; // Erstprüfung mit Messwerten
+  spannungsfallGrenzwerte?: SpannungsfallGrenzwerte; // Abweichende Grenzwerte (Standard: 1 % / 4 %)
+}
+
+// ==========================================
+// PRÜFPROTOKOLL (ERSTPRÜFUNG ÖVE E 8001-6-61)
+// ==========================================
+
+// Vor Ort gemessene Werte eines Stromkreises
+export interface Pruefmessung {
+  isolationswiderstand?: number; // [MΩ] bei 500 V DC
+  schleifenimpedanz?: number;    // [Ω]
+  fiAusloesezeit?: number;       // [ms] bei IΔn
+  fiAusloesestrom?: number;      // [mA]
+  schutzleiterWiderstand?: number; // [Ω] Durchgängigkeit des Schutzleiters
+}
+
+export interface Pruefprotokoll {
+  pruefer: string;
+  datum: string;                // ISO-Datum (YYYY-MM-DD)
+  messgeraet?: string;
+  bemerkungen?: string;
+  unterschrift?: string;        // Unterschrift des Prüfers als PNG-Data-URL
+  messungen: Record<string, Pruefmessung>; // Verbraucher-ID → Messwerte
+}
+
+// ==========================================
+// HERSTELLER-KATALOG
+// ==========================================
+
+// Parameter, nach denen ein Katalogartikel einer Komponente zugeordnet wird
+export type KatalogMerkmal = 'bemessungsStrom' | 'charakteristik' | 'polzahl' | 'bemessungsFehlerstrom' | 'fiTyp';
+
+export interface KatalogArtikel {
+  id: string;
+  hersteller: string;
+  artikelnummer: string;
+  bezeichnung: string;
+  preis: number;                // Listenpreis netto [€] je Einheit
+  einheit: 'Stk' | 'm';
+  variantId?: string;           // Zugeordnete Variante aus COMPONENT_LIBRARY
+  merkmale?: Partial<Record<KatalogMerkmal, string | number>>; // Nur bei diesen Werten zuordnen
+  kabel?: {                     // Nur für Kabel/Leitungen (einheit 'm')
+    adern: number;              // 1 = Einzelader (Verdrahtung im Verteiler)
+    querschnitt: number;        // [mm²]
+    leitermaterial: Leitermaterial;
+  };
 }
 
 // ==========================================
@@ -334,7 +526,9 @@ export type FehlerTyp =
   | 'erdung'
   | 'drehfeld'
   | 'fehlende-schutzeinrichtung'
-  | 'kabelueberlastung';
+  | 'kabelueberlastung'
+  | 'it-system'
+  | 'ueberspannungsschutz';
 
 export interface ValidationError {
   id: string;
@@ -358,11 +552,22 @@ export interface StromkreisResult {
     leitungslaenge?: number;   // [m]
     querschnitt?: number;      // [mm²]
     schleifenimpedanz?: number; // [mΩ] - Schleifenimpedanz bis zum Verbraucher
+    schleifenimpedanzMax?: number; // [mΩ] - Größte zulässige Schleifenimpedanz (Abschaltbedingung)
+    kurzschlussstrom3p?: number; // [kA] - größter 3-poliger Kurzschlussstrom an der Schutzeinrichtung
+    kurzschlussstrom1p?: number; // [kA] - größter 1-poliger Kurzschlussstrom an der Schutzeinrichtung
   };
   fehler: ValidationError[];
   warnungen: ValidationError[];
 }
 
+// Größte Kurzschlussströme an einem Knoten (Komponente) des Stromkreises
+export interface KurzschlussWerte {
+  komponenteId: string;
+  komponenteName: string;
+  ik3: number;  // [kA] 3-poliger Kurzschluss
+  ik1: number;  // [kA] 1-poliger Kurzschluss (Außenleiter gegen N/PE)
+}
+
 export interface ValidationResult {
   isValid: boolean;
   errors: ValidationError[];
@@ -373,6 +578,7 @@ export interface ValidationResult {
     spannungsfall: number;
     schleifenimpedanz: number;
     phasenLasten: Record<Phase, number>;
+    kurzschlussstroeme: KurzschlussWerte[];
   };
 }
 
@@ -403,6 +609,8 @@ export interface ProjectState {
   version: string;
   lastModified: string;
   verteiler: Verteiler;
+  weitereVerteiler?: Verteiler[];  // Haupt-/Unterverteiler des Projekts (außer dem aktiven)
+  gebaeude?: Gebaeude[];           // Gebäude/Geschosse/Räume des Projekts
   uiState: Partial<UIState>;
 }
 
@@ -679,6 +887,62 @@ export const COMPONENT_LIBRARY: ComponentLibraryItem[] = [
     },
     kategorie: 'verteilung',
   },
+  {
+    type: 'phasenschiene',
+    variantId: 'phasenschiene-1p',
+    name: 'Phasenschiene 1-polig',
+    beschreibung: 'Kammschiene 1-polig (L), wird auf die Geräte gelegt',
+    icon: '╤',
+    teilungseinheiten: 12,
+    defaultParams: {
+      polzahl: 1,
+      bemessungsStrom: 63,
+      querschnitt: 10,
+    },
+    kategorie: 'verteilung',
+  },
+  {
+    type: 'phasenschiene',
+    variantId: 'phasenschiene-1pn',
+    name: 'Phasenschiene 1P+N',
+    beschreibung: 'Kammschiene L+N für FI/LS-Kombis',
+    icon: '╤',
+    teilungseinheiten: 12,
+    defaultParams: {
+      polzahl: 2,
+      bemessungsStrom: 63,
+      querschnitt: 10,
+    },
+    kategorie: 'verteilung',
+  },
+  {
+    type: 'phasenschiene',
+    variantId: 'phasenschiene-3p',
+    name: 'Phasenschiene 3-polig',
+    beschreibung: 'Kammschiene 3-polig (L1, L2, L3 im Wechsel)',
+    icon: '╤',
+    teilungseinheiten: 12,
+    defaultParams: {
+      polzahl: 3,
+      bemessungsStrom: 63,
+      querschnitt: 10,
+    },
+    kategorie: 'verteilung',
+  },
+  {
+    type: 'phasenschiene',
+    variantId: 'phasenschiene-3pn',
+    name: 'Phasenschiene 3P+N',
+    beschreibung: 'Kammschiene 3P+N (L1, L2, L3, N im Wechsel)',
+    icon: '╤',
+    teilungseinheiten: 12,
+    defaultParams: {
+      polzahl: 4,
+      bemessungsStrom: 63,
+      querschnitt: 10,
+    },
+    kategorie: 'verteilung',
+  },
   // ==========================================
   // KLEMMEN
   // ==========================================
@@ -721,6 +985,31 @@ export const COMPONENT_LIBRARY: ComponentLibraryItem[] = [
     },
     kategorie: 'verteilung',
   },
+  {
+    type: 'klemme',
+    variantId: 'klemme-pen',
+    name: 'Klemme PEN',
+    beschreibung: 'Reihenklemme für PEN-Leiter (TN-C)',
+    icon: '┬',
+    teilungseinheiten: 1,
+    defaultParams: {
+      phase: 'PEN',
+      querschnitt: 16,
+    },
+    kategorie: 'verteilung',
+  },
+  {
+    type: 'pen-aufteilung',
+    variantId: 'pen-aufteilung',
+    name: 'PEN-Aufteilung',
+    beschreibung: 'Aufteilungsklemme PEN → N + PE (TN-C-S)',
+    icon: '⑂',
+    teilungseinheiten: 2,
+    defaultParams: {
+      querschnitt: 16,
+    },
+    kategorie: 'verteilung',
+  },
   {
     type: 'versorgungsklemme',
     variantId: 'versorgungsklemme',
@@ -825,6 +1114,7 @@ export const COMPONENT_LIBRARY: ComponentLibraryItem[] = [
       bemessungsSpannung: 400,
       nennAbleistrom: 20,
       polzahl: 3,
+      maxVorsicherung: 160,
     },
     kategorie: 'schutz',
   },
@@ -844,4 +1134,20 @@ export const COMPONENT_LIBRARY: ComponentLibraryItem[] = [
     },
     kategorie: 'schutz',
   },
+  // ==========================================
+  // ISOLATIONSÜBERWACHUNG (IT-SYSTEM)
+  // ==========================================
+  {
+    type: 'isolationsueberwachung',
+    variantId: 'imd-ac',
+    name: 'Isolationswächter',
+    beschreibung: 'Isolationsüberwachung für IT-Systeme (L1, L2, E)',
+    icon: 'IMD',
+    teilungseinheiten: 2,
+    defaultParams: {
+      ansprechwert: 50,
+      vorwarnwert: 100,
+    },
+    kategorie: 'schutz',
+  },
 ];
@@ -0,0 +1,296 @@
+import type {
+  ElektroComponent,
+  LSCharakteristik,
+  SicherungsKennlinie,
+  Netzsystem,
+  FISchalterParams,
+  FILSKombiParams,
+  FIVerzoegerung,
+} from '../types';
+
+// ==========================================
+// AUSLÖSEKENNLINIEN (ZEIT-STROM-KENNLINIEN)
+// ==========================================
+
+/**
+ * Vereinfachte Zeit-Strom-Kennlinie einer Überstrom-Schutzeinrichtung.
+ * Alle Werte beschreiben die OBERE Grenze des Toleranzbandes (ungünstigster Fall).
+ */
+export type AusloeseKennlinie =
+  | { art: 'ls'; charakteristik: LSCharakteristik; bemessungsStrom: number }
+  | { art: 'sicherung'; kennlinie: SicherungsKennlinie; bemessungsStrom: number };
+
+/** Abschaltzeit im unverzögerten (magnetischen) Bereich eines LS-Schalters nach EN 60898 */
+const LS_MAGNETISCH_ZEIT = 0.1; // s
+
+/** Kleinste betrachtete Abschaltzeit (Schmelzsicherungen im Kurzschlussbereich) */
+const MIN_ABSCHALTZEIT = 0.004; // s
+
+/**
+ * Obere Grenze des magnetischen Auslösebereichs als Vielfaches von In.
+ * Erst ab diesem Strom ist die unverzögerte Auslösung sicher gewährleistet.
+ */
+const LS_MAGNETISCH_FAKTOR: Record<LSCharakteristik, number> = {
+  A: 3,
+  B: 5,
+  C: 10,
+  D: 20,
+  K: 14,
+  Z: 3,
+};
+
+/** Großer Prüfstrom LS-Schalter (Auslösung innerhalb 1 h) */
+const LS_GROSSER_PRUEFSTROM = 1.45;
+
+/**
+ * Ausschaltströme von gG-Sicherungen nach EN 60269 / ÖVE E 8101 Anhang
+ * In → [Ia für 5 s, Ia für 0,4 s] in A
+ */
+const GG_AUSSCHALTSTROM: Record<number, [number, number]> = {
+  2: [9.2, 16],
+  4: [18.5, 32],
+  6: [28, 47],
+  10: [46, 82],
+  13: [60, 100],
+  16: [65, 107],
+  20: [85, 145],
+  25: [110, 180],
+  32: [150, 265],
+  35: [173, 295],
+  40: [190, 310],
+  50: [250, 460],
+  63: [320, 550],
+  80: [425, 820],
+  100: [580, 1040],
+  125: [715, 1450],
+  160: [950, 1890],
+  200: [1250, 2600],
+  250: [1650, 3300],
+  315: [2200, 4300],
+  400: [2840, 5700],
+  500: [3800, 7700],
+  630: [5100, 10000],
+};
+
+/**
+ * Näherung der aM-Kennlinie (Teilbereichsschutz, nur Kurzschlussschutz).
+ * Stützpunkte [Vielfaches von In, Zeit in s]
+ */
+const AM_STUETZPUNKTE: [number, number][] = [
+  [6.3, 60],
+  [8, 10],
+  [10, 3],
+  [12.5, 0.5],
+  [19, 0.1],
+];
+
+/**
+ * Großer Prüfstrom (konventioneller Schmelzstrom I2) von gG-Sicherungen als Vielfaches von In
+ */
+function getSicherungPruefstromFaktor(bemessungsStrom: number): number {
+  if (bemessungsStrom <= 4) return 2.1;
+  if (bemessungsStrom < 16) return 1.9;
+  return 1.6;
+}
+
+/**
+ * Liefert die Stützpunkte [Strom in A, Zeit in s] einer gG-Sicherung.
+ * Nicht tabellierte Bemessungsströme werden vom nächstkleineren Tabellenwert skaliert.
+ */
+function getGGStuetzpunkte(bemessungsStrom: number): [number, number][] {
+  const tabellenWerte = Object.keys(GG_AUSSCHALTSTROM).map(Number).sort((a, b) => a - b);
+  const referenz = [...tabellenWerte].reverse().find((i) => i <= bemessungsStrom) ?? tabellenWerte[0];
+  const skalierung = bemessungsStrom / referenz;
+  const [ia5, ia04] = GG_AUSSCHALTSTROM[referenz];
+
+  return [
+    [bemessungsStrom * getSicherungPruefstromFaktor(bemessungsStrom), 3600],
+    [ia5 * skalierung, 5],
+    [ia04 * skalierung, 0.4],
+  ];
+}
+
+/**
+ * Log-log-Interpolation zwischen Stützpunkten [Strom, Zeit] (Strom aufsteigend).
+ * Oberhalb des letzten Stützpunkts wird mit der Steigung des letzten Abschnitts extrapoliert.
+ */
+function interpoliereKennlinie(punkte: [number, number][], strom: number): number {
+  if (strom < punkte[0][0]) return Infinity;
+
+  for (let i = 0; i < punkte.length - 1; i++) {
+    const [i1, t1] = punkte[i];
+    const [i2, t2] = punkte[i + 1];
+    if (strom <= i2) {
+      const steigung = Math.log(t2 / t1) / Math.log(i2 / i1);
+      return t1 * Math.pow(strom / i1, steigung);
+    }
+  }
+
+  const [iA, tA] = punkte[punkte.length - 2];
+  const [iB, tB] = punkte[punkte.length - 1];
+  const steigung = Math.log(tB / tA) / Math.log(iB / iA);
+  return Math.max(MIN_ABSCHALTZEIT, tB * Math.pow(strom / iB, steigung));
+}
+
+/**
+ * Ermittelt die Auslösekennlinie einer Komponente.
+ * Schraubsicherungen (DIAZED) ohne eigene Kennlinie werden als gG behandelt.
+ *
+ * @returns null wenn die Komponente keine Überstrom-Schutzeinrichtung ist
+ */
+export function getAusloeseKennlinie(komponente: ElektroComponent): AusloeseKennlinie | null {
+  switch (komponente.type) {
+    case 'ls-schalter':
+    case 'fi-ls-kombi':
+      return { art: 'ls', charakteristik: komponente.charakteristik, bemessungsStrom: komponente.bemessungsStrom };
+    case 'nh-sicherung':
+      return { art: 'sicherung', kennlinie: komponente.betriebsklasse, bemessungsStrom: komponente.bemessungsStrom };
+    case 'neozed-sicherung':
+      return { art: 'sicherung', kennlinie: komponente.kennlinie, bemessungsStrom: komponente.bemessungsStrom };
+    case 'schraub-sicherung':
+      return { art: 'sicherung', kennlinie: 'gG', bemessungsStrom: komponente.bemessungsStrom };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Berechnet die Abschaltzeit einer Schutzeinrichtung für einen gegebenen Fehlerstrom.
+ *
+ * - LS-Schalter: Thermischer Bereich nach τ·ln(k²/(k²−1,45²)), angepasst an die obere
+ *   Grenze bei 2,55·In (60 s bis 32 A, sonst 120 s); ab der oberen Grenze des
+ *   magnetischen Bereichs 0,1 s
+ * - gG/gL (und gR/gS): Tabellenwerte für 5 s und 0,4 s, log-log interpoliert
+ * - aM (und aR): Teilbereichsschutz, löst unterhalb 6,3·In nicht aus
+ *
+ * @returns Abschaltzeit in s (Infinity wenn keine Auslösung gewährleistet ist)
+ */
+export function berechneAbschaltzeit(kennlinie: AusloeseKennlinie, strom: number): number {
+  const { bemessungsStrom } = kennlinie;
+  if (bemessungsStrom <= 0 || strom <= 0) return Infinity;
+
+  const vielfaches = strom / bemessungsStrom;
+
+  if (kennlinie.art === 'ls') {
+    if (vielfaches >= LS_MAGNETISCH_FAKTOR[kennlinie.charakteristik]) return LS_MAGNETISCH_ZEIT;
+    if (vielfaches <= LS_GROSSER_PRUEFSTROM) return Infinity;
+
+    const zeitBei255 = bemessungsStrom <= 32 ? 60 : 120;
+    const tau = zeitBei255 / Math.log(2.55 ** 2 / (2.55 ** 2 - LS_GROSSER_PRUEFSTROM ** 2));
+    return tau * Math.log(vielfaches ** 2 / (vielfaches ** 2 - LS_GROSSER_PRUEFSTROM ** 2));
+  }
+
+  if (kennlinie.kennlinie === 'aM' || kennlinie.kennlinie === 'aR') {
+    const punkte = AM_STUETZPUNKTE.map(([faktor, zeit]) => [faktor * bemessungsStrom, zeit] as [number, number]);
+    return interpoliereKennlinie(punkte, strom);
+  }
+
+  return interpoliereKennlinie(getGGStuetzpunkte(bemessungsStrom), strom);
+}
+
+/**
+ * Berechnet den Strom, der für eine Abschaltung innerhalb der gegebenen Zeit nötig ist (Ia).
+ * Numerische Umkehrung von berechneAbschaltzeit (Bisektion).
+ */
+export function berechneAusloesestrom(kennlinie: AusloeseKennlinie, zeit: number): number {
+  let unten = kennlinie.bemessungsStrom;
+  let oben = kennlinie.bemessungsStrom * 1000;
+
+  if (berechneAbschaltzeit(kennlinie, oben) > zeit) return Infinity;
+
+  for (let i = 0; i < 60; i++) {
+    const mitte = (unten + oben) / 2;
+    if (berechneAbschaltzeit(kennlinie, mitte) <= zeit) {
+      oben = mitte;
+    } else {
+      unten = mitte;
+    }
+  }
+
+  return oben;
+}
+
+/**
+ * Großer Prüfstrom I2 (konventioneller Auslöse- bzw. Schmelzstrom) einer Schutzeinrichtung.
+ *
+ * - LS-Schalter nach EN 60898: 1,45·In
+ * - gG/gL (und gR/gS): 1,6·In ab 16 A, 1,9·In über 4 A, 2,1·In bis 4 A
+ * - aM/aR: kein Überlastschutz → null
+ */
+export function getGrosserPruefstrom(kennlinie: AusloeseKennlinie): number | null {
+  if (kennlinie.art === 'ls') {
+    return kennlinie.bemessungsStrom * LS_GROSSER_PRUEFSTROM;
+  }
+  if (kennlinie.kennlinie === 'aM' || kennlinie.kennlinie === 'aR') {
+    return null;
+  }
+  return kennlinie.bemessungsStrom * getSicherungPruefstromFaktor(kennlinie.bemessungsStrom);
+}
+
+/**
+ * Kurzbezeichnung einer Kennlinie für Meldungen, z.B. "B16" oder "gG 35A"
+ */
+export function getKennlinienBezeichnung(kennlinie: AusloeseKennlinie): string {
+  return kennlinie.art === 'ls'
+    ? `${kennlinie.charakteristik}${kennlinie.bemessungsStrom}`
+    : `${kennlinie.kennlinie} ${kennlinie.bemessungsStrom}A`;
+}
+
+// ==========================================
+// FEHLERSTROM-SCHUTZEINRICHTUNGEN (EN 61008 / EN 61009)
+// ==========================================
+
+/**
+ * Höchstzulässige Ausschaltzeiten als [Vielfaches von IΔn, Zeit in s]
+ * (G: kurzzeitverzögert, gleiche Höchstwerte wie unverzögert)
+ */
+const FI_AUSSCHALTZEITEN: Record<FIVerzoegerung, [number, number][]> = {
+  Standard: [[5, 0.04], [2, 0.15], [1, 0.3]],
+  G: [[5, 0.04], [2, 0.15], [1, 0.3]],
+  S: [[5, 0.15], [2, 0.2], [1, 0.5]],
+};
+
+/**
+ * Abschaltzeit eines FI-Schalters bzw. des FI-Teils einer FI/LS-Kombination.
+ * Es wird der Höchstwert der Norm für die nächstkleinere Stufe (IΔn, 2·IΔn, 5·IΔn) angesetzt.
+ *
+ * @param fehlerstrom Fehlerstrom [A]
+ * @returns Abschaltzeit in s (Infinity unterhalb von IΔn)
+ */
+export function berechneFIAbschaltzeit(fi: FISchalterParams | FILSKombiParams, fehlerstrom: number): number {
+  const vielfaches = fehlerstrom / (fi.bemessungsFehlerstrom / 1000);
+  const stufe = FI_AUSSCHALTZEITEN[fi.verzoegerung ?? 'Standard'].find(([faktor]) => vielfaches >= faktor);
+  return stufe ? stufe[1] : Infinity;
+}
+
+/**
+ * Kleinster Fehlerstrom, bei dem ein FI innerhalb der gegebenen Zeit abschaltet
+ * (kleinste Stufe von IΔn, deren Höchstwert eingehalten wird).
+ *
+ * @returns Auslösestrom in A (Infinity, wenn keine Stufe schnell genug ist)
+ */
+export function berechneFIAusloesestrom(fi: FISchalterParams | FILSKombiParams, maxZeit: number): number {
+  const stufen = FI_AUSSCHALTZEITEN[fi.verzoegerung ?? 'Standard'].filter(([, zeit]) => zeit <= maxZeit);
+  if (stufen.length === 0) return Infinity;
+  return Math.min(...stufen.map(([faktor]) => faktor)) * (fi.bemessungsFehlerstrom / 1000);
+}
+
+// ==========================================
+// MAXIMALE ABSCHALTZEITEN (ÖVE E 8101 Teil 4-41)
+// ==========================================
+
+/**
+ * Maximale Abschaltzeit für den Fehlerschutz bei U0 = 230 V.
+ *
+ * - Endstromkreise bis 32 A: TN/IT 0,4 s, TT 0,2 s
+ * - Verteilungsstromkreise und Endstromkreise über 32 A: TN/IT 5 s, TT 1 s
+ *
+ * WICHTIG: Für IT-Systeme gelten die Werte für den zweiten Fehler
+ * (Körper gemeinsam geerdet, Abschaltbedingungen wie im TN-System).
+ */
+export function getMaxAbschaltzeit(netzsystem: Netzsystem, istEndstromkreis: boolean): number {
+  if (netzsystem === 'TT') {
+    return istEndstromkreis ? 0.2 : 1;
+  }
+  return istEndstromkreis ? 0.4 : 5;
+}
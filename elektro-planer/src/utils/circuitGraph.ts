@@ -11,6 +11,7 @@
  * - KANTEN = Zwei Arten von Verbindungen:
  *   1. EXTERNE Verbindungen (Wire-Objekte) - verbinden Klemmen verschiedener Komponenten
  *   2. INTERNE Verbindungen (Komponenten-Durchgang) - verbinden IN mit OUT derselben Komponente
+ *   3. PHASENSCHIENEN - virtuelle Leitungen zu den Eingängen der Geräte (siehe phasenschiene.ts)
  *
  * Vorteile:
  * - Drahtbrücken von einer Eingangsklemme zu einer anderen werden korrekt erkannt
@@ -32,6 +33,8 @@ import type {
   FILSKombiParams,
   LSSchalterParams,
 } from '../types';
+import { getAlleVerbindungen } from './phasenschiene';
+import { getComponentTerminals } from './terminals';
 
 // ==========================================
 // PHASOR-ARITHMETIK
@@ -72,7 +75,7 @@ function phaseAngleDeg(phase: Phase): number {
  * Der Rückstrom im N hat denselben Betrag und Winkel (θ - φ).
  * cosPhi: Leistungsfaktor (induktiv: Strom eilt nach)
  */
-function verbraucherNPhasor(stromBetrag: number, phase: Phase, cosPhi: number): Phasor {
+export function verbraucherNPhasor(stromBetrag: number, phase: Phase, cosPhi: number): Phasor {
   const theta = phaseAngleDeg(phase);
   const phi = Math.acos(Math.min(1, Math.max(0, cosPhi))); // in Rad
   const phiDeg = phi * 180 / Math.PI;
@@ -177,7 +180,7 @@ export function buildCircuitGraph(verteiler: Verteiler): Map<string, CircuitNode
     node.depth = current.depth;
 
     // Finde alle Verbindungen dieser Komponente (bidirektional)
-    const connectedWires = verteiler.verbindungen.filter(w =>
+    const connectedWires = getAlleVerbindungen(verteiler).filter(w =>
       w.von.componentId === current.id || w.nach.componentId === current.id
     );
 
@@ -297,7 +300,7 @@ export function findPathToVersorgung(
     visitedComponents.add(current.currentId);
 
     // Finde alle Verbindungen dieser Komponente (bidirektional)
-    const connectedWires = verteiler.verbindungen.filter(w =>
+    const connectedWires = getAlleVerbindungen(verteiler).filter(w =>
       (w.von.componentId === current.currentId || w.nach.componentId === current.currentId) &&
       !current.visitedWires.has(w.id)
     );
@@ -357,7 +360,7 @@ export function findAllPathsToVersorgung(
     }
 
     // Finde alle Verbindungen dieser Komponente (bidirektional)
-    const connectedWires = verteiler.verbindungen.filter(w =>
+    const connectedWires = getAlleVerbindungen(verteiler).filter(w =>
       (w.von.componentId === currentId || w.nach.componentId === currentId) &&
       !visitedWires.has(w.id)
     );
@@ -647,14 +650,14 @@ export function areInParallel(
 /**
  * Erzeugt eine eindeutige Terminal-ID aus Komponenten-ID und Terminal-Name
  */
-function getTerminalId(componentId: string, terminal: string): string {
+export function getTerminalId(componentId: string, terminal: string): string {
   return `${componentId}:${terminal}`;
 }
 
 /**
  * Parst eine Terminal-ID zurück in Komponenten-ID und Terminal-Name
  */
-function parseTerminalId(terminalId: string): { componentId: string; terminal: string } {
+export function parseTerminalId(terminalId: string): { componentId: string; terminal: string } {
   const lastColon = terminalId.lastIndexOf(':');
   return {
     componentId: terminalId.substring(0, lastColon),
@@ -673,7 +676,7 @@ function parseTerminalId(terminalId: string): { componentId: string; terminal: s
  * verbunden (Verteilpunkte). Das ermöglicht die korrekte Erkennung von
  * Drahtbrücken und parallelen Abzweigungen.
  */
-function getInternalTerminalConnections(component: ElektroComponent): { from: string; to: string }[] {
+export function getInternalTerminalConnections(component: ElektroComponent): { from: string; to: string }[] {
   const connections: { from: string; to: string }[] = [];
 
   // Basierend auf dem Komponententyp die internen Verbindungen ermitteln
@@ -768,6 +771,30 @@ function getInternalTerminalConnections(component: ElektroComponent): { from: st
       // KEINE internen Verbindungen - jede Phase ist separat
       // (OUT_L1, OUT_L2, OUT_L3, OUT_N, OUT_PE sind die Startpunkte des BFS)
       break;
+    case 'pen-aufteilung':
+      // PEN-Aufteilung: PEN ist mit N UND PE verbunden (Aufteilungspunkt)
+      // WICHTIG: Für die Kurzschlussprüfung wird dieser Punkt aufgetrennt
+      // (siehe buildTerminalAdjacency), sonst wären N und PE überall "verbunden"
+      connections.push({ from: 'IN_PEN', to: 'OUT_N' });
+      connections.push({ from: 'IN_PEN', to: 'OUT_PE' });
+      break;
+    case 'isolationsueberwachung':
+      // Isolationswächter: KEINE internen Verbindungen
+      // Das Messglied ist hochohmig zwischen Netz und Erde – ein Durchgang
+      // würde L1/L2 kurzschließen bzw. mit dem PE verbinden
+      break;
+    case 'ueberspannungsschutz':
+      // SPD: Durchgangsklemmen IN ↔ OUT je Pol (V-Verdrahtung)
+      // Der PE-Anschluss ist NICHT mit den Leitern verbunden (Ableitpfad nur im Überspannungsfall)
+      if (component.polzahl === 3 || component.systemTyp === 'AC') {
+        for (const phase of ['L1', 'L2', 'L3'] as const) {
+          connections.push({ from: `IN_${phase}`, to: `OUT_${phase}` });
+        }
+      } else {
+        connections.push({ from: 'IN_PLUS', to: 'OUT_PLUS' });
+        connections.push({ from: 'IN_MINUS', to: 'OUT_MINUS' });
+      }
+      break;
     case 'abgangsklemme': {
       // Abgangsklemme: IN ist verbunden mit OUT (Durchgang)
       // 3-polig: L1, N, PE oder 5-polig: L1, L2, L3, N, PE
@@ -831,8 +858,8 @@ function buildTerminalParentMap(verteiler: Verteiler): Map<string, string> {
   const versorgung = verteiler.komponenten.find(k => k.type === 'versorgungsklemme');
   if (!versorgung) return parentMap;
 
-  // Startpunkte: Alle Output-Terminals der Versorgungsklemme
-  const startTerminals = ['OUT_L1', 'OUT_L2', 'OUT_L3', 'OUT_N', 'OUT_PE'];
+  // Startpunkte: Alle Output-Terminals der Versorgungsklemme (OUT_PEN bei PEN-Einspeisung)
+  const startTerminals = ['OUT_L1', 'OUT_L2', 'OUT_L3', 'OUT_N', 'OUT_PE', 'OUT_PEN'];
   for (const terminal of startTerminals) {
     const terminalId = getTerminalId(versorgung.id, terminal);
     queue.push(terminalId);
@@ -844,7 +871,7 @@ function buildTerminalParentMap(verteiler: Verteiler): Map<string, string> {
   const adjacency = new Map<string, string[]>();
 
   // 1. Externe Verbindungen (Wire-Objekte)
-  for (const wire of verteiler.verbindungen) {
+  for (const wire of getAlleVerbindungen(verteiler)) {
     const fromTerminal = getTerminalId(wire.von.componentId, wire.von.terminal);
     const toTerminal = getTerminalId(wire.nach.componentId, wire.nach.terminal);
 
@@ -887,6 +914,78 @@ function buildTerminalParentMap(verteiler: Verteiler): Map<string, string> {
   return parentMap;
 }
 
+/**
+ * Berechnet für jedes erreichbare Terminal den kleinsten Leiterwiderstand zur Versorgungsklemme.
+ *
+ * Dijkstra über den Terminal-Graphen: Leitungen werden mit dem übergebenen Widerstand
+ * gewichtet, interne Durchgänge von Komponenten gelten als widerstandslos.
+ * Parallele Wege werden nicht zusammengefasst (Näherung über den Weg mit kleinstem Widerstand).
+ *
+ * @returns Map von Terminal-ID → { widerstand [Ω], phase (speisender Versorgungsausgang) }
+ */
+export function berechneTerminalWiderstaende(
+  verteiler: Verteiler,
+  leitungsWiderstand: (wire: Wire) => number
+): Map<string, { widerstand: number; phase: Phase }> {
+  const ergebnis = new Map<string, { widerstand: number; phase: Phase }>();
+
+  const versorgung = verteiler.komponenten.find(k => k.type === 'versorgungsklemme');
+  if (!versorgung) return ergebnis;
+
+  // Gewichtete Adjazenzliste
+  const adjacency = new Map<string, { nachbar: string; widerstand: number }[]>();
+  const addKante = (a: string, b: string, widerstand: number) => {
+    if (!adjacency.has(a)) adjacency.set(a, []);
+    if (!adjacency.has(b)) adjacency.set(b, []);
+    adjacency.get(a)!.push({ nachbar: b, widerstand });
+    adjacency.get(b)!.push({ nachbar: a, widerstand });
+  };
+
+  for (const wire of getAlleVerbindungen(verteiler)) {
+    addKante(
+      getTerminalId(wire.von.componentId, wire.von.terminal),
+      getTerminalId(wire.nach.componentId, wire.nach.terminal),
+      leitungsWiderstand(wire)
+    );
+  }
+
+  for (const component of verteiler.komponenten) {
+    for (const conn of getInternalTerminalConnections(component)) {
+      addKante(getTerminalId(component.id, conn.from), getTerminalId(component.id, conn.to), 0);
+    }
+  }
+
+  // Startpunkte: Alle Output-Terminals der Versorgungsklemme
+  const offen = new Map<string, { widerstand: number; phase: Phase }>();
+  for (const phase of ['L1', 'L2', 'L3', 'N', 'PE', 'PEN'] as Phase[]) {
+    offen.set(getTerminalId(versorgung.id, `OUT_${phase}`), { widerstand: 0, phase });
+  }
+
+  while (offen.size > 0) {
+    // Terminal mit kleinstem Widerstand auswählen
+    let aktuell: string | null = null;
+    for (const [terminalId, wert] of offen) {
+      if (aktuell === null || wert.widerstand < offen.get(aktuell)!.widerstand) {
+        aktuell = terminalId;
+      }
+    }
+    const aktuellerWert = offen.get(aktuell!)!;
+    offen.delete(aktuell!);
+    ergebnis.set(aktuell!, aktuellerWert);
+
+    for (const { nachbar, widerstand } of adjacency.get(aktuell!) || []) {
+      if (ergebnis.has(nachbar)) continue;
+      const neuerWiderstand = aktuellerWert.widerstand + widerstand;
+      const bisher = offen.get(nachbar);
+      if (!bisher || neuerWiderstand < bisher.widerstand) {
+        offen.set(nachbar, { widerstand: neuerWiderstand, phase: aktuellerWert.phase });
+      }
+    }
+  }
+
+  return ergebnis;
+}
+
 /**
  * Ergebnis einer Drehfeldprüfung
  */
@@ -936,6 +1035,7 @@ export function checkDrehfeldForComponent(
     'L3': ['IN_L3', 'OUT_L3'],
     'N': ['IN_N', 'OUT_N'],
     'PE': ['IN_PE', 'OUT_PE'],
+    'PEN': ['IN_PEN', 'OUT_PEN'],
   };
 
   // Für jede Phase: Finde welche Versorgungsphase damit verbunden ist
@@ -963,6 +1063,7 @@ export function checkDrehfeldForComponent(
           else if (currentTerminalName === 'OUT_L2') connectedVersorgungsPhase = 'L2';
           else if (currentTerminalName === 'OUT_L3') connectedVersorgungsPhase = 'L3';
           else if (currentTerminalName === 'OUT_N') connectedVersorgungsPhase = 'N';
+          else if (currentTerminalName === 'OUT_PEN') connectedVersorgungsPhase = 'PEN';
           break;
         }
 
@@ -977,8 +1078,9 @@ export function checkDrehfeldForComponent(
       if (connectedVersorgungsPhase) break;
     }
 
-    // Prüfe ob die Phase korrekt verbunden ist
-    if (connectedVersorgungsPhase && connectedVersorgungsPhase !== localPhase) {
+    // Prüfe ob die Phase korrekt verbunden ist (N wird bei PEN-Einspeisung über den PEN versorgt)
+    const ueberPen = localPhase === 'N' && connectedVersorgungsPhase === 'PEN';
+    if (connectedVersorgungsPhase && connectedVersorgungsPhase !== localPhase && !ueberPen) {
       // Falsche Phase! L1 ist z.B. mit L2 verbunden
       result.isCorrect = false;
 
@@ -998,12 +1100,14 @@ export function checkDrehfeldForComponent(
 /**
  * Baut eine vollständige Adjazenzliste für den Terminal-Graphen.
  * Wird für die Kurzschlusserkennung benötigt.
+ *
+ * @param ohnePenAufteilung PEN-Aufteilungsklemmen auftrennen (N und PE gelten dort als getrennt)
  */
-function buildTerminalAdjacency(verteiler: Verteiler): Map<string, string[]> {
+export function buildTerminalAdjacency(verteiler: Verteiler, ohnePenAufteilung = false): Map<string, string[]> {
   const adjacency = new Map<string, string[]>();
 
   // 1. Externe Verbindungen (Wire-Objekte)
-  for (const wire of verteiler.verbindungen) {
+  for (const wire of getAlleVerbindungen(verteiler)) {
     const fromTerminal = getTerminalId(wire.von.componentId, wire.von.terminal);
     const toTerminal = getTerminalId(wire.nach.componentId, wire.nach.terminal);
 
@@ -1016,6 +1120,7 @@ function buildTerminalAdjacency(verteiler: Verteiler): Map<string, string[]> {
 
   // 2. Interne Verbindungen (Komponenten-Durchgänge)
   for (const component of verteiler.komponenten) {
+    if (ohnePenAufteilung && component.type === 'pen-aufteilung') continue;
     const internalConnections = getInternalTerminalConnections(component);
     for (const conn of internalConnections) {
       const fromTerminal = getTerminalId(component.id, conn.from);
@@ -1065,8 +1170,8 @@ export function detectKurzschluss(verteiler: Verteiler): KurzschlussResult {
     details: []
   };
 
-  // Baue Adjazenzliste
-  const adjacency = buildTerminalAdjacency(verteiler);
+  // Baue Adjazenzliste – PEN-Aufteilungen aufgetrennt, sonst wären N und PE immer verbunden
+  const adjacency = buildTerminalAdjacency(verteiler, true);
 
   // Prüfe für jede Abgangsklemme
   const abgangsklemmen = verteiler.komponenten.filter(k => k.type === 'abgangsklemme');
@@ -1111,10 +1216,10 @@ export function detectKurzschluss(verteiler: Verteiler): KurzschlussResult {
   }
 
   // Prüfe auch die Versorgungsklemme
-  // Inklusive PE für Kurzschlussprüfung zwischen PE und Außenleitern
-  const versorgungsPhasen: Phase[] = ['L1', 'L2', 'L3', 'N', 'PE'];
+  // Inklusive PE (bzw. PEN) für Kurzschlussprüfung zwischen Schutzleiter und Außenleitern
   const versorgung = verteiler.komponenten.find(k => k.type === 'versorgungsklemme');
   if (versorgung) {
+    const versorgungsPhasen = getComponentTerminals(versorgung).map(t => t.phase);
     for (let i = 0; i < versorgungsPhasen.length; i++) {
       const phase1 = versorgungsPhasen[i];
       const terminal1 = `OUT_${phase1}`;
@@ -1176,6 +1281,23 @@ function findAllReachableTerminals(
   return visited;
 }
 
+/**
+ * Findet PEN-Aufteilungen, hinter denen N und PE wieder miteinander verbunden sind.
+ * Nach dem Aufteilungspunkt dürfen N und PE nicht mehr zusammengeführt werden,
+ * sonst fließt Betriebsstrom über den Schutzleiter.
+ */
+export function findePenWiederverbindungen(verteiler: Verteiler): ElektroComponent[] {
+  const aufteilungen = verteiler.komponenten.filter(k => k.type === 'pen-aufteilung');
+  if (aufteilungen.length === 0) return [];
+
+  const adjacency = buildTerminalAdjacency(verteiler, true);
+  return aufteilungen.filter((aufteilung) => {
+    const nSeite = getTerminalId(aufteilung.id, 'OUT_N');
+    if (!adjacency.has(nSeite)) return false;
+    return findAllReachableTerminals(adjacency, nSeite, aufteilung.id).has(getTerminalId(aufteilung.id, 'OUT_PE'));
+  });
+}
+
 /**
  * Findet alle Komponenten die in Serie mit einer gegebenen Komponente sind.
  *
@@ -1349,6 +1471,7 @@ export function findNearestFIPerPhase(
     'L3': ['OUT_L3', 'IN_L3', 'BOT_2', 'TOP_2', 'OUT_L1', 'IN_L1'],
     'N': ['OUT_N', 'IN_N'],
     'PE': ['OUT_PE', 'IN_PE'],
+    'PEN': ['OUT_PEN', 'IN_PEN'],
   };
 
   // Für jede Phase: Finde den nächsten FI auf dem Pfad zur Versorgung
@@ -1437,7 +1560,10 @@ function componentHasPhase(component: ElektroComponent, phase: Phase): boolean {
  * - Abgangsklemme: IN_PE, OUT_PE
  * - PE-Klemme (type: 'klemme', phase: 'PE'): TOP_0, BOT_0
  * - PE-Sammelschiene (type: 'sammelschiene', phase: 'PE'): TOP_0, TOP_1, ..., BOT_0, BOT_1, ...
- * - Versorgungsklemme: OUT_PE
+ * - Versorgungsklemme: OUT_PE bzw. OUT_PEN (über eine PEN-Aufteilung)
+ *
+ * WICHTIG: Die PEN-Aufteilung wird nur von der PE-Seite her durchlaufen. Ein Weg
+ * über den N zum PEN ist keine Schutzleiterverbindung.
  *
  * @returns true wenn eine PE-Verbindung zur Versorgung besteht
  */
@@ -1479,9 +1605,13 @@ export function hasConnectionToPE(
     peStartTerminals = ['IN_PE', 'OUT_PE', 'TOP_0', 'BOT_0'];
   }
 
-  // Ziel: OUT_PE der Versorgungsklemme
+  // Ziel: OUT_PE (bzw. OUT_PEN) der Versorgungsklemme
   // Wir prüfen ob das aktuelle Terminal zur Versorgungsklemme gehört UND ein PE-Terminal ist
   const versorgungId = versorgung.id;
+  const peZiele = ['OUT_PE', 'OUT_PEN'];
+  const penAufteilungen = new Set(
+    verteiler.komponenten.filter(k => k.type === 'pen-aufteilung').map(k => k.id)
+  );
 
   // BFS von jedem möglichen PE-Terminal der Start-Komponente
   for (const terminalSuffix of peStartTerminals) {
@@ -1502,11 +1632,16 @@ export function hasConnectionToPE(
       const parsed = parseTerminalId(currentTerminal);
 
       // Haben wir die Versorgungsklemme erreicht?
-      // Wir akzeptieren OUT_PE als Ziel (das ist das PE-Terminal der Versorgungsklemme)
-      if (parsed.componentId === versorgungId && parsed.terminal === 'OUT_PE') {
+      // Wir akzeptieren OUT_PE bzw. OUT_PEN als Ziel (Schutzleiter der Versorgungsklemme)
+      if (parsed.componentId === versorgungId && peZiele.includes(parsed.terminal)) {
         return true; // PE-Verbindung gefunden!
       }
 
+      // N-Seite einer PEN-Aufteilung: nicht zum PEN weitergehen
+      if (penAufteilungen.has(parsed.componentId) && parsed.terminal === 'OUT_N') {
+        continue;
+      }
+
       // Spezialfall: Verteilerklemme (type: 'klemme')
       // Wenn wir irgendein Terminal einer Verteilerklemme erreichen, sind ALLE Terminals
       // dieser Klemme erreichbar (interne Vollvermaschung)
@@ -1526,15 +1661,15 @@ export function hasConnectionToPE(
       // Zusätzliche Prüfung: Haben wir eine PE-Sammelschiene oder PE-Klemme erreicht,
       // die direkt mit der Versorgungsklemme verbunden ist?
       // Prüfe die Wires ob einer davon zur Versorgungsklemme:OUT_PE führt
-      for (const wire of verteiler.verbindungen) {
+      for (const wire of getAlleVerbindungen(verteiler)) {
         const vonId = getTerminalId(wire.von.componentId, wire.von.terminal);
         const nachId = getTerminalId(wire.nach.componentId, wire.nach.terminal);
 
         // Wenn der aktuelle Terminal über einen Wire mit Versorgungsklemme:OUT_PE verbunden ist
-        if (currentTerminal === vonId && wire.nach.componentId === versorgungId && wire.nach.terminal === 'OUT_PE') {
+        if (currentTerminal === vonId && wire.nach.componentId === versorgungId && peZiele.includes(wire.nach.terminal)) {
           return true;
         }
-        if (currentTerminal === nachId && wire.von.componentId === versorgungId && wire.von.terminal === 'OUT_PE') {
+        if (currentTerminal === nachId && wire.von.componentId === versorgungId && peZiele.includes(wire.von.terminal)) {
           return true;
         }
       }
@@ -1919,7 +2054,7 @@ export function calculateWireCurrents(verteiler: Verteiler): { currents: Map<str
   const wireAngles = new Map<string, number>();
 
   // Initialisiere alle Drähte mit 0
-  for (const wire of verteiler.verbindungen) {
+  for (const wire of getAlleVerbindungen(verteiler)) {
     wireCurrents.set(wire.id, 0);
   }
 
@@ -2130,7 +2265,7 @@ function findWireBetweenTerminals(
   const parsed1 = parseTerminalId(terminal1);
   const parsed2 = parseTerminalId(terminal2);
 
-  for (const wire of verteiler.verbindungen) {
+  for (const wire of getAlleVerbindungen(verteiler)) {
     const vonId = getTerminalId(wire.von.componentId, wire.von.terminal);
     const nachId = getTerminalId(wire.nach.componentId, wire.nach.terminal);
 
@@ -2154,7 +2289,7 @@ export function calculateWireAverageCurrents(verteiler: Verteiler): { currents:
   const wireAngles = new Map<string, number>();
 
   // Initialisiere alle Drähte mit 0
-  for (const wire of verteiler.verbindungen) {
+  for (const wire of getAlleVerbindungen(verteiler)) {
     wireCurrents.set(wire.id, 0);
   }
 
@@ -0,0 +1,432 @@
+import type {
+  Verteiler,
+  Verbraucher,
+  VerbraucherTyp,
+  ElektroComponent,
+  FITyp,
+  LSCharakteristik,
+  LSSchalterParams,
+  VersorgungsklemmeParams,
+  FISchalterParams,
+  FILSKombiParams,
+} from '../types';
+import { VERFUEGBARE_QUERSCHNITTE } from '../types';
+import {
+  berechneKabelbelastbarkeit,
+  berechneSpannungsfallProzent,
+  berechneSchleifenimpedanzFuerVerbraucher,
+  berechneVerbraucherStrom,
+  findeSchutzeinrichtungenAufPfad,
+  istZuleitungsVerbraucher,
+  getSpannungsfallGrenzwerte,
+  getFehlerschleife,
+  getErforderlicherFITyp,
+  FI_TYP_RANG,
+  ENDSTROMKREIS_MAX_STROM,
+  C_MIN,
+  type VerteilerKontext,
+  type UeberstromSchutz,
+} from './validation';
+import {
+  getAusloeseKennlinie,
+  berechneAbschaltzeit,
+  getGrosserPruefstrom,
+  getMaxAbschaltzeit,
+  type AusloeseKennlinie,
+} from './ausloesekennlinien';
+import { findNearestFIPerPhase, getEffectivePhasen } from './circuitGraph';
+import { getKabeltyp, KABELTYPEN } from './kabeltypen';
+
+// ==========================================
+// AUTOMATISCHE DIMENSIONIERUNG VON STROMKREISEN
+// ==========================================
+
+// Genormte Bemessungsströme [A]
+const LS_NENNSTROEME = [6, 10, 13, 16, 20, 25, 32, 40, 50, 63];
+const SICHERUNG_NENNSTROEME = [2, 4, 6, 10, 13, 16, 20, 25, 32, 35, 40, 50, 63, 80, 100, 125, 160, 200, 250, 315, 400, 500, 630];
+
+// Größter Bemessungsstrom je Sicherungsbauart [A]
+const SICHERUNG_MAX_NENNSTROM: Partial<Record<ElektroComponent['type'], number>> = {
+  'neozed-sicherung': 100,
+  'schraub-sicherung': 63,
+  'nh-sicherung': 630,
+};
+
+/** Kleinster sinnvoller Bemessungsstrom je Verbrauchertyp (übliche Praxis) */
+const MIN_NENNSTROM: Partial<Record<VerbraucherTyp, number>> = {
+  licht: 10,
+  steckdose: 13,
+};
+
+/** Verbraucher mit hohem Anlaufstrom → Charakteristik C */
+const ANLAUFSTROM_TYPEN: VerbraucherTyp[] = ['klimaanlage'];
+
+/** Größter Bemessungsfehlerstrom für Steckdosen-Stromkreise [mA] */
+const STECKDOSEN_MAX_FEHLERSTROM = 30;
+
+export interface DimensionierungsAenderung {
+  bezeichnung: string;  // z.B. "Bemessungsstrom"
+  alt: string;
+  neu: string;
+}
+
+/**
+ * Vorschlag für einen Verbraucher (Leitung) oder eine Komponente (Schutzeinrichtung, FI)
+ */
+export type DimensionierungsVorschlag = {
+  id: string;
+  name: string;
+  aenderungen: DimensionierungsAenderung[];
+  hinweise: string[];
+} & (
+  | {
+      art: 'verbraucher';
+      updates: Partial<Verbraucher>;
+      spannungsfallProzent?: number;  // Gesamt-Spannungsfall mit vorgeschlagenem Querschnitt [%]
+      schleifenimpedanz?: number;     // Zs mit vorgeschlagenem Querschnitt [mΩ]
+    }
+  | { art: 'komponente'; updates: Partial<ElektroComponent> }
+);
+
+function betriebsstromVon(verteiler: Verteiler, verbraucher: Verbraucher): number {
+  return berechneVerbraucherStrom(
+    verbraucher.leistung * verbraucher.gleichzeitigkeitsfaktor,
+    verbraucher.spannung,
+    getEffectivePhasen(verteiler, verbraucher)
+  );
+}
+
+function naechsteSchutzeinrichtung(verteiler: Verteiler, verbraucher: Verbraucher): UeberstromSchutz | undefined {
+  if (!verbraucher.zugewieseneKomponente) return undefined;
+  return findeSchutzeinrichtungenAufPfad(verteiler, verbraucher.zugewieseneKomponente)[0];
+}
+
+/**
+ * Nächster FI eines Verbrauchers je Außenleiter (wie bei der FI-Typ-Prüfung);
+ * bei mehreren FIs der mit dem niedrigsten Typ
+ */
+function naechsterFI(verteiler: Verteiler, verbraucher: Verbraucher): FISchalterParams | FILSKombiParams | undefined {
+  if (!verbraucher.zugewieseneKomponente) return undefined;
+  const naechsteFIs = findNearestFIPerPhase(verteiler, verbraucher.zugewieseneKomponente);
+
+  return getEffectivePhasen(verteiler, verbraucher)
+    .map((phase) => verteiler.komponenten.find((k) => k.id === naechsteFIs.get(phase)))
+    .filter((k): k is FISchalterParams | FILSKombiParams => k?.type === 'fi-schalter' || k?.type === 'fi-ls-kombi')
+    .reduce<FISchalterParams | FILSKombiParams | undefined>(
+      (min, fi) => (!min || FI_TYP_RANG[fi.fiTyp] < FI_TYP_RANG[min.fiTyp] ? fi : min),
+      undefined
+    );
+}
+
+/**
+ * Schlägt Bemessungsstrom und Charakteristik einer Überstrom-Schutzeinrichtung
+ * für die Summe der Betriebsströme aller Verbraucher dahinter vor.
+ */
+function waehleSchutzeinrichtung(
+  schutz: UeberstromSchutz,
+  verbraucher: Verbraucher[],
+  betriebsstrom: number
+): { kennlinie: AusloeseKennlinie; charakteristik?: LSCharakteristik; hinweis?: string } {
+  const mindestStrom = Math.max(
+    betriebsstrom,
+    ...verbraucher.map((v) => MIN_NENNSTROM[v.typ] ?? 0)
+  );
+
+  if (schutz.type === 'ls-schalter' || schutz.type === 'fi-ls-kombi') {
+    const bemessungsStrom = LS_NENNSTROEME.find((i) => i >= mindestStrom);
+
+    // Sonderkennlinien (D, K) für nicht klassifizierte Verbraucher beibehalten
+    const behalten = ['C', 'D', 'K'].includes(schutz.charakteristik) && verbraucher.some((v) => v.typ === 'sonstige');
+    const charakteristik: LSCharakteristik = behalten
+      ? schutz.charakteristik
+      : verbraucher.some((v) => ANLAUFSTROM_TYPEN.includes(v.typ)) ? 'C' : 'B';
+
+    if (!bemessungsStrom) {
+      return {
+        kennlinie: { art: 'ls', charakteristik, bemessungsStrom: schutz.bemessungsStrom },
+        charakteristik,
+        hinweis: `Betriebsstrom ${betriebsstrom.toFixed(1)}A übersteigt den größten LS-Schalter (${LS_NENNSTROEME[LS_NENNSTROEME.length - 1]}A) – Schmelzsicherung verwenden`,
+      };
+    }
+    return { kennlinie: { art: 'ls', charakteristik, bemessungsStrom }, charakteristik };
+  }
+
+  const kennlinie = getAusloeseKennlinie(schutz)!;
+  const maxStrom = SICHERUNG_MAX_NENNSTROM[schutz.type] ?? Infinity;
+  const bemessungsStrom = SICHERUNG_NENNSTROEME.find((i) => i >= mindestStrom && i <= maxStrom);
+
+  if (!bemessungsStrom) {
+    return {
+      kennlinie,
+      hinweis: `Betriebsstrom ${betriebsstrom.toFixed(1)}A übersteigt den größten Bemessungsstrom der Bauart (${maxStrom}A)`,
+    };
+  }
+  return { kennlinie: { ...kennlinie, bemessungsStrom } };
+}
+
+/**
+ * Ermittelt den kleinsten Querschnitt, der alle Bedingungen erfüllt:
+ * - Überlastschutz: In ≤ Iz und I2 ≤ 1,45 · Iz (ohne Überlastschutz: Ib ≤ Iz)
+ * - Spannungsfall ≤ Grenzwert des Verteilers (inkl. vorgelagertem Spannungsfall),
+ *   bei Zuleitungen zu Unterverteilern der Grenzwert der Hauptleitung
+ * - Abschaltzeit bei kleinstem Fehlerstrom (Schleifenimpedanz, nicht im TT-System)
+ *
+ * Mit Kabeltyp werden nur die Querschnitte derselben Bauart und Aderzahl betrachtet.
+ */
+function waehleQuerschnitt(
+  verteiler: Verteiler,
+  verbraucher: Verbraucher,
+  betriebsstrom: number,
+  kennlinien: AusloeseKennlinie[],
+  vorSpannungsfallProzent: number
+): { querschnitt?: number; kabeltypId?: string; spannungsfallProzent?: number; schleifenimpedanz?: number } {
+  const versorgungsklemme = verteiler.komponenten.find(
+    (k): k is VersorgungsklemmeParams => k.type === 'versorgungsklemme'
+  );
+  const netzsystem = versorgungsklemme?.netzsystem ?? 'TN-C-S';
+  const grenzwerte = getSpannungsfallGrenzwerte(verteiler);
+  const maxSpannungsfall = istZuleitungsVerbraucher(verbraucher.id) ? grenzwerte.hauptleitung : grenzwerte.endstromkreis;
+  const naechste = kennlinien[0];
+  const maxAbschaltzeit = getMaxAbschaltzeit(
+    netzsystem,
+    !naechste || naechste.bemessungsStrom <= ENDSTROMKREIS_MAX_STROM
+  );
+
+  const fehlerschleife = getFehlerschleife(verteiler);
+
+  const kabeltyp = getKabeltyp(verbraucher.kabeltypId);
+  const kandidaten = kabeltyp
+    ? KABELTYPEN.filter((k) => k.bauart === kabeltyp.bauart && k.adern === kabeltyp.adern)
+        .map((k) => ({ querschnitt: k.querschnitt, kabeltypId: k.id }))
+    : VERFUEGBARE_QUERSCHNITTE.map((querschnitt) => ({ querschnitt, kabeltypId: undefined }));
+
+  for (const { querschnitt, kabeltypId } of kandidaten) {
+    const kandidat: Verbraucher = { ...verbraucher, leitungsquerschnitt: querschnitt, kabeltypId };
+
+    // Überlastschutz
+    const belastbarkeit = berechneKabelbelastbarkeit(kandidat);
+    if (!belastbarkeit) continue;
+    const iz = belastbarkeit.strombelastbarkeit;
+    if (betriebsstrom > iz) continue;
+    if (naechste) {
+      const i2 = getGrosserPruefstrom(naechste);
+      if (naechste.bemessungsStrom > iz && i2 !== null) continue;
+      if (i2 !== null && i2 > 1.45 * iz) continue;
+    }
+
+    // Spannungsfall
+    const spannungsfallProzent = berechneSpannungsfallProzent(verteiler, kandidat);
+    if (spannungsfallProzent !== undefined &&
+        vorSpannungsfallProzent + spannungsfallProzent > maxSpannungsfall) {
+      continue;
+    }
+
+    // Abschaltbedingung (Schleifenimpedanz) – im TT-System schaltet der FI ab, im IT-System gilt der zweite Fehler
+    const schleifenimpedanz = berechneSchleifenimpedanzFuerVerbraucher(verteiler, kandidat, true);
+    if (schleifenimpedanz !== undefined && kennlinien.length > 0 && netzsystem !== 'TT') {
+      const fehlerstrom = (C_MIN * fehlerschleife.spannung) / (fehlerschleife.faktor * schleifenimpedanz / 1000);
+      const abschaltzeit = Math.min(...kennlinien.map((k) => berechneAbschaltzeit(k, fehlerstrom)));
+      if (abschaltzeit > maxAbschaltzeit) continue;
+    }
+
+    return {
+      querschnitt,
+      kabeltypId,
+      spannungsfallProzent: spannungsfallProzent !== undefined ? vorSpannungsfallProzent + spannungsfallProzent : undefined,
+      schleifenimpedanz,
+    };
+  }
+
+  return {};
+}
+
+function fuegeKomponentenVorschlagHinzu(
+  vorschlaege: Map<string, DimensionierungsVorschlag>,
+  komponente: ElektroComponent,
+  updates: Partial<ElektroComponent>,
+  aenderungen: DimensionierungsAenderung[]
+): void {
+  const vorhanden = vorschlaege.get(komponente.id);
+  if (vorhanden && vorhanden.art === 'komponente') {
+    vorhanden.updates = { ...vorhanden.updates, ...updates } as Partial<ElektroComponent>;
+    vorhanden.aenderungen.push(...aenderungen);
+    return;
+  }
+  vorschlaege.set(komponente.id, {
+    art: 'komponente',
+    id: komponente.id,
+    name: komponente.name,
+    updates,
+    aenderungen: [...aenderungen],
+    hinweise: [],
+  });
+}
+
+/**
+ * Dimensioniert die Stromkreise eines Verteilers.
+ *
+ * Für jeden Verbraucher werden Bemessungsstrom und Charakteristik der nächsten
+ * Überstrom-Schutzeinrichtung, der Leitungsquerschnitt und der FI-Typ vorgeschlagen.
+ * Schutzeinrichtungen werden für die Summe aller Verbraucher dahinter bemessen,
+ * FI-Typen werden nur angehoben, nie abgesenkt.
+ *
+ * WICHTIG: Der Verteiler muss wie in validateProjekt() vorbereitet sein
+ * (Unterverteiler-Lasten und vorgelagerte Schleifenimpedanz), sonst werden
+ * Zuleitungen und Unterverteiler falsch bemessen.
+ *
+ * @param verbraucherIds Nur diese Verbraucher dimensionieren (Standard: alle)
+ * @returns Vorschläge mit Änderungen oder Hinweisen (Komponenten zuerst)
+ */
+export function dimensioniereVerteiler(
+  verteiler: Verteiler,
+  kontext?: VerteilerKontext,
+  verbraucherIds?: string[]
+): DimensionierungsVorschlag[] {
+  const vorSpannungsfallProzent = kontext?.vorSpannungsfallProzent ?? 0;
+  const komponentenVorschlaege = new Map<string, DimensionierungsVorschlag>();
+  const verbraucherVorschlaege: DimensionierungsVorschlag[] = [];
+
+  // Verbraucher nach nächster Schutzeinrichtung bzw. nächstem FI gruppieren (inkl. Unterverteiler-Zuleitungen)
+  const schutzGruppen = new Map<string, Verbraucher[]>();
+  const fiGruppen = new Map<string, Verbraucher[]>();
+  for (const v of verteiler.verbraucher) {
+    const schutz = naechsteSchutzeinrichtung(verteiler, v);
+    if (schutz) schutzGruppen.set(schutz.id, [...(schutzGruppen.get(schutz.id) ?? []), v]);
+    const fi = naechsterFI(verteiler, v);
+    if (fi) fiGruppen.set(fi.id, [...(fiGruppen.get(fi.id) ?? []), v]);
+  }
+
+  // Vorgeschlagene Kennlinien je Schutzeinrichtung (für die Querschnittswahl)
+  const gewaehlteKennlinien = new Map<string, AusloeseKennlinie>();
+
+  const zuDimensionieren = verteiler.verbraucher.filter(
+    (v) => !istZuleitungsVerbraucher(v.id) && (!verbraucherIds || verbraucherIds.includes(v.id))
+  );
+
+  for (const verbraucher of zuDimensionieren) {
+    const hinweise: string[] = [];
+    const betriebsstrom = betriebsstromVon(verteiler, verbraucher);
+
+    // 1. Überstrom-Schutzeinrichtung
+    const schutz = naechsteSchutzeinrichtung(verteiler, verbraucher);
+    if (!verbraucher.zugewieseneKomponente) {
+      hinweise.push('Nicht zugewiesen – nur Leitung nach Betriebsstrom und Spannungsfall bemessen');
+    } else if (!schutz) {
+      hinweise.push('Keine Überstrom-Schutzeinrichtung auf dem Pfad zur Versorgung');
+    }
+
+    if (schutz && !gewaehlteKennlinien.has(schutz.id)) {
+      const gruppe = schutzGruppen.get(schutz.id) ?? [verbraucher];
+      const gruppenStrom = gruppe.reduce((sum, v) => sum + betriebsstromVon(verteiler, v), 0);
+      const auswahl = waehleSchutzeinrichtung(schutz, gruppe, gruppenStrom);
+      gewaehlteKennlinien.set(schutz.id, auswahl.kennlinie);
+
+      const aenderungen: DimensionierungsAenderung[] = [];
+      const updates: Partial<LSSchalterParams> = {};
+      if (auswahl.kennlinie.bemessungsStrom !== schutz.bemessungsStrom) {
+        aenderungen.push({ bezeichnung: 'Bemessungsstrom', alt: `${schutz.bemessungsStrom}A`, neu: `${auswahl.kennlinie.bemessungsStrom}A` });
+        updates.bemessungsStrom = auswahl.kennlinie.bemessungsStrom;
+      }
+      if (auswahl.charakteristik && 'charakteristik' in schutz && auswahl.charakteristik !== schutz.charakteristik) {
+        aenderungen.push({ bezeichnung: 'Charakteristik', alt: schutz.charakteristik, neu: auswahl.charakteristik });
+        updates.charakteristik = auswahl.charakteristik;
+      }
+      if (aenderungen.length > 0) {
+        fuegeKomponentenVorschlagHinzu(komponentenVorschlaege, schutz, updates as Partial<ElektroComponent>, aenderungen);
+      }
+      if (auswahl.hinweis) hinweise.push(auswahl.hinweis);
+    }
+
+    // Kennlinien auf dem Pfad (nächste mit vorgeschlagenen Werten)
+    const kennlinien: AusloeseKennlinie[] = verbraucher.zugewieseneKomponente
+      ? findeSchutzeinrichtungenAufPfad(verteiler, verbraucher.zugewieseneKomponente)
+          .map((s) => gewaehlteKennlinien.get(s.id) ?? getAusloeseKennlinie(s))
+          .filter((k): k is AusloeseKennlinie => k !== null)
+      : [];
+
+    // 2. Leitungsquerschnitt
+    const leitung = waehleQuerschnitt(verteiler, verbraucher, betriebsstrom, kennlinien, vorSpannungsfallProzent);
+    const aenderungen: DimensionierungsAenderung[] = [];
+    const updates: Partial<Verbraucher> = {};
+
+    if (leitung.querschnitt === undefined && verbraucher.kabeltypId) {
+      hinweise.push(`Kein Querschnitt der Bauart ${getKabeltyp(verbraucher.kabeltypId)?.bauart ?? verbraucher.kabeltypId} erfüllt Belastbarkeit, Spannungsfall und Abschaltbedingung – anderen Kabeltyp wählen`);
+    } else if (leitung.querschnitt === undefined) {
+      hinweise.push(`Kein Querschnitt bis ${VERFUEGBARE_QUERSCHNITTE[VERFUEGBARE_QUERSCHNITTE.length - 1]}mm² erfüllt Belastbarkeit, Spannungsfall und Abschaltbedingung – Leitungslänge oder Verlegeart prüfen`);
+    } else {
+      if (leitung.querschnitt !== verbraucher.leitungsquerschnitt) {
+        aenderungen.push({
+          bezeichnung: 'Querschnitt',
+          alt: verbraucher.leitungsquerschnitt ? `${verbraucher.leitungsquerschnitt}mm²` : '–',
+          neu: `${leitung.querschnitt}mm²`,
+        });
+        updates.leitungsquerschnitt = leitung.querschnitt;
+      }
+      if (leitung.kabeltypId && leitung.kabeltypId !== verbraucher.kabeltypId) {
+        aenderungen.push({
+          bezeichnung: 'Kabeltyp',
+          alt: getKabeltyp(verbraucher.kabeltypId)?.bezeichnung ?? '–',
+          neu: getKabeltyp(leitung.kabeltypId)?.bezeichnung ?? leitung.kabeltypId,
+        });
+        updates.kabeltypId = leitung.kabeltypId;
+      }
+
+      const klemme = verteiler.komponenten.find((k) => k.id === verbraucher.zugewieseneKomponente);
+      if (klemme?.type === 'abgangsklemme' && leitung.querschnitt > klemme.querschnitt) {
+        hinweise.push(`${klemme.name} ist nur für ${klemme.querschnitt}mm² ausgelegt`);
+      }
+      if (!verbraucher.leitungslaenge) {
+        hinweise.push('Keine Leitungslänge angegeben – Spannungsfall nicht berücksichtigt');
+      }
+    }
+
+    verbraucherVorschlaege.push({
+      art: 'verbraucher',
+      id: verbraucher.id,
+      name: verbraucher.name,
+      updates,
+      aenderungen,
+      hinweise,
+      spannungsfallProzent: leitung.spannungsfallProzent,
+      schleifenimpedanz: leitung.schleifenimpedanz,
+    });
+
+    // 3. FI-Typ und Bemessungsfehlerstrom
+    const fi = naechsterFI(verteiler, verbraucher);
+    const erforderlicherTyp = getErforderlicherFITyp(verbraucher);
+
+    if (!fi) {
+      if (verbraucher.typ === 'steckdose' || verbraucher.typ === 'wallbox') {
+        hinweise.push(`FI-Schutz erforderlich (Typ ${erforderlicherTyp}, ${STECKDOSEN_MAX_FEHLERSTROM}mA)`);
+      }
+      continue;
+    }
+
+    if (komponentenVorschlaege.get(fi.id)?.aenderungen.some((a) => a.bezeichnung.startsWith('FI-'))) continue;
+
+    const fiGruppe = fiGruppen.get(fi.id) ?? [verbraucher];
+    const gruppenTyp = fiGruppe
+      .map((v) => getErforderlicherFITyp(v))
+      .reduce((max, typ) => (FI_TYP_RANG[typ] > FI_TYP_RANG[max] ? typ : max), 'A' as FITyp);
+
+    const fiAenderungen: DimensionierungsAenderung[] = [];
+    const fiUpdates: Partial<FISchalterParams> = {};
+    if (FI_TYP_RANG[fi.fiTyp] < FI_TYP_RANG[gruppenTyp]) {
+      fiAenderungen.push({ bezeichnung: 'FI-Typ', alt: fi.fiTyp, neu: gruppenTyp });
+      fiUpdates.fiTyp = gruppenTyp;
+    }
+    if (fiGruppe.some((v) => v.typ === 'steckdose') && fi.bemessungsFehlerstrom > STECKDOSEN_MAX_FEHLERSTROM) {
+      fiAenderungen.push({
+        bezeichnung: 'FI-Bemessungsfehlerstrom',
+        alt: `${fi.bemessungsFehlerstrom}mA`,
+        neu: `${STECKDOSEN_MAX_FEHLERSTROM}mA`,
+      });
+      fiUpdates.bemessungsFehlerstrom = STECKDOSEN_MAX_FEHLERSTROM;
+    }
+    if (fiAenderungen.length > 0) {
+      fuegeKomponentenVorschlagHinzu(komponentenVorschlaege, fi, fiUpdates, fiAenderungen);
+    }
+  }
+
+  return [...komponentenVorschlaege.values(), ...verbraucherVorschlaege];
+}
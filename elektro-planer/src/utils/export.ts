@@ -1,12 +1,31 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
 import { jsPDF } from 'jspdf';
 import * as XLSX from 'xlsx';
-import type { Verteiler, ElektroComponent } from '../types';
+import type { Verteiler, ElektroComponent, Gebaeude } from '../types';
+import { erstelleUebersichtsschaltplan } from './uebersichtsschaltplan';
+import { UebersichtsschaltplanSvg } from '../components/verteiler/Uebersichtsschaltplan';
+import { erstelleStromlaufplan } from './stromlaufplan';
+import { StromlaufplanSvg } from '../components/verteiler/Stromlaufplan';
+import { getBezeichnung, getAnschlussBezeichnung } from './kennzeichnung';
+import { erstelleKlemmenplan, type KlemmenplanZeile } from './klemmenplan';
+import { erstelleStromkreisverzeichnis, type Beschriftungsstreifen } from './stromkreisverzeichnis';
+import { TE_WIDTH } from './constants';
+import { getRaumBezeichnung } from './gebaeude';
+import {
+  getGesamtstatus,
+  formatWert,
+  PRUEF_STATUS_TEXT,
+  type StromkreisPruefung,
+  type PruefPunkt,
+} from './pruefprotokoll';
+import type { Stueckliste, StuecklistenPosition } from './stueckliste';
 
 // ==========================================
 // PDF EXPORT
 // ==========================================
 
-export async function exportToPDF(verteiler: Verteiler): Promise<void> {
+export async function exportToPDF(verteiler: Verteiler, gebaeude: Gebaeude[] = []): Promise<void> {
   const doc = new jsPDF();
   const pageWidth = doc.internal.pageSize.getWidth();
   let yPos = 20;
@@ -57,7 +76,7 @@ export async function exportToPDF(verteiler: Verteiler): Promise<void> {
   // Tabellen-Header
   doc.setFontSize(9);
   doc.setFont('helvetica', 'bold');
-  const headers = ['Nr.', 'Typ', 'Name', 'Position', 'Parameter'];
+  const headers = ['BMK', 'Typ', 'Name', 'Position', 'Parameter'];
   const colWidths = [15, 30, 50, 25, 50];
   let xPos = 20;
 
@@ -81,7 +100,7 @@ export async function exportToPDF(verteiler: Verteiler): Promise<void> {
 
     xPos = 20;
     const rowData = [
-      `${index + 1}`,
+      comp.bmk ?? `${index + 1}`,
       getComponentTypeName(comp.type),
       comp.name.substring(0, 25),
       `S${comp.position.rail + 1}/${comp.position.slot}`,
@@ -110,8 +129,8 @@ export async function exportToPDF(verteiler: Verteiler): Promise<void> {
     yPos += 10;
 
     doc.setFontSize(9);
-    const vHeaders = ['Nr.', 'Name', 'Typ', 'Leistung', 'Phase(n)', 'Zuordnung'];
-    const vColWidths = [15, 40, 30, 25, 25, 35];
+    const vHeaders = ['Nr.', 'Name', 'Raum', 'Typ', 'Leistung', 'Phase(n)', 'Zuordnung'];
+    const vColWidths = [12, 36, 30, 22, 20, 20, 30];
     xPos = 20;
 
     doc.setFont('helvetica', 'bold');
@@ -133,16 +152,17 @@ export async function exportToPDF(verteiler: Verteiler): Promise<void> {
 
       xPos = 20;
       const zuordnung = v.zugewieseneKomponente
-        ? verteiler.komponenten.find((c) => c.id === v.zugewieseneKomponente)?.name || '-'
+        ? getZuordnung(verteiler, v.zugewieseneKomponente)
         : 'Nicht zugewiesen';
 
       const rowData = [
         `${index + 1}`,
         v.name.substring(0, 20),
+        (getRaumBezeichnung(gebaeude, v.raumId) ?? '-').substring(0, 17),
         v.typ,
         `${v.leistung} W`,
         v.phasen.join(', '),
-        zuordnung.substring(0, 18),
+        zuordnung.substring(0, 16),
       ];
 
       rowData.forEach((cell, i) => {
@@ -154,16 +174,92 @@ export async function exportToPDF(verteiler: Verteiler): Promise<void> {
     });
   }
 
+  // Leitungsliste mit Leitungsnummern
+  if (verteiler.verbindungen.length > 0) {
+    yPos += 10;
+    if (yPos > 250) {
+      doc.addPage();
+      yPos = 20;
+    }
+
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Leitungsliste', 20, yPos);
+    yPos += 10;
+
+    doc.setFontSize(9);
+    const lHeaders = ['Nr.', 'Von', 'Nach', 'Phase', 'Querschnitt'];
+    const lColWidths = [15, 50, 50, 20, 30];
+    xPos = 20;
+
+    doc.setFont('helvetica', 'bold');
+    lHeaders.forEach((header, i) => {
+      doc.text(header, xPos, yPos);
+      xPos += lColWidths[i];
+    });
+
+    yPos += 2;
+    doc.line(20, yPos, pageWidth - 20, yPos);
+    yPos += 5;
+
+    doc.setFont('helvetica', 'normal');
+    getLeitungsliste(verteiler).forEach((zeile) => {
+      if (yPos > 270) {
+        doc.addPage();
+        yPos = 20;
+      }
+
+      xPos = 20;
+      const rowData = [
+        zeile.nummer,
+        zeile.von.substring(0, 28),
+        zeile.nach.substring(0, 28),
+        zeile.phase,
+        zeile.querschnitt,
+      ];
+
+      rowData.forEach((cell, i) => {
+        doc.text(cell, xPos, yPos);
+        xPos += lColWidths[i];
+      });
+
+      yPos += 6;
+    });
+  }
+
+  // Übersichtsschaltplan (Querformat)
+  try {
+    const schaltplan = await rastereUebersichtsschaltplan(verteiler);
+    if (schaltplan) {
+      doc.addPage('a4', 'landscape');
+      const seitenBreite = doc.internal.pageSize.getWidth();
+      const seitenHoehe = doc.internal.pageSize.getHeight();
+
+      doc.setFontSize(12);
+      doc.setFont('helvetica', 'bold');
+      doc.text(`Übersichtsschaltplan – ${verteiler.name}`, 20, 18);
+
+      // Auf die Seite einpassen (Rand 20 mm, Titel und Fußzeile)
+      const massstab = Math.min((seitenBreite - 40) / schaltplan.breite, (seitenHoehe - 40) / schaltplan.hoehe);
+      doc.addImage(schaltplan.png, 'PNG', 20, 24, schaltplan.breite * massstab, schaltplan.hoehe * massstab);
+    }
+  } catch (error) {
+    console.error('Übersichtsschaltplan konnte nicht gerastert werden:', error);
+  }
+
   // Footer
   const pageCount = doc.getNumberOfPages();
   for (let i = 1; i <= pageCount; i++) {
     doc.setPage(i);
+    // Seitengröße je Seite (Übersichtsschaltplan im Querformat)
+    const seitenBreite = doc.internal.pageSize.getWidth();
+    const seitenHoehe = doc.internal.pageSize.getHeight();
     doc.setFontSize(8);
     doc.setTextColor(128);
     doc.text(
       `Erstellt mit Elektro-Planer | Seite ${i} von ${pageCount} | ${new Date().toLocaleDateString('de-AT')}`,
-      pageWidth / 2,
-      290,
+      seitenBreite / 2,
+      seitenHoehe - 7,
       { align: 'center' }
     );
   }
@@ -172,11 +268,776 @@ export async function exportToPDF(verteiler: Verteiler): Promise<void> {
   doc.save(`${verteiler.name.replace(/\s+/g, '_')}_Dokumentation.pdf`);
 }
 
+/** Auflösung des gerasterten Übersichtsschaltplans (Pixel je SVG-Einheit) */
+const SCHALTPLAN_SKALIERUNG = 3;
+
+async function ladeAlsDataUrl(pfad: string): Promise<string> {
+  const antwort = await fetch(pfad);
+  const blob = await antwort.blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Rastert den Übersichtsschaltplan als PNG für das PDF.
+ *
+ * WICHTIG: Ein als Bild geladenes SVG lädt keine externen Ressourcen nach –
+ * die Symbolbilder werden daher vorher als Data-URL eingebettet.
+ */
+async function rastereUebersichtsschaltplan(
+  verteiler: Verteiler
+): Promise<{ png: string; breite: number; hoehe: number } | null> {
+  const plan = erstelleUebersichtsschaltplan(verteiler);
+  if (plan.symbole.length === 0) return null;
+
+  let markup = renderToStaticMarkup(createElement(UebersichtsschaltplanSvg, { plan }));
+  const bildpfade = new Set(Array.from(markup.matchAll(/href="([^"]+)"/g), (m) => m[1]));
+  for (const pfad of bildpfade) {
+    const dataUrl = await ladeAlsDataUrl(pfad);
+    markup = markup.split(`href="${pfad}"`).join(`href="${dataUrl}"`);
+  }
+
+  const bild = new Image();
+  await new Promise<void>((resolve, reject) => {
+    bild.onload = () => resolve();
+    bild.onerror = () => reject(new Error('SVG konnte nicht geladen werden'));
+    bild.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`;
+  });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = plan.breite * SCHALTPLAN_SKALIERUNG;
+  canvas.height = plan.hoehe * SCHALTPLAN_SKALIERUNG;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(bild, 0, 0, canvas.width, canvas.height);
+
+  return { png: canvas.toDataURL('image/png'), breite: plan.breite, hoehe: plan.hoehe };
+}
+
+// ==========================================
+// STROMLAUFPLAN EXPORT
+// ==========================================
+
+/** Millimeter je Pixel (96 dpi) und Punkt je Millimeter für Schriftgrößen */
+const MM_JE_PX = 25.4 / 96;
+const PT_JE_MM = 72 / 25.4;
+
+/**
+ * Exportiert den Stromlaufplan als PDF (A4 quer, ein Blatt je Seite).
+ * Die Blätter werden als Vektorgrafik aus denselben Primitiven wie die SVG-Ansicht gezeichnet.
+ */
+export function exportStromlaufplanPDF(verteiler: Verteiler): void {
+  const blaetter = erstelleStromlaufplan(verteiler);
+  if (blaetter.length === 0) return;
+
+  const doc = new jsPDF({ orientation: 'landscape', format: 'a4' });
+  const seitenBreite = doc.internal.pageSize.getWidth();
+  const seitenHoehe = doc.internal.pageSize.getHeight();
+
+  blaetter.forEach((blatt, index) => {
+    if (index > 0) doc.addPage('a4', 'landscape');
+
+    // Überhohe Blätter (viele Leiterbahnen) auf die Seite einpassen
+    const m = Math.min(MM_JE_PX, seitenBreite / blatt.breite, seitenHoehe / blatt.hoehe);
+
+    for (const r of blatt.rechtecke) {
+      doc.setDrawColor(r.farbe);
+      doc.setLineWidth(0.8 * m);
+      doc.rect(r.x * m, r.y * m, r.breite * m, r.hoehe * m, 'S');
+    }
+
+    for (const l of blatt.linien) {
+      doc.setDrawColor(l.farbe);
+      doc.setLineWidth(l.staerke * m);
+      doc.setLineDashPattern(l.gestrichelt ? [3 * m, 2 * m] : [], 0);
+      doc.line(l.x1 * m, l.y1 * m, l.x2 * m, l.y2 * m);
+    }
+    doc.setLineDashPattern([], 0);
+
+    for (const p of blatt.punkte) {
+      doc.setDrawColor(p.farbe);
+      doc.setFillColor(p.gefuellt ? p.farbe : '#ffffff');
+      doc.setLineWidth(0.8 * m);
+      doc.circle(p.x * m, p.y * m, p.radius * m, 'FD');
+    }
+
+    for (const t of blatt.texte) {
+      doc.setFont('helvetica', t.fett ? 'bold' : 'normal');
+      doc.setFontSize(t.groesse * m * PT_JE_MM);
+      doc.setTextColor(t.farbe ?? '#111827');
+      if (t.gedreht) {
+        // WICHTIG: jsPDF kann gedrehten Text nicht ausrichten – gedrehte Texte beginnen immer am Ankerpunkt
+        doc.text(t.text, t.x * m, t.y * m, { angle: 90 });
+      } else {
+        const align = t.anker === 'middle' ? 'center' : t.anker === 'end' ? 'right' : 'left';
+        doc.text(t.text, t.x * m, t.y * m, { align });
+      }
+    }
+  });
+
+  doc.save(`${verteiler.name.replace(/\s+/g, '_')}_Stromlaufplan.pdf`);
+}
+
+/**
+ * Exportiert den Stromlaufplan als SVG-Datei (alle Blätter untereinander)
+ */
+export function exportStromlaufplanSVG(verteiler: Verteiler): void {
+  const blaetter = erstelleStromlaufplan(verteiler);
+  if (blaetter.length === 0) return;
+
+  const abstand = 20;
+  let y = 0;
+  const inhalt = blaetter.map((blatt) => {
+    const markup = renderToStaticMarkup(createElement(StromlaufplanSvg, { blatt, y }));
+    y += blatt.hoehe + abstand;
+    return markup;
+  });
+  const breite = Math.max(...blaetter.map((b) => b.breite));
+  const hoehe = y - abstand;
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${breite}" height="${hoehe}" viewBox="0 0 ${breite} ${hoehe}">` +
+    inhalt.join('') +
+    '</svg>';
+
+  const blob = new Blob([svg], { type: 'image/svg+xml' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${verteiler.name.replace(/\s+/g, '_')}_Stromlaufplan.svg`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+// ==========================================
+// KLEMMENPLAN EXPORT
+// ==========================================
+
+const KLEMMENPLAN_SPALTEN = ['Klemme', 'Zuleitung (intern)', 'Kabel', 'Ader', 'Ziel', 'Verbraucher'];
+
+const getKlemmenplanZeile = (zeile: KlemmenplanZeile): string[] => [
+  `${zeile.klemme}: ${zeile.bezeichnung}${zeile.bezeichnung !== zeile.phase ? ` (${zeile.phase})` : ''}`,
+  zeile.zuleitung ?? 'nicht angeschlossen',
+  zeile.kabel ?? '-',
+  zeile.ader,
+  zeile.ziel ?? '-',
+  zeile.verbraucher ?? 'Reserve',
+];
+
+/**
+ * Exportiert den Klemmenplan als PDF (A4 quer, eine Tabelle je Klemmenleiste)
+ */
+export function exportKlemmenplanPDF(verteiler: Verteiler, gebaeude: Gebaeude[] = []): void {
+  const klemmenleisten = erstelleKlemmenplan(verteiler, gebaeude);
+  const doc = new jsPDF({ orientation: 'landscape', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const colWidths = [22, 65, 60, 22, 40, 48];
+  const maxZeichen = [12, 40, 36, 12, 24, 30];
+  let yPos = 20;
+
+  doc.setFontSize(16);
+  doc.setFont('helvetica', 'bold');
+  doc.text(`Klemmenplan – ${verteiler.name}`, 20, yPos);
+  yPos += 12;
+
+  if (klemmenleisten.length === 0) {
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text('Keine Abgangsklemmen im Verteiler.', 20, yPos);
+  }
+
+  klemmenleisten.forEach((leiste) => {
+    // Klemmenleiste nicht über den Seitenumbruch trennen
+    if (yPos + 16 + leiste.zeilen.length * 6 > 195) {
+      doc.addPage('a4', 'landscape');
+      yPos = 20;
+    }
+
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'bold');
+    doc.text(
+      `${leiste.bezeichnung}  ${leiste.komponente.name} · ${leiste.komponente.polzahl}-polig · max. ${leiste.komponente.querschnitt} mm²`,
+      20,
+      yPos
+    );
+    yPos += 7;
+
+    doc.setFontSize(9);
+    let xPos = 20;
+    KLEMMENPLAN_SPALTEN.forEach((header, i) => {
+      doc.text(header, xPos, yPos);
+      xPos += colWidths[i];
+    });
+    yPos += 2;
+    doc.line(20, yPos, pageWidth - 20, yPos);
+    yPos += 5;
+
+    doc.setFont('helvetica', 'normal');
+    leiste.zeilen.forEach((zeile) => {
+      xPos = 20;
+      getKlemmenplanZeile(zeile).forEach((cell, i) => {
+        doc.text(cell.substring(0, maxZeichen[i]), xPos, yPos);
+        xPos += colWidths[i];
+      });
+      yPos += 6;
+    });
+    yPos += 8;
+  });
+
+  doc.save(`${verteiler.name.replace(/\s+/g, '_')}_Klemmenplan.pdf`);
+}
+
+/**
+ * Exportiert den Klemmenplan als Excel-Datei (ein Blatt, Klemmenleisten untereinander)
+ */
+export function exportKlemmenplanExcel(verteiler: Verteiler, gebaeude: Gebaeude[] = []): void {
+  const workbook = XLSX.utils.book_new();
+  const daten: (string | number)[][] = [[`KLEMMENPLAN - ${verteiler.name}`], []];
+
+  for (const leiste of erstelleKlemmenplan(verteiler, gebaeude)) {
+    daten.push([`${leiste.bezeichnung} ${leiste.komponente.name} (${leiste.komponente.polzahl}-polig)`]);
+    daten.push(KLEMMENPLAN_SPALTEN);
+    leiste.zeilen.forEach((zeile) => daten.push(getKlemmenplanZeile(zeile)));
+    daten.push([]);
+  }
+
+  const ws = XLSX.utils.aoa_to_sheet(daten);
+  ws['!cols'] = [
+    { wch: 12 }, // Klemme
+    { wch: 40 }, // Zuleitung
+    { wch: 35 }, // Kabel
+    { wch: 12 }, // Ader
+    { wch: 20 }, // Ziel
+    { wch: 30 }, // Verbraucher
+  ];
+  XLSX.utils.book_append_sheet(workbook, ws, 'Klemmenplan');
+
+  XLSX.writeFile(workbook, `${verteiler.name.replace(/\s+/g, '_')}_Klemmenplan.xlsx`);
+}
+
+// ==========================================
+// STROMKREISVERZEICHNIS EXPORT
+// ==========================================
+
+/** Höhe eines Beschriftungsfelds [mm] */
+const FELD_HOEHE = 18;
+const VERZEICHNIS_RAND = 10;
+
+/**
+ * Teilt einen Beschriftungsstreifen in druckbare Abschnitte.
+ * Geschnitten wird nur zwischen Feldern – ein Feld wird nie getrennt.
+ */
+function teileStreifen(streifen: Beschriftungsstreifen, maxBreite: number): [number, number][] {
+  const abschnitte: [number, number][] = [];
+  let start = 0;
+  while (start < streifen.laenge) {
+    let ende = Math.min(streifen.laenge, start + Math.floor(maxBreite / TE_WIDTH) * TE_WIDTH);
+    const geteilt = streifen.felder.find((f) => f.x < ende && f.x + f.breite > ende && f.x > start);
+    if (geteilt) ende = geteilt.x;
+    abschnitte.push([start, ende]);
+    start = ende;
+  }
+  return abschnitte;
+}
+
+/**
+ * Exportiert Beschriftungsstreifen (je Hutschiene) und das tabellarische
+ * Stromkreisverzeichnis als PDF in Originalgröße.
+ *
+ * WICHTIG: Keine Skalierung – 1 TE entspricht exakt 18 mm. Beim Drucken
+ * "Tatsächliche Größe" wählen.
+ */
+export function exportStromkreisverzeichnisPDF(verteiler: Verteiler, gebaeude: Gebaeude[] = []): void {
+  const { streifen, eintraege } = erstelleStromkreisverzeichnis(verteiler, gebaeude);
+  const doc = new jsPDF({ orientation: 'landscape', format: 'a4' });
+  const seitenBreite = doc.internal.pageSize.getWidth();
+  const seitenHoehe = doc.internal.pageSize.getHeight();
+  const maxBreite = seitenBreite - 2 * VERZEICHNIS_RAND;
+  let yPos = 15;
+
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.text(`Beschriftung – ${verteiler.name}`, VERZEICHNIS_RAND, yPos);
+  doc.setFontSize(8);
+  doc.setFont('helvetica', 'normal');
+  doc.text('Druck in Originalgröße (100 %) – 1 TE = 18 mm', seitenBreite - VERZEICHNIS_RAND, yPos, { align: 'right' });
+  yPos += 8;
+
+  // Beschriftungsstreifen
+  for (const s of streifen) {
+    teileStreifen(s, maxBreite).forEach(([start, ende], teil) => {
+      if (yPos + FELD_HOEHE + 6 > seitenHoehe - VERZEICHNIS_RAND) {
+        doc.addPage('a4', 'landscape');
+        yPos = 15;
+      }
+
+      doc.setFontSize(7);
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(128);
+      doc.text(`Schiene ${s.hutschiene + 1}${teil > 0 ? ` (Forts. ab ${start / TE_WIDTH} TE)` : ''}`, VERZEICHNIS_RAND, yPos);
+      doc.setTextColor(0);
+      yPos += 2;
+
+      // Schnittkante des Abschnitts
+      doc.setDrawColor(0);
+      doc.setLineWidth(0.3);
+      doc.rect(VERZEICHNIS_RAND, yPos, ende - start, FELD_HOEHE, 'S');
+
+      doc.setLineWidth(0.1);
+      for (const feld of s.felder.filter((f) => f.x >= start && f.x < ende)) {
+        const x = VERZEICHNIS_RAND + feld.x - start;
+        const textBreite = feld.breite - 2;
+        doc.rect(x, yPos, feld.breite, FELD_HOEHE, 'S');
+
+        doc.setFontSize(8);
+        doc.setFont('helvetica', 'bold');
+        doc.text(feld.bmk, x + feld.breite / 2, yPos + 3.5, { align: 'center', maxWidth: textBreite });
+        doc.setFont('helvetica', 'normal');
+        if (feld.bemessung) {
+          doc.setFontSize(7);
+          doc.text(feld.bemessung, x + feld.breite / 2, yPos + 6.5, { align: 'center', maxWidth: textBreite });
+        }
+
+        // Verbraucher so weit sie ins Feld passen
+        doc.setFontSize(5.5);
+        const zeilen: string[] = doc.splitTextToSize(feld.verbraucher.join(', '), textBreite);
+        zeilen.slice(0, 5).forEach((zeile, i) => {
+          doc.text(zeile, x + 1, yPos + 9.5 + i * 2.1);
+        });
+      }
+      yPos += FELD_HOEHE + 6;
+    });
+  }
+
+  // Tabellarisches Stromkreisverzeichnis (Hochformat)
+  doc.addPage('a4', 'portrait');
+  const breite = doc.internal.pageSize.getWidth();
+  const hoehe = doc.internal.pageSize.getHeight();
+  const colWidths = [18, 25, 72, 40, 15];
+  const kopfzeile = ['BMK', 'Bemessung', 'Stromkreis / Verbraucher', 'Raum', 'Ort'];
+
+  const zeichneKopf = () => {
+    yPos = 15;
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.text(`Stromkreisverzeichnis – ${verteiler.name}`, VERZEICHNIS_RAND, yPos);
+    yPos += 8;
+    doc.setFontSize(9);
+    let xPos = VERZEICHNIS_RAND;
+    kopfzeile.forEach((header, i) => {
+      doc.text(header, xPos + 1, yPos);
+      xPos += colWidths[i];
+    });
+    yPos += 2;
+    doc.setLineWidth(0.3);
+    doc.line(VERZEICHNIS_RAND, yPos, VERZEICHNIS_RAND + colWidths.reduce((a, b) => a + b, 0), yPos);
+    doc.setFont('helvetica', 'normal');
+  };
+  zeichneKopf();
+
+  doc.setFontSize(8);
+  for (const eintrag of eintraege) {
+    const zellen = [
+      [eintrag.bmk],
+      [eintrag.bemessung ?? '-'],
+      doc.splitTextToSize(
+        [
+          eintrag.name !== eintrag.bmk ? `${eintrag.name}:` : null,
+          eintrag.verbraucher.length > 0 ? eintrag.verbraucher.join(', ') : 'Reserve',
+        ].filter(Boolean).join(' '),
+        colWidths[2] - 2
+      ) as string[],
+      doc.splitTextToSize(eintrag.raeume.join(', ') || '-', colWidths[3] - 2) as string[],
+      [eintrag.einbauort],
+    ];
+    const zeilenHoehe = Math.max(...zellen.map((z) => z.length)) * 3.5 + 2;
+
+    if (yPos + zeilenHoehe > hoehe - VERZEICHNIS_RAND) {
+      doc.addPage('a4', 'portrait');
+      zeichneKopf();
+      doc.setFontSize(8);
+    }
+
+    let xPos = VERZEICHNIS_RAND;
+    zellen.forEach((zelle, i) => {
+      doc.text(zelle, xPos + 1, yPos + 4);
+      xPos += colWidths[i];
+    });
+    yPos += zeilenHoehe;
+    doc.setLineWidth(0.1);
+    doc.line(VERZEICHNIS_RAND, yPos, Math.min(breite - VERZEICHNIS_RAND, xPos), yPos);
+  }
+
+  doc.save(`${verteiler.name.replace(/\s+/g, '_')}_Stromkreisverzeichnis.pdf`);
+}
+
+/**
+ * Die PDF-Standardschriften kennen nur WinAnsi – Formelzeichen werden umschrieben
+ */
+const pdfText = (text: string): string =>
+  text.replace(/≤/g, '<=').replace(/≥/g, '>=').replace(/…/g, '...').replace(/Ω/g, 'Ohm').replace(/Δ/g, 'd');
+
+type PruefPunktFeld = 'isolation' | 'schleifenimpedanz' | 'fiAusloesezeit' | 'fiAusloesestrom' | 'schutzleiter';
+
+const PRUEF_SPALTEN: { titel: string; breite: number; punkt?: PruefPunktFeld; text?: (p: StromkreisPruefung) => string }[] = [
+  { titel: 'Stromkreis', breite: 48, text: (p) => p.verbraucherName },
+  { titel: 'Schutzeinrichtung', breite: 32, text: (p) => p.schutzeinrichtung },
+  { titel: 'FI-Schutz', breite: 36, text: (p) => p.fi ?? 'ohne' },
+  { titel: 'Riso [MOhm]', breite: 28, punkt: 'isolation' },
+  { titel: 'Zs [Ohm]', breite: 30, punkt: 'schleifenimpedanz' },
+  { titel: 'tA FI [ms]', breite: 28, punkt: 'fiAusloesezeit' },
+  { titel: 'IA FI [mA]', breite: 28, punkt: 'fiAusloesestrom' },
+  { titel: 'RPE [Ohm]', breite: 28, punkt: 'schutzleiter' },
+  { titel: 'Ergebnis', breite: 19, text: (p) => PRUEF_STATUS_TEXT[p.status] },
+];
+
+const getPruefZelle = (punkt: PruefPunkt): string[] => {
+  if (punkt.status === 'entfaellt') return ['-'];
+  return [
+    punkt.gemessen !== undefined ? formatWert(punkt.gemessen) : '____',
+    pdfText([
+      punkt.berechnet !== undefined ? `ber. ${formatWert(punkt.berechnet)}` : null,
+      `Gr. ${punkt.grenzwert}`,
+    ].filter(Boolean).join(' / ')),
+  ];
+};
+
+/**
+ * Prüfprotokoll der Erstprüfung (ÖVE E 8001-6-61) mit berechneten und gemessenen Werten.
+ *
+ * WICHTIG: Die Prüfungen müssen auf dem Prüf-Verteiler aus validateProjekt beruhen
+ * (siehe erstellePruefung), sonst fehlt die vorgelagerte Schleifenimpedanz.
+ */
+export function exportPruefprotokollPDF(verteiler: Verteiler, pruefungen: StromkreisPruefung[]): void {
+  const protokoll = verteiler.pruefprotokoll;
+  const doc = new jsPDF({ orientation: 'landscape', format: 'a4' });
+  const seitenBreite = doc.internal.pageSize.getWidth();
+  const seitenHoehe = doc.internal.pageSize.getHeight();
+  const tabellenBreite = PRUEF_SPALTEN.reduce((summe, s) => summe + s.breite, 0);
+  const versorgung = verteiler.komponenten.find((k) => k.type === 'versorgungsklemme');
+  let yPos = 15;
+
+  // Kopfdaten
+  doc.setFontSize(14);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Prüfprotokoll – Erstprüfung nach ÖVE E 8001-6-61', VERZEICHNIS_RAND, yPos);
+  yPos += 8;
+
+  doc.setFontSize(9);
+  const kopfdaten: [string, string][] = [
+    ['Anlage:', [verteiler.name, verteiler.beschreibung].filter(Boolean).join(' – ')],
+    ['Netzsystem:', versorgung?.type === 'versorgungsklemme' ? `${versorgung.netzsystem}, ${versorgung.spannung} V` : '-'],
+    ['Prüfer:', protokoll?.pruefer || '-'],
+    ['Prüfdatum:', protokoll?.datum ? new Date(protokoll.datum).toLocaleDateString('de-AT') : '-'],
+    ['Messgerät:', protokoll?.messgeraet || '-'],
+  ];
+  kopfdaten.forEach(([label, wert], i) => {
+    const xPos = VERZEICHNIS_RAND + (i % 2) * 140;
+    doc.setFont('helvetica', 'bold');
+    doc.text(label, xPos, yPos);
+    doc.setFont('helvetica', 'normal');
+    doc.text(wert, xPos + 25, yPos);
+    if (i % 2 === 1 || i === kopfdaten.length - 1) yPos += 5;
+  });
+  yPos += 4;
+
+  // Messwerttabelle
+  const zeichneKopf = () => {
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'bold');
+    let xPos = VERZEICHNIS_RAND;
+    for (const spalte of PRUEF_SPALTEN) {
+      doc.text(spalte.titel, xPos + 1, yPos);
+      xPos += spalte.breite;
+    }
+    yPos += 2;
+    doc.setLineWidth(0.3);
+    doc.line(VERZEICHNIS_RAND, yPos, VERZEICHNIS_RAND + tabellenBreite, yPos);
+    doc.setFont('helvetica', 'normal');
+  };
+  zeichneKopf();
+
+  for (const pruefung of pruefungen) {
+    const zellen = PRUEF_SPALTEN.map((spalte): string[] =>
+      spalte.punkt
+        ? getPruefZelle(pruefung[spalte.punkt])
+        : (doc.splitTextToSize(pdfText(spalte.text?.(pruefung) ?? ''), spalte.breite - 2) as string[])
+    );
+    const zeilenHoehe = Math.max(...zellen.map((z) => z.length)) * 3.5 + 2;
+
+    if (yPos + zeilenHoehe > seitenHoehe - VERZEICHNIS_RAND) {
+      doc.addPage('a4', 'landscape');
+      yPos = 15;
+      zeichneKopf();
+    }
+
+    let xPos = VERZEICHNIS_RAND;
+    zellen.forEach((zelle, i) => {
+      const spalte = PRUEF_SPALTEN[i];
+      const status = spalte.punkt ? pruefung[spalte.punkt].status : i === PRUEF_SPALTEN.length - 1 ? pruefung.status : null;
+      doc.setFont('helvetica', status === 'nicht-bestanden' ? 'bold' : 'normal');
+      doc.setTextColor(status === 'nicht-bestanden' ? 200 : 0, 0, 0);
+      doc.text(zelle[0], xPos + 1, yPos + 4);
+      if (zelle.length > 1) {
+        // Berechnete Werte und Grenzwerte kleiner und grau unter dem Messwert
+        if (spalte.punkt) {
+          doc.setFont('helvetica', 'normal');
+          doc.setFontSize(6.5);
+          doc.setTextColor(110);
+        }
+        doc.text(zelle.slice(1), xPos + 1, yPos + 7.5);
+        doc.setFontSize(8);
+      }
+      doc.setTextColor(0);
+      xPos += spalte.breite;
+    });
+    doc.setFont('helvetica', 'normal');
+    yPos += zeilenHoehe;
+    doc.setLineWidth(0.1);
+    doc.line(VERZEICHNIS_RAND, yPos, VERZEICHNIS_RAND + tabellenBreite, yPos);
+  }
+
+  // Gesamtergebnis, Bemerkungen und Unterschrift
+  const bemerkungen = protokoll?.bemerkungen
+    ? (doc.splitTextToSize(protokoll.bemerkungen, tabellenBreite) as string[])
+    : [];
+  if (yPos + 45 + bemerkungen.length * 4 > seitenHoehe - VERZEICHNIS_RAND) {
+    doc.addPage('a4', 'landscape');
+    yPos = 15;
+  }
+  yPos += 8;
+
+  const gesamt = getGesamtstatus(pruefungen);
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'bold');
+  doc.text(
+    `Gesamtergebnis: ${gesamt === 'bestanden' ? 'Alle Prüfungen bestanden' : gesamt === 'offen' ? 'Prüfung unvollständig' : 'Mängel festgestellt'}`,
+    VERZEICHNIS_RAND,
+    yPos
+  );
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.text(
+    'ber. = berechneter Wert, Gr. = Grenzwert (Abschaltbedingung bzw. Bemessungsfehlerstrom und Verzögerung des FI-Schutzes)',
+    VERZEICHNIS_RAND,
+    yPos + 5
+  );
+  yPos += 11;
+
+  if (bemerkungen.length > 0) {
+    doc.setFont('helvetica', 'bold');
+    doc.text('Bemerkungen:', VERZEICHNIS_RAND, yPos);
+    doc.setFont('helvetica', 'normal');
+    doc.text(bemerkungen, VERZEICHNIS_RAND, yPos + 4);
+    yPos += 4 + bemerkungen.length * 3.5 + 4;
+  }
+
+  const unterschriftX = seitenBreite - VERZEICHNIS_RAND - 80;
+  if (protokoll?.unterschrift) {
+    doc.addImage(protokoll.unterschrift, 'PNG', unterschriftX, yPos, 60, 20);
+  }
+  yPos += 22;
+  doc.setLineWidth(0.2);
+  doc.line(unterschriftX, yPos, unterschriftX + 80, yPos);
+  doc.text(
+    `${protokoll?.datum ? new Date(protokoll.datum).toLocaleDateString('de-AT') : 'Datum'}, Unterschrift ${protokoll?.pruefer || 'Prüfer'}`,
+    unterschriftX,
+    yPos + 4
+  );
+
+  doc.save(`${verteiler.name.replace(/\s+/g, '_')}_Pruefprotokoll.pdf`);
+}
+
+// ==========================================
+// STÜCKLISTE / ANGEBOT EXPORT
+// ==========================================
+
+/** Umsatzsteuer für das Angebot (Österreich) */
+const UST_SATZ = 0.2;
+
+const STUECKLISTE_KATEGORIEN: Record<StuecklistenPosition['kategorie'], string> = {
+  geraet: 'Geräte',
+  kabel: 'Kabel und Leitungen',
+  verdrahtung: 'Verdrahtung im Verteiler',
+};
+
+const formatEuro = (wert: number): string =>
+  wert.toLocaleString('de-AT', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * Exportiert die Stückliste als Excel-Datei (Positionen und Summen)
+ */
+export function exportStuecklisteExcel(stueckliste: Stueckliste, titel: string): void {
+  const workbook = XLSX.utils.book_new();
+  const daten: (string | number)[][] = [
+    [`STÜCKLISTE - ${titel}`],
+    [],
+    ['Pos.', 'Kategorie', 'Bezeichnung', 'Hersteller', 'Artikelnummer', 'Menge', 'Einheit', 'Einzelpreis [€]', 'Gesamtpreis [€]', 'Verwendung'],
+    ...stueckliste.positionen.map((p) => [
+      p.position,
+      STUECKLISTE_KATEGORIEN[p.kategorie],
+      p.bezeichnung,
+      p.hersteller ?? '-',
+      p.artikelnummer ?? '-',
+      p.menge,
+      p.einheit,
+      p.einzelpreis ?? '',
+      p.gesamtpreis ?? '',
+      p.kennzeichen.join(', '),
+    ]),
+    [],
+    ['', '', 'Summe netto', '', '', '', '', '', stueckliste.summe],
+  ];
+
+  const ws = XLSX.utils.aoa_to_sheet(daten);
+  ws['!cols'] = [
+    { wch: 6 },  // Pos.
+    { wch: 22 }, // Kategorie
+    { wch: 40 }, // Bezeichnung
+    { wch: 16 }, // Hersteller
+    { wch: 18 }, // Artikelnummer
+    { wch: 8 },  // Menge
+    { wch: 8 },  // Einheit
+    { wch: 14 }, // Einzelpreis
+    { wch: 14 }, // Gesamtpreis
+    { wch: 50 }, // Verwendung
+  ];
+  XLSX.utils.book_append_sheet(workbook, ws, 'Stückliste');
+
+  XLSX.writeFile(workbook, `${titel.replace(/\s+/g, '_')}_Stueckliste.xlsx`);
+}
+
+/**
+ * Exportiert die Stückliste als Angebot (PDF, Hochformat) mit Netto-, USt- und Bruttosumme.
+ * Positionen ohne Katalogartikel erscheinen ohne Preis ("auf Anfrage").
+ */
+export function exportAngebotPDF(stueckliste: Stueckliste, titel: string): void {
+  const doc = new jsPDF({ orientation: 'portrait', format: 'a4' });
+  const seitenHoehe = doc.internal.pageSize.getHeight();
+  const colWidths = [10, 18, 12, 78, 20, 25];
+  const rechtsbuendig = [false, true, false, false, true, true];
+  const kopfzeile = ['Pos.', 'Menge', 'Einh.', 'Bezeichnung / Artikel', 'EP [€]', 'GP [€]'];
+  const tabellenBreite = colWidths.reduce((a, b) => a + b, 0);
+  let yPos = 15;
+
+  doc.setFontSize(16);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Angebot', VERZEICHNIS_RAND, yPos);
+  yPos += 7;
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Projekt: ${titel}`, VERZEICHNIS_RAND, yPos);
+  doc.text(`Datum: ${new Date().toLocaleDateString('de-AT')}`, VERZEICHNIS_RAND + tabellenBreite, yPos, { align: 'right' });
+  yPos += 10;
+
+  const zeichneKopf = () => {
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'bold');
+    let xPos = VERZEICHNIS_RAND;
+    kopfzeile.forEach((header, i) => {
+      doc.text(header, rechtsbuendig[i] ? xPos + colWidths[i] - 1 : xPos + 1, yPos, { align: rechtsbuendig[i] ? 'right' : 'left' });
+      xPos += colWidths[i];
+    });
+    yPos += 2;
+    doc.setLineWidth(0.3);
+    doc.line(VERZEICHNIS_RAND, yPos, VERZEICHNIS_RAND + tabellenBreite, yPos);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+  };
+  zeichneKopf();
+
+  let kategorie: StuecklistenPosition['kategorie'] | null = null;
+  for (const position of stueckliste.positionen) {
+    const beschreibung = doc.splitTextToSize(position.bezeichnung, colWidths[3] - 2) as string[];
+    const artikel = position.artikelnummer ? `${position.hersteller ?? ''} Art.-Nr. ${position.artikelnummer}`.trim() : null;
+    const zeilen = [...beschreibung, ...(artikel ? [artikel] : [])];
+    const zeilenHoehe = zeilen.length * 3.5 + 2 + (position.kategorie !== kategorie ? 6 : 0);
+
+    if (yPos + zeilenHoehe > seitenHoehe - VERZEICHNIS_RAND) {
+      doc.addPage('a4', 'portrait');
+      yPos = 15;
+      zeichneKopf();
+    }
+
+    // Zwischenüberschrift je Kategorie
+    if (position.kategorie !== kategorie) {
+      kategorie = position.kategorie;
+      doc.setFont('helvetica', 'bold');
+      doc.text(STUECKLISTE_KATEGORIEN[kategorie], VERZEICHNIS_RAND + 1, yPos + 5);
+      doc.setFont('helvetica', 'normal');
+      yPos += 6;
+    }
+
+    const zellen = [
+      String(position.position),
+      position.menge.toLocaleString('de-AT'),
+      position.einheit,
+      '',
+      position.einzelpreis !== null ? formatEuro(position.einzelpreis) : '',
+      position.gesamtpreis !== null ? formatEuro(position.gesamtpreis) : 'auf Anfrage',
+    ];
+    let xPos = VERZEICHNIS_RAND;
+    zellen.forEach((zelle, i) => {
+      if (i === 3) {
+        doc.text(beschreibung, xPos + 1, yPos + 4);
+        if (artikel) {
+          doc.setTextColor(110);
+          doc.text(artikel, xPos + 1, yPos + 4 + beschreibung.length * 3.5);
+          doc.setTextColor(0);
+        }
+      } else {
+        doc.text(zelle, rechtsbuendig[i] ? xPos + colWidths[i] - 1 : xPos + 1, yPos + 4, { align: rechtsbuendig[i] ? 'right' : 'left' });
+      }
+      xPos += colWidths[i];
+    });
+    yPos += zeilen.length * 3.5 + 2;
+    doc.setLineWidth(0.1);
+    doc.line(VERZEICHNIS_RAND, yPos, VERZEICHNIS_RAND + tabellenBreite, yPos);
+  }
+
+  // Summen
+  if (yPos + 25 > seitenHoehe - VERZEICHNIS_RAND) {
+    doc.addPage('a4', 'portrait');
+    yPos = 15;
+  }
+  yPos += 6;
+  const ust = Math.round(stueckliste.summe * UST_SATZ * 100) / 100;
+  const summen: [string, number][] = [
+    ['Summe netto', stueckliste.summe],
+    [`zzgl. ${UST_SATZ * 100} % USt.`, ust],
+    ['Summe brutto', stueckliste.summe + ust],
+  ];
+  doc.setFontSize(9);
+  summen.forEach(([label, wert], i) => {
+    doc.setFont('helvetica', i === summen.length - 1 ? 'bold' : 'normal');
+    doc.text(label, VERZEICHNIS_RAND + tabellenBreite - 40, yPos, { align: 'right' });
+    doc.text(`${formatEuro(wert)} €`, VERZEICHNIS_RAND + tabellenBreite - 1, yPos, { align: 'right' });
+    yPos += 5;
+  });
+
+  if (stueckliste.ohneArtikel > 0) {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.text(
+      `${stueckliste.ohneArtikel} Position(en) ohne Katalogartikel sind nicht in der Summe enthalten.`,
+      VERZEICHNIS_RAND,
+      yPos + 3
+    );
+  }
+
+  doc.save(`${titel.replace(/\s+/g, '_')}_Angebot.pdf`);
+}
+
 // ==========================================
 // EXCEL EXPORT
 // ==========================================
 
-export function exportToExcel(verteiler: Verteiler): void {
+export function exportToExcel(verteiler: Verteiler, gebaeude: Gebaeude[] = []): void {
   const workbook = XLSX.utils.book_new();
 
   // Blatt 1: Übersicht
@@ -214,6 +1075,7 @@ export function exportToExcel(verteiler: Verteiler): void {
     // Header für diese Gruppe
     komponentenData.push([
       'Nr.',
+      'BMK',
       'Name',
       'Position',
       'Breite',
@@ -224,6 +1086,7 @@ export function exportToExcel(verteiler: Verteiler): void {
     komponenten.forEach((comp) => {
       komponentenData.push([
         komponentenNr++,
+        comp.bmk ?? '-',
         comp.name,
         `Schiene ${comp.position.rail + 1} / Slot ${comp.position.slot}`,
         `${comp.teilungseinheiten} TE`,
@@ -240,6 +1103,7 @@ export function exportToExcel(verteiler: Verteiler): void {
   // Spaltenbreiten setzen
   wsKomponenten['!cols'] = [
     { wch: 6 },  // Nr.
+    { wch: 8 },  // BMK
     { wch: 25 }, // Name
     { wch: 20 }, // Position
     { wch: 10 }, // Breite
@@ -255,6 +1119,7 @@ export function exportToExcel(verteiler: Verteiler): void {
   const verbraucherHeader = [
     'Nr.',
     'Name',
+    'Raum',
     'Typ',
     'Leistung (W)',
     'Spannung (V)',
@@ -264,11 +1129,12 @@ export function exportToExcel(verteiler: Verteiler): void {
   ];
   const verbraucherData = verteiler.verbraucher.map((v, index) => {
     const zuordnung = v.zugewieseneKomponente
-      ? verteiler.komponenten.find((c) => c.id === v.zugewieseneKomponente)?.name || '-'
+      ? getZuordnung(verteiler, v.zugewieseneKomponente)
       : 'Nicht zugewiesen';
     return [
       index + 1,
       v.name,
+      getRaumBezeichnung(gebaeude, v.raumId) ?? '',
       v.typ,
       v.leistung,
       v.spannung,
@@ -280,7 +1146,21 @@ export function exportToExcel(verteiler: Verteiler): void {
   const wsVerbraucher = XLSX.utils.aoa_to_sheet([verbraucherHeader, ...verbraucherData]);
   XLSX.utils.book_append_sheet(workbook, wsVerbraucher, 'Verbraucher');
 
-  // Blatt 4: Leistungsbilanz
+  // Blatt 4: Leitungen
+  const leitungenHeader = ['Nr.', 'Von', 'Nach', 'Phase', 'Querschnitt', 'Material', 'Länge (m)'];
+  const leitungenData = getLeitungsliste(verteiler).map((zeile) => [
+    zeile.nummer,
+    zeile.von,
+    zeile.nach,
+    zeile.phase,
+    zeile.querschnitt,
+    zeile.wire.material,
+    zeile.wire.laenge,
+  ]);
+  const wsLeitungen = XLSX.utils.aoa_to_sheet([leitungenHeader, ...leitungenData]);
+  XLSX.utils.book_append_sheet(workbook, wsLeitungen, 'Leitungen');
+
+  // Blatt 5: Leistungsbilanz
   const leistungHeader = ['Phase', 'Last (W)', 'Last (kW)', 'Strom (A)'];
   const phasenLasten = calculatePhasenLasten(verteiler);
   const leistungData = Object.entries(phasenLasten).map(([phase, last]) => [
@@ -306,6 +1186,27 @@ export function exportToExcel(verteiler: Verteiler): void {
 // HILFSFUNKTIONEN
 // ==========================================
 
+function getZuordnung(verteiler: Verteiler, komponenteId: string): string {
+  const komponente = verteiler.komponenten.find((c) => c.id === komponenteId);
+  return komponente ? getBezeichnung(komponente) : '-';
+}
+
+/**
+ * Leitungen nach Leitungsnummer sortiert, Anschlüsse als "BMK:Klemme"
+ */
+function getLeitungsliste(verteiler: Verteiler) {
+  return [...verteiler.verbindungen]
+    .sort((a, b) => (a.leitungsnummer ?? Infinity) - (b.leitungsnummer ?? Infinity))
+    .map((wire) => ({
+      wire,
+      nummer: wire.leitungsnummer !== undefined ? String(wire.leitungsnummer) : '-',
+      von: getAnschlussBezeichnung(verteiler, wire.von),
+      nach: getAnschlussBezeichnung(verteiler, wire.nach),
+      phase: wire.phase,
+      querschnitt: `${wire.querschnitt} mm²`,
+    }));
+}
+
 function getComponentTypeName(type: ElektroComponent['type']): string {
   const names: Record<string, string> = {
     'fi-schalter': 'FI-Schalter',
@@ -314,11 +1215,14 @@ function getComponentTypeName(type: ElektroComponent['type']): string {
     'nh-sicherung': 'NH-Sicherung',
     'schraub-sicherung': 'Schraub-Sicherung',
     'sammelschiene': 'Sammelschiene',
+    'phasenschiene': 'Phasenschiene',
     'zaehler': 'Zähler',
     'hauptschalter': 'Hauptschalter',
     'trennschalter': 'Trennschalter',
     'schuetz': 'Schütz',
     'klemme': 'Klemme',
+    'isolationsueberwachung': 'Isolationswächter',
+    'pen-aufteilung': 'PEN-Aufteilung',
   };
   return names[type] || type;
 }
@@ -339,12 +1243,18 @@ function getComponentParams(comp: ElektroComponent): string {
       return `${comp.bemessungsStrom}A, ${comp.kennlinie}, ${comp.polzahl}-polig`;
     case 'sammelschiene':
       return `${comp.phase}, ${comp.querschnitt}mm²`;
+    case 'phasenschiene':
+      return `${comp.polzahl}-polig, ${comp.bemessungsStrom}A, ${comp.querschnitt}mm², ${comp.teilungseinheiten} TE`;
     case 'zaehler':
       return `${comp.art}, ${comp.phasen}-phasig`;
     case 'schuetz':
       return `${comp.bemessungsStrom}A, ${comp.spulenSpannung}V`;
     case 'klemme':
       return `${comp.phase}, max. ${comp.querschnitt}mm²`;
+    case 'isolationsueberwachung':
+      return `Alarm ${comp.ansprechwert}kΩ, Vorwarnung ${comp.vorwarnwert}kΩ`;
+    case 'pen-aufteilung':
+      return `PEN → N + PE, max. ${comp.querschnitt}mm²`;
     default:
       return '-';
   }
@@ -366,6 +1276,8 @@ function getDetailedParamHeaders(type: ElektroComponent['type']): string[] {
       return ['Bemessungsstrom', 'Kennlinie', 'Polzahl'];
     case 'sammelschiene':
       return ['Phase', 'Querschnitt'];
+    case 'phasenschiene':
+      return ['Polzahl', 'Bemessungsstrom', 'Querschnitt', 'Länge'];
     case 'zaehler':
       return ['Art', 'Phasen'];
     case 'schuetz':
@@ -376,6 +1288,8 @@ function getDetailedParamHeaders(type: ElektroComponent['type']): string[] {
       return ['Spannung', 'Kurzschlussstrom', 'Schleifenimpedanz', 'Netzsystem'];
     case 'abgangsklemme':
       return ['Polzahl', 'Max. Querschnitt', 'Anzahl Verbraucher'];
+    case 'isolationsueberwachung':
+      return ['Ansprechwert Alarm', 'Ansprechwert Vorwarnung'];
     default:
       return ['Parameter'];
   }
@@ -429,6 +1343,13 @@ function getDetailedParams(comp: ElektroComponent): (string | number)[] {
         comp.phase,
         `${comp.querschnitt} mm²`
       ];
+    case 'phasenschiene':
+      return [
+        `${comp.polzahl}-polig`,
+        `${comp.bemessungsStrom} A`,
+        `${comp.querschnitt} mm²`,
+        `${comp.teilungseinheiten} TE`
+      ];
     case 'zaehler':
       return [
         comp.art,
@@ -457,6 +1378,11 @@ function getDetailedParams(comp: ElektroComponent): (string | number)[] {
         `${comp.querschnitt} mm²`,
         `${comp.zugewieseneVerbraucher?.length || 0} Stück`
       ];
+    case 'isolationsueberwachung':
+      return [
+        `${comp.ansprechwert} kΩ`,
+        `${comp.vorwarnwert} kΩ`
+      ];
     default:
       return ['-'];
   }
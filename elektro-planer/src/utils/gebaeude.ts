@@ -0,0 +1,152 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Gebaeude, Geschoss, Raum, Raumart, Verbraucher, Verteiler } from '../types';
+
+// ==========================================
+// GEBÄUDE / GESCHOSSE / RÄUME
+// ==========================================
+
+/**
+ * Ein Raum mit seinem Geschoss und Gebäude
+ */
+export interface RaumEintrag {
+  raum: Raum;
+  geschoss: Geschoss;
+  gebaeude: Gebaeude;
+}
+
+/**
+ * Raumarten mit zusätzlichen Anforderungen an den Fehlerschutz.
+ * Alle Stromkreise in diesen Räumen benötigen einen FI mit IΔn ≤ 30 mA.
+ */
+export const RAUM_FI_PFLICHT: Partial<Record<Raumart, string>> = {
+  bad: 'In Räumen mit Badewanne oder Dusche müssen alle Stromkreise gemäß ÖVE E 8101 Teil 7-701 durch einen FI-Schalter mit IΔn ≤ 30mA geschützt werden.',
+  aussen: 'Stromkreise im Außenbereich müssen gemäß ÖVE E 8101 durch einen FI-Schalter mit IΔn ≤ 30mA geschützt werden.',
+};
+
+/** Namensbestandteile, aus denen beim Anlegen die Raumart vorgeschlagen wird */
+const RAUMART_SYNONYME: [Raumart, string[]][] = [
+  ['bad', ['bad', 'dusche', 'wellness']],
+  ['wc', ['wc', 'toilette']],
+  ['kueche', ['küche', 'kueche', 'kochen']],
+  ['schlafraum', ['schlaf', 'kinder', 'gäste', 'gaeste']],
+  ['flur', ['flur', 'gang', 'diele', 'vorraum', 'stiege', 'treppe']],
+  ['keller', ['keller', 'lager']],
+  ['technik', ['technik', 'hausanschluss', 'heizraum', 'hwr']],
+  ['garage', ['garage', 'carport']],
+  ['aussen', ['außen', 'aussen', 'garten', 'terrasse', 'balkon']],
+  ['wohnraum', ['wohn', 'ess', 'büro', 'buero', 'arbeit', 'zimmer']],
+];
+
+/** Geschoss, in das Räume ohne Geschossangabe (Import, alte Projekte) gelegt werden */
+const STANDARD_GESCHOSS = 'Ohne Geschoss';
+
+const normalisiere = (text: string): string => text.trim().toLowerCase();
+
+/**
+ * Schlägt anhand des Raumnamens eine Raumart vor
+ */
+export function erkenneRaumart(name: string): Raumart {
+  const wert = normalisiere(name);
+  return RAUMART_SYNONYME.find(([, synonyme]) => synonyme.some((s) => wert.includes(s)))?.[0] ?? 'sonstige';
+}
+
+/**
+ * Alle Räume aller Gebäude in Reihenfolge Gebäude → Geschoss → Raum
+ */
+export function getAlleRaeume(gebaeude: Gebaeude[]): RaumEintrag[] {
+  return gebaeude.flatMap((g) =>
+    g.geschosse.flatMap((geschoss) => geschoss.raeume.map((raum) => ({ raum, geschoss, gebaeude: g })))
+  );
+}
+
+export function findeRaum(gebaeude: Gebaeude[], raumId: string | undefined): RaumEintrag | undefined {
+  if (!raumId) return undefined;
+  return getAlleRaeume(gebaeude).find((e) => e.raum.id === raumId);
+}
+
+/**
+ * Anzeigename eines Raums, z.B. "EG · Bad" – bei mehreren Gebäuden mit Gebäudename davor
+ */
+export function getRaumBezeichnung(gebaeude: Gebaeude[], raumId: string | undefined): string | null {
+  const eintrag = findeRaum(gebaeude, raumId);
+  if (!eintrag) return null;
+  return [gebaeude.length > 1 ? eintrag.gebaeude.name : null, eintrag.geschoss.name, eintrag.raum.name]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+/**
+ * Ordnet Raum- und Geschossnamen (Import, alte Verbrauchergruppen) Räumen des Gebäudemodells zu.
+ * Vorhandene Räume werden über den Namen (und das Geschoss, falls angegeben) gefunden,
+ * fehlende Geschosse und Räume werden im ersten Gebäude angelegt.
+ *
+ * @returns Das ergänzte Gebäudemodell und je Eintrag die Raum-ID (undefined ohne Raumname)
+ */
+export function ordneRaeumeZu(
+  gebaeude: Gebaeude[],
+  eintraege: { raum?: string; geschoss?: string }[]
+): { gebaeude: Gebaeude[]; raumIds: (string | undefined)[] } {
+  if (!eintraege.some((e) => e.raum?.trim())) {
+    return { gebaeude, raumIds: eintraege.map(() => undefined) };
+  }
+
+  // Tiefe Kopie, damit der Store-Zustand unverändert bleibt
+  const ergebnis: Gebaeude[] = gebaeude.length > 0
+    ? gebaeude.map((g) => ({ ...g, geschosse: g.geschosse.map((gs) => ({ ...gs, raeume: [...gs.raeume] })) }))
+    : [{ id: uuidv4(), name: 'Gebäude', geschosse: [] }];
+
+  const findeGeschoss = (name: string): Geschoss => {
+    const vorhanden = ergebnis
+      .flatMap((g) => g.geschosse)
+      .find((gs) => normalisiere(gs.name) === normalisiere(name));
+    if (vorhanden) return vorhanden;
+    const neu: Geschoss = { id: uuidv4(), name: name.trim(), raeume: [] };
+    ergebnis[0].geschosse.push(neu);
+    return neu;
+  };
+
+  const raumIds = eintraege.map(({ raum, geschoss }) => {
+    const raumName = raum?.trim();
+    if (!raumName) return undefined;
+
+    const kandidaten = geschoss?.trim()
+      ? findeGeschoss(geschoss).raeume
+      : getAlleRaeume(ergebnis).map((e) => e.raum);
+    const vorhanden = kandidaten.find((r) => normalisiere(r.name) === normalisiere(raumName));
+    if (vorhanden) return vorhanden.id;
+
+    const neu: Raum = { id: uuidv4(), name: raumName, raumart: erkenneRaumart(raumName) };
+    findeGeschoss(geschoss?.trim() || STANDARD_GESCHOSS).raeume.push(neu);
+    return neu.id;
+  });
+
+  return { gebaeude: ergebnis, raumIds };
+}
+
+/**
+ * Migration: Überführt die frühere freie Verbrauchergruppe (Verbraucher.gruppe)
+ * in Räume des Gebäudemodells.
+ */
+export function migriereVerbrauchergruppen(
+  alleVerteiler: Verteiler[],
+  gebaeude: Gebaeude[]
+): { verteiler: Verteiler[]; gebaeude: Gebaeude[] } {
+  type AlterVerbraucher = Verbraucher & { gruppe?: string };
+  const alle = alleVerteiler.flatMap((v) => v.verbraucher as AlterVerbraucher[]);
+  if (!alle.some((v) => v.gruppe)) return { verteiler: alleVerteiler, gebaeude };
+
+  const zuordnung = ordneRaeumeZu(gebaeude, alle.map((v) => ({ raum: v.raumId ? undefined : v.gruppe })));
+  const raumIds = new Map(alle.map((v, i) => [v.id, zuordnung.raumIds[i]]));
+
+  return {
+    gebaeude: zuordnung.gebaeude,
+    verteiler: alleVerteiler.map((verteiler) => ({
+      ...verteiler,
+      verbraucher: (verteiler.verbraucher as AlterVerbraucher[]).map((v) => {
+        const neu: AlterVerbraucher = { ...v, raumId: v.raumId ?? raumIds.get(v.id) };
+        delete neu.gruppe;
+        return neu;
+      }),
+    })),
+  };
+}
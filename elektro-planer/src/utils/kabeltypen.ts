@@ -0,0 +1,151 @@
+import type { Isolierung, Kabeltyp, Leitermaterial, Verbraucher } from '../types';
+
+// ==========================================
+// KABELTYPEN-KATALOG
+// ==========================================
+
+/**
+ * Induktiver Blindwiderstand je Leiter bei 50 Hz [Ω/km] für mehradrige Kabel.
+ * Richtwerte nach Herstellerangaben (NYM/NYY/N2XH), für Einzeladern etwas höher.
+ */
+const REAKTANZ_MEHRADRIG: Record<number, number> = {
+  1.5: 0.115,
+  2.5: 0.110,
+  4: 0.107,
+  6: 0.100,
+  10: 0.094,
+  16: 0.090,
+  25: 0.086,
+  35: 0.083,
+  50: 0.083,
+  70: 0.082,
+  95: 0.082,
+};
+
+/** Zuschlag für Einzeladern im Rohr (größerer Leiterabstand) [Ω/km] */
+const REAKTANZ_ZUSCHLAG_EINZELADER = 0.01;
+
+/**
+ * Reaktanzbelag je Leiter [Ω/km] – auch für Leitungen ohne Kabeltyp (Richtwert)
+ */
+export function getReaktanz(querschnitt: number, einzelader: boolean): number {
+  return (REAKTANZ_MEHRADRIG[querschnitt] ?? 0.08) + (einzelader ? REAKTANZ_ZUSCHLAG_EINZELADER : 0);
+}
+
+interface Bauart {
+  bauart: string;
+  leitermaterial: Leitermaterial;
+  isolierung: Isolierung;
+  /** Außendurchmesser [mm] je Aderzahl und Querschnitt */
+  durchmesser: Record<number, Record<number, number>>;
+}
+
+/**
+ * Gängige Bauarten mit ungefähren Außendurchmessern (Herstellerdatenblätter).
+ * Der Durchmesser dient nur der Rohr- und Kanalbemessung.
+ */
+const BAUARTEN: Bauart[] = [
+  {
+    bauart: 'NYM-J',
+    leitermaterial: 'kupfer',
+    isolierung: 'PVC',
+    durchmesser: {
+      3: { 1.5: 8.0, 2.5: 9.0, 4: 11.0, 6: 12.0, 10: 14.5, 16: 17.0 },
+      5: { 1.5: 9.5, 2.5: 11.0, 4: 13.0, 6: 14.5, 10: 17.5, 16: 21.0 },
+    },
+  },
+  {
+    bauart: 'NYY-J',
+    leitermaterial: 'kupfer',
+    isolierung: 'PVC',
+    durchmesser: {
+      3: { 1.5: 11.0, 2.5: 12.0, 4: 13.5, 6: 14.5, 10: 16.5 },
+      5: { 1.5: 12.5, 2.5: 14.0, 4: 15.5, 6: 17.0, 10: 19.5, 16: 22.0, 25: 26.5, 35: 29.0 },
+    },
+  },
+  {
+    bauart: 'N2XH-J',
+    leitermaterial: 'kupfer',
+    isolierung: 'XLPE',
+    durchmesser: {
+      3: { 1.5: 9.0, 2.5: 10.0, 4: 11.5, 6: 12.5, 10: 14.5 },
+      5: { 1.5: 10.5, 2.5: 11.5, 4: 13.5, 6: 14.5, 10: 17.0, 16: 20.0, 25: 24.0, 35: 26.5 },
+    },
+  },
+  {
+    bauart: 'NAYY-J',
+    leitermaterial: 'aluminium',
+    isolierung: 'PVC',
+    durchmesser: {
+      5: { 16: 23.0, 25: 27.0, 35: 30.0, 50: 33.0, 70: 37.0, 95: 42.0 },
+    },
+  },
+  {
+    bauart: 'H07V-K',
+    leitermaterial: 'kupfer',
+    isolierung: 'PVC',
+    durchmesser: {
+      1: { 1.5: 3.0, 2.5: 3.6, 4: 4.2, 6: 4.8, 10: 6.1, 16: 7.2, 25: 9.0, 35: 10.3 },
+    },
+  },
+];
+
+const formatiereQuerschnitt = (querschnitt: number): string => querschnitt.toString().replace('.', ',');
+
+/**
+ * Alle Kabeltypen des Katalogs, sortiert nach Bauart, Aderzahl und Querschnitt.
+ * Die ID ist stabil und wird in Projektdateien gespeichert.
+ */
+export const KABELTYPEN: Kabeltyp[] = BAUARTEN.flatMap((b) =>
+  Object.entries(b.durchmesser).flatMap(([adernText, querschnitte]) => {
+    const adern = Number(adernText);
+    // Object.entries liefert ganzzahlige Schlüssel zuerst ("1.5" stünde hinter "16")
+    const sortiert = Object.entries(querschnitte).sort(([a], [b]) => Number(a) - Number(b));
+    return sortiert.map(([querschnittText, aussendurchmesser]) => {
+      const querschnitt = Number(querschnittText);
+      return {
+        id: `${b.bauart} ${adern}x${querschnitt}`,
+        bauart: b.bauart,
+        bezeichnung: `${b.bauart} ${adern}×${formatiereQuerschnitt(querschnitt)}`,
+        adern,
+        querschnitt,
+        leitermaterial: b.leitermaterial,
+        isolierung: b.isolierung,
+        aussendurchmesser,
+        reaktanz: getReaktanz(querschnitt, adern === 1),
+      };
+    });
+  })
+);
+
+export function getKabeltyp(id: string | undefined): Kabeltyp | undefined {
+  if (!id) return undefined;
+  return KABELTYPEN.find((k) => k.id === id);
+}
+
+export function findeKabeltyp(bauart: string, adern: number, querschnitt: number): Kabeltyp | undefined {
+  return KABELTYPEN.find((k) => k.bauart === bauart && k.adern === adern && k.querschnitt === querschnitt);
+}
+
+/**
+ * Benötigte Aderzahl eines Verbrauchers: Außenleiter + N + PE (3 bzw. 5 Adern)
+ */
+export function getBenoetigteAdern(verbraucher: Verbraucher): number {
+  return verbraucher.phasen.length + 2;
+}
+
+/**
+ * Passt ein Kabeltyp zur Aderzahl des Verbrauchers? Einzeladern passen immer.
+ */
+export function passtKabeltyp(kabeltyp: Kabeltyp, verbraucher: Verbraucher): boolean {
+  return kabeltyp.adern === 1 || kabeltyp.adern === getBenoetigteAdern(verbraucher);
+}
+
+/**
+ * Anzeigetext der Leitung, z.B. "NYM-J 5×2,5" oder "3× H07V-K 1×2,5" bei Einzeladern
+ */
+export function getKabeltypText(kabeltyp: Kabeltyp, verbraucher: Verbraucher): string {
+  return kabeltyp.adern === 1
+    ? `${getBenoetigteAdern(verbraucher)}× ${kabeltyp.bezeichnung}`
+    : kabeltyp.bezeichnung;
+}
@@ -0,0 +1,301 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { ElektroComponent, ComponentLibraryItem, KatalogArtikel, KatalogMerkmal, Leitermaterial } from '../types';
+import { COMPONENT_LIBRARY } from '../types';
+
+// ==========================================
+// HERSTELLER-KATALOG (ZUORDNUNG & IMPORT)
+// ==========================================
+
+export const KATALOG_MERKMALE: KatalogMerkmal[] = [
+  'bemessungsStrom', 'charakteristik', 'polzahl', 'bemessungsFehlerstrom', 'fiTyp',
+];
+
+/**
+ * Bibliotheksvariante einer platzierten Komponente.
+ *
+ * Komponenten speichern ihre Variante nicht – sie wird aus den Parametern abgeleitet,
+ * in denen sich die Varianten eines Typs unterscheiden (z.B. Polzahl, Phase).
+ * Passt keine Variante vollständig, gewinnt die mit den meisten Übereinstimmungen.
+ */
+export function getVariante(komponente: ElektroComponent): ComponentLibraryItem | undefined {
+  const kandidaten = COMPONENT_LIBRARY.filter((item) => item.type === komponente.type);
+  if (kandidaten.length <= 1) return kandidaten[0];
+
+  const werte = komponente as unknown as Record<string, unknown>;
+  const unterscheidend = Array.from(new Set(kandidaten.flatMap((item) => Object.keys(item.defaultParams))))
+    .filter((key) => new Set(kandidaten.map((item) => String((item.defaultParams as Record<string, unknown>)[key]))).size > 1);
+
+  let beste = kandidaten[0];
+  let besteTreffer = -1;
+  for (const item of kandidaten) {
+    const params = item.defaultParams as Record<string, unknown>;
+    const treffer = unterscheidend.filter((key) => String(params[key]) === String(werte[key])).length;
+    if (treffer > besteTreffer) {
+      beste = item;
+      besteTreffer = treffer;
+    }
+  }
+  return beste;
+}
+
+/**
+ * Passender Katalogartikel für eine Komponente.
+ * Bei mehreren Treffern gewinnt der Artikel mit den meisten (erfüllten) Merkmalen.
+ */
+export function findeArtikel(katalog: KatalogArtikel[], komponente: ElektroComponent): KatalogArtikel | undefined {
+  const variante = getVariante(komponente);
+  if (!variante) return undefined;
+  const werte = komponente as unknown as Record<string, unknown>;
+
+  return katalog
+    .filter((a) => a.variantId === variante.variantId)
+    .filter((a) => Object.entries(a.merkmale ?? {}).every(([key, wert]) => String(werte[key]) === String(wert)))
+    .sort((a, b) => Object.keys(b.merkmale ?? {}).length - Object.keys(a.merkmale ?? {}).length)[0];
+}
+
+/**
+ * Passender Katalogartikel für ein Kabel bzw. eine Einzelader
+ */
+export function findeKabelArtikel(
+  katalog: KatalogArtikel[],
+  adern: number,
+  querschnitt: number,
+  leitermaterial: Leitermaterial
+): KatalogArtikel | undefined {
+  return katalog.find(
+    (a) =>
+      a.kabel?.adern === adern &&
+      a.kabel.querschnitt === querschnitt &&
+      a.kabel.leitermaterial === leitermaterial
+  );
+}
+
+// ==========================================
+// AUTOMATISCHE ZUORDNUNG AUS DEM ARTIKELTEXT
+// ==========================================
+
+/**
+ * Zahl aus einem Text (CSV-/Tabellenzelle), optional mit Einheit (z.B. "2,5 kW", "1.500 W").
+ * Tausendertrennzeichen: Kommen Punkt und Komma vor, ist das letzte das Dezimalzeichen.
+ * Ein einzelner Punkt vor genau drei Ziffern ("1.500") gilt als Tausenderpunkt,
+ * ein einzelnes Komma immer als Dezimalkomma.
+ */
+export const leseZahl = (text: string): number | null => {
+  const match = text.replace(/[\s'’]/g, '').match(/^-?\d[\d.,]*/);
+  if (!match) return null;
+  const zahl = match[0].replace(/[.,]$/, '');
+
+  const dezimal = zahl.lastIndexOf(',') > zahl.lastIndexOf('.') ? ',' : '.';
+  const tausender = dezimal === ',' ? '.' : ',';
+  const teile = zahl.split(tausender).join('').split(dezimal);
+  if (teile.length > 2 || (dezimal === '.' && !zahl.includes(',') && teile[1]?.length === 3 && !/^-?0$/.test(teile[0]))) {
+    // Mehrere gleiche Trenner bzw. "1.500" → nur Tausendertrennzeichen
+    return parseFloat(teile.join(''));
+  }
+  return parseFloat(teile.join('.'));
+};
+
+const zahl = (text: string): number => leseZahl(text) ?? NaN;
+
+/**
+ * Leitet Variante, Merkmale bzw. Kabeldaten aus dem Kurztext eines Artikels ab,
+ * z.B. "LS-Schalter B16 1-polig 6kA" oder "NYM-J 5x2,5".
+ *
+ * WICHTIG: Nur eine Heuristik für den Import – nicht erkannte Artikel bleiben
+ * ohne Zuordnung und können im Katalog-Dialog manuell zugeordnet werden.
+ */
+export function erkenneZuordnung(bezeichnung: string): Pick<KatalogArtikel, 'variantId' | 'merkmale' | 'kabel'> {
+  const text = bezeichnung.replace(/×/g, 'x');
+  const pole = text.match(/(\d)\s*-?\s*(?:polig|pol\b|p\b)/i);
+  const polzahl = pole ? Number(pole[1]) : undefined;
+  const aluminium = /\bN?A(YY|YCWY)\b|\bAl\b|alu/i.test(text);
+
+  // Kabel und Leitungen, z.B. "NYM-J 5x2,5" / "YMvK 3x1,5 mm²"
+  const kabel = text.match(/(\d+)\s*x\s*(\d+(?:[.,]\d+)?)/i);
+  if (kabel && /NYM|NYY|YMvK|NAYY|E-?YY|H0[57]|kabel|leitung/i.test(text)) {
+    return { kabel: { adern: Number(kabel[1]), querschnitt: zahl(kabel[2]), leitermaterial: aluminium ? 'aluminium' : 'kupfer' } };
+  }
+  // Einzeladern, z.B. "H07V-K 2,5 mm² braun"
+  const ader = text.match(/(\d+(?:[.,]\d+)?)\s*mm/i);
+  if (ader && /H07V|aderleitung|einzelader/i.test(text)) {
+    return { kabel: { adern: 1, querschnitt: zahl(ader[1]), leitermaterial: aluminium ? 'aluminium' : 'kupfer' } };
+  }
+
+  const kennlinie = text.match(/\b([BCDKZ])\s?(\d{1,3})\b/);
+  const fehlerstrom = text.match(/(\d+)\s*mA/i);
+  const strom = text.match(/\b(\d{1,3})\s*A\b/);
+  const fiTyp = text.match(/\bTyp\s*(B\+|AC|A|B|F)(?![\w+])/i);
+
+  const merkmale: KatalogArtikel['merkmale'] = {};
+  if (fehlerstrom) merkmale.bemessungsFehlerstrom = Number(fehlerstrom[1]);
+  if (fiTyp) merkmale.fiTyp = fiTyp[1].toUpperCase();
+
+  // FI/LS-Kombination vor FI und LS prüfen
+  if (/FI\s*\/\s*LS|FI-?LS|RCBO/i.test(text)) {
+    if (kennlinie) {
+      merkmale.charakteristik = kennlinie[1];
+      merkmale.bemessungsStrom = Number(kennlinie[2]);
+    }
+    return { variantId: polzahl && polzahl >= 3 ? 'fils-3pn' : 'fils-1pn', merkmale };
+  }
+  if (/\bFI\b|\bRCD\b|fehlerstrom/i.test(text)) {
+    if (strom) merkmale.bemessungsStrom = Number(strom[1]);
+    return { variantId: polzahl === 4 ? 'fi-4p' : 'fi-2p', merkmale };
+  }
+  if (/\bLS\b|leitungsschutz|\bMCB\b/i.test(text)) {
+    if (kennlinie) {
+      merkmale.charakteristik = kennlinie[1];
+      merkmale.bemessungsStrom = Number(kennlinie[2]);
+    }
+    return { variantId: `ls-${polzahl && polzahl <= 4 ? polzahl : 1}p`, merkmale };
+  }
+  return {};
+}
+
+// ==========================================
+// IMPORT (CSV / DATANORM)
+// ==========================================
+
+/** Spaltennamen der CSV-Datei (klein geschrieben, ohne Sonderzeichen) */
+const CSV_SPALTEN: Record<string, string[]> = {
+  artikelnummer: ['artikelnummer', 'artnr', 'artikelnr', 'bestellnummer'],
+  hersteller: ['hersteller', 'marke'],
+  bezeichnung: ['bezeichnung', 'kurztext', 'beschreibung', 'text'],
+  preis: ['preis', 'listenpreis', 'nettopreis'],
+  einheit: ['einheit', 'mengeneinheit', 'me'],
+  variante: ['variante', 'variantid'],
+  bemessungsStrom: ['bemessungsstrom', 'nennstrom'],
+  charakteristik: ['charakteristik', 'kennlinie'],
+  polzahl: ['polzahl', 'pole'],
+  bemessungsFehlerstrom: ['fehlerstrom', 'bemessungsfehlerstrom', 'idn'],
+  fiTyp: ['fityp', 'fehlerstromtyp'],
+  adern: ['adern', 'aderzahl'],
+  querschnitt: ['querschnitt'],
+  material: ['material', 'leitermaterial'],
+};
+
+/**
+ * Teilt eine CSV-Zeile unter Berücksichtigung von Anführungszeichen
+ */
+function teileCsvZeile(zeile: string, trenner: string): string[] {
+  const felder: string[] = [];
+  let feld = '';
+  let inAnfuehrung = false;
+  for (let i = 0; i < zeile.length; i++) {
+    const zeichen = zeile[i];
+    if (zeichen === '"') {
+      if (inAnfuehrung && zeile[i + 1] === '"') {
+        feld += '"';
+        i++;
+      } else {
+        inAnfuehrung = !inAnfuehrung;
+      }
+    } else if (zeichen === trenner && !inAnfuehrung) {
+      felder.push(feld.trim());
+      feld = '';
+    } else {
+      feld += zeichen;
+    }
+  }
+  felder.push(feld.trim());
+  return felder;
+}
+
+const istMeter = (einheit: string | undefined): boolean => /^(m|mtr|meter|lfm)$/i.test(einheit?.trim() ?? '');
+
+/**
+ * Liest einen Katalog im CSV-Format (Trennzeichen ; , oder Tab, Dezimalkomma erlaubt).
+ *
+ * Pflichtspalten sind Artikelnummer, Bezeichnung und Preis. Fehlt die Spalte
+ * "Variante", wird die Zuordnung aus der Bezeichnung abgeleitet (erkenneZuordnung).
+ */
+export function importiereKatalogCsv(inhalt: string, standardHersteller = ''): KatalogArtikel[] {
+  const zeilen = inhalt.split(/\r?\n/).filter((z) => z.trim() !== '');
+  if (zeilen.length < 2) return [];
+
+  const trenner = [';', '\t', ','].find((t) => zeilen[0].includes(t)) ?? ';';
+  const kopf = teileCsvZeile(zeilen[0], trenner).map((s) => s.toLowerCase().replace(/[^a-z0-9]/g, ''));
+  const spalte = (name: string) => kopf.findIndex((k) => CSV_SPALTEN[name].includes(k));
+  const index = Object.fromEntries(Object.keys(CSV_SPALTEN).map((name) => [name, spalte(name)]));
+  if (index.artikelnummer < 0 || index.bezeichnung < 0 || index.preis < 0) {
+    throw new Error('CSV benötigt die Spalten Artikelnummer, Bezeichnung und Preis.');
+  }
+
+  return zeilen.slice(1).flatMap((zeile): KatalogArtikel[] => {
+    const felder = teileCsvZeile(zeile, trenner);
+    const wert = (name: string): string | undefined => (index[name] >= 0 ? felder[index[name]] || undefined : undefined);
+    const artikelnummer = wert('artikelnummer');
+    const bezeichnung = wert('bezeichnung') ?? '';
+    const preis = zahl(wert('preis') ?? '');
+    if (!artikelnummer || isNaN(preis)) return [];
+
+    const merkmale: KatalogArtikel['merkmale'] = {};
+    for (const merkmal of KATALOG_MERKMALE) {
+      const w = wert(merkmal);
+      if (w) merkmale[merkmal] = isNaN(zahl(w)) ? w : zahl(w);
+    }
+    const adern = wert('adern');
+    const querschnitt = wert('querschnitt');
+    const variantId = wert('variante');
+
+    // Ohne Variante-Spalte aus dem Text erkennen – Merkmale aus der CSV haben Vorrang
+    const erkannt = variantId ? { variantId } : erkenneZuordnung(bezeichnung);
+    const alleMerkmale = { ...erkannt.merkmale, ...merkmale };
+    const zuordnung = adern && querschnitt
+      ? {
+          kabel: {
+            adern: Number(adern),
+            querschnitt: zahl(querschnitt),
+            leitermaterial: (/^al/i.test(wert('material') ?? '') ? 'aluminium' : 'kupfer') as Leitermaterial,
+          },
+        }
+      : erkannt.kabel
+        ? erkannt
+        : { variantId: erkannt.variantId, merkmale: Object.keys(alleMerkmale).length > 0 ? alleMerkmale : undefined };
+
+    return [{
+      id: uuidv4(),
+      hersteller: wert('hersteller') ?? standardHersteller,
+      artikelnummer,
+      bezeichnung,
+      preis,
+      einheit: istMeter(wert('einheit')) || zuordnung.kabel ? 'm' : 'Stk',
+      ...zuordnung,
+    }];
+  });
+}
+
+/** Preiseinheit im Datanorm-A-Satz: 0 = je 1, 1 = je 10, 2 = je 100, 3 = je 1000 */
+const DATANORM_PREISEINHEIT = [1, 10, 100, 1000];
+
+/**
+ * Liest die Artikelsätze (A-Sätze) einer Datanorm-4.0-Datei.
+ *
+ * Aufbau: A;Kennzeichen;Artikelnummer;Textkennzeichen;Kurztext1;Kurztext2;
+ * Preiskennzeichen;Preiseinheit;Mengeneinheit;Preis (in Cent);...
+ *
+ * WICHTIG: Datanorm enthält keine technischen Merkmale – die Zuordnung wird
+ * aus dem Kurztext abgeleitet. Gelöschte Artikel (Kennzeichen "L") werden übersprungen.
+ */
+export function importiereKatalogDatanorm(inhalt: string, hersteller: string): KatalogArtikel[] {
+  return inhalt.split(/\r?\n/).flatMap((zeile): KatalogArtikel[] => {
+    const felder = zeile.split(';').map((f) => f.trim());
+    if (felder[0] !== 'A' || felder[1] === 'L' || !felder[2]) return [];
+
+    const bezeichnung = [felder[4], felder[5]].filter(Boolean).join(' ');
+    const preiseinheit = DATANORM_PREISEINHEIT[Number(felder[7])] ?? 1;
+    const preis = Number(felder[9]) / 100 / preiseinheit;
+    if (isNaN(preis)) return [];
+
+    const zuordnung = erkenneZuordnung(bezeichnung);
+    return [{
+      id: uuidv4(),
+      hersteller,
+      artikelnummer: felder[2],
+      bezeichnung,
+      preis,
+      einheit: istMeter(felder[8]) || zuordnung.kabel ? 'm' : 'Stk',
+      ...zuordnung,
+    }];
+  });
+}
@@ -0,0 +1,172 @@
+import type { Verteiler, ElektroComponent, ComponentType, Wire, ConnectionPoint } from '../types';
+
+// ==========================================
+// BETRIEBSMITTELKENNZEICHNUNG (IEC 81346-2)
+// ==========================================
+
+/**
+ * Standard-Kennbuchstaben je Komponententyp nach IEC 81346-2:
+ * F = Schutz, Q = Schalten von Energieflüssen, P = Messen,
+ * X = Verbinden (Klemmen), W = Leiten (Schienen)
+ */
+export const STANDARD_BMK_PRAEFIXE: Record<ComponentType, string> = {
+  'fi-schalter': 'F',
+  'ls-schalter': 'F',
+  'fi-ls-kombi': 'F',
+  'nh-sicherung': 'F',
+  'schraub-sicherung': 'F',
+  'neozed-sicherung': 'F',
+  'ueberspannungsschutz': 'F',
+  'schuetz': 'Q',
+  'zaehler': 'P',
+  'isolationsueberwachung': 'P',
+  'klemme': 'X',
+  'versorgungsklemme': 'X',
+  'abgangsklemme': 'X',
+  'pen-aufteilung': 'X',
+  'sammelschiene': 'W',
+  'phasenschiene': 'W',
+};
+
+/**
+ * Kennbuchstabe eines Komponententyps (Verteiler-Einstellung vor Standard)
+ */
+export function getBmkPraefix(verteiler: Verteiler, type: ComponentType): string {
+  return verteiler.bmkPraefixe?.[type]?.trim() || STANDARD_BMK_PRAEFIXE[type];
+}
+
+const nummerAus = (bmk: string | undefined, praefix: string): number | null => {
+  const match = bmk?.match(/^-([A-Za-z]+)(\d+)$/);
+  return match && match[1] === praefix ? Number(match[2]) : null;
+};
+
+/**
+ * Nächstes freies Kennzeichen für einen Komponententyp, z.B. "-F5"
+ */
+export function getNaechsteBmk(verteiler: Verteiler, type: ComponentType): string {
+  const praefix = getBmkPraefix(verteiler, type);
+  const vergeben = verteiler.komponenten
+    .map((k) => nummerAus(k.bmk, praefix))
+    .filter((n): n is number => n !== null);
+  return `-${praefix}${Math.max(0, ...vergeben) + 1}`;
+}
+
+/**
+ * Nächste freie Leitungsnummer
+ */
+export function getNaechsteLeitungsnummer(verteiler: Verteiler): number {
+  return Math.max(0, ...verteiler.verbindungen.map((w) => w.leitungsnummer ?? 0)) + 1;
+}
+
+/**
+ * Anzeigename einer Komponente mit vorangestelltem Kennzeichen, z.B. "-F1 LS Küche"
+ */
+export function getBezeichnung(komponente: ElektroComponent): string {
+  return komponente.bmk ? `${komponente.bmk} ${komponente.name}` : komponente.name;
+}
+
+/**
+ * Anschlusspunkt einer Leitung als "Kennzeichen:Klemme", z.B. "-F1:OUT_L1"
+ */
+export function getAnschlussBezeichnung(verteiler: Verteiler, punkt: ConnectionPoint): string {
+  const komponente = verteiler.komponenten.find((k) => k.id === punkt.componentId);
+  return `${komponente?.bmk ?? komponente?.name ?? '?'}:${punkt.terminal}`;
+}
+
+const nachEinbauort = (verteiler: Verteiler) => {
+  const position = new Map(verteiler.komponenten.map((k) => [k.id, k.position]));
+  return (a: ConnectionPoint, b: ConnectionPoint): number => {
+    const pa = position.get(a.componentId);
+    const pb = position.get(b.componentId);
+    if (!pa || !pb) return 0;
+    return pa.rail - pb.rail || pa.slot - pb.slot || a.terminal.localeCompare(b.terminal);
+  };
+};
+
+/**
+ * Nummeriert alle Kennzeichen und Leitungsnummern eines Verteilers neu.
+ *
+ * Komponenten werden je Kennbuchstabe in Einbaureihenfolge (Hutschiene, dann Steckplatz)
+ * ab 1 durchnummeriert, Leitungen nach dem Einbauort ihres Anfangs- und Endpunkts.
+ */
+export function nummeriereNeu(verteiler: Verteiler): Pick<Verteiler, 'komponenten' | 'verbindungen'> {
+  const zaehler = new Map<string, number>();
+  const bmkVon = new Map<string, string>();
+  const sortiert = [...verteiler.komponenten].sort(
+    (a, b) => a.position.rail - b.position.rail || a.position.slot - b.position.slot
+  );
+  for (const komponente of sortiert) {
+    const praefix = getBmkPraefix(verteiler, komponente.type);
+    const nummer = (zaehler.get(praefix) ?? 0) + 1;
+    zaehler.set(praefix, nummer);
+    bmkVon.set(komponente.id, `-${praefix}${nummer}`);
+  }
+
+  const vergleiche = nachEinbauort(verteiler);
+  const leitungen = [...verteiler.verbindungen].sort(
+    (a, b) => vergleiche(a.von, b.von) || vergleiche(a.nach, b.nach)
+  );
+  const nummerVon = new Map(leitungen.map((w, i) => [w.id, i + 1]));
+
+  return {
+    komponenten: verteiler.komponenten.map((k) => ({ ...k, bmk: bmkVon.get(k.id) })),
+    verbindungen: verteiler.verbindungen.map((w): Wire => ({ ...w, leitungsnummer: nummerVon.get(w.id) })),
+  };
+}
+
+/**
+ * Übernimmt geänderte Kennbuchstaben. Nur Komponenten, deren Kennbuchstabe sich
+ * ändert, erhalten ein neues Kennzeichen – mit gleicher Nummer, sofern diese unter
+ * dem neuen Kennbuchstaben frei ist. Alle anderen (auch von Hand vergebenen)
+ * Kennzeichen und die Leitungsnummern bleiben unverändert.
+ */
+export function aenderePraefixe(verteiler: Verteiler, praefixe: Verteiler['bmkPraefixe']): Verteiler {
+  const neu: Verteiler = { ...verteiler, bmkPraefixe: praefixe };
+  const betroffen = verteiler.komponenten
+    .filter((k) => getBmkPraefix(verteiler, k.type) !== getBmkPraefix(neu, k.type))
+    .sort((a, b) => a.position.rail - b.position.rail || a.position.slot - b.position.slot);
+  if (betroffen.length === 0) return neu;
+
+  const betroffenIds = new Set(betroffen.map((k) => k.id));
+  let ergebnis: Verteiler = {
+    ...neu,
+    komponenten: neu.komponenten.map((k) => (betroffenIds.has(k.id) ? { ...k, bmk: undefined } : k)),
+  };
+  for (const komponente of betroffen) {
+    const praefix = getBmkPraefix(neu, komponente.type);
+    const nummer = nummerAus(komponente.bmk, getBmkPraefix(verteiler, komponente.type));
+    const beibehalten = nummer !== null && !ergebnis.komponenten.some((k) => k.bmk === `-${praefix}${nummer}`);
+    const bmk = beibehalten ? `-${praefix}${nummer}` : getNaechsteBmk(ergebnis, komponente.type);
+    ergebnis = {
+      ...ergebnis,
+      komponenten: ergebnis.komponenten.map((k) => (k.id === komponente.id ? { ...k, bmk } : k)),
+    };
+  }
+  return ergebnis;
+}
+
+/**
+ * Vergibt Kennzeichen und Leitungsnummern nur dort, wo sie fehlen
+ * (Migration älterer Projekte). Bestehende Kennzeichen bleiben unverändert.
+ */
+export function ergaenzeKennzeichnung(verteiler: Verteiler): Verteiler {
+  let ergebnis = verteiler;
+  const sortiert = [...verteiler.komponenten]
+    .filter((k) => !k.bmk)
+    .sort((a, b) => a.position.rail - b.position.rail || a.position.slot - b.position.slot);
+  for (const komponente of sortiert) {
+    const bmk = getNaechsteBmk(ergebnis, komponente.type);
+    ergebnis = {
+      ...ergebnis,
+      komponenten: ergebnis.komponenten.map((k) => (k.id === komponente.id ? { ...k, bmk } : k)),
+    };
+  }
+  for (const wire of verteiler.verbindungen.filter((w) => w.leitungsnummer === undefined)) {
+    const leitungsnummer = getNaechsteLeitungsnummer(ergebnis);
+    ergebnis = {
+      ...ergebnis,
+      verbindungen: ergebnis.verbindungen.map((w) => (w.id === wire.id ? { ...w, leitungsnummer } : w)),
+    };
+  }
+  return ergebnis;
+}
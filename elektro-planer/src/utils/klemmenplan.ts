@@ -0,0 +1,103 @@
+import type { Verteiler, AbgangsklemmeParams, Phase, Verbraucher, Gebaeude } from '../types';
+import { getComponentTerminals } from './terminals';
+import { getAlleVerbindungen } from './phasenschiene';
+import { getAnschlussBezeichnung } from './kennzeichnung';
+import { getKabelText } from './uebersichtsschaltplan';
+import { getRaumBezeichnung } from './gebaeude';
+
+// ==========================================
+// KLEMMENPLAN (ABGANGSKLEMMEN)
+// ==========================================
+
+/** Aderfarben nach HD 308 S2 für 3- und 5-adrige Kabel */
+const ADERFARBEN: Record<Phase, string> = {
+  L1: 'braun',
+  L2: 'schwarz',
+  L3: 'grau',
+  N: 'blau',
+  PE: 'grün-gelb',
+  PEN: 'grün-gelb/blau',
+};
+
+/**
+ * Eine Klemme (ein Pol) einer Abgangsklemme
+ */
+export interface KlemmenplanZeile {
+  klemme: number;               // Klemmennummer innerhalb der Leiste (1..n)
+  bezeichnung: string;          // Polbezeichnung (L, L1, N, PE, ...)
+  phase: Phase;                 // Tatsächlich eingespeiste Phase (aus der Zuleitung)
+  ader: string;                 // Aderfarbe des abgehenden Kabels
+  zuleitung: string | null;     // Interne Leitung, z.B. "Nr. 12 von -F3:OUT_L1 · 2,5 mm²"
+  kabel: string | null;         // Abgehendes Kabel der Verbraucher
+  ziel: string | null;          // Zielraum der Verbraucher (Geschoss · Raum)
+  verbraucher: string | null;
+}
+
+/**
+ * Klemmenleiste: eine Abgangsklemme mit all ihren Polen
+ */
+export interface Klemmenleiste {
+  komponente: AbgangsklemmeParams;
+  bezeichnung: string;          // Kennzeichen der Klemmenleiste, z.B. "-X3"
+  zeilen: KlemmenplanZeile[];
+}
+
+const verbinde = (werte: (string | null | undefined)[]): string | null => {
+  const eindeutig = Array.from(new Set(werte.filter((w): w is string => !!w)));
+  return eindeutig.length > 0 ? eindeutig.join(', ') : null;
+};
+
+/**
+ * Erstellt den Klemmenplan aller Abgangsklemmen eines Verteilers.
+ *
+ * Je Pol werden die speisende interne Leitung (am oberen Anschluss), das abgehende
+ * Kabel mit Aderfarbe sowie Zielraum und Verbraucher aus der Zuordnung ermittelt.
+ * Klemmenleisten stehen in Einbaureihenfolge (Schiene, Steckplatz).
+ *
+ * WICHTIG: Mehrere Verbraucher an einer Abgangsklemme sind parallel geschaltet –
+ * ihre Angaben stehen daher in jeder Zeile der Leiste.
+ */
+export function erstelleKlemmenplan(verteiler: Verteiler, gebaeude: Gebaeude[] = []): Klemmenleiste[] {
+  const verbindungen = getAlleVerbindungen(verteiler);
+
+  return verteiler.komponenten
+    .filter((k): k is AbgangsklemmeParams => k.type === 'abgangsklemme')
+    .sort((a, b) => a.position.rail - b.position.rail || a.position.slot - b.position.slot)
+    .map((klemme) => {
+      const verbraucher = klemme.zugewieseneVerbraucher
+        .map((id) => verteiler.verbraucher.find((v) => v.id === id))
+        .filter((v): v is Verbraucher => !!v);
+
+      const zeilen = getComponentTerminals(klemme)
+        .filter((t) => t.position === 'top')
+        .sort((a, b) => a.offsetX - b.offsetX)
+        .map((terminal, index): KlemmenplanZeile => {
+          const zuleitung = verbindungen.find(
+            (w) =>
+              (w.von.componentId === klemme.id && w.von.terminal === terminal.id) ||
+              (w.nach.componentId === klemme.id && w.nach.terminal === terminal.id)
+          );
+          const quelle = zuleitung && (zuleitung.von.componentId === klemme.id ? zuleitung.nach : zuleitung.von);
+
+          return {
+            klemme: index + 1,
+            bezeichnung: terminal.label,
+            phase: zuleitung?.phase ?? terminal.phase,
+            // Die Aderfarbe folgt dem Pol, nicht der eingespeisten Phase (3-polig: L immer braun)
+            ader: ADERFARBEN[terminal.phase],
+            zuleitung: zuleitung && quelle
+              ? [
+                  zuleitung.leitungsnummer !== undefined ? `Nr. ${zuleitung.leitungsnummer}` : null,
+                  `von ${getAnschlussBezeichnung(verteiler, quelle)}`,
+                  `${zuleitung.querschnitt.toLocaleString('de-AT')} mm²`,
+                ].filter(Boolean).join(' · ')
+              : null,
+            kabel: verbinde(verbraucher.map(getKabelText)),
+            ziel: verbinde(verbraucher.map((v) => getRaumBezeichnung(gebaeude, v.raumId))),
+            verbraucher: verbinde(verbraucher.map((v) => v.name)),
+          };
+        });
+
+      return { komponente: klemme, bezeichnung: klemme.bmk ?? klemme.name, zeilen };
+    });
+}
@@ -0,0 +1,108 @@
+import type { Verteiler, ElektroComponent, Wire, VersorgungsklemmeParams, KurzschlussWerte } from '../types';
+import { berechneTerminalWiderstaende } from './circuitGraph';
+
+// ==========================================
+// KURZSCHLUSSSTROM-BERECHNUNG (IEC 60909, VEREINFACHT)
+// ==========================================
+
+/** Spannungsfaktor cmax für den größten Kurzschlussstrom in Niederspannungsnetzen (+10 % Toleranz) */
+const C_MAX = 1.1;
+
+const U_NENN = 400; // V, Außenleiterspannung
+const U0 = 230;     // V, Außenleiter gegen Erde
+
+// Spezifischer Widerstand bei 20 °C in Ohm*mm²/m (größter Kurzschlussstrom → kalter Leiter)
+const RHO_KUPFER_20 = 0.0178;
+const RHO_ALUMINIUM_20 = 0.0286;
+
+/** Standardwert für die Schleifenimpedanz falls keine Versorgungsklemme vorhanden ist */
+const STANDARD_SCHLEIFENIMPEDANZ = 0.5; // Ω
+
+/**
+ * Bemessungs-Ausschaltvermögen von Schmelzsicherungen [kA].
+ * Sicherungen haben keinen eigenen Parameter, es gelten die Normwerte.
+ */
+const SICHERUNG_SCHALTVERMOEGEN: Partial<Record<ElektroComponent['type'], number>> = {
+  'nh-sicherung': 120,
+  'neozed-sicherung': 50,
+  'schraub-sicherung': 50,
+};
+
+/**
+ * Widerstand eines einzelnen Leiters
+ */
+function leiterWiderstand(wire: Wire): number {
+  const rho = wire.material === 'Cu' ? RHO_KUPFER_20 : RHO_ALUMINIUM_20;
+  return (rho * wire.laenge) / wire.querschnitt;
+}
+
+/**
+ * Berechnet die größten Kurzschlussströme Ik3 und Ik1 an jeder Komponente.
+ *
+ * Die Netzimpedanz wird aus der Schleifenimpedanz der Versorgungsklemme abgeleitet
+ * (je zur Hälfte Außenleiter und Rückleiter). Dazu kommen die Leiterwiderstände
+ * der Verdrahtung vom Versorgungsausgang bis zum Terminal:
+ *
+ * - Ik3 = cmax · Un / (√3 · (Zs/2 + R_L))
+ * - Ik1 = cmax · U0 / (Zs + R_L + R_N/PE)
+ *
+ * @returns Map von Komponenten-ID → Kurzschlusswerte (nur versorgte Komponenten)
+ */
+export function berechneKurzschlussstroeme(verteiler: Verteiler): Map<string, KurzschlussWerte> {
+  const ergebnis = new Map<string, KurzschlussWerte>();
+
+  const versorgungsklemme = verteiler.komponenten.find(
+    (k): k is VersorgungsklemmeParams => k.type === 'versorgungsklemme'
+  );
+  if (!versorgungsklemme) return ergebnis;
+
+  const zsNetz = versorgungsklemme.schleifenimpedanz > 0
+    ? versorgungsklemme.schleifenimpedanz
+    : STANDARD_SCHLEIFENIMPEDANZ;
+
+  const terminalWiderstaende = berechneTerminalWiderstaende(verteiler, leiterWiderstand);
+
+  for (const komponente of verteiler.komponenten) {
+    let rAussenleiter = Infinity;
+    let rRueckleiter = Infinity;
+
+    for (const [terminalId, { widerstand, phase }] of terminalWiderstaende) {
+      if (!terminalId.startsWith(`${komponente.id}:`)) continue;
+      if (phase === 'N' || phase === 'PE' || phase === 'PEN') {
+        rRueckleiter = Math.min(rRueckleiter, widerstand);
+      } else {
+        rAussenleiter = Math.min(rAussenleiter, widerstand);
+      }
+    }
+
+    // Nicht versorgte Komponente (kein Außenleiter erreichbar)
+    if (!isFinite(rAussenleiter)) continue;
+
+    // Ohne eigenen Rückleiter: gleicher Widerstand wie der Außenleiter angenommen
+    if (!isFinite(rRueckleiter)) rRueckleiter = rAussenleiter;
+
+    const ik3 = (C_MAX * U_NENN) / (Math.sqrt(3) * (zsNetz / 2 + rAussenleiter));
+    const ik1 = (C_MAX * U0) / (zsNetz + rAussenleiter + rRueckleiter);
+
+    ergebnis.set(komponente.id, {
+      komponenteId: komponente.id,
+      komponenteName: komponente.name,
+      ik3: ik3 / 1000,
+      ik1: ik1 / 1000,
+    });
+  }
+
+  return ergebnis;
+}
+
+/**
+ * Liefert das Bemessungs-Kurzschlussausschaltvermögen einer Schutzeinrichtung [kA].
+ *
+ * @returns null wenn die Komponente keinen Kurzschluss abschalten kann (z.B. FI, Klemmen)
+ */
+export function getSchaltvermoegen(komponente: ElektroComponent): number | null {
+  if (komponente.type === 'ls-schalter' || komponente.type === 'fi-ls-kombi') {
+    return komponente.kurzschlussSchaltvermoegen;
+  }
+  return SICHERUNG_SCHALTVERMOEGEN[komponente.type] ?? null;
+}
@@ -0,0 +1,305 @@
+import type { Verteiler, Wire, WireWaypoint } from '../types';
+import { getComponentTerminals } from './terminals';
+import {
+  TE_WIDTH,
+  COMPONENT_HEIGHT,
+  LABEL_HEIGHT,
+  RAIL_TOTAL_HEIGHT,
+  WIRE_AREA_TOP,
+  WIRE_LANES,
+  WIRE_LANE_SPACING,
+  WIRE_GRID_X,
+  HUTSCHIENE_HORIZONTAL_MARGIN,
+} from './constants';
+
+// ==========================================
+// GEOMETRIE DER VERDRAHTUNGSEBENE
+// ==========================================
+
+/** Terminal-Offset: In PlacedComponent.tsx sind die Terminals um 6px versetzt */
+const TERMINAL_OFFSET = 6;
+/** Padding: px-1 = 4px auf jeder Seite */
+const TERMINAL_PADDING = 4;
+
+export interface TerminalPosition {
+  x: number;
+  y: number;
+  position: 'top' | 'bottom';
+  rail: number;
+}
+
+/**
+ * Y-Position der Komponenten-Oberkante einer Hutschiene
+ */
+export function getComponentTopY(railIndex: number): number {
+  return railIndex * RAIL_TOTAL_HEIGHT + LABEL_HEIGHT + WIRE_AREA_TOP;
+}
+
+/**
+ * Y-Position einer Drahtbahn.
+ * Obere Bahnen sind von der Komponente weg nach oben nummeriert, untere nach unten.
+ */
+export function getLaneY(railIndex: number, position: 'top' | 'bottom', laneIndex: number): number {
+  const componentTopY = getComponentTopY(railIndex);
+  if (position === 'top') {
+    return componentTopY - (laneIndex + 1) * WIRE_LANE_SPACING;
+  }
+  return componentTopY + COMPONENT_HEIGHT + (laneIndex + 1) * WIRE_LANE_SPACING;
+}
+
+/**
+ * Zeichenposition eines Terminals im Verdrahtungs-Overlay.
+ * Unbekannte Terminals liegen in der Mitte der Komponente.
+ */
+export function getTerminalPosition(
+  verteiler: Verteiler,
+  componentId: string,
+  terminalId: string
+): TerminalPosition | null {
+  const component = verteiler.komponenten.find((c) => c.id === componentId);
+  if (!component) return null;
+
+  const terminals = getComponentTerminals(component);
+  const terminal = terminals.find((t) => t.id === terminalId);
+
+  const componentWidth = component.teilungseinheiten * TE_WIDTH - 2;
+  const componentX = HUTSCHIENE_HORIZONTAL_MARGIN + component.position.slot * TE_WIDTH;
+  const componentY = getComponentTopY(component.position.rail);
+
+  if (!terminal) {
+    return {
+      x: componentX + componentWidth / 2,
+      y: componentY + COMPONENT_HEIGHT / 2,
+      position: 'top',
+      rail: component.position.rail,
+    };
+  }
+
+  // Die Terminals sind per justify-around + px-1 verteilt:
+  // gleicher Abstand zwischen allen Elementen, halber Abstand am Rand
+  const samePositionTerminals = terminals.filter((t) => t.position === terminal.position);
+  const terminalIndex = samePositionTerminals.findIndex((t) => t.id === terminal.id);
+  const availableWidth = componentWidth - 2 * TERMINAL_PADDING;
+  const terminalX = componentX + TERMINAL_PADDING + (terminalIndex + 0.5) * (availableWidth / samePositionTerminals.length);
+
+  return {
+    x: terminalX,
+    // Top-Terminals sind 6px oberhalb, Bottom-Terminals 6px unterhalb der Komponente
+    y: terminal.position === 'top'
+      ? componentY - TERMINAL_OFFSET
+      : componentY + COMPONENT_HEIGHT + TERMINAL_OFFSET,
+    position: terminal.position,
+    rail: component.position.rail,
+  };
+}
+
+// ==========================================
+// AUTOMATISCHE LEITUNGSFÜHRUNG
+// ==========================================
+
+/**
+ * Erste nutzbare Bahn: Bahn 0 liegt zwischen Terminal und Komponente,
+ * Bahn 1 auf Höhe der Terminals.
+ */
+const ERSTE_BAHN = 2;
+
+/** Mindestabstand zwischen zwei Leitungen auf derselben Bahn [px] */
+const MIN_ABSTAND = WIRE_GRID_X;
+
+type Intervall = [number, number];
+
+/**
+ * Belegte Abschnitte je Bahn: horizontale Segmente nach y, vertikale nach x
+ */
+interface Belegung {
+  horizontal: Map<number, Intervall[]>;
+  vertikal: Map<number, Intervall[]>;
+}
+
+// Terminal-X-Positionen sind nicht ganzzahlig: Schlüssel auf 0,1 px runden
+const bahnKey = (wert: number): number => Math.round(wert * 10) / 10;
+
+const intervall = (a: number, b: number): Intervall => (a < b ? [a, b] : [b, a]);
+
+function istFrei(map: Map<number, Intervall[]>, key: number, [von, bis]: Intervall): boolean {
+  const belegt = map.get(bahnKey(key));
+  if (!belegt) return true;
+  return belegt.every(([a, b]) => bis + MIN_ABSTAND <= a || von >= b + MIN_ABSTAND);
+}
+
+function belege(map: Map<number, Intervall[]>, key: number, abschnitt: Intervall): void {
+  const k = bahnKey(key);
+  const belegt = map.get(k);
+  if (belegt) belegt.push(abschnitt);
+  else map.set(k, [abschnitt]);
+}
+
+/**
+ * Trägt den Linienzug einer Leitung in die Belegung ein.
+ * Schräge Segmente (freie Handverdrahtung) belegen keine Bahn.
+ */
+function belegePfad(belegung: Belegung, punkte: WireWaypoint[]): void {
+  for (let i = 1; i < punkte.length; i++) {
+    const a = punkte[i - 1];
+    const b = punkte[i];
+    if (Math.abs(a.y - b.y) < 0.5) {
+      belege(belegung.horizontal, a.y, intervall(a.x, b.x));
+    } else if (Math.abs(a.x - b.x) < 0.5) {
+      belege(belegung.vertikal, a.x, intervall(a.y, b.y));
+    }
+  }
+}
+
+/**
+ * Kanal zwischen zwei Hutschienen, in den ein Terminal direkt hineinführt.
+ * Kanal g liegt zwischen den unteren Bahnen von Schiene g-1 und den oberen Bahnen
+ * von Schiene g – vertikale Leitungen darin kreuzen keine Komponenten.
+ */
+const getKanal = (pos: TerminalPosition): number => (pos.position === 'top' ? pos.rail : pos.rail + 1);
+
+/**
+ * Y-Positionen aller Bahnen eines Kanals, die Bahnen auf der Seite von
+ * `bevorzugt` zuerst, jeweils von der Komponente nach außen.
+ */
+function getKanalBahnen(kanal: number, anzahlSchienen: number, bevorzugt: TerminalPosition): number[] {
+  const oben: number[] = [];
+  const unten: number[] = [];
+  for (let lane = ERSTE_BAHN; lane < WIRE_LANES; lane++) {
+    if (kanal < anzahlSchienen) oben.push(getLaneY(kanal, 'top', lane));
+    if (kanal > 0) unten.push(getLaneY(kanal - 1, 'bottom', lane));
+  }
+  return bevorzugt.position === 'top' ? [...oben, ...unten] : [...unten, ...oben];
+}
+
+/**
+ * Erste freie Bahn für den horizontalen Abschnitt, sonst die äußerste Bahn
+ */
+function findeBahn(belegung: Belegung, bahnen: number[], abschnitt: Intervall): { y: number; frei: boolean } {
+  const y = bahnen.find((bahnY) => istFrei(belegung.horizontal, bahnY, abschnitt));
+  return y !== undefined ? { y, frei: true } : { y: bahnen[bahnen.length - 1], frei: false };
+}
+
+/**
+ * Berechnet die Zwischenpunkte für eine Leitung und trägt sie in die Belegung ein.
+ *
+ * - Gleicher Kanal: Terminal → Bahn → waagrecht → Terminal (U- bzw. Z-Form)
+ * - Verschiedene Kanäle (andere Schiene oder Ober-/Unterseite): über einen
+ *   senkrechten Randkanal links bzw. rechts neben den Hutschienen
+ */
+function berechneWeg(
+  verteiler: Verteiler,
+  von: TerminalPosition,
+  nach: TerminalPosition,
+  belegung: Belegung
+): WireWaypoint[] {
+  const anzahlSchienen = verteiler.hutschienen.length;
+  const kanalVon = getKanal(von);
+  const kanalNach = getKanal(nach);
+  let waypoints: WireWaypoint[];
+
+  if (kanalVon === kanalNach) {
+    const bahn = findeBahn(belegung, getKanalBahnen(kanalVon, anzahlSchienen, von), intervall(von.x, nach.x));
+    waypoints = [
+      { x: von.x, y: bahn.y },
+      { x: nach.x, y: bahn.y },
+    ];
+  } else {
+    const maxSlots = Math.max(...verteiler.hutschienen.map((h) => h.slots));
+    const linkerRand = HUTSCHIENE_HORIZONTAL_MARGIN;
+    const rechterRand = HUTSCHIENE_HORIZONTAL_MARGIN + maxSlots * TE_WIDTH;
+    const seiten = [
+      { rand: linkerRand, richtung: -1 },
+      { rand: rechterRand, richtung: 1 },
+    ].sort((a, b) =>
+      Math.abs(von.x - a.rand) + Math.abs(nach.x - a.rand) - Math.abs(von.x - b.rand) - Math.abs(nach.x - b.rand)
+    );
+    const bahnenVon = getKanalBahnen(kanalVon, anzahlSchienen, von);
+    const bahnenNach = getKanalBahnen(kanalNach, anzahlSchienen, nach);
+
+    let weg: WireWaypoint[] | null = null;
+    for (const seite of seiten) {
+      for (let kanal = 0; kanal < WIRE_LANES && !weg; kanal++) {
+        const x = seite.rand + seite.richtung * (kanal + 1) * WIRE_GRID_X;
+        const bahnVon = findeBahn(belegung, bahnenVon, intervall(von.x, x));
+        const bahnNach = findeBahn(belegung, bahnenNach, intervall(x, nach.x));
+        if (!bahnVon.frei || !bahnNach.frei) break; // weiter außen wird es nur länger
+        if (!istFrei(belegung.vertikal, x, intervall(bahnVon.y, bahnNach.y))) continue;
+        weg = [
+          { x: von.x, y: bahnVon.y },
+          { x, y: bahnVon.y },
+          { x, y: bahnNach.y },
+          { x: nach.x, y: bahnNach.y },
+        ];
+      }
+      if (weg) break;
+    }
+
+    // Alles belegt: äußerster Randkanal der günstigeren Seite (Überlappung in Kauf nehmen)
+    if (!weg) {
+      const x = seiten[0].rand + seiten[0].richtung * WIRE_LANES * WIRE_GRID_X;
+      const yVon = bahnenVon[bahnenVon.length - 1];
+      const yNach = bahnenNach[bahnenNach.length - 1];
+      weg = [
+        { x: von.x, y: yVon },
+        { x, y: yVon },
+        { x, y: yNach },
+        { x: nach.x, y: yNach },
+      ];
+    }
+    waypoints = weg;
+  }
+
+  belegePfad(belegung, [von, ...waypoints, nach]);
+  return waypoints;
+}
+
+/**
+ * Verlegt eine (neue) Leitung orthogonal im Bahnenraster, ohne die bereits
+ * verlegten Leitungen des Verteilers auf derselben Bahn zu überlappen.
+ *
+ * @returns Zwischenpunkte für wire.waypoints, oder null wenn ein Terminal nicht existiert
+ */
+export function verlegeLeitung(verteiler: Verteiler, wire: Wire): WireWaypoint[] | null {
+  const von = getTerminalPosition(verteiler, wire.von.componentId, wire.von.terminal);
+  const nach = getTerminalPosition(verteiler, wire.nach.componentId, wire.nach.terminal);
+  if (!von || !nach) return null;
+
+  const belegung: Belegung = { horizontal: new Map(), vertikal: new Map() };
+  for (const andere of verteiler.verbindungen) {
+    if (andere.id === wire.id) continue;
+    const a = getTerminalPosition(verteiler, andere.von.componentId, andere.von.terminal);
+    const b = getTerminalPosition(verteiler, andere.nach.componentId, andere.nach.terminal);
+    if (a && b) belegePfad(belegung, [a, ...(andere.waypoints || []), b]);
+  }
+
+  return berechneWeg(verteiler, von, nach, belegung);
+}
+
+/**
+ * Verlegt alle Leitungen des Verteilers neu ("Aufräumen").
+ *
+ * Kurze Leitungen werden zuerst verlegt und erhalten so die inneren Bahnen –
+ * längere Leitungen umschließen sie, was Kreuzungen minimiert.
+ * Leitungen mit unbekannten Terminals behalten ihre Zwischenpunkte.
+ */
+export function verlegeAlleLeitungen(verteiler: Verteiler): { id: string; waypoints: WireWaypoint[] }[] {
+  const belegung: Belegung = { horizontal: new Map(), vertikal: new Map() };
+
+  const leitungen = verteiler.verbindungen
+    .map((wire) => ({
+      wire,
+      von: getTerminalPosition(verteiler, wire.von.componentId, wire.von.terminal),
+      nach: getTerminalPosition(verteiler, wire.nach.componentId, wire.nach.terminal),
+    }))
+    .filter((l): l is { wire: Wire; von: TerminalPosition; nach: TerminalPosition } => !!l.von && !!l.nach);
+
+  // Leitungen innerhalb eines Kanals vor denen über die Randkanäle, jeweils kürzeste zuerst
+  const aufwand = (l: { von: TerminalPosition; nach: TerminalPosition }) =>
+    (getKanal(l.von) === getKanal(l.nach) ? 0 : 1e6) + Math.abs(l.von.x - l.nach.x) + Math.abs(l.von.y - l.nach.y);
+  leitungen.sort((a, b) => aufwand(a) - aufwand(b));
+
+  return leitungen.map((l) => ({
+    id: l.wire.id,
+    waypoints: berechneWeg(verteiler, l.von, l.nach, belegung),
+  }));
+}
@@ -0,0 +1,438 @@
+import type { Verteiler, Verbraucher, Wire, Phase, ElektroComponent } from '../types';
+import { getComponentTerminals } from './terminals';
+import {
+  getEffectivePhasen,
+  getTerminalId,
+  verbraucherNPhasor,
+  phasorAdd,
+  phasorMagnitude,
+  phasorFromPolar,
+  type Phasor,
+} from './circuitGraph';
+import { berechnePhasenlasten } from './validation';
+import { getAlleVerbindungen } from './phasenschiene';
+
+// ==========================================
+// PHASENAUSGLEICH (OPTIMIERUNG DER LASTVERTEILUNG)
+// ==========================================
+
+const AUSSENLEITER: Phase[] = ['L1', 'L2', 'L3'];
+
+/** Bis zu dieser Anzahl an Gruppen werden alle Zuordnungen durchprobiert (3^n) */
+const MAX_GRUPPEN_VOLLSTAENDIG = 9;
+
+/** Unterschiede in der Bewertung unterhalb dieses Werts gelten als gleichwertig [W] */
+const BEWERTUNG_TOLERANZ = 1;
+
+/**
+ * Gruppe von 1-phasigen Verbrauchern mit gemeinsamem Phasenanschluss.
+ *
+ * Die Gruppe hängt über ihre Anschlussleitung(en) an einem Außenleiter-Ausgang
+ * einer mehrpoligen Komponente (Versorgungsklemme, 4-poliger FI, 3-poliger LS, ...).
+ * Alle 1-poligen Komponenten dahinter (LS, 2-poliger FI, Abgangsklemme) wechseln
+ * gemeinsam die Phase, wenn die Anschlussleitung umgeklemmt wird.
+ */
+export interface Phasengruppe {
+  id: string;                    // Einspeise-Terminal + Anschlussleitung, z.B. "fi1:OUT_L2#w7"
+  quellKomponenteId: string;
+  phase: Phase;
+  moeglichePhasen: Phase[];      // Außenleiter-Ausgänge der Quell-Komponente
+  verbraucherIds: string[];
+  anschlussWireIds: string[];    // Leitungen am Einspeise-Terminal
+  leiterWireIds: string[];       // Alle Außenleiter-Leitungen der Gruppe
+  leistung: number;              // [W] mit Gleichzeitigkeitsfaktor
+  stromPhasor: Phasor;           // Summenstrom bezogen auf L1 (mit cos φ) [A]
+}
+
+export interface PhasenVerschiebung {
+  gruppeId: string;
+  verbraucherNamen: string[];
+  von: Phase;
+  nach: Phase;
+}
+
+export interface PhasenOptimierung {
+  vorher: Record<Phase, number>;   // Phasenlasten [W], N = N-Strom × 230 V
+  nachher: Record<Phase, number>;
+  verschiebungen: PhasenVerschiebung[];
+  wireUpdates: { id: string; updates: Partial<Wire> }[];
+  verbraucherUpdates: { id: string; updates: Partial<Verbraucher> }[];
+  nichtVerschiebbar: string[];     // Namen der 1-phasigen Verbraucher ohne umklemmbaren Anschluss
+}
+
+// ==========================================
+// NETZE UND ANSCHLUSSVERFOLGUNG
+// ==========================================
+
+/**
+ * Fasst alle über Leitungen direkt verbundenen Terminals zu Netzen zusammen.
+ *
+ * Außenleiter-Ausgänge mehrpoliger Komponenten werden je Leitung getrennt
+ * ("fi1:OUT_L1#w7"), damit jeder dort angeklemmte Abgang einzeln umgeklemmt
+ * werden kann. Interne Verbindungen von Klemmen und Sammelschienen werden
+ * NICHT aufgelöst – diese sind fest einer Phase zugeordnet und blockieren
+ * die Umverdrahtung. Phasenschienen gehen über ihre virtuellen Leiter ein
+ * und blockieren ebenso.
+ */
+function bildeNetze(verteiler: Verteiler): Map<string, { terminals: Set<string>; wires: Wire[] }> {
+  const netzVon = new Map<string, { terminals: Set<string>; wires: Wire[] }>();
+
+  const netzKnoten = (componentId: string, terminal: string, wire: Wire) => {
+    const terminalId = getTerminalId(componentId, terminal);
+    const komponente = verteiler.komponenten.find((k) => k.id === componentId);
+    const istAbgang = !!komponente
+      && /^OUT_L[123]$/.test(terminal)
+      && getAussenleiterAnschluesse(komponente).length > 1;
+    return istAbgang ? `${terminalId}#${wire.id}` : terminalId;
+  };
+
+  for (const wire of getAlleVerbindungen(verteiler)) {
+    const a = netzKnoten(wire.von.componentId, wire.von.terminal, wire);
+    const b = netzKnoten(wire.nach.componentId, wire.nach.terminal, wire);
+    const netzA = netzVon.get(a);
+    const netzB = netzVon.get(b);
+
+    if (netzA && netzB && netzA !== netzB) {
+      // Netze vereinigen
+      for (const t of netzB.terminals) {
+        netzA.terminals.add(t);
+        netzVon.set(t, netzA);
+      }
+      netzA.wires.push(...netzB.wires, wire);
+    } else {
+      const netz = netzA ?? netzB ?? { terminals: new Set<string>(), wires: [] };
+      netz.terminals.add(a);
+      netz.terminals.add(b);
+      netz.wires.push(wire);
+      netzVon.set(a, netz);
+      netzVon.set(b, netz);
+    }
+  }
+
+  return netzVon;
+}
+
+/**
+ * Liefert die Außenleiter, für die eine Komponente eigene Anschlüsse hat
+ */
+function getAussenleiterAnschluesse(komponente: ElektroComponent): Phase[] {
+  const phasen = new Set(
+    getComponentTerminals(komponente)
+      .filter((t) => t.id.startsWith('OUT_') && AUSSENLEITER.includes(t.phase))
+      .map((t) => t.phase)
+  );
+  return AUSSENLEITER.filter((p) => phasen.has(p));
+}
+
+function parseTerminal(netzKnoten: string): { komponenteId: string; terminal: string } {
+  const terminalId = netzKnoten.split('#')[0];
+  const index = terminalId.lastIndexOf(':');
+  return { komponenteId: terminalId.slice(0, index), terminal: terminalId.slice(index + 1) };
+}
+
+/**
+ * Verfolgt den Außenleiter einer 1-phasigen Komponente bis zur Einspeisung
+ * an einer mehrpoligen Komponente.
+ *
+ * @returns null wenn der Anschluss nicht eindeutig umklemmbar ist (Sammelschiene,
+ *          Phasenschiene, Klemme, mehrere Einspeise-Terminals, mehrpolige Komponenten im selben Netz)
+ */
+function verfolgeAnschluss(
+  verteiler: Verteiler,
+  netze: Map<string, { terminals: Set<string>; wires: Wire[] }>,
+  startKomponenteId: string
+): { quellKnoten: string[]; anschlussWires: Wire[]; leiterWires: Wire[] } | null {
+  const leiterWires: Wire[] = [];
+  const besucht = new Set<string>();
+  let aktuelleId = startKomponenteId;
+
+  while (!besucht.has(aktuelleId)) {
+    besucht.add(aktuelleId);
+
+    const netz = netze.get(getTerminalId(aktuelleId, 'IN_L1'));
+    if (!netz) return null;
+    leiterWires.push(...netz.wires);
+
+    const quellen: string[] = [];
+    const vorgelagert: string[] = [];
+
+    for (const terminalId of netz.terminals) {
+      const { komponenteId, terminal } = parseTerminal(terminalId);
+      if (komponenteId === aktuelleId) continue;
+
+      const komponente = verteiler.komponenten.find((k) => k.id === komponenteId);
+      if (!komponente) return null;
+      if (komponente.type === 'klemme' || komponente.type === 'sammelschiene' || komponente.type === 'phasenschiene') return null;
+
+      const mehrpolig = getAussenleiterAnschluesse(komponente).length > 1;
+      if (mehrpolig) {
+        if (!/^OUT_L[123]$/.test(terminal)) return null;
+        quellen.push(terminalId);
+      } else if (terminal === 'OUT_L1') {
+        vorgelagert.push(komponenteId);
+      } else if (terminal !== 'IN_L1') {
+        return null;
+      }
+    }
+
+    // Mehrere Leitungen vom selben Einspeise-Terminal (Ring) sind zulässig
+    const quellTerminals = new Set(quellen.map((q) => q.split('#')[0]));
+    if (quellTerminals.size === 1 && vorgelagert.length === 0) {
+      const anschlussWireIds = quellen.map((q) => q.split('#')[1]);
+      const anschlussWires = netz.wires.filter((w) => anschlussWireIds.includes(w.id));
+      return { quellKnoten: quellen.sort(), anschlussWires, leiterWires };
+    }
+
+    if (quellen.length === 0 && vorgelagert.length === 1) {
+      aktuelleId = vorgelagert[0];
+      continue;
+    }
+
+    return null;
+  }
+
+  return null;
+}
+
+/**
+ * Ermittelt alle umklemmbaren Gruppen 1-phasiger Verbraucher.
+ */
+export function ermittlePhasengruppen(verteiler: Verteiler): { gruppen: Phasengruppe[]; nichtVerschiebbar: Verbraucher[] } {
+  const netze = bildeNetze(verteiler);
+  const gruppen = new Map<string, Phasengruppe>();
+  const nichtVerschiebbar: Verbraucher[] = [];
+
+  for (const verbraucher of verteiler.verbraucher) {
+    if (getEffectivePhasen(verteiler, verbraucher).length !== 1) continue;
+
+    const anschluss = verbraucher.zugewieseneKomponente
+      ? verfolgeAnschluss(verteiler, netze, verbraucher.zugewieseneKomponente)
+      : null;
+    if (!anschluss) {
+      nichtVerschiebbar.push(verbraucher);
+      continue;
+    }
+
+    const gruppeId = anschluss.quellKnoten.join(',');
+    const { komponenteId, terminal } = parseTerminal(anschluss.quellKnoten[0]);
+    const quelle = verteiler.komponenten.find((k) => k.id === komponenteId)!;
+    const leistung = verbraucher.leistung * verbraucher.gleichzeitigkeitsfaktor;
+    const cosPhi = verbraucher.cosPhi ?? 1.0;
+    const strom = verbraucherNPhasor(leistung / (230 * cosPhi), 'L1', cosPhi);
+
+    let gruppe = gruppen.get(gruppeId);
+    if (!gruppe) {
+      gruppe = {
+        id: gruppeId,
+        quellKomponenteId: komponenteId,
+        phase: terminal.slice('OUT_'.length) as Phase,
+        moeglichePhasen: getAussenleiterAnschluesse(quelle),
+        verbraucherIds: [],
+        anschlussWireIds: anschluss.anschlussWires.map((w) => w.id),
+        leiterWireIds: [],
+        leistung: 0,
+        stromPhasor: { real: 0, imag: 0 },
+      };
+      gruppen.set(gruppe.id, gruppe);
+    }
+
+    gruppe.verbraucherIds.push(verbraucher.id);
+    gruppe.leistung += leistung;
+    gruppe.stromPhasor = phasorAdd(gruppe.stromPhasor, strom);
+    for (const wire of anschluss.leiterWires) {
+      if (!gruppe.leiterWireIds.includes(wire.id)) gruppe.leiterWireIds.push(wire.id);
+    }
+  }
+
+  return { gruppen: [...gruppen.values()], nichtVerschiebbar };
+}
+
+// ==========================================
+// OPTIMIERUNG
+// ==========================================
+
+function drehePhasor(p: Phasor, phase: Phase): Phasor {
+  const winkel = phase === 'L2' ? -120 : phase === 'L3' ? 120 : 0;
+  const gedreht = phasorFromPolar(1, winkel);
+  return {
+    real: p.real * gedreht.real - p.imag * gedreht.imag,
+    imag: p.real * gedreht.imag + p.imag * gedreht.real,
+  };
+}
+
+interface Bewertung {
+  wert: number;        // max. Außenleiterlast + N-Last [W]
+  verschiebungen: number;
+}
+
+function istBesser(a: Bewertung, b: Bewertung): boolean {
+  if (a.wert < b.wert - BEWERTUNG_TOLERANZ) return true;
+  return Math.abs(a.wert - b.wert) <= BEWERTUNG_TOLERANZ && a.verschiebungen < b.verschiebungen;
+}
+
+/**
+ * Optimiert die Phasenzuordnung der 1-phasigen Verbraucher.
+ *
+ * Ziel: kleinste Summe aus größter Außenleiterlast und N-Last (N-Strom × 230 V).
+ * Gleichzeitigkeitsfaktor und cos φ gehen in Leistung bzw. N-Phasor ein.
+ * Bis MAX_GRUPPEN_VOLLSTAENDIG Gruppen wird vollständig gesucht, darüber
+ * ausgehend von der aktuellen und einer Greedy-Zuordnung lokal verbessert.
+ * Bei gleichwertigen Lösungen gewinnt die mit weniger Umklemmungen.
+ *
+ * WICHTIG: 3-phasige und nicht umklemmbare Verbraucher bleiben als feste Last erhalten.
+ */
+export function optimierePhasen(verteiler: Verteiler): PhasenOptimierung {
+  const { gruppen, nichtVerschiebbar } = ermittlePhasengruppen(verteiler);
+  const gruppenVerbraucher = new Set(gruppen.flatMap((g) => g.verbraucherIds));
+
+  // Feste Lasten (alles außer den verschiebbaren Gruppen)
+  const festeLast: Record<string, number> = { L1: 0, L2: 0, L3: 0 };
+  let festerN: Phasor = { real: 0, imag: 0 };
+  for (const verbraucher of verteiler.verbraucher) {
+    if (gruppenVerbraucher.has(verbraucher.id)) continue;
+    const phasen = getEffectivePhasen(verteiler, verbraucher);
+    const leistung = verbraucher.leistung * verbraucher.gleichzeitigkeitsfaktor;
+    const cosPhi = verbraucher.cosPhi ?? 1.0;
+    const strom = phasen.length === 3
+      ? leistung / (Math.sqrt(3) * 400 * cosPhi)
+      : leistung / (230 * cosPhi);
+    for (const phase of phasen) {
+      festeLast[phase] += leistung / phasen.length;
+      festerN = phasorAdd(festerN, verbraucherNPhasor(strom, phase, cosPhi));
+    }
+  }
+
+  const bewerte = (zuordnung: Phase[]): Bewertung => {
+    const last = { ...festeLast };
+    let n = festerN;
+    let verschiebungen = 0;
+    zuordnung.forEach((phase, i) => {
+      last[phase] += gruppen[i].leistung;
+      n = phasorAdd(n, drehePhasor(gruppen[i].stromPhasor, phase));
+      if (phase !== gruppen[i].phase) verschiebungen++;
+    });
+    return {
+      wert: Math.max(last.L1, last.L2, last.L3) + phasorMagnitude(n) * 230,
+      verschiebungen,
+    };
+  };
+
+  let beste = gruppen.map((g) => g.phase);
+  let besteBewertung = bewerte(beste);
+
+  if (gruppen.length <= MAX_GRUPPEN_VOLLSTAENDIG) {
+    // Vollständige Suche
+    const suche = (i: number, zuordnung: Phase[]) => {
+      if (i === gruppen.length) {
+        const bewertung = bewerte(zuordnung);
+        if (istBesser(bewertung, besteBewertung)) {
+          beste = [...zuordnung];
+          besteBewertung = bewertung;
+        }
+        return;
+      }
+      for (const phase of gruppen[i].moeglichePhasen) {
+        zuordnung[i] = phase;
+        suche(i + 1, zuordnung);
+      }
+    };
+    suche(0, []);
+  } else {
+    // Greedy: größte Gruppen zuerst auf die jeweils am wenigsten belastete Phase
+    const greedy: Phase[] = gruppen.map((g) => g.phase);
+    const last = { ...festeLast };
+    const reihenfolge = gruppen.map((_, i) => i).sort((a, b) => gruppen[b].leistung - gruppen[a].leistung);
+    for (const i of reihenfolge) {
+      const phase = [...gruppen[i].moeglichePhasen].sort((a, b) => last[a] - last[b])[0];
+      greedy[i] = phase;
+      last[phase] += gruppen[i].leistung;
+    }
+
+    // Lokale Suche (einzelne Umklemmungen) ausgehend von beiden Startlösungen
+    for (const start of [beste, greedy]) {
+      let zuordnung = [...start];
+      let bewertung = bewerte(zuordnung);
+      let verbessert = true;
+      while (verbessert) {
+        verbessert = false;
+        for (let i = 0; i < gruppen.length; i++) {
+          for (const phase of gruppen[i].moeglichePhasen) {
+            if (phase === zuordnung[i]) continue;
+            const kandidat = [...zuordnung];
+            kandidat[i] = phase;
+            const kandidatBewertung = bewerte(kandidat);
+            if (istBesser(kandidatBewertung, bewertung)) {
+              zuordnung = kandidat;
+              bewertung = kandidatBewertung;
+              verbessert = true;
+            }
+          }
+        }
+      }
+      if (istBesser(bewertung, besteBewertung)) {
+        beste = zuordnung;
+        besteBewertung = bewertung;
+      }
+    }
+  }
+
+  // Umverdrahtung ableiten
+  const wireUpdates: PhasenOptimierung['wireUpdates'] = [];
+  const verbraucherUpdates: PhasenOptimierung['verbraucherUpdates'] = [];
+  const verschiebungen: PhasenVerschiebung[] = [];
+
+  gruppen.forEach((gruppe, i) => {
+    const nach = beste[i];
+    if (nach === gruppe.phase) return;
+
+    const komponenteId = gruppe.quellKomponenteId;
+    const terminal = `OUT_${gruppe.phase}`;
+    for (const wireId of gruppe.leiterWireIds) {
+      const wire = verteiler.verbindungen.find((w) => w.id === wireId)!;
+      const updates: Partial<Wire> = { phase: nach };
+      if (gruppe.anschlussWireIds.includes(wireId)) {
+        const neuerAnschluss = { componentId: komponenteId, terminal: `OUT_${nach}`, phase: nach };
+        if (wire.von.componentId === komponenteId && wire.von.terminal === terminal) {
+          updates.von = neuerAnschluss;
+        } else {
+          updates.nach = neuerAnschluss;
+        }
+      }
+      wireUpdates.push({ id: wireId, updates });
+    }
+
+    const namen: string[] = [];
+    for (const verbraucherId of gruppe.verbraucherIds) {
+      const verbraucher = verteiler.verbraucher.find((v) => v.id === verbraucherId)!;
+      namen.push(verbraucher.name);
+      verbraucherUpdates.push({
+        id: verbraucherId,
+        updates: { phasen: verbraucher.phasen.map((p) => (AUSSENLEITER.includes(p) ? nach : p)) },
+      });
+    }
+
+    verschiebungen.push({ gruppeId: gruppe.id, verbraucherNamen: namen, von: gruppe.phase, nach });
+  });
+
+  // Ergebnis mit der tatsächlichen Phasenerkennung nachrechnen
+  const nachherVerteiler: Verteiler = {
+    ...verteiler,
+    verbindungen: verteiler.verbindungen.map((w) => {
+      const update = wireUpdates.find((u) => u.id === w.id);
+      return update ? { ...w, ...update.updates } : w;
+    }),
+    verbraucher: verteiler.verbraucher.map((v) => {
+      const update = verbraucherUpdates.find((u) => u.id === v.id);
+      return update ? { ...v, ...update.updates } : v;
+    }),
+  };
+
+  return {
+    vorher: berechnePhasenlasten(verteiler),
+    nachher: berechnePhasenlasten(nachherVerteiler),
+    verschiebungen,
+    wireUpdates,
+    verbraucherUpdates,
+    nichtVerschiebbar: nichtVerschiebbar.map((v) => v.name),
+  };
+}
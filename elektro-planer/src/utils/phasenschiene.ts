@@ -0,0 +1,133 @@
+import type { Verteiler, ElektroComponent, PhasenschieneParams, Phase, Wire } from '../types';
+import { getComponentTerminals } from './terminals';
+
+// ==========================================
+// PHASENSCHIENEN (KAMMSCHIENEN)
+// ==========================================
+
+/** Breite einer Teilungseinheit in Metern (1 TE = 18 mm) */
+const TE_LAENGE = 0.018;
+
+/** Präfix der virtuellen Leiter einer Phasenschiene */
+const VERBINDUNG_PREFIX = 'phasenschiene:';
+
+/**
+ * Ein Stift (Kammzahn) der Phasenschiene, der ein Eingangs-Terminal kontaktiert
+ */
+export interface PhasenschienenAnschluss {
+  komponenteId: string;
+  terminal: string;             // z.B. 'IN_L1'
+  phase: Phase;                 // Leiter der Phasenschiene an diesem Stift
+  stift: number;                // Position ab Schienenanfang [TE]
+  passend: boolean;             // false: N-Terminal auf Außenleiter-Stift oder umgekehrt
+}
+
+/**
+ * Liefert die Leiterfolge der Stifte (wiederholt sich über die Schienenlänge)
+ */
+export function getPhasenschienenLeiter(schiene: PhasenschieneParams): Phase[] {
+  switch (schiene.polzahl) {
+    case 1:
+      return ['L1'];
+    case 2:
+      return ['L1', 'N'];
+    case 3:
+      return ['L1', 'L2', 'L3'];
+    case 4:
+      return ['L1', 'L2', 'L3', 'N'];
+  }
+}
+
+/**
+ * Ermittelt alle Eingangs-Terminals, die von der Phasenschiene kontaktiert werden.
+ *
+ * Die Schiene liegt auf den oberen Anschlüssen der Geräte derselben Hutschiene.
+ * Jede TE hat einen Stift, die Leiter wechseln gemäß getPhasenschienenLeiter().
+ * Ein Terminal wird vom Stift unter seiner horizontalen Position kontaktiert.
+ */
+export function getPhasenschienenAnschluesse(
+  verteiler: Verteiler,
+  schiene: PhasenschieneParams
+): PhasenschienenAnschluss[] {
+  const leiter = getPhasenschienenLeiter(schiene);
+  const anschluesse: PhasenschienenAnschluss[] = [];
+
+  for (const komponente of verteiler.komponenten) {
+    if (komponente.type === 'phasenschiene' || komponente.position.rail !== schiene.position.rail) continue;
+
+    for (const terminal of getComponentTerminals(komponente)) {
+      if (terminal.position !== 'top' || !terminal.id.startsWith('IN_') || terminal.phase === 'PE') continue;
+
+      const x = komponente.position.slot + terminal.offsetX * komponente.teilungseinheiten;
+      const stift = Math.floor(x) - schiene.position.slot;
+      if (stift < 0 || stift >= schiene.teilungseinheiten) continue;
+
+      const phase = leiter[stift % leiter.length];
+      anschluesse.push({
+        komponenteId: komponente.id,
+        terminal: terminal.id,
+        phase,
+        stift,
+        passend: (phase === 'N') === (terminal.phase === 'N'),
+      });
+    }
+  }
+
+  return anschluesse;
+}
+
+// Cache: Die virtuellen Leiter hängen nur von den Komponenten (Positionen) ab
+const verbindungsCache = new WeakMap<ElektroComponent[], Wire[]>();
+
+/**
+ * Liefert die Phasenschienen als virtuelle Leitungen für den Terminal-Graphen.
+ *
+ * Je Leiter der Schiene gibt es einen internen Knoten "SCHIENE_<Leiter>", der mit
+ * allen passenden Eingangs-Terminals verbunden ist. Die Leitungen tragen den
+ * Querschnitt der Schiene und die Länge bis zum jeweiligen Stift, damit
+ * Stromberechnung, Schleifenimpedanz und Kurzschlussstrom sie wie Drähte behandeln.
+ *
+ * WICHTIG: Diese Leitungen sind NICHT in verteiler.verbindungen enthalten
+ * und werden weder gezeichnet noch gespeichert.
+ */
+export function getPhasenschienenVerbindungen(verteiler: Verteiler): Wire[] {
+  const cached = verbindungsCache.get(verteiler.komponenten);
+  if (cached) return cached;
+
+  const verbindungen: Wire[] = [];
+  for (const schiene of verteiler.komponenten) {
+    if (schiene.type !== 'phasenschiene') continue;
+
+    for (const anschluss of getPhasenschienenAnschluesse(verteiler, schiene)) {
+      if (!anschluss.passend) continue;
+      verbindungen.push({
+        id: `${VERBINDUNG_PREFIX}${schiene.id}:${anschluss.komponenteId}:${anschluss.terminal}`,
+        von: { componentId: schiene.id, terminal: `SCHIENE_${anschluss.phase}`, phase: anschluss.phase },
+        nach: { componentId: anschluss.komponenteId, terminal: anschluss.terminal, phase: anschluss.phase },
+        waypoints: [],
+        querschnitt: schiene.querschnitt,
+        laenge: (anschluss.stift + 0.5) * TE_LAENGE,
+        phase: anschluss.phase,
+        material: 'Cu',
+      });
+    }
+  }
+
+  verbindungsCache.set(verteiler.komponenten, verbindungen);
+  return verbindungen;
+}
+
+/**
+ * Alle Leitungen des Verteilers inkl. der virtuellen Phasenschienen-Leiter
+ */
+export function getAlleVerbindungen(verteiler: Verteiler): Wire[] {
+  const phasenschienen = getPhasenschienenVerbindungen(verteiler);
+  return phasenschienen.length > 0 ? [...verteiler.verbindungen, ...phasenschienen] : verteiler.verbindungen;
+}
+
+/**
+ * Prüft ob eine Leitung ein virtueller Leiter der angegebenen Phasenschiene ist
+ */
+export function istPhasenschienenVerbindung(wire: Wire, schieneId?: string): boolean {
+  return wire.id.startsWith(schieneId ? `${VERBINDUNG_PREFIX}${schieneId}:` : VERBINDUNG_PREFIX);
+}
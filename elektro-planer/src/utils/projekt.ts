@@ -0,0 +1,325 @@
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  Verteiler,
+  Verbraucher,
+  VerteilerEinspeisung,
+  ElektroComponent,
+  ValidationResult,
+  ValidationError,
+  Wire,
+  Gebaeude,
+} from '../types';
+import {
+  validateVerteiler,
+  berechneSpannungsfallProzent,
+  berechneSchleifenimpedanzFuerVerbraucher,
+  istZuleitungsVerbraucher,
+  ZULEITUNG_VERBRAUCHER_PREFIX,
+  type VerteilerKontext,
+} from './validation';
+import { findSeriesProtection, updateWireCurrentsInVerteiler } from './circuitGraph';
+
+// ==========================================
+// VERTEILER-HIERARCHIE (HAUPTVERTEILER → UNTERVERTEILER)
+// ==========================================
+
+// Schutzeinrichtungs-Typen mit Überstromschutz (FI-Schalter zählen nicht dazu)
+const SICHERUNGS_TYPEN: ElektroComponent['type'][] = [
+  'ls-schalter', 'fi-ls-kombi', 'nh-sicherung', 'neozed-sicherung', 'schraub-sicherung',
+];
+
+export interface VerteilerBaumEintrag {
+  verteiler: Verteiler;
+  tiefe: number;  // 0 = Hauptverteiler
+}
+
+/**
+ * Ergebnis der Projektprüfung für einen einzelnen Verteiler.
+ * Die Verbindungen enthalten die berechneten Ströme inkl. der Lasten aller Unterverteiler.
+ */
+export interface VerteilerValidierung {
+  result: ValidationResult;
+  verbindungen: Wire[];
+  pruefVerteiler: Verteiler;     // Geprüfter Verteiler inkl. Ersatz-Verbrauchern und vorgelagerter Schleifenimpedanz
+  kontext?: VerteilerKontext;
+}
+
+/**
+ * Liefert die direkt von einem Verteiler gespeisten Unterverteiler.
+ */
+export function getUnterverteiler(alleVerteiler: Verteiler[], verteilerId: string): Verteiler[] {
+  return alleVerteiler.filter(
+    (v) => v.id !== verteilerId && v.einspeisung?.quellVerteilerId === verteilerId
+  );
+}
+
+/**
+ * Liefert die IDs aller (auch indirekt) untergeordneten Verteiler.
+ * Wird benötigt um Zyklen bei der Auswahl des Quell-Verteilers zu verhindern.
+ */
+export function getNachfolgendeVerteilerIds(alleVerteiler: Verteiler[], verteilerId: string): Set<string> {
+  const ids = new Set<string>();
+  const queue = [verteilerId];
+
+  while (queue.length > 0) {
+    const aktuelleId = queue.shift()!;
+    for (const uv of getUnterverteiler(alleVerteiler, aktuelleId)) {
+      if (ids.has(uv.id) || uv.id === verteilerId) continue;
+      ids.add(uv.id);
+      queue.push(uv.id);
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * Ordnet alle Verteiler als Baum (Tiefensuche ab den Hauptverteilern).
+ * Übergeordnete Verteiler stehen immer vor ihren Unterverteilern.
+ *
+ * WICHTIG: Verteiler ohne gültige Einspeisung (fehlender Quell-Verteiler oder Zyklus)
+ * werden als eigenständige Hauptverteiler behandelt.
+ */
+export function getVerteilerBaum(alleVerteiler: Verteiler[]): VerteilerBaumEintrag[] {
+  const eintraege: VerteilerBaumEintrag[] = [];
+  const besucht = new Set<string>();
+
+  const besuche = (verteiler: Verteiler, tiefe: number) => {
+    if (besucht.has(verteiler.id)) return;
+    besucht.add(verteiler.id);
+    eintraege.push({ verteiler, tiefe });
+    for (const uv of getUnterverteiler(alleVerteiler, verteiler.id)) {
+      besuche(uv, tiefe + 1);
+    }
+  };
+
+  const istHauptverteiler = (v: Verteiler) =>
+    !v.einspeisung || !alleVerteiler.some((q) => q.id === v.einspeisung!.quellVerteilerId && q.id !== v.id);
+
+  for (const verteiler of alleVerteiler.filter(istHauptverteiler)) {
+    besuche(verteiler, 0);
+  }
+
+  // Übrig gebliebene Verteiler (Zyklen) als Hauptverteiler anhängen
+  for (const verteiler of alleVerteiler) {
+    besuche(verteiler, 0);
+  }
+
+  return eintraege;
+}
+
+/**
+ * Bildet die Zuleitung eines Unterverteilers als 3-phasigen Ersatz-Verbraucher ab.
+ * Leistung und cos φ ergeben sich aus der Summe aller Verbraucher des Unterverteilers.
+ */
+function erstelleZuleitungsVerbraucher(
+  unterverteiler: Verteiler,
+  einspeisung: VerteilerEinspeisung
+): Verbraucher {
+  let wirkleistung = 0;
+  let blindleistung = 0;
+
+  for (const verbraucher of unterverteiler.verbraucher) {
+    const leistung = verbraucher.leistung * verbraucher.gleichzeitigkeitsfaktor;
+    const cosPhi = Math.min(1, Math.max(0.1, verbraucher.cosPhi ?? 1.0));
+    wirkleistung += leistung;
+    blindleistung += leistung * Math.tan(Math.acos(cosPhi));
+  }
+
+  const scheinleistung = Math.sqrt(wirkleistung ** 2 + blindleistung ** 2);
+
+  return {
+    id: `${ZULEITUNG_VERBRAUCHER_PREFIX}${unterverteiler.id}`,
+    name: `Zuleitung ${unterverteiler.name}`,
+    typ: 'sonstige',
+    leistung: wirkleistung,
+    spannung: 400,
+    phasen: ['L1', 'L2', 'L3'],
+    gleichzeitigkeitsfaktor: 1,
+    cosPhi: scheinleistung > 0 ? wirkleistung / scheinleistung : 1.0,
+    zugewieseneKomponente: einspeisung.quellKomponenteId,
+    leitungslaenge: einspeisung.laenge,
+    leitungsquerschnitt: einspeisung.querschnitt,
+    verlegeart: einspeisung.verlegeart,
+    leitermaterial: einspeisung.leitermaterial,
+  };
+}
+
+/**
+ * Liefert den Verteiler inkl. Ersatz-Verbrauchern für alle Unterverteiler-Zuleitungen.
+ * Die Lasten werden rekursiv über den gesamten Baum aufsummiert.
+ */
+export function getVerteilerMitUnterverteilerLasten(
+  alleVerteiler: Verteiler[],
+  verteilerId: string,
+  besucht: Set<string> = new Set()
+): Verteiler | undefined {
+  const verteiler = alleVerteiler.find((v) => v.id === verteilerId);
+  if (!verteiler || besucht.has(verteilerId)) return verteiler;
+
+  const pfad = new Set(besucht).add(verteilerId);
+  const zuleitungen: Verbraucher[] = [];
+
+  for (const uv of getUnterverteiler(alleVerteiler, verteilerId)) {
+    if (pfad.has(uv.id) || !uv.einspeisung) continue;
+    const uvMitLasten = getVerteilerMitUnterverteilerLasten(alleVerteiler, uv.id, pfad);
+    if (uvMitLasten) {
+      zuleitungen.push(erstelleZuleitungsVerbraucher(uvMitLasten, uv.einspeisung));
+    }
+  }
+
+  if (zuleitungen.length === 0) return verteiler;
+
+  return {
+    ...verteiler,
+    verbraucher: [...verteiler.verbraucher, ...zuleitungen],
+  };
+}
+
+/**
+ * Ersetzt die Schleifenimpedanz an der Versorgungsklemme durch die am Ende
+ * der Zuleitung ermittelten Werte [Ω]: bei 20 °C (größter Kurzschlussstrom)
+ * und betriebswarm (Abschaltbedingung).
+ */
+function setzeVorgelagerteSchleifenimpedanz(
+  verteiler: Verteiler,
+  schleifenimpedanz: number,
+  schleifenimpedanzBetriebswarm: number
+): Verteiler {
+  return {
+    ...verteiler,
+    komponenten: verteiler.komponenten.map((k) =>
+      k.type === 'versorgungsklemme' ? { ...k, schleifenimpedanz, schleifenimpedanzBetriebswarm } : k
+    ),
+  };
+}
+
+// ==========================================
+// PRÜFUNGEN ÜBER VERTEILERGRENZEN
+// ==========================================
+
+/**
+ * Prüft die Einspeisung eines Unterverteilers:
+ * - Speisende Komponente im Quell-Verteiler vorhanden
+ * - Selektivität zwischen Vorsicherung im Quell-Verteiler und den ersten
+ *   Überstrom-Schutzeinrichtungen im Unterverteiler (Faktor 1,6)
+ */
+function checkUnterverteilerEinspeisung(
+  quellVerteiler: Verteiler,
+  unterverteiler: Verteiler
+): ValidationError[] {
+  const warnings: ValidationError[] = [];
+  const einspeisung = unterverteiler.einspeisung;
+  if (!einspeisung) return warnings;
+
+  const versorgung = unterverteiler.komponenten.find((k) => k.type === 'versorgungsklemme');
+  const quellKomponente = quellVerteiler.komponenten.find((k) => k.id === einspeisung.quellKomponenteId);
+
+  if (!quellKomponente) {
+    warnings.push({
+      id: uuidv4(),
+      typ: 'fehlende-verbindung',
+      komponenteId: versorgung?.id ?? unterverteiler.id,
+      komponenteName: versorgung?.name ?? unterverteiler.name,
+      beschreibung: `Zuleitung von "${quellVerteiler.name}" ist keinem Abgang zugeordnet`,
+      hinweis: 'Wählen Sie die speisende Abgangsklemme oder Schutzeinrichtung im übergeordneten Verteiler aus.',
+      schweregrad: 'warnung',
+    });
+    return warnings;
+  }
+
+  // Vorsicherung: Speisende Komponente selbst oder nächste Schutzeinrichtung davor
+  const vorsicherung = SICHERUNGS_TYPEN.includes(quellKomponente.type)
+    ? quellKomponente
+    : findSeriesProtection(quellVerteiler, quellKomponente.id)[0];
+
+  if (!vorsicherung || !('bemessungsStrom' in vorsicherung)) return warnings;
+
+  // Erste Überstrom-Schutzeinrichtungen im Unterverteiler (keine weitere Sicherung davor)
+  const ersteSicherungen = unterverteiler.komponenten.filter(
+    (k) => SICHERUNGS_TYPEN.includes(k.type) && findSeriesProtection(unterverteiler, k.id).length === 0
+  );
+
+  for (const sicherung of ersteSicherungen) {
+    if (!('bemessungsStrom' in sicherung)) continue;
+
+    if (vorsicherung.bemessungsStrom < sicherung.bemessungsStrom * 1.6) {
+      warnings.push({
+        id: uuidv4(),
+        typ: 'selektivitaet',
+        komponenteId: sicherung.id,
+        komponenteName: sicherung.name,
+        beschreibung: `Keine Selektivität zur Vorsicherung ${vorsicherung.name} (${vorsicherung.bemessungsStrom}A) in "${quellVerteiler.name}": ${sicherung.bemessungsStrom}A × 1,6 = ${(sicherung.bemessungsStrom * 1.6).toFixed(1)}A`,
+        hinweis: 'Die Vorsicherung im übergeordneten Verteiler sollte mindestens das 1,6-fache des Bemessungsstroms der ersten Schutzeinrichtung im Unterverteiler haben.',
+        schweregrad: 'warnung',
+      });
+    }
+  }
+
+  return warnings;
+}
+
+// ==========================================
+// PROJEKT-VALIDIERUNG
+// ==========================================
+
+/**
+ * Prüft alle Verteiler eines Projekts.
+ *
+ * Die Verteiler werden von oben nach unten geprüft:
+ * - Unterverteiler-Lasten gehen als Ersatz-Verbraucher in den Quell-Verteiler ein
+ *   (Überlast, Kabelbelastbarkeit und Spannungsfall der Zuleitung)
+ * - Schleifenimpedanz und Spannungsfall am Ende der Zuleitung werden an den
+ *   Unterverteiler weitergegeben
+ * - Das Gebäudemodell liefert raumbezogene Anforderungen (z.B. FI-Schutz im Bad)
+ */
+export function validateProjekt(
+  alleVerteiler: Verteiler[],
+  gebaeude: Gebaeude[] = []
+): Record<string, VerteilerValidierung> {
+  const ergebnisse: Record<string, VerteilerValidierung> = {};
+  const vorwerte = new Map<string, {
+    schleifenimpedanz: number;
+    schleifenimpedanzBetriebswarm: number;
+    spannungsfallProzent: number;
+  }>();
+
+  for (const { verteiler } of getVerteilerBaum(alleVerteiler)) {
+    const erweitert = getVerteilerMitUnterverteilerLasten(alleVerteiler, verteiler.id) ?? verteiler;
+    const vor = vorwerte.get(verteiler.id);
+
+    const pruefVerteiler = updateWireCurrentsInVerteiler(
+      vor
+        ? setzeVorgelagerteSchleifenimpedanz(erweitert, vor.schleifenimpedanz, vor.schleifenimpedanzBetriebswarm)
+        : erweitert
+    );
+    const kontext = vor ? { vorSpannungsfallProzent: vor.spannungsfallProzent } : undefined;
+    const result = validateVerteiler(pruefVerteiler, kontext, gebaeude);
+
+    // Werte am Ende der Zuleitungen für die Unterverteiler merken
+    for (const zuleitung of pruefVerteiler.verbraucher.filter((v) => istZuleitungsVerbraucher(v.id))) {
+      // 20 °C für die Kurzschlussströme, betriebswarm (Stromkreis-Ergebnis) für die Abschaltbedingung
+      const stromkreis = result.stromkreise.find((s) => s.verbraucherId === zuleitung.id);
+      const schleifenimpedanz = berechneSchleifenimpedanzFuerVerbraucher(pruefVerteiler, zuleitung) ??
+        result.berechnungen.schleifenimpedanz;
+      const schleifenimpedanzBetriebswarm = stromkreis?.berechnungen.schleifenimpedanz ?? schleifenimpedanz;
+
+      vorwerte.set(zuleitung.id.slice(ZULEITUNG_VERBRAUCHER_PREFIX.length), {
+        schleifenimpedanz: schleifenimpedanz / 1000, // mΩ zu Ω
+        schleifenimpedanzBetriebswarm: schleifenimpedanzBetriebswarm / 1000,
+        spannungsfallProzent: (vor?.spannungsfallProzent ?? 0) +
+          (berechneSpannungsfallProzent(pruefVerteiler, zuleitung) ?? 0),
+      });
+    }
+
+    // Einspeisung aus dem übergeordneten Verteiler prüfen
+    const quellVerteiler = alleVerteiler.find((v) => v.id === verteiler.einspeisung?.quellVerteilerId);
+    if (quellVerteiler && vor) {
+      result.warnings.push(...checkUnterverteilerEinspeisung(quellVerteiler, verteiler));
+    }
+
+    ergebnisse[verteiler.id] = { result, verbindungen: pruefVerteiler.verbindungen, pruefVerteiler, kontext };
+  }
+
+  return ergebnisse;
+}
@@ -0,0 +1,230 @@
+import type {
+  Verteiler,
+  Verbraucher,
+  ValidationResult,
+  StromkreisResult,
+  Pruefprotokoll,
+  Pruefmessung,
+  FISchalterParams,
+  FILSKombiParams,
+  FIVerzoegerung,
+} from '../types';
+import { findNearestFIPerPhase } from './circuitGraph';
+import { RHO_KUPFER, RHO_ALUMINIUM, berechneSchleifenimpedanzGrenzwert } from './validation';
+import { getSymbolDaten } from './uebersichtsschaltplan';
+import { getKabeltyp } from './kabeltypen';
+
+// ==========================================
+// PRÜFPROTOKOLL (ERSTPRÜFUNG ÖVE E 8001-6-61)
+// ==========================================
+
+/** Mindest-Isolationswiderstand bei 500 V Prüfspannung (Stromkreise bis 500 V) [MΩ] */
+export const ISOLATIONSWIDERSTAND_MIN = 1;
+
+/** Höchstwert für den Nachweis der Durchgängigkeit des Schutzleiters [Ω] */
+export const SCHUTZLEITER_WIDERSTAND_MAX = 1;
+
+/**
+ * Korrekturfaktor für gemessene Schleifenimpedanzen: Die Messung erfolgt bei
+ * Umgebungstemperatur, im Fehlerfall ist der Leiter betriebswarm → Zs(m) ≤ 2/3 · U0 / Ia
+ */
+const SCHLEIFENIMPEDANZ_MESSWERT_FAKTOR = 2 / 3;
+
+/** Zulässige Auslösezeit bei IΔn je Verzögerungsart [ms] (EN 61008/61009) */
+const FI_AUSLOESEZEIT: Record<FIVerzoegerung, [number, number]> = {
+  Standard: [0, 300],
+  G: [10, 300],
+  S: [130, 500],
+};
+
+/** Zulässiger Auslösestrom als Vielfaches von IΔn */
+const FI_AUSLOESESTROM: [number, number] = [0.5, 1.0];
+
+export type PruefStatus = 'bestanden' | 'nicht-bestanden' | 'offen' | 'entfaellt';
+
+export const PRUEF_STATUS_TEXT: Record<PruefStatus, string> = {
+  bestanden: 'i.O.',
+  'nicht-bestanden': 'n.i.O.',
+  offen: 'offen',
+  entfaellt: '-',
+};
+
+/**
+ * Ein Prüfpunkt: berechneter Wert, Grenzwert und Messwert
+ */
+export interface PruefPunkt {
+  bezeichnung: string;
+  einheit: string;
+  berechnet?: number;
+  grenzwert: string;            // z.B. "≥ 1", "≤ 0,85", "0,5 … 1,0 IΔn"
+  gemessen?: number;
+  status: PruefStatus;
+}
+
+export interface StromkreisPruefung {
+  verbraucherId: string;
+  verbraucherName: string;
+  schutzeinrichtung: string;    // z.B. "-F3 B16"
+  fi: string | null;            // z.B. "-F1 40 A / 30 mA" (null ohne FI-Schutz)
+  isolation: PruefPunkt;
+  schleifenimpedanz: PruefPunkt;
+  fiAusloesezeit: PruefPunkt;
+  fiAusloesestrom: PruefPunkt;
+  schutzleiter: PruefPunkt;
+  status: PruefStatus;
+}
+
+export const leeresPruefprotokoll = (): Pruefprotokoll => ({
+  pruefer: '',
+  datum: new Date().toISOString().split('T')[0],
+  messungen: {},
+});
+
+export const formatWert = (wert: number): string => wert.toLocaleString('de-AT', { maximumFractionDigits: 3 });
+
+/**
+ * Bewertet einen Messwert gegen einen Bereich. Ohne Messwert ist der Punkt offen.
+ */
+const bewerte = (gemessen: number | undefined, min: number, max: number): PruefStatus => {
+  if (gemessen === undefined) return 'offen';
+  return gemessen >= min && gemessen <= max ? 'bestanden' : 'nicht-bestanden';
+};
+
+/**
+ * Nächster FI-Schutz eines Verbrauchers (zugewiesene Komponente oder vorgeschaltet)
+ */
+function findeFISchutz(verteiler: Verteiler, verbraucher: Verbraucher): FISchalterParams | FILSKombiParams | null {
+  const zugewiesen = verteiler.komponenten.find((k) => k.id === verbraucher.zugewieseneKomponente);
+  if (!zugewiesen) return null;
+  if (zugewiesen.type === 'fi-schalter' || zugewiesen.type === 'fi-ls-kombi') return zugewiesen;
+
+  const fiId = findNearestFIPerPhase(verteiler, zugewiesen.id).get(verbraucher.phasen[0] ?? 'L1');
+  const fi = verteiler.komponenten.find((k) => k.id === fiId);
+  return fi && (fi.type === 'fi-schalter' || fi.type === 'fi-ls-kombi') ? fi : null;
+}
+
+/**
+ * Vergleicht die Messwerte eines Stromkreises mit den berechneten Werten und Grenzwerten.
+ *
+ * Der Grenzwert der Schleifenimpedanz kommt aus der Abschaltbedingung der Validierung
+ * (berechneSchleifenimpedanzGrenzwert, für Messwerte mit 2/3 korrigiert),
+ * die FI-Grenzen aus Bemessungsfehlerstrom und Verzögerung.
+ */
+export function bewerteStromkreis(
+  verteiler: Verteiler,
+  stromkreis: StromkreisResult,
+  messung: Pruefmessung = {}
+): StromkreisPruefung | null {
+  const verbraucher = verteiler.verbraucher.find((v) => v.id === stromkreis.verbraucherId);
+  if (!verbraucher) return null;
+
+  const bezeichne = (k: Verteiler['komponenten'][number]) =>
+    [k.bmk ?? k.name, getSymbolDaten(k, verteiler)[0]].filter(Boolean).join(' ');
+  const zugewiesen = verteiler.komponenten.find((k) => k.id === verbraucher.zugewieseneKomponente);
+
+  // Schleifenimpedanz [Ω] – Messwert gegen den temperaturkorrigierten Grenzwert
+  const grenzwert = berechneSchleifenimpedanzGrenzwert(verteiler, verbraucher);
+  const zsMaxGemessen = grenzwert ? SCHLEIFENIMPEDANZ_MESSWERT_FAKTOR * grenzwert.zsMax : undefined;
+  const zsBerechnet = stromkreis.berechnungen.schleifenimpedanz;
+  // TT: Gemessen wird die Schleife über den Anlagenerder → RA wie im Grenzwert enthalten
+  const erderwiderstand = grenzwert?.erderwiderstand ?? 0;
+  const schleifenimpedanz: PruefPunkt = {
+    bezeichnung: 'Zs',
+    einheit: 'Ω',
+    berechnet: zsBerechnet !== undefined ? zsBerechnet / 1000 + erderwiderstand : undefined,
+    grenzwert: zsMaxGemessen !== undefined ? `≤ ${formatWert(zsMaxGemessen)}` : '-',
+    gemessen: messung.schleifenimpedanz,
+    status: zsMaxGemessen !== undefined ? bewerte(messung.schleifenimpedanz, 0, zsMaxGemessen) : 'entfaellt',
+  };
+
+  // Isolationswiderstand [MΩ]
+  const isolation: PruefPunkt = {
+    bezeichnung: 'Riso',
+    einheit: 'MΩ',
+    grenzwert: `≥ ${ISOLATIONSWIDERSTAND_MIN}`,
+    gemessen: messung.isolationswiderstand,
+    status: bewerte(messung.isolationswiderstand, ISOLATIONSWIDERSTAND_MIN, Infinity),
+  };
+
+  // FI-Schutz
+  const fi = findeFISchutz(verteiler, verbraucher);
+  const [zeitMin, zeitMax] = fi ? FI_AUSLOESEZEIT[fi.verzoegerung] : [0, 0];
+  const fiAusloesezeit: PruefPunkt = {
+    bezeichnung: 'tΔ',
+    einheit: 'ms',
+    grenzwert: fi ? (zeitMin > 0 ? `${zeitMin} … ${zeitMax}` : `≤ ${zeitMax}`) : '-',
+    gemessen: messung.fiAusloesezeit,
+    status: fi ? bewerte(messung.fiAusloesezeit, zeitMin, zeitMax) : 'entfaellt',
+  };
+  const fiAusloesestrom: PruefPunkt = {
+    bezeichnung: 'IΔ',
+    einheit: 'mA',
+    berechnet: fi?.bemessungsFehlerstrom,
+    grenzwert: fi
+      ? `${formatWert(FI_AUSLOESESTROM[0] * fi.bemessungsFehlerstrom)} … ${formatWert(FI_AUSLOESESTROM[1] * fi.bemessungsFehlerstrom)}`
+      : '-',
+    gemessen: messung.fiAusloesestrom,
+    status: fi
+      ? bewerte(messung.fiAusloesestrom, FI_AUSLOESESTROM[0] * fi.bemessungsFehlerstrom, FI_AUSLOESESTROM[1] * fi.bemessungsFehlerstrom)
+      : 'entfaellt',
+  };
+
+  // Schutzleiter: Widerstand des PE-Leiters der Verbraucherleitung (gleicher Querschnitt wie L,
+  // Leitermaterial aus dem Kabeltyp wie bei der Schleifenimpedanz)
+  const material = getKabeltyp(verbraucher.kabeltypId)?.leitermaterial ?? verbraucher.leitermaterial;
+  const rho = material === 'aluminium' ? RHO_ALUMINIUM : RHO_KUPFER;
+  const schutzleiter: PruefPunkt = {
+    bezeichnung: 'RPE',
+    einheit: 'Ω',
+    berechnet: verbraucher.leitungslaenge && verbraucher.leitungsquerschnitt
+      ? (rho * verbraucher.leitungslaenge) / verbraucher.leitungsquerschnitt
+      : undefined,
+    grenzwert: `≤ ${SCHUTZLEITER_WIDERSTAND_MAX}`,
+    gemessen: messung.schutzleiterWiderstand,
+    status: bewerte(messung.schutzleiterWiderstand, 0, SCHUTZLEITER_WIDERSTAND_MAX),
+  };
+
+  const punkte = [isolation, schleifenimpedanz, fiAusloesezeit, fiAusloesestrom, schutzleiter];
+  const status: PruefStatus = punkte.some((p) => p.status === 'nicht-bestanden')
+    ? 'nicht-bestanden'
+    : punkte.some((p) => p.status === 'offen') ? 'offen' : 'bestanden';
+
+  return {
+    verbraucherId: verbraucher.id,
+    verbraucherName: stromkreis.verbraucherName,
+    schutzeinrichtung: zugewiesen ? bezeichne(zugewiesen) : '-',
+    fi: fi ? bezeichne(fi) : null,
+    isolation,
+    schleifenimpedanz,
+    fiAusloesezeit,
+    fiAusloesestrom,
+    schutzleiter,
+    status,
+  };
+}
+
+/**
+ * Bewertet alle Stromkreise eines geprüften Verteilers
+ *
+ * WICHTIG: Den Prüf-Verteiler aus validateProjekt verwenden – nur dort sind die
+ * vorgelagerte Schleifenimpedanz und die Zuleitungen der Unterverteiler enthalten.
+ */
+export function erstellePruefung(
+  pruefVerteiler: Verteiler,
+  result: ValidationResult,
+  protokoll: Pruefprotokoll | undefined
+): StromkreisPruefung[] {
+  return result.stromkreise
+    .map((s) => bewerteStromkreis(pruefVerteiler, s, protokoll?.messungen[s.verbraucherId]))
+    .filter((p): p is StromkreisPruefung => p !== null);
+}
+
+/**
+ * Gesamtergebnis über alle Stromkreise
+ */
+export function getGesamtstatus(pruefungen: StromkreisPruefung[]): PruefStatus {
+  if (pruefungen.length === 0) return 'offen';
+  if (pruefungen.some((p) => p.status === 'nicht-bestanden')) return 'nicht-bestanden';
+  if (pruefungen.some((p) => p.status === 'offen')) return 'offen';
+  return 'bestanden';
+}
@@ -0,0 +1,127 @@
+import type { Verteiler, ElektroComponent, ComponentType, Verbraucher, Gebaeude } from '../types';
+import { TE_WIDTH } from './constants';
+import { findSeriesComponents } from './circuitGraph';
+import { getSymbolDaten } from './uebersichtsschaltplan';
+import { getRaumBezeichnung } from './gebaeude';
+
+// ==========================================
+// STROMKREISVERZEICHNIS & BESCHRIFTUNG
+// ==========================================
+
+/** Geräte, die im tabellarischen Stromkreisverzeichnis einen Stromkreis bilden */
+const STROMKREIS_TYPEN: ComponentType[] = [
+  'nh-sicherung', 'neozed-sicherung', 'schraub-sicherung',
+  'fi-schalter', 'ls-schalter', 'fi-ls-kombi', 'schuetz', 'abgangsklemme',
+];
+
+/**
+ * Beschriftungsfeld über einem Gerät (Breite = TE × 18 mm)
+ */
+export interface Beschriftungsfeld {
+  komponente: ElektroComponent;
+  x: number;                    // Abstand vom Schienenanfang [mm]
+  breite: number;               // [mm]
+  bmk: string;
+  bemessung: string | null;     // z.B. "B16" oder "40 A / 30 mA"
+  verbraucher: string[];        // Namen der nachgeschalteten Verbraucher
+}
+
+/**
+ * Beschriftungsstreifen einer Hutschiene
+ */
+export interface Beschriftungsstreifen {
+  hutschiene: number;           // Index der Hutschiene (0-basiert)
+  laenge: number;               // Gesamtlänge des Streifens [mm]
+  felder: Beschriftungsfeld[];
+}
+
+/**
+ * Zeile des tabellarischen Stromkreisverzeichnisses
+ */
+export interface StromkreisEintrag {
+  bmk: string;
+  name: string;
+  bemessung: string | null;
+  einbauort: string;            // z.B. "S1/4"
+  verbraucher: string[];
+  raeume: string[];             // Räume der nachgeschalteten Verbraucher (Geschoss · Raum)
+}
+
+/**
+ * Ermittelt für jede Komponente die nachgeschalteten Verbraucher über den Schaltungsgraphen.
+ * Ein Verbraucher gehört zu seiner zugewiesenen Komponente und zu allen Geräten,
+ * die in Serie davor liegen (findSeriesComponents).
+ */
+export function getNachgeschalteteVerbraucher(verteiler: Verteiler): Map<string, Verbraucher[]> {
+  const ergebnis = new Map<string, Verbraucher[]>();
+  const vorgeschaltet = new Map<string, string[]>();
+
+  for (const verbraucher of verteiler.verbraucher) {
+    const zugewiesen = verbraucher.zugewieseneKomponente;
+    if (!zugewiesen || !verteiler.komponenten.some((k) => k.id === zugewiesen)) continue;
+
+    if (!vorgeschaltet.has(zugewiesen)) {
+      vorgeschaltet.set(zugewiesen, findSeriesComponents(verteiler, zugewiesen).map((k) => k.id));
+    }
+    for (const id of [zugewiesen, ...vorgeschaltet.get(zugewiesen)!]) {
+      const liste = ergebnis.get(id) ?? [];
+      if (!liste.includes(verbraucher)) liste.push(verbraucher);
+      ergebnis.set(id, liste);
+    }
+  }
+
+  return ergebnis;
+}
+
+const eindeutig = (werte: (string | null | undefined)[]): string[] =>
+  Array.from(new Set(werte.filter((w): w is string => !!w)));
+
+/**
+ * Erstellt die Beschriftungsstreifen (je Hutschiene) und das tabellarische
+ * Stromkreisverzeichnis eines Verteilers.
+ *
+ * WICHTIG: Alle Maße in Millimeter – der PDF-Export druckt in Originalgröße,
+ * damit die Streifen ausgeschnitten und in die Beschriftungsfenster eingelegt werden können.
+ */
+export function erstelleStromkreisverzeichnis(verteiler: Verteiler, gebaeude: Gebaeude[] = []): {
+  streifen: Beschriftungsstreifen[];
+  eintraege: StromkreisEintrag[];
+} {
+  const nachgeschaltet = getNachgeschalteteVerbraucher(verteiler);
+  const sortiert = verteiler.komponenten
+    .filter((k) => k.type !== 'phasenschiene')
+    .sort((a, b) => a.position.rail - b.position.rail || a.position.slot - b.position.slot);
+
+  const streifen = [...verteiler.hutschienen]
+    .sort((a, b) => a.index - b.index)
+    .map((hutschiene): Beschriftungsstreifen => ({
+      hutschiene: hutschiene.index,
+      laenge: hutschiene.slots * TE_WIDTH,
+      felder: sortiert
+        .filter((k) => k.position.rail === hutschiene.index)
+        .map((k) => ({
+          komponente: k,
+          x: k.position.slot * TE_WIDTH,
+          breite: k.teilungseinheiten * TE_WIDTH,
+          bmk: k.bmk ?? k.name,
+          bemessung: getSymbolDaten(k, verteiler)[0] ?? null,
+          verbraucher: eindeutig((nachgeschaltet.get(k.id) ?? []).map((v) => v.name)),
+        })),
+    }));
+
+  const eintraege = sortiert
+    .filter((k) => STROMKREIS_TYPEN.includes(k.type))
+    .map((k): StromkreisEintrag => {
+      const verbraucher = nachgeschaltet.get(k.id) ?? [];
+      return {
+        bmk: k.bmk ?? k.name,
+        name: k.name,
+        bemessung: getSymbolDaten(k, verteiler)[0] ?? null,
+        einbauort: `S${k.position.rail + 1}/${k.position.slot}`,
+        verbraucher: eindeutig(verbraucher.map((v) => v.name)),
+        raeume: eindeutig(verbraucher.map((v) => getRaumBezeichnung(gebaeude, v.raumId))),
+      };
+    });
+
+  return { streifen, eintraege };
+}
@@ -0,0 +1,411 @@
+import type { Verteiler, ElektroComponent, ComponentType, Phase } from '../types';
+import { PHASE_COLORS } from '../types';
+import { getComponentTerminals, type Terminal } from './terminals';
+import {
+  buildTerminalAdjacency,
+  getInternalTerminalConnections,
+  getTerminalId,
+  parseTerminalId,
+} from './circuitGraph';
+import { getAlleVerbindungen } from './phasenschiene';
+import { getSymbolDaten } from './uebersichtsschaltplan';
+import { getBezeichnung } from './kennzeichnung';
+
+// ==========================================
+// STROMLAUFPLAN (ALLPOLIGE DARSTELLUNG)
+// ==========================================
+
+/** Blattgröße: A4 quer bei 96 dpi [px] */
+export const BLATT_BREITE = 1123;
+const BLATT_HOEHE = 794;
+const RAND = 40;
+/** Anzahl der Spalten je Blatt für Querverweise (0–9) */
+const SPALTEN = 10;
+const KOPF_HOEHE = 20;
+
+/** Abstand zweier Pole eines Geräts [px] */
+const POL_ABSTAND = 16;
+/** Mindestbreite eines Geräts (Platz für die Beschriftung) [px] */
+const MIN_GERAET_BREITE = 44;
+/** Platz links vom Gerät für die Steigleitungen der oberen Anschlüsse [px] */
+const STEIG_ZONE = 30;
+/** Höhenstaffelung der oberen Anschlussleitungen [px] */
+const STEIG_STUFE = 4;
+
+/** Y der oberen / unteren Anschlüsse */
+const Y_OBEN = RAND + KOPF_HOEHE + 50;
+const Y_UNTEN = Y_OBEN + 120;
+/** Erste Leiterbahn unterhalb der Geräte und Abstand der Bahnen */
+const Y_BAHN = Y_UNTEN + 24;
+const BAHN_ABSTAND = 8;
+
+const LINIE = '#111827';
+
+/** Geräte mit Schaltkontakt bzw. Schmelzeinsatz je Pol */
+const SCHALTER: ComponentType[] = ['ls-schalter', 'fi-schalter', 'fi-ls-kombi', 'schuetz'];
+const SICHERUNGEN: ComponentType[] = ['nh-sicherung', 'neozed-sicherung', 'schraub-sicherung'];
+
+export interface PlanLinie {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  farbe: string;
+  staerke: number;
+  gestrichelt?: boolean;
+}
+
+export interface PlanRechteck {
+  x: number;
+  y: number;
+  breite: number;
+  hoehe: number;
+  farbe: string;
+}
+
+export interface PlanPunkt {
+  x: number;
+  y: number;
+  radius: number;
+  farbe: string;
+  gefuellt: boolean;
+}
+
+export interface PlanText {
+  x: number;
+  y: number;
+  text: string;
+  groesse: number;
+  anker: 'start' | 'middle' | 'end';
+  fett?: boolean;
+  gedreht?: boolean;            // um -90° gedreht, liest von unten nach oben
+  farbe?: string;
+}
+
+export interface StromlaufplanBlatt {
+  nummer: number;
+  breite: number;
+  hoehe: number;
+  linien: PlanLinie[];
+  rechtecke: PlanRechteck[];
+  punkte: PlanPunkt[];
+  texte: PlanText[];
+}
+
+interface PlatziertesGeraet {
+  komponente: ElektroComponent;
+  blatt: number;
+  links: number;
+  breite: number;
+  oben: Terminal[];             // nach offsetX sortiert
+  unten: Terminal[];
+}
+
+/** Anschlusspunkt eines Terminals an seine Leiterbahn */
+interface Anschluss {
+  terminalId: string;
+  blatt: number;
+  x: number;                    // x der senkrechten Leitung zur Bahn
+  pfad: { x: number; y: number }[]; // vom Terminal bis kurz vor die Bahn
+}
+
+// ==========================================
+// HILFSFUNKTIONEN
+// ==========================================
+
+const spaltenBreite = (BLATT_BREITE - 2 * RAND) / SPALTEN;
+
+const getSpalte = (x: number): number =>
+  Math.max(0, Math.min(SPALTEN - 1, Math.floor((x - RAND) / spaltenBreite)));
+
+const polX = (geraet: PlatziertesGeraet, index: number, anzahl: number): number => {
+  const polBreite = anzahl * POL_ABSTAND;
+  return geraet.links + (geraet.breite - polBreite) / 2 + (index + 0.5) * POL_ABSTAND;
+};
+
+/**
+ * Reihenfolge der Geräte: Breitensuche im Terminal-Graphen ab der Versorgung,
+ * nicht angeschlossene Geräte folgen in Einbaureihenfolge.
+ */
+function ermittleReihenfolge(verteiler: Verteiler): ElektroComponent[] {
+  const zeichenbar = verteiler.komponenten.filter((k) => k.type !== 'phasenschiene');
+  const reihenfolge: ElektroComponent[] = [];
+  const aufgenommen = new Set<string>();
+  const nimmAuf = (id: string) => {
+    if (aufgenommen.has(id)) return;
+    const komponente = zeichenbar.find((k) => k.id === id);
+    if (!komponente) return;
+    aufgenommen.add(id);
+    reihenfolge.push(komponente);
+  };
+
+  const versorgung = zeichenbar.find((k) => k.type === 'versorgungsklemme');
+  if (versorgung) {
+    const adjacency = buildTerminalAdjacency(verteiler);
+    const queue = getComponentTerminals(versorgung).map((t) => getTerminalId(versorgung.id, t.id));
+    const besucht = new Set(queue);
+    nimmAuf(versorgung.id);
+    while (queue.length > 0) {
+      const terminal = queue.shift()!;
+      nimmAuf(parseTerminalId(terminal).componentId);
+      for (const nachbar of adjacency.get(terminal) ?? []) {
+        if (!besucht.has(nachbar)) {
+          besucht.add(nachbar);
+          queue.push(nachbar);
+        }
+      }
+    }
+  }
+
+  const rest = zeichenbar
+    .filter((k) => !aufgenommen.has(k.id))
+    .sort((a, b) => a.position.rail - b.position.rail || a.position.slot - b.position.slot);
+  return [...reihenfolge, ...rest];
+}
+
+/**
+ * Fasst über Leitungen (inkl. Phasenschienen) verbundene Terminals zu Potentialen zusammen.
+ * Die internen Durchgänge der Geräte trennen die Potentiale – sie werden als Pole gezeichnet.
+ */
+function ermittlePotentiale(verteiler: Verteiler): { potentialVon: (terminalId: string) => string; phaseVon: Map<string, Phase> } {
+  const eltern = new Map<string, string>();
+  const finde = (id: string): string => {
+    let wurzel = id;
+    while (eltern.has(wurzel) && eltern.get(wurzel) !== wurzel) wurzel = eltern.get(wurzel)!;
+    eltern.set(id, wurzel);
+    return wurzel;
+  };
+
+  const verbindungen = getAlleVerbindungen(verteiler);
+  for (const wire of verbindungen) {
+    const a = finde(getTerminalId(wire.von.componentId, wire.von.terminal));
+    const b = finde(getTerminalId(wire.nach.componentId, wire.nach.terminal));
+    if (a !== b) eltern.set(a, b);
+  }
+
+  const phaseVon = new Map<string, Phase>();
+  for (const wire of verbindungen) {
+    const potential = finde(getTerminalId(wire.von.componentId, wire.von.terminal));
+    if (!phaseVon.has(potential)) phaseVon.set(potential, wire.phase);
+  }
+
+  return { potentialVon: finde, phaseVon };
+}
+
+function leeresBlatt(nummer: number): StromlaufplanBlatt {
+  return { nummer, breite: BLATT_BREITE, hoehe: BLATT_HOEHE, linien: [], rechtecke: [], punkte: [], texte: [] };
+}
+
+/**
+ * Zeichnet ein Gerät mit seinen Polen (Schaltkontakt, Sicherung oder Durchgang)
+ */
+function zeichneGeraet(blatt: StromlaufplanBlatt, geraet: PlatziertesGeraet, verteiler: Verteiler): void {
+  const { komponente } = geraet;
+  const koerperOben = Y_OBEN + 8;
+  const koerperUnten = Y_UNTEN - 8;
+  const mitte = (koerperOben + koerperUnten) / 2;
+
+  blatt.rechtecke.push({ x: geraet.links, y: koerperOben, breite: geraet.breite, hoehe: koerperUnten - koerperOben, farbe: '#6b7280' });
+
+  const xVon = new Map<string, number>();
+  geraet.oben.forEach((t, i) => xVon.set(t.id, polX(geraet, i, geraet.oben.length)));
+  geraet.unten.forEach((t, i) => xVon.set(t.id, polX(geraet, i, geraet.unten.length)));
+
+  // Anschlüsse mit Klemmenbezeichnung
+  for (const t of geraet.oben) {
+    const x = xVon.get(t.id)!;
+    blatt.linien.push({ x1: x, y1: Y_OBEN, x2: x, y2: koerperOben, farbe: PHASE_COLORS[t.phase], staerke: 1.5 });
+    blatt.punkte.push({ x, y: Y_OBEN, radius: 2, farbe: LINIE, gefuellt: false });
+    blatt.texte.push({ x: x + 2, y: koerperOben + 8, text: t.label, groesse: 6, anker: 'start', farbe: '#6b7280' });
+  }
+  for (const t of geraet.unten) {
+    const x = xVon.get(t.id)!;
+    blatt.linien.push({ x1: x, y1: koerperUnten, x2: x, y2: Y_UNTEN, farbe: PHASE_COLORS[t.phase], staerke: 1.5 });
+    blatt.punkte.push({ x, y: Y_UNTEN, radius: 2, farbe: LINIE, gefuellt: false });
+    blatt.texte.push({ x: x + 2, y: koerperUnten - 3, text: t.label, groesse: 6, anker: 'start', farbe: '#6b7280' });
+  }
+
+  // Pole (interne Durchgänge)
+  const istSchalter = SCHALTER.includes(komponente.type);
+  const istSicherung = SICHERUNGEN.includes(komponente.type);
+  const kontaktXe: number[] = [];
+  for (const { from, to } of getInternalTerminalConnections(komponente)) {
+    const x1 = xVon.get(from);
+    const x2 = xVon.get(to);
+    if (x1 === undefined || x2 === undefined) continue;
+    const phase = geraet.oben.find((t) => t.id === from)?.phase ?? geraet.unten.find((t) => t.id === from)?.phase ?? 'L1';
+    const farbe = PHASE_COLORS[phase];
+
+    if (x1 !== x2 || (!istSchalter && !istSicherung)) {
+      // Durchgang (Klemmen, Zähler, Sammelschiene)
+      const yVon = geraet.oben.some((t) => t.id === from) ? koerperOben : koerperUnten;
+      const yNach = geraet.oben.some((t) => t.id === to) ? koerperOben : koerperUnten;
+      if (yVon === yNach) {
+        blatt.linien.push({ x1, y1: yVon, x2, y2: yNach, farbe, staerke: 1.5 });
+      } else {
+        blatt.linien.push({ x1, y1: yVon, x2: x1, y2: mitte, farbe, staerke: 1.5 });
+        blatt.linien.push({ x1, y1: mitte, x2, y2: mitte, farbe, staerke: 1.5 });
+        blatt.linien.push({ x1: x2, y1: mitte, x2, y2: yNach, farbe, staerke: 1.5 });
+      }
+    } else if (istSchalter) {
+      // Schließer: Kontaktlücke mit schräg gestelltem Schaltglied
+      blatt.linien.push({ x1, y1: koerperOben, x2: x1, y2: mitte - 10, farbe, staerke: 1.5 });
+      blatt.linien.push({ x1, y1: mitte + 10, x2: x1 - 7, y2: mitte - 8, farbe: LINIE, staerke: 1.5 });
+      blatt.linien.push({ x1, y1: mitte + 10, x2: x1, y2: koerperUnten, farbe, staerke: 1.5 });
+      kontaktXe.push(x1 - 3.5);
+    } else {
+      // Sicherung: Rechteck im Leiterzug
+      blatt.linien.push({ x1, y1: koerperOben, x2: x1, y2: koerperUnten, farbe, staerke: 1.5 });
+      blatt.rechtecke.push({ x: x1 - 3, y: mitte - 9, breite: 6, hoehe: 18, farbe: LINIE });
+    }
+  }
+
+  // Mechanische Kopplung mehrpoliger Schalter
+  if (kontaktXe.length > 1) {
+    blatt.linien.push({
+      x1: Math.min(...kontaktXe), y1: mitte, x2: Math.max(...kontaktXe), y2: mitte,
+      farbe: LINIE, staerke: 0.8, gestrichelt: true,
+    });
+  }
+
+  // Bezeichnung und Kenndaten gedreht am rechten Rand des Geräts
+  const daten = getSymbolDaten(komponente, verteiler)[0];
+  blatt.texte.push({ x: geraet.links + geraet.breite - 3, y: koerperUnten - 2, text: getBezeichnung(komponente), groesse: 8, anker: 'start', fett: true, gedreht: true });
+  if (daten) {
+    blatt.texte.push({ x: geraet.links + geraet.breite + 8, y: koerperUnten - 2, text: daten, groesse: 7, anker: 'start', gedreht: true, farbe: '#4b5563' });
+  }
+}
+
+/**
+ * Erstellt den Stromlaufplan eines Verteilers in allpoliger Darstellung.
+ *
+ * Die Geräte stehen in Reihenfolge des Energieflusses nebeneinander, jeder Leiter
+ * (L1/L2/L3/N/PE) ist in seiner Farbe auf einer eigenen Bahn unterhalb der Geräte
+ * gezeichnet. Passt ein Gerät nicht mehr auf das Blatt, beginnt ein neues Blatt;
+ * Leiter, die auf einem anderen Blatt weiterführen, enden am Blattrand mit einem
+ * Querverweis "/Blatt.Spalte".
+ */
+export function erstelleStromlaufplan(verteiler: Verteiler): StromlaufplanBlatt[] {
+  const reihenfolge = ermittleReihenfolge(verteiler);
+  if (reihenfolge.length === 0) return [];
+
+  // 1. Geräte auf Blätter verteilen
+  const geraete: PlatziertesGeraet[] = [];
+  let blattNummer = 1;
+  let x = RAND;
+  for (const komponente of reihenfolge) {
+    const terminals = getComponentTerminals(komponente);
+    const oben = terminals.filter((t) => t.position === 'top').sort((a, b) => a.offsetX - b.offsetX);
+    const unten = terminals.filter((t) => t.position === 'bottom').sort((a, b) => a.offsetX - b.offsetX);
+    const breite = Math.max(MIN_GERAET_BREITE, Math.max(oben.length, unten.length) * POL_ABSTAND + 16);
+    const bedarf = STEIG_ZONE + breite + 14;
+    if (x + bedarf > BLATT_BREITE - RAND && x > RAND) {
+      blattNummer++;
+      x = RAND;
+    }
+    geraete.push({ komponente, blatt: blattNummer, links: x + STEIG_ZONE, breite, oben, unten });
+    x += bedarf;
+  }
+  const blaetter = Array.from({ length: blattNummer }, (_, i) => leeresBlatt(i + 1));
+
+  // 2. Anschlusspunkte: untere Terminals direkt nach unten, obere über die Steigzone links
+  const { potentialVon, phaseVon } = ermittlePotentiale(verteiler);
+  const anschluesseJePotential = new Map<string, Anschluss[]>();
+  for (const geraet of geraete) {
+    const blatt = blaetter[geraet.blatt - 1];
+    zeichneGeraet(blatt, geraet, verteiler);
+
+    const eintragen = (terminal: Terminal, anschluss: Omit<Anschluss, 'terminalId' | 'blatt'>) => {
+      const terminalId = getTerminalId(geraet.komponente.id, terminal.id);
+      const potential = potentialVon(terminalId);
+      const liste = anschluesseJePotential.get(potential) ?? [];
+      liste.push({ terminalId, blatt: geraet.blatt, ...anschluss });
+      anschluesseJePotential.set(potential, liste);
+    };
+    geraet.unten.forEach((t, i) => {
+      const tx = polX(geraet, i, geraet.unten.length);
+      eintragen(t, { x: tx, pfad: [{ x: tx, y: Y_UNTEN }] });
+    });
+    geraet.oben.forEach((t, i) => {
+      const tx = polX(geraet, i, geraet.oben.length);
+      const y = Y_OBEN - 8 - i * STEIG_STUFE;
+      const steigX = geraet.links - 6 - i * STEIG_STUFE;
+      eintragen(t, { x: steigX, pfad: [{ x: tx, y: Y_OBEN }, { x: tx, y }, { x: steigX, y }] });
+    });
+  }
+
+  // 3. Leiterbahnen je Blatt vergeben (überlappungsfrei wie beim Leitungsrouter)
+  const bahnenJeBlatt = blaetter.map(() => [] as [number, number][][]);
+  const potentiale = Array.from(anschluesseJePotential.entries())
+    .filter(([, anschluesse]) => anschluesse.length > 1);
+
+  for (const [potential, anschluesse] of potentiale) {
+    const phase = phaseVon.get(potential) ?? 'L1';
+    const farbe = PHASE_COLORS[phase];
+    const blattNummern = Array.from(new Set(anschluesse.map((a) => a.blatt))).sort((a, b) => a - b);
+
+    for (const nummer of blattNummern) {
+      const blatt = blaetter[nummer - 1];
+      const hier = anschluesse.filter((a) => a.blatt === nummer);
+      const vorher = blattNummern.filter((n) => n < nummer).pop();
+      const nachher = blattNummern.find((n) => n > nummer);
+
+      let links = Math.min(...hier.map((a) => a.x));
+      let rechts = Math.max(...hier.map((a) => a.x));
+      if (vorher !== undefined) links = RAND / 2;
+      if (nachher !== undefined) rechts = BLATT_BREITE - RAND / 2;
+      if (links === rechts && hier.length < 2) continue;
+
+      // Freie Bahn suchen
+      const bahnen = bahnenJeBlatt[nummer - 1];
+      let bahn = bahnen.findIndex((belegt) => belegt.every(([a, b]) => rechts + 6 <= a || links >= b + 6));
+      if (bahn === -1) {
+        bahn = bahnen.length;
+        bahnen.push([]);
+      }
+      bahnen[bahn].push([links, rechts]);
+      const y = Y_BAHN + bahn * BAHN_ABSTAND;
+
+      blatt.linien.push({ x1: links, y1: y, x2: rechts, y2: y, farbe, staerke: 1.2 });
+      blatt.texte.push({ x: links + 2, y: y - 1.5, text: phase, groesse: 5, anker: 'start', farbe });
+      for (const a of hier) {
+        const punkte = [...a.pfad, { x: a.x, y }];
+        for (let i = 1; i < punkte.length; i++) {
+          blatt.linien.push({ x1: punkte[i - 1].x, y1: punkte[i - 1].y, x2: punkte[i].x, y2: punkte[i].y, farbe, staerke: 1.2 });
+        }
+        // Verbindungspunkt an Abzweigen
+        if (a.x > links && a.x < rechts) blatt.punkte.push({ x: a.x, y, radius: 1.8, farbe, gefuellt: true });
+      }
+
+      // Querverweise am Blattrand
+      if (vorher !== undefined) {
+        const ziel = Math.max(...anschluesse.filter((a) => a.blatt === vorher).map((a) => a.x));
+        blatt.texte.push({ x: links - 2, y: y + 2, text: `/${vorher}.${getSpalte(ziel)}`, groesse: 6, anker: 'end', farbe });
+      }
+      if (nachher !== undefined) {
+        const ziel = Math.min(...anschluesse.filter((a) => a.blatt === nachher).map((a) => a.x));
+        blatt.texte.push({ x: rechts + 2, y: y + 2, text: `/${nachher}.${getSpalte(ziel)}`, groesse: 6, anker: 'start', farbe });
+      }
+    }
+  }
+
+  // 4. Rahmen, Spaltenleiste und Schriftfeld
+  for (const blatt of blaetter) {
+    const bahnen = bahnenJeBlatt[blatt.nummer - 1].length;
+    blatt.hoehe = Math.max(BLATT_HOEHE, Y_BAHN + bahnen * BAHN_ABSTAND + 2 * RAND);
+
+    blatt.rechtecke.push({ x: RAND / 2, y: RAND / 2, breite: BLATT_BREITE - RAND, hoehe: blatt.hoehe - RAND, farbe: LINIE });
+    for (let spalte = 0; spalte < SPALTEN; spalte++) {
+      const sx = RAND + spalte * spaltenBreite;
+      blatt.linien.push({ x1: sx, y1: RAND, x2: sx, y2: RAND + KOPF_HOEHE, farbe: LINIE, staerke: 0.5 });
+      blatt.texte.push({ x: sx + spaltenBreite / 2, y: RAND + 14, text: String(spalte), groesse: 9, anker: 'middle' });
+    }
+    blatt.linien.push({ x1: RAND, y1: RAND + KOPF_HOEHE, x2: BLATT_BREITE - RAND, y2: RAND + KOPF_HOEHE, farbe: LINIE, staerke: 0.5 });
+
+    const fussY = blatt.hoehe - RAND / 2 - 6;
+    blatt.texte.push({ x: RAND, y: fussY, text: `Stromlaufplan – ${verteiler.name}`, groesse: 10, anker: 'start', fett: true });
+    blatt.texte.push({ x: BLATT_BREITE - RAND, y: fussY, text: `Blatt ${blatt.nummer} / ${blaetter.length}`, groesse: 10, anker: 'end' });
+  }
+
+  return blaetter;
+}
@@ -0,0 +1,172 @@
+import type { Verteiler, KatalogArtikel, Kabeltyp, Leitermaterial } from '../types';
+import { getSymbolDaten } from './uebersichtsschaltplan';
+import { getVariante, findeArtikel, findeKabelArtikel } from './katalog';
+import { getBenoetigteAdern, getKabeltyp } from './kabeltypen';
+
+// ==========================================
+// STÜCKLISTE / ANGEBOT
+// ==========================================
+
+export interface StuecklistenPosition {
+  position: number;
+  kategorie: 'geraet' | 'kabel' | 'verdrahtung';
+  bezeichnung: string;
+  hersteller: string | null;
+  artikelnummer: string | null;  // null = kein Katalogartikel zugeordnet
+  menge: number;
+  einheit: 'Stk' | 'm';
+  einzelpreis: number | null;    // [€] netto
+  gesamtpreis: number | null;    // [€] netto
+  kennzeichen: string[];         // BMK der Geräte bzw. Verteiler/Verbraucher der Kabel
+}
+
+export interface Stueckliste {
+  positionen: StuecklistenPosition[];
+  summe: number;                 // Summe aller bepreisten Positionen [€] netto
+  ohneArtikel: number;           // Anzahl Positionen ohne Katalogartikel
+}
+
+type Sammelposition = Omit<StuecklistenPosition, 'position' | 'gesamtpreis'>;
+
+const KATEGORIE_REIHENFOLGE: StuecklistenPosition['kategorie'][] = ['geraet', 'kabel', 'verdrahtung'];
+
+const formatZahl = (wert: number): string => wert.toLocaleString('de-AT');
+
+/**
+ * Erstellt die Stückliste eines Projekts mit Katalogartikeln und Preisen.
+ *
+ * - Geräte: je Katalogartikel (oder je Variante und Bemessung, falls kein Artikel passt)
+ * - Kabel: Verbraucherleitungen (Leitungslänge) und Zuleitungen der Unterverteiler in Metern
+ * - Verdrahtung: Einzeladern im Verteiler (Wire.laenge) je Querschnitt und Material
+ *
+ * WICHTIG: Phasenschienen-Verbindungen sind keine Leitungen und werden nicht mitgezählt –
+ * die Phasenschiene selbst steht als Gerät in der Liste.
+ */
+export function erstelleStueckliste(alleVerteiler: Verteiler[], katalog: KatalogArtikel[]): Stueckliste {
+  const sammlung = new Map<string, Sammelposition>();
+
+  const hinzufuegen = (schluessel: string, neu: Omit<Sammelposition, 'menge' | 'kennzeichen'>, menge: number, kennzeichen: string) => {
+    const vorhanden = sammlung.get(schluessel) ?? { ...neu, menge: 0, kennzeichen: [] };
+    vorhanden.menge += menge;
+    if (!vorhanden.kennzeichen.includes(kennzeichen)) vorhanden.kennzeichen.push(kennzeichen);
+    sammlung.set(schluessel, vorhanden);
+  };
+
+  const ausArtikel = (artikel: KatalogArtikel) => ({
+    bezeichnung: artikel.bezeichnung,
+    hersteller: artikel.hersteller || null,
+    artikelnummer: artikel.artikelnummer,
+    einheit: artikel.einheit,
+    einzelpreis: artikel.preis,
+  });
+
+  const kabelHinzufuegen = (
+    kategorie: 'kabel' | 'verdrahtung',
+    adern: number,
+    querschnitt: number,
+    leitermaterial: Leitermaterial,
+    laenge: number,
+    kennzeichen: string,
+    kabeltyp?: Kabeltyp
+  ) => {
+    const artikel = findeKabelArtikel(katalog, adern, querschnitt, leitermaterial);
+    const material = leitermaterial === 'aluminium' ? 'Al' : 'Cu';
+    hinzufuegen(
+      artikel ? `artikel:${artikel.id}`
+        : kabeltyp ? `${kategorie}:${kabeltyp.id}`
+        : `${kategorie}:${adern}:${querschnitt}:${material}`,
+      artikel
+        ? { kategorie, ...ausArtikel(artikel), einheit: 'm' }
+        : {
+            kategorie,
+            bezeichnung: kabeltyp ? kabeltyp.bezeichnung
+              : adern === 1 ? `Aderleitung ${formatZahl(querschnitt)} mm² ${material}`
+              : `Kabel ${adern}×${formatZahl(querschnitt)} mm² ${material}`,
+            hersteller: null,
+            artikelnummer: null,
+            einheit: 'm',
+            einzelpreis: null,
+          },
+      laenge,
+      kennzeichen
+    );
+  };
+
+  for (const verteiler of alleVerteiler) {
+    // Geräte
+    for (const komponente of verteiler.komponenten) {
+      const artikel = findeArtikel(katalog, komponente);
+      const variante = getVariante(komponente);
+      const bemessung = komponente.type === 'versorgungsklemme' ? undefined : getSymbolDaten(komponente, verteiler)[0];
+      const bezeichnung = [variante?.name ?? komponente.name, bemessung].filter(Boolean).join(' ');
+      const kennzeichen = `${verteiler.name} ${komponente.bmk ?? komponente.name}`;
+
+      hinzufuegen(
+        artikel ? `artikel:${artikel.id}` : `geraet:${bezeichnung}`,
+        artikel
+          ? { kategorie: 'geraet', ...ausArtikel(artikel) }
+          : { kategorie: 'geraet', bezeichnung, hersteller: null, artikelnummer: null, einheit: 'Stk', einzelpreis: null },
+        1,
+        kennzeichen
+      );
+    }
+
+    // Verbraucherleitungen (Außenleiter + N + PE, wie im Übersichtsschaltplan)
+    // Bei Einzeladern wird die Länge je benötigter Ader gezählt
+    for (const verbraucher of verteiler.verbraucher) {
+      if (!verbraucher.leitungslaenge || !verbraucher.leitungsquerschnitt) continue;
+      const kabeltyp = getKabeltyp(verbraucher.kabeltypId);
+      const adern = kabeltyp?.adern ?? getBenoetigteAdern(verbraucher);
+      kabelHinzufuegen(
+        'kabel',
+        adern,
+        verbraucher.leitungsquerschnitt,
+        verbraucher.leitermaterial,
+        adern === 1 ? verbraucher.leitungslaenge * getBenoetigteAdern(verbraucher) : verbraucher.leitungslaenge,
+        verbraucher.name,
+        kabeltyp
+      );
+    }
+
+    // Zuleitung des Unterverteilers (5-adrig)
+    if (verteiler.einspeisung) {
+      const e = verteiler.einspeisung;
+      kabelHinzufuegen('kabel', 5, e.querschnitt, e.leitermaterial, e.laenge, `Zuleitung ${verteiler.name}`);
+    }
+
+    // Verdrahtung im Verteiler
+    for (const wire of verteiler.verbindungen) {
+      if (!wire.laenge) continue;
+      kabelHinzufuegen(
+        'verdrahtung',
+        1,
+        wire.querschnitt,
+        wire.material === 'Al' ? 'aluminium' : 'kupfer',
+        wire.laenge,
+        verteiler.name
+      );
+    }
+  }
+
+  const positionen = Array.from(sammlung.values())
+    .sort((a, b) =>
+      KATEGORIE_REIHENFOLGE.indexOf(a.kategorie) - KATEGORIE_REIHENFOLGE.indexOf(b.kategorie) ||
+      a.bezeichnung.localeCompare(b.bezeichnung, 'de')
+    )
+    .map((p, i): StuecklistenPosition => {
+      // Meterware auf 0,1 m runden, damit keine Gleitkomma-Reste im Angebot stehen
+      const menge = p.einheit === 'm' ? Math.round(p.menge * 10) / 10 : p.menge;
+      return {
+        ...p,
+        position: i + 1,
+        menge,
+        gesamtpreis: p.einzelpreis !== null ? Math.round(p.einzelpreis * menge * 100) / 100 : null,
+      };
+    });
+
+  return {
+    positionen,
+    summe: positionen.reduce((summe, p) => summe + (p.gesamtpreis ?? 0), 0),
+    ohneArtikel: positionen.filter((p) => p.artikelnummer === null).length,
+  };
+}
@@ -36,6 +36,10 @@ export function getComponentTerminals(component: ElektroComponent): Terminal[] {
     case 'sammelschiene':
       return getSammelSchieneTerminals(component.phase, component.teilungseinheiten);
 
+    case 'phasenschiene':
+      // Keine eigenen Anschlüsse: kontaktiert die Eingänge der Geräte darunter (siehe phasenschiene.ts)
+      return [];
+
     case 'zaehler':
       return getZaehlerTerminals(component.phasen);
 
@@ -46,7 +50,7 @@ export function getComponentTerminals(component: ElektroComponent): Terminal[] {
       return getKlemmeTerminals(component.phase);
 
     case 'versorgungsklemme':
-      return getVersorgungsklemmeTerminals();
+      return getVersorgungsklemmeTerminals(component.penLeiter === true);
 
     case 'abgangsklemme':
       return getAbgangsklemmeTerminals(component.polzahl);
@@ -54,6 +58,12 @@ export function getComponentTerminals(component: ElektroComponent): Terminal[] {
     case 'ueberspannungsschutz':
       return getSPDTerminals(component.systemTyp, component.polzahl);
 
+    case 'isolationsueberwachung':
+      return getIsolationsueberwachungTerminals();
+
+    case 'pen-aufteilung':
+      return getPenAufteilungTerminals();
+
     default:
       return [];
   }
@@ -294,15 +304,18 @@ function getKlemmeTerminals(phase: Phase): Terminal[] {
 }
 
 // ==========================================
-// VERSORGUNGSKLEMME TERMINALS (L1, L2, L3, N, PE)
+// VERSORGUNGSKLEMME TERMINALS (L1, L2, L3, N, PE bzw. L1, L2, L3, PEN)
 // ==========================================
-function getVersorgungsklemmeTerminals(): Terminal[] {
+function getVersorgungsklemmeTerminals(penLeiter: boolean): Terminal[] {
   // 5 Anschlüsse: L1, L2, L3, N, PE - nur unten (Ausgang zur Verteilung)
-  const phases: [Phase, string][] = [['L1', 'L1'], ['L2', 'L2'], ['L3', 'L3'], ['N', 'N'], ['PE', 'PE']];
+  // Mit PEN-Leiter (TN-C): 4 Anschlüsse L1, L2, L3, PEN - Aufteilung über PEN-Aufteilungsklemme
+  const phases: [Phase, string][] = penLeiter
+    ? [['L1', 'L1'], ['L2', 'L2'], ['L3', 'L3'], ['PEN', 'PEN']]
+    : [['L1', 'L1'], ['L2', 'L2'], ['L3', 'L3'], ['N', 'N'], ['PE', 'PE']];
   const terminals: Terminal[] = [];
 
   phases.forEach(([phase, label], i) => {
-    const offsetX = (i + 0.5) / 5;
+    const offsetX = (i + 0.5) / phases.length;
     terminals.push(
       { id: `OUT_${phase}`, label, phase, position: 'bottom', offsetX }
     );
@@ -348,30 +361,57 @@ function getAbgangsklemmeTerminals(polzahl: 3 | 5): Terminal[] {
 function getSPDTerminals(systemTyp: 'AC' | 'DC', polzahl: 2 | 3): Terminal[] {
   const terminals: Terminal[] = [];
 
+  // Der SPD leitet gegen Erde ab: PE-Anschluss unten rechts neben den Durchgangsklemmen
   if (polzahl === 3 || systemTyp === 'AC') {
     // AC 3-polig: L1, L2, L3
     const phases: Phase[] = ['L1', 'L2', 'L3'];
     phases.forEach((phase, i) => {
-      const offsetX = (i + 0.5) / 3;
       terminals.push(
-        { id: `IN_${phase}`, label: phase, phase, position: 'top', offsetX },
-        { id: `OUT_${phase}`, label: phase, phase, position: 'bottom', offsetX }
+        { id: `IN_${phase}`, label: phase, phase, position: 'top', offsetX: (i + 0.5) / 3 },
+        { id: `OUT_${phase}`, label: phase, phase, position: 'bottom', offsetX: (i + 0.5) / 4 }
       );
     });
+    terminals.push({ id: 'OUT_PE', label: 'PE', phase: 'PE', position: 'bottom', offsetX: 3.5 / 4 });
   } else {
     // DC 2-polig: Plus (+) und Minus (-)
     // Verwende L1 für Plus und N für Minus (Mapping auf existierende Phasen)
     terminals.push(
       { id: 'IN_PLUS', label: '+', phase: 'L1', position: 'top', offsetX: 0.25 },
       { id: 'IN_MINUS', label: '-', phase: 'N', position: 'top', offsetX: 0.75 },
-      { id: 'OUT_PLUS', label: '+', phase: 'L1', position: 'bottom', offsetX: 0.25 },
-      { id: 'OUT_MINUS', label: '-', phase: 'N', position: 'bottom', offsetX: 0.75 }
+      { id: 'OUT_PLUS', label: '+', phase: 'L1', position: 'bottom', offsetX: 1 / 6 },
+      { id: 'OUT_MINUS', label: '-', phase: 'N', position: 'bottom', offsetX: 0.5 },
+      { id: 'OUT_PE', label: 'PE', phase: 'PE', position: 'bottom', offsetX: 5 / 6 }
     );
   }
 
   return terminals;
 }
 
+// ==========================================
+// ISOLATIONSÜBERWACHUNG (IMD) TERMINALS
+// ==========================================
+function getIsolationsueberwachungTerminals(): Terminal[] {
+  // Netzankopplung L1/L2 oben, Erdanschluss E unten (zum PE)
+  // Kein Durchgang: das Gerät misst nur zwischen Netz und Erde
+  return [
+    { id: 'IN_L1', label: 'L1', phase: 'L1', position: 'top', offsetX: 0.25 },
+    { id: 'IN_L2', label: 'L2', phase: 'L2', position: 'top', offsetX: 0.75 },
+    { id: 'OUT_PE', label: 'E', phase: 'PE', position: 'bottom', offsetX: 0.5 },
+  ];
+}
+
+// ==========================================
+// PEN-AUFTEILUNG TERMINALS (PEN → N + PE)
+// ==========================================
+function getPenAufteilungTerminals(): Terminal[] {
+  // PEN oben (Einspeisung), N und PE unten (getrennt weitergeführt)
+  return [
+    { id: 'IN_PEN', label: 'PEN', phase: 'PEN', position: 'top', offsetX: 0.5 },
+    { id: 'OUT_N', label: 'N', phase: 'N', position: 'bottom', offsetX: 0.25 },
+    { id: 'OUT_PE', label: 'PE', phase: 'PE', position: 'bottom', offsetX: 0.75 },
+  ];
+}
+
 // ==========================================
 // HELPER: Berechne Pixel-Position eines Terminals
 // ==========================================
@@ -0,0 +1,293 @@
+import type { Verteiler, ElektroComponent, ComponentType, Verbraucher } from '../types';
+import { buildCircuitGraph, findSeriesComponents } from './circuitGraph';
+import { getBenoetigteAdern, getKabeltyp, getKabeltypText } from './kabeltypen';
+
+// ==========================================
+// ÜBERSICHTSSCHALTPLAN (EINPOLIGE DARSTELLUNG)
+// ==========================================
+
+/** Breite einer Spalte (ein Abgang) [px] */
+const SPALTE = 110;
+/** Höhe einer Ebene im Baum [px] */
+const EBENE = 120;
+/** Abmessungen eines Symbols [px] */
+const SYMBOL_BREITE = 36;
+const SYMBOL_HOEHE = 60;
+/** Platz für die gedrehten Abgangstexte unterhalb der Abgangslinie [px] */
+const ABGANG_TEXT_HOEHE = 190;
+const RAND = 30;
+/** Geräte ohne eigenen Abgang (parallel geschaltet bzw. Messung) */
+const OHNE_ABGANG: ComponentType[] = ['versorgungsklemme', 'zaehler', 'ueberspannungsschutz', 'isolationsueberwachung'];
+/** Maximale gedrehte Textzeilen je Abgang (Spaltenbreite) */
+const MAX_ABGANG_ZEILEN = 7;
+/** Maximale Zeichen pro Textzeile */
+const MAX_ZEICHEN = 34;
+
+/**
+ * Komponenten, die im Übersichtsschaltplan als Symbol erscheinen.
+ * Klemmen, Sammel- und Phasenschienen sind reine Verbindungselemente und entfallen.
+ */
+const SCHEMA_TYPEN: ComponentType[] = [
+  'zaehler',
+  'nh-sicherung',
+  'schraub-sicherung',
+  'neozed-sicherung',
+  'fi-schalter',
+  'fi-ls-kombi',
+  'ls-schalter',
+  'schuetz',
+  'ueberspannungsschutz',
+  'isolationsueberwachung',
+  'abgangsklemme',
+];
+
+export interface SchemaSymbol {
+  komponente: ElektroComponent;
+  x: number;                    // linke obere Ecke
+  y: number;
+  breite: number;
+  hoehe: number;
+}
+
+export interface SchemaLinie {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  pfeil?: boolean;              // Pfeilspitze am Endpunkt (Abgang)
+}
+
+export interface SchemaText {
+  x: number;
+  y: number;
+  text: string;
+  groesse: number;              // Schriftgröße [px]
+  fett?: boolean;
+  gedreht?: boolean;            // um -90° gedreht (Abgangstexte)
+  anker: 'start' | 'middle' | 'end';
+  farbe?: string;
+}
+
+export interface Uebersichtsschaltplan {
+  breite: number;
+  hoehe: number;
+  symbole: SchemaSymbol[];
+  linien: SchemaLinie[];
+  texte: SchemaText[];
+}
+
+interface SchemaKnoten {
+  komponente: ElektroComponent;
+  kinder: SchemaKnoten[];
+  verbraucher: Verbraucher[];
+  ebene: number;
+  x: number;                    // Mittelachse
+}
+
+const kuerze = (text: string, max = MAX_ZEICHEN): string =>
+  text.length > max ? `${text.substring(0, max - 1)}…` : text;
+
+const formatZahl = (wert: number): string => wert.toLocaleString('de-AT');
+
+/**
+ * Kurzbezeichnung der Kenndaten neben dem Symbol
+ */
+export function getSymbolDaten(komponente: ElektroComponent, verteiler: Verteiler): string[] {
+  switch (komponente.type) {
+    case 'versorgungsklemme': {
+      const daten = [`${komponente.netzsystem} 400/230 V`];
+      if (verteiler.einspeisung) {
+        const e = verteiler.einspeisung;
+        daten.push(`${formatZahl(e.querschnitt)} mm² · ${formatZahl(e.laenge)} m`);
+      } else {
+        daten.push(`Zs ${formatZahl(komponente.schleifenimpedanz)} Ω`);
+      }
+      return daten;
+    }
+    case 'zaehler':
+      return [`${komponente.phasen}~ kWh`];
+    case 'nh-sicherung':
+      return [`NH${komponente.groesse} ${komponente.betriebsklasse} ${komponente.bemessungsStrom} A`];
+    case 'schraub-sicherung':
+      return [`${komponente.groesse} ${komponente.bemessungsStrom} A`];
+    case 'neozed-sicherung':
+      return [`${komponente.kennlinie} ${komponente.bemessungsStrom} A`, `${komponente.polzahl}-polig`];
+    case 'fi-schalter':
+      return [`${komponente.bemessungsStrom} A / ${komponente.bemessungsFehlerstrom} mA`, `Typ ${komponente.fiTyp}, ${komponente.polzahl}-polig`];
+    case 'fi-ls-kombi':
+      return [`${komponente.charakteristik}${komponente.bemessungsStrom} / ${komponente.bemessungsFehlerstrom} mA`, `Typ ${komponente.fiTyp}`];
+    case 'ls-schalter':
+      return [`${komponente.charakteristik}${komponente.bemessungsStrom}`, `${komponente.polzahl}-polig`];
+    case 'schuetz':
+      return [`${komponente.bemessungsStrom} A`, `${komponente.polzahl}-polig`];
+    case 'ueberspannungsschutz':
+      return [komponente.klasse];
+    case 'isolationsueberwachung':
+      return [`R< ${formatZahl(komponente.ansprechwert)} kΩ`];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Kabelangabe eines Verbrauchers, z.B. "5×2,5 mm² Cu · 30 m · B1"
+ * oder mit Kabeltyp "NYM-J 5×2,5 · 30 m · B1"
+ */
+export function getKabelText(verbraucher: Verbraucher): string | null {
+  if (!verbraucher.leitungsquerschnitt) return null;
+  const kabeltyp = getKabeltyp(verbraucher.kabeltypId);
+  const adern = getBenoetigteAdern(verbraucher); // Außenleiter + N + PE
+  const material = verbraucher.leitermaterial === 'aluminium' ? 'Al' : 'Cu';
+  const teile = [kabeltyp
+    ? getKabeltypText(kabeltyp, verbraucher)
+    : `${adern}×${formatZahl(verbraucher.leitungsquerschnitt)} mm² ${material}`];
+  if (verbraucher.leitungslaenge) teile.push(`${formatZahl(verbraucher.leitungslaenge)} m`);
+  teile.push(verbraucher.verlegeart);
+  return teile.join(' · ');
+}
+
+/**
+ * Baut den Schutzgeräte-Baum von der Versorgung zu den Abgängen auf.
+ *
+ * Jedes Gerät hängt am nächstgelegenen vorgeschalteten Gerät: Unter den in Serie
+ * liegenden Geräten (findSeriesComponents) ist das dasjenige, das selbst die meisten
+ * vorgeschalteten Geräte hat. Nicht mit der Versorgung verbundene Geräte entfallen.
+ */
+function baueBaum(verteiler: Verteiler): SchemaKnoten | null {
+  const versorgung = verteiler.komponenten.find((k) => k.type === 'versorgungsklemme');
+  if (!versorgung) return null;
+
+  const graph = buildCircuitGraph(verteiler);
+  const geraete = verteiler.komponenten
+    .filter((k) => SCHEMA_TYPEN.includes(k.type) && (graph.get(k.id)?.depth ?? -1) > 0)
+    .sort((a, b) => a.position.rail - b.position.rail || a.position.slot - b.position.slot);
+  const geraeteIds = new Set(geraete.map((g) => g.id));
+
+  const vorgeschaltet = new Map<string, string[]>();
+  for (const geraet of geraete) {
+    vorgeschaltet.set(
+      geraet.id,
+      findSeriesComponents(verteiler, geraet.id).filter((k) => geraeteIds.has(k.id)).map((k) => k.id)
+    );
+  }
+
+  const getVerbraucher = (komponente: ElektroComponent): Verbraucher[] =>
+    verteiler.verbraucher.filter((v) =>
+      v.zugewieseneKomponente === komponente.id ||
+      (komponente.type === 'abgangsklemme' && komponente.zugewieseneVerbraucher.includes(v.id))
+    );
+
+  const knoten = new Map<string, SchemaKnoten>();
+  const wurzel: SchemaKnoten = { komponente: versorgung, kinder: [], verbraucher: [], ebene: 0, x: 0 };
+  for (const geraet of geraete) {
+    knoten.set(geraet.id, { komponente: geraet, kinder: [], verbraucher: getVerbraucher(geraet), ebene: 0, x: 0 });
+  }
+
+  for (const geraet of geraete) {
+    const kandidaten = vorgeschaltet.get(geraet.id) ?? [];
+    let elternId: string | null = null;
+    for (const id of kandidaten) {
+      if (elternId === null || (vorgeschaltet.get(id)?.length ?? 0) > (vorgeschaltet.get(elternId)?.length ?? 0)) {
+        elternId = id;
+      }
+    }
+    const eltern = (elternId && knoten.get(elternId)) || wurzel;
+    eltern.kinder.push(knoten.get(geraet.id)!);
+  }
+
+  return wurzel;
+}
+
+/**
+ * Erstellt den Übersichtsschaltplan (einpolige Darstellung) eines Verteilers:
+ * Einspeisung, Zähler, Vorsicherung, FI-Gruppen, LS-Schalter und Abgänge mit
+ * Verbrauchern und Kabeldaten.
+ *
+ * Das Ergebnis ist ein reines Zeichenmodell (Symbole, Linien, Texte in px),
+ * das sowohl im Editor als auch im PDF-Export gezeichnet wird.
+ */
+export function erstelleUebersichtsschaltplan(verteiler: Verteiler): Uebersichtsschaltplan {
+  const plan: Uebersichtsschaltplan = { breite: 0, hoehe: 0, symbole: [], linien: [], texte: [] };
+  const wurzel = baueBaum(verteiler);
+  if (!wurzel) return plan;
+
+  // Spalten von links nach rechts vergeben, Eltern mittig über ihren Kindern
+  let spalte = 0;
+  let maxEbene = 0;
+  const platziere = (k: SchemaKnoten, ebene: number) => {
+    k.ebene = ebene;
+    maxEbene = Math.max(maxEbene, ebene);
+    if (k.kinder.length === 0) {
+      k.x = RAND + spalte * SPALTE + SYMBOL_BREITE / 2;
+      spalte++;
+      return;
+    }
+    for (const kind of k.kinder) platziere(kind, ebene + 1);
+    k.x = (k.kinder[0].x + k.kinder[k.kinder.length - 1].x) / 2;
+  };
+  platziere(wurzel, 0);
+
+  const symbolY = (ebene: number) => RAND + ebene * EBENE;
+  // Alle Abgänge enden auf einer gemeinsamen Linie unterhalb der tiefsten Ebene
+  const abgangY = symbolY(maxEbene) + SYMBOL_HOEHE + (EBENE - SYMBOL_HOEHE);
+
+  const zeichne = (k: SchemaKnoten) => {
+    const y = symbolY(k.ebene);
+    plan.symbole.push({ komponente: k.komponente, x: k.x - SYMBOL_BREITE / 2, y, breite: SYMBOL_BREITE, hoehe: SYMBOL_HOEHE });
+
+    // Bezeichnung und Kenndaten rechts neben dem Symbol
+    const textX = k.x + SYMBOL_BREITE / 2 + 4;
+    // Mit Betriebsmittelkennzeichen steht dieses fett, der Name folgt als erste Datenzeile
+    const { bmk, name } = k.komponente;
+    plan.texte.push({ x: textX, y: y + 14, text: kuerze(bmk ?? name, 14), groesse: 10, fett: true, anker: 'start' });
+    const zeilen = bmk ? [kuerze(name, 16), ...getSymbolDaten(k.komponente, verteiler)] : getSymbolDaten(k.komponente, verteiler);
+    zeilen.forEach((zeile, i) => {
+      plan.texte.push({ x: textX, y: y + 27 + i * 11, text: zeile, groesse: 8, anker: 'start', farbe: '#4b5563' });
+    });
+
+    const unten = y + SYMBOL_HOEHE;
+    if (k.kinder.length === 0) {
+      if (OHNE_ABGANG.includes(k.komponente.type)) return;
+      // Abgang: Linie bis zur gemeinsamen Abgangslinie, darunter gedrehte Verbrauchertexte
+      plan.linien.push({ x1: k.x, y1: unten, x2: k.x, y2: abgangY, pfeil: true });
+      // Je Verbraucher eine Zeile Name und eine Zeile Kabel
+      const zeilen: { text: string; fett: boolean }[] = k.verbraucher.flatMap((v) => {
+        const kabel = getKabelText(v);
+        return kabel ? [{ text: v.name, fett: true }, { text: kabel, fett: false }] : [{ text: v.name, fett: true }];
+      });
+      if (zeilen.length > MAX_ABGANG_ZEILEN) {
+        zeilen.splice(MAX_ABGANG_ZEILEN - 1, zeilen.length, { text: `+ ${k.verbraucher.length} Verbraucher gesamt`, fett: false });
+      }
+      if (zeilen.length === 0) zeilen.push({ text: 'Reserve', fett: false });
+      zeilen.forEach((zeile, i) => {
+        plan.texte.push({
+          x: k.x - 3 + i * 11,
+          y: abgangY + 8,
+          text: kuerze(zeile.text),
+          groesse: 9,
+          fett: zeile.fett,
+          gedreht: true,
+          anker: 'end',
+          farbe: k.verbraucher.length > 0 ? '#111827' : '#9ca3af',
+        });
+      });
+      return;
+    }
+
+    // Verteilschiene zu den Kindern
+    const schieneY = unten + (EBENE - SYMBOL_HOEHE) / 2;
+    plan.linien.push({ x1: k.x, y1: unten, x2: k.x, y2: schieneY });
+    const links = Math.min(k.x, k.kinder[0].x);
+    const rechts = Math.max(k.x, k.kinder[k.kinder.length - 1].x);
+    if (rechts > links) plan.linien.push({ x1: links, y1: schieneY, x2: rechts, y2: schieneY });
+    for (const kind of k.kinder) {
+      plan.linien.push({ x1: kind.x, y1: schieneY, x2: kind.x, y2: symbolY(kind.ebene) });
+      zeichne(kind);
+    }
+  };
+  zeichne(wurzel);
+
+  plan.breite = RAND * 2 + Math.max(spalte, 1) * SPALTE;
+  plan.hoehe = abgangY + ABGANG_TEXT_HOEHE + RAND;
+  return plan;
+}
@@ -12,8 +12,24 @@ import type {
   NHSicherungParams,
   NeozedSicherungParams,
   SchraubSicherungParams,
+  VersorgungsklemmeParams,
+  IsolationsueberwachungParams,
+  UeberspannungsschutzParams,
+  SPDKlasse,
+  KurzschlussWerte,
   Wire,
+  Verbraucher,
+  VerbraucherTyp,
+  FITyp,
+  Verlegeart,
+  PhasenschieneParams,
+  Netzsystem,
+  Gebaeude,
+  Isolierung,
+  Leitermaterial,
+  SpannungsfallGrenzwerte,
 } from '../types';
+import { ISOLIERUNG_GRENZTEMPERATUR, RAUMART_BEZEICHNUNGEN } from '../types';
 import {
   findAllCircuitPaths,
   findPathToVersorgung,
@@ -24,25 +40,55 @@ import {
   findNearestFIPerPhase,
   hasConnectionToPE,
   detectKurzschluss,
+  findePenWiederverbindungen,
   checkDrehfeldForComponent,
   analyzeSelectivity,
   getEffectivePhasen,
   berechneNeutralleiterStrom,
   phasorMagnitude,
+  phasorAdd,
+  verbraucherNPhasor,
+  calculateWireCurrents,
+  getInternalTerminalConnections,
   type Phasor,
   type CircuitPath,
   type SelectivityViolation,
 } from './circuitGraph';
+import {
+  getAusloeseKennlinie,
+  berechneAbschaltzeit,
+  berechneAusloesestrom,
+  getMaxAbschaltzeit,
+  getKennlinienBezeichnung,
+  getGrosserPruefstrom,
+  berechneFIAbschaltzeit,
+  berechneFIAusloesestrom,
+} from './ausloesekennlinien';
+import { berechneKurzschlussstroeme, getSchaltvermoegen } from './kurzschlussstrom';
+import { getAlleVerbindungen, getPhasenschienenAnschluesse, getPhasenschienenVerbindungen, istPhasenschienenVerbindung } from './phasenschiene';
+import { findeRaum, RAUM_FI_PFLICHT } from './gebaeude';
+import { getBenoetigteAdern, getKabeltyp, getReaktanz } from './kabeltypen';
 
 // ==========================================
 // ÖVE-NORMEN KONSTANTEN
 // ==========================================
 
-// Maximaler Spannungsfall gemäß ÖVE E 8101
-const MAX_SPANNUNGSFALL_PROZENT = 4; // 4% für Endstromkreise
+// Maximaler Spannungsfall gemäß ÖVE E 8101 (Standardwerte, je Verteiler einstellbar)
+export const MAX_SPANNUNGSFALL_PROZENT = 4; // 4% für Endstromkreise
+export const MAX_SPANNUNGSFALL_HAUPTLEITUNG_PROZENT = 1; // Richtwert bis zum Unterverteiler
+
+/**
+ * Spannungsfall-Grenzwerte eines Verteilers (eingestellte Werte vor Standard)
+ */
+export function getSpannungsfallGrenzwerte(verteiler: Verteiler): SpannungsfallGrenzwerte {
+  return {
+    hauptleitung: verteiler.spannungsfallGrenzwerte?.hauptleitung ?? MAX_SPANNUNGSFALL_HAUPTLEITUNG_PROZENT,
+    endstromkreis: verteiler.spannungsfallGrenzwerte?.endstromkreis ?? MAX_SPANNUNGSFALL_PROZENT,
+  };
+}
 
 // Hilfsfunktion: Berechnet den Strom eines Verbrauchers korrekt (mit √3 für Drehstrom)
-function berechneVerbraucherStrom(
+export function berechneVerbraucherStrom(
   leistung: number,
   spannung: number,
   phasen: Phase[]
@@ -75,11 +121,44 @@ const LEITER_BELASTBARKEIT: Record<number, number> = {
 };
 
 // Spezifischer Widerstand von Kupfer in Ohm*mm²/m
-const RHO_KUPFER = 0.0178;
-const RHO_ALUMINIUM = 0.0286;
+export const RHO_KUPFER = 0.0178;
+export const RHO_ALUMINIUM = 0.0286;
+
+// Temperaturkoeffizient des Widerstands [1/K], RHO gilt bei 20 °C
+const ALPHA_KUPFER = 0.00393;
+const ALPHA_ALUMINIUM = 0.00403;
+
+// Fehlerschutz: Nennspannung gegen Erde und Spannungsfaktor für den kleinsten Fehlerstrom
+// Die zulässigen Abschaltzeiten stehen in ausloesekennlinien.ts (getMaxAbschaltzeit)
+export const U0 = 230; // V
+export const U_AUSSENLEITER = 400; // V
+export const C_MIN = 0.95;
+
+// Endstromkreise bis zu diesem Bemessungsstrom müssen in 0,4 s (TN) abschalten
+export const ENDSTROMKREIS_MAX_STROM = 32; // A
+
+// Vereinbarte Grenze der dauernd zulässigen Berührungsspannung (TT: RA · IΔn ≤ UL)
+export const BERUEHRUNGSSPANNUNG_MAX = 50; // V
+
+// Mindestquerschnitt des PEN-Leiters in fester Verlegung (ÖVE E 8101, 543.4.1)
+export const PEN_MIN_QUERSCHNITT: Record<Wire['material'], number> = { Cu: 10, Al: 16 }; // mm²
+
+/** Präfix der Ersatz-Verbraucher, die eine Unterverteiler-Zuleitung abbilden (siehe projekt.ts) */
+export const ZULEITUNG_VERBRAUCHER_PREFIX = 'zuleitung:';
+
+/**
+ * Prüft ob ein Verbraucher ein Ersatz-Verbraucher für eine Unterverteiler-Zuleitung ist.
+ */
+export function istZuleitungsVerbraucher(verbraucherId: string): boolean {
+  return verbraucherId.startsWith(ZULEITUNG_VERBRAUCHER_PREFIX);
+}
 
-// Abschaltzeiten gemäß ÖVE (für TN-System)
-const MAX_ABSCHALTZEIT_230V = 0.4; // Sekunden
+export type UeberstromSchutz =
+  | LSSchalterParams
+  | FILSKombiParams
+  | NHSicherungParams
+  | NeozedSicherungParams
+  | SchraubSicherungParams;
 
 // ==========================================
 // STROMBELASTBARKEIT NACH ÖVE E 8101
@@ -182,11 +261,208 @@ function getStrombelastbarkeit(
   return typeof belastbarkeit === 'number' ? belastbarkeit : null;
 }
 
+// ==========================================
+// UMRECHNUNGSFAKTOREN (ÖVE E 8101 Teil 5-52, Anhang B)
+// ==========================================
+
+// Bezugswerte der Belastbarkeitstabelle
+const BEZUGSTEMPERATUR_LUFT = 30; // °C
+const BEZUGSTEMPERATUR_ERDE = 20; // °C
+const BEZUG_BODEN_WAERMEWIDERSTAND = 2.5; // K·m/W
+
+// Temperaturfaktoren als [Umgebungstemperatur °C, Faktor] je Isolierwerkstoff
+// PVC: 70 °C, XLPE/EPR: 90 °C Leitertemperatur (Tabellen B.52.14/B.52.15)
+const TEMPERATURFAKTOR_LUFT: Record<Isolierung, [number, number][]> = {
+  PVC: [
+    [10, 1.22], [15, 1.17], [20, 1.12], [25, 1.06], [30, 1.0], [35, 0.94],
+    [40, 0.87], [45, 0.79], [50, 0.71], [55, 0.61], [60, 0.5],
+  ],
+  XLPE: [
+    [10, 1.15], [15, 1.12], [20, 1.08], [25, 1.04], [30, 1.0], [35, 0.96], [40, 0.91], [45, 0.87],
+    [50, 0.82], [55, 0.76], [60, 0.71], [65, 0.65], [70, 0.58], [75, 0.5], [80, 0.41],
+  ],
+};
+const TEMPERATURFAKTOR_ERDE: Record<Isolierung, [number, number][]> = {
+  PVC: [
+    [10, 1.1], [15, 1.05], [20, 1.0], [25, 0.95], [30, 0.89], [35, 0.84],
+    [40, 0.77], [45, 0.71], [50, 0.63], [55, 0.55], [60, 0.45],
+  ],
+  XLPE: [
+    [10, 1.07], [15, 1.04], [20, 1.0], [25, 0.96], [30, 0.93], [35, 0.89], [40, 0.85], [45, 0.8],
+    [50, 0.76], [55, 0.71], [60, 0.65], [65, 0.6], [70, 0.53], [75, 0.46], [80, 0.38],
+  ],
+};
+
+/**
+ * Umrechnung der PVC-Tabellenwerte auf eine höhere zulässige Leitertemperatur.
+ * Näherung über die Erwärmung (I² ~ Δθ): Iz,XLPE ≈ Iz,PVC × √((90 − θ₀) / (70 − θ₀)).
+ * Die Belastbarkeitstabelle enthält nur Werte für PVC-isolierte Leitungen.
+ */
+function getIsolierungsfaktor(isolierung: Isolierung, bezugstemperatur: number): number {
+  const pvc = ISOLIERUNG_GRENZTEMPERATUR.PVC;
+  return Math.sqrt((ISOLIERUNG_GRENZTEMPERATUR[isolierung] - bezugstemperatur) / (pvc - bezugstemperatur));
+}
+
+// Häufungsfaktoren als Anzahl Stromkreise → Faktor
+// A1–B2: gebündelt in Luft, auf/in Wand, in Rohr oder Kanal
+const HAEUFUNGSFAKTOR_GEBUENDELT: Record<number, number> = {
+  1: 1.0, 2: 0.8, 3: 0.7, 4: 0.65, 5: 0.6, 6: 0.57, 7: 0.54, 8: 0.52, 9: 0.5, 12: 0.45, 16: 0.41, 20: 0.38,
+};
+// C: einlagig auf Wand oder Fußboden
+const HAEUFUNGSFAKTOR_WAND: Record<number, number> = {
+  1: 1.0, 2: 0.85, 3: 0.79, 4: 0.75, 5: 0.73, 6: 0.72, 7: 0.72, 8: 0.71, 9: 0.7,
+};
+// D1: Kabel in Schutzrohren im Erdreich (Rohre berühren sich)
+const HAEUFUNGSFAKTOR_ERDE_ROHR: Record<number, number> = {
+  1: 1.0, 2: 0.85, 3: 0.75, 4: 0.7, 5: 0.65, 6: 0.6,
+};
+// D2: Kabel direkt im Erdreich (Kabel berühren sich)
+const HAEUFUNGSFAKTOR_ERDE: Record<number, number> = {
+  1: 1.0, 2: 0.75, 3: 0.65, 4: 0.6, 5: 0.55, 6: 0.5,
+};
+
+// Faktoren für den spezifischen Wärmewiderstand des Bodens als [K·m/W, Faktor]
+const BODENFAKTOR_ROHR: [number, number][] = [
+  [0.5, 1.28], [0.7, 1.2], [1, 1.18], [1.5, 1.1], [2, 1.05], [2.5, 1.0], [3, 0.96],
+];
+const BODENFAKTOR_ERDE: [number, number][] = [
+  [0.5, 1.88], [0.7, 1.62], [1, 1.5], [1.5, 1.28], [2, 1.12], [2.5, 1.0], [3, 0.9],
+];
+
+/**
+ * Lineare Interpolation in einer Faktortabelle (außerhalb des Bereichs: Randwert)
+ */
+function interpoliereFaktor(tabelle: [number, number][], wert: number): number {
+  if (wert <= tabelle[0][0]) return tabelle[0][1];
+
+  for (let i = 0; i < tabelle.length - 1; i++) {
+    const [x1, f1] = tabelle[i];
+    const [x2, f2] = tabelle[i + 1];
+    if (wert <= x2) {
+      return f1 + ((f2 - f1) * (wert - x1)) / (x2 - x1);
+    }
+  }
+
+  return tabelle[tabelle.length - 1][1];
+}
+
+/**
+ * Häufungsfaktor für die Anzahl gemeinsam verlegter Stromkreise.
+ * Nicht tabellierte Anzahlen werden auf den nächsthöheren Tabellenwert gerundet.
+ */
+function getHaeufungsfaktor(verlegeart: Verlegeart, anzahlStromkreise: number): number {
+  const tabelle =
+    verlegeart === 'C' ? HAEUFUNGSFAKTOR_WAND
+    : verlegeart === 'D1' ? HAEUFUNGSFAKTOR_ERDE_ROHR
+    : verlegeart === 'D2' ? HAEUFUNGSFAKTOR_ERDE
+    : HAEUFUNGSFAKTOR_GEBUENDELT;
+
+  const anzahlen = Object.keys(tabelle).map(Number).sort((a, b) => a - b);
+  const anzahl = anzahlen.find((n) => n >= anzahlStromkreise) ?? anzahlen[anzahlen.length - 1];
+  return tabelle[anzahl];
+}
+
+/**
+ * Strombelastbarkeit einer Verbraucherleitung unter Betriebsbedingungen
+ */
+export interface KabelBelastbarkeit {
+  isolierung: Isolierung;      // aus dem Kabeltyp, ohne Kabeltyp PVC
+  tabellenwert: number;        // Iz nach Tabelle (Bezugsbedingungen, bei XLPE umgerechnet) [A]
+  temperaturfaktor: number;
+  haeufungsfaktor: number;
+  bodenfaktor: number;         // nur D1/D2, sonst 1
+  strombelastbarkeit: number;  // reduzierte Strombelastbarkeit Iz [A]
+}
+
+/**
+ * Berechnet die reduzierte Strombelastbarkeit Iz der Leitung eines Verbrauchers:
+ * Iz = Iz,Tabelle × f(Umgebungstemperatur) × f(Häufung) × f(Bodenwärmewiderstand)
+ *
+ * Fehlende Angaben gelten als Bezugsbedingungen (30 °C Luft bzw. 20 °C Erde,
+ * keine Häufung, 2,5 K·m/W). Die Isolierung (PVC/XLPE) kommt aus dem Kabeltyp.
+ *
+ * @returns null wenn keine Leitungsdaten oder Tabellenwerte vorhanden sind
+ */
+export function berechneKabelbelastbarkeit(verbraucher: Verbraucher): KabelBelastbarkeit | null {
+  if (!verbraucher.leitungsquerschnitt || !verbraucher.verlegeart || !verbraucher.leitermaterial) {
+    return null;
+  }
+
+  const anzahlAdern = verbraucher.spannung === 400 ? 3 : 2;
+  const pvcTabellenwert = getStrombelastbarkeit(
+    verbraucher.leitungsquerschnitt,
+    verbraucher.leitermaterial,
+    verbraucher.verlegeart,
+    anzahlAdern
+  );
+  if (pvcTabellenwert === null) return null;
+
+  const imErdreich = verbraucher.verlegeart === 'D1' || verbraucher.verlegeart === 'D2';
+  const isolierung = getKabeltyp(verbraucher.kabeltypId)?.isolierung ?? 'PVC';
+  const bezugstemperatur = imErdreich ? BEZUGSTEMPERATUR_ERDE : BEZUGSTEMPERATUR_LUFT;
+
+  const tabellenwert = isolierung === 'PVC'
+    ? pvcTabellenwert
+    : Math.round(pvcTabellenwert * getIsolierungsfaktor(isolierung, bezugstemperatur));
+
+  const temperaturfaktor = interpoliereFaktor(
+    (imErdreich ? TEMPERATURFAKTOR_ERDE : TEMPERATURFAKTOR_LUFT)[isolierung],
+    verbraucher.umgebungstemperatur ?? bezugstemperatur
+  );
+
+  const haeufungsfaktor = getHaeufungsfaktor(verbraucher.verlegeart, Math.max(1, verbraucher.haeufung ?? 1));
+
+  const bodenfaktor = imErdreich
+    ? interpoliereFaktor(
+        verbraucher.verlegeart === 'D1' ? BODENFAKTOR_ROHR : BODENFAKTOR_ERDE,
+        verbraucher.bodenWaermewiderstand ?? BEZUG_BODEN_WAERMEWIDERSTAND
+      )
+    : 1;
+
+  return {
+    isolierung,
+    tabellenwert,
+    temperaturfaktor,
+    haeufungsfaktor,
+    bodenfaktor,
+    strombelastbarkeit: tabellenwert * temperaturfaktor * haeufungsfaktor * bodenfaktor,
+  };
+}
+
+/**
+ * Kurzbeschreibung der Verlegebedingungen für Meldungen, z.B. "B1, 35 °C, 3 Stromkreise"
+ */
+function formatVerlegebedingungen(verbraucher: Verbraucher): string {
+  const teile: string[] = [verbraucher.verlegeart];
+  if (verbraucher.umgebungstemperatur !== undefined) {
+    teile.push(`${verbraucher.umgebungstemperatur} °C`);
+  }
+  if ((verbraucher.haeufung ?? 1) > 1) {
+    teile.push(`${verbraucher.haeufung} Stromkreise`);
+  }
+  if ((verbraucher.verlegeart === 'D1' || verbraucher.verlegeart === 'D2') && verbraucher.bodenWaermewiderstand !== undefined) {
+    teile.push(`${verbraucher.bodenWaermewiderstand} K·m/W`);
+  }
+  return teile.join(', ');
+}
+
 // ==========================================
 // HAUPT-VALIDIERUNGSFUNKTION
 // ==========================================
 
-export function validateVerteiler(verteiler: Verteiler): ValidationResult {
+/**
+ * Zusatzinformationen für die Prüfung eines Unterverteilers.
+ * Werden von validateProjekt() aus dem übergeordneten Verteiler ermittelt.
+ */
+export interface VerteilerKontext {
+  vorSpannungsfallProzent: number;  // Spannungsfall bis zur Versorgungsklemme [%]
+}
+
+export function validateVerteiler(
+  verteiler: Verteiler,
+  kontext?: VerteilerKontext,
+  gebaeude: Gebaeude[] = []
+): ValidationResult {
   const errors: ValidationError[] = [];
   const warnings: ValidationError[] = [];
 
@@ -203,7 +479,7 @@ export function validateVerteiler(verteiler: Verteiler): ValidationResult {
   warnings.push(...selektivitaetsFehler);
 
   // 4. Prüfe Spannungsfall
-  const spannungsfallFehler = checkSpannungsfall(verteiler);
+  const spannungsfallFehler = checkSpannungsfall(verteiler, kontext?.vorSpannungsfallProzent ?? 0);
   errors.push(...spannungsfallFehler.errors);
   warnings.push(...spannungsfallFehler.warnings);
 
@@ -233,8 +509,8 @@ export function validateVerteiler(verteiler: Verteiler): ValidationResult {
   errors.push(...verbraucherSchleifenimpedanzFehler.errors);
   warnings.push(...verbraucherSchleifenimpedanzFehler.warnings);
 
-  // 12. Prüfe Steckdosen auf FI-Schutz (30mA)
-  const steckdosenFIFehler = checkSteckdosenFISchutz(verteiler);
+  // 12. Prüfe Steckdosen und Stromkreise in Bad/Außenbereich auf FI-Schutz (30mA)
+  const steckdosenFIFehler = checkSteckdosenFISchutz(verteiler, gebaeude);
   errors.push(...steckdosenFIFehler);
 
   // 13. Prüfe FI-Selektivität bei Reihenschaltung
@@ -267,11 +543,61 @@ export function validateVerteiler(verteiler: Verteiler): ValidationResult {
   errors.push(...kabelbelastbarkeitFehler.errors);
   warnings.push(...kabelbelastbarkeitFehler.warnings);
 
+  // 20. Prüfe Schaltvermögen der Schutzeinrichtungen gegen den Kurzschlussstrom am Einbauort
+  const kurzschlussWerte = berechneKurzschlussstroeme(verteiler);
+  const schaltvermoegenFehler = checkSchaltvermoegen(verteiler, kurzschlussWerte);
+  errors.push(...schaltvermoegenFehler);
+
+  // 21. Prüfe Phasenschienen (Belastung je Leiter, passende Anschlüsse)
+  const phasenschienenFehler = checkPhasenschienen(verteiler);
+  errors.push(...phasenschienenFehler.errors);
+  warnings.push(...phasenschienenFehler.warnings);
+
+  // 22. Prüfe Kabeltypen (Aderzahl, Querschnitt, Verlegeart)
+  const kabeltypFehler = checkKabeltyp(verteiler);
+  errors.push(...kabeltypFehler.errors);
+  warnings.push(...kabeltypFehler.warnings);
+
+  // 23. Prüfe Fehlerschutz im TT-System (RA · IΔn ≤ 50 V, FI in jedem Endstromkreis)
+  if (istTTSystem(verteiler)) {
+    const ttFehler = checkTTSystem(verteiler);
+    errors.push(...ttFehler.errors);
+    warnings.push(...ttFehler.warnings);
+  }
+
+  // 24. Prüfe IT-System (Isolationsüberwachung, Neutralleiter)
+  if (istITSystem(verteiler)) {
+    const itFehler = checkITSystem(verteiler);
+    errors.push(...itFehler.errors);
+    warnings.push(...itFehler.warnings);
+  }
+
+  // 25. Prüfe PEN-Leiter (Mindestquerschnitt, Aufteilung, keine Wiederverbindung von N und PE)
+  const penFehler = checkPenLeiter(verteiler);
+  errors.push(...penFehler.errors);
+  warnings.push(...penFehler.warnings);
+
+  // 26. Prüfe Überspannungsschutz (Staffelung, Uc, PE-Anschluss, Vorsicherung, Anschlusslänge)
+  const spdFehler = checkUeberspannungsschutz(verteiler);
+  errors.push(...spdFehler.errors);
+  warnings.push(...spdFehler.warnings);
+
+  // 27. Prüfe FI-Typ je Verbraucher (Wallbox, Wärmepumpe, Wechselrichter) und FI-Typ-Staffelung
+  const fiTypFehler = checkFITypVerbraucher(verteiler);
+  errors.push(...fiTypFehler.errors);
+  warnings.push(...fiTypFehler.warnings);
+
   // Berechne Gesamtwerte
-  const berechnungen = berechneGesamtwerte(verteiler);
+  const berechnungen = berechneGesamtwerte(verteiler, kurzschlussWerte, kontext?.vorSpannungsfallProzent ?? 0);
 
   // Erstelle Stromkreis-Ergebnisse
-  const stromkreise = erstelleStromkreisErgebnisse(verteiler, errors, warnings);
+  const stromkreise = erstelleStromkreisErgebnisse(
+    verteiler,
+    errors,
+    warnings,
+    kurzschlussWerte,
+    kontext?.vorSpannungsfallProzent ?? 0
+  );
 
   return {
     isValid: errors.length === 0,
@@ -297,10 +623,12 @@ function checkDoppelbelegung(verteiler: Verteiler): ValidationError[] {
       (k) => k.position.rail === schiene.index
     );
 
-    // Erstelle Belegungsarray
-    const belegung: (string | null)[] = new Array(schiene.slots).fill(null);
+    // Erstelle Belegungsarray (Phasenschienen liegen auf den Geräten und belegen eine eigene Ebene)
+    const geraeteBelegung: (string | null)[] = new Array(schiene.slots).fill(null);
+    const phasenschienenBelegung: (string | null)[] = new Array(schiene.slots).fill(null);
 
     for (const komp of komponenten) {
+      const belegung = komp.type === 'phasenschiene' ? phasenschienenBelegung : geraeteBelegung;
       const startSlot = komp.position.slot;
       const endSlot = startSlot + komp.teilungseinheiten;
 
@@ -430,72 +758,194 @@ function checkSelektivitaet(verteiler: Verteiler): ValidationError[] {
   return [...errors, ...warnings];
 }
 
+// Leitertemperatur der Verdrahtung im Verteiler (Aderleitungen, ungünstigster Fall) [°C]
+const LEITERTEMPERATUR_VERDRAHTUNG = ISOLIERUNG_GRENZTEMPERATUR.PVC;
+
 /**
- * Prüft den Spannungsfall über die gesamte Leitung vom Netzanschluss bis zum Verbraucher
+ * Geschätzte Betriebstemperatur des Leiters der Verbraucherleitung:
+ * θ = θU + (θzul − θU) · (Ib / Iz)²
+ *
+ * Ohne Belastbarkeitsdaten wird die zulässige Leitertemperatur angenommen (sichere Seite).
  */
-function checkSpannungsfall(verteiler: Verteiler): { errors: ValidationError[]; warnings: ValidationError[] } {
-  const errors: ValidationError[] = [];
-  const warnings: ValidationError[] = [];
+export function berechneLeitertemperatur(verbraucher: Verbraucher, strom: number): number {
+  const isolierung = getKabeltyp(verbraucher.kabeltypId)?.isolierung ?? 'PVC';
+  const grenztemperatur = ISOLIERUNG_GRENZTEMPERATUR[isolierung];
+  const belastbarkeit = berechneKabelbelastbarkeit(verbraucher);
+  if (!belastbarkeit || belastbarkeit.strombelastbarkeit <= 0) return grenztemperatur;
+
+  const imErdreich = verbraucher.verlegeart === 'D1' || verbraucher.verlegeart === 'D2';
+  const umgebung = verbraucher.umgebungstemperatur ?? (imErdreich ? BEZUGSTEMPERATUR_ERDE : BEZUGSTEMPERATUR_LUFT);
+  const auslastung = Math.min(1, strom / belastbarkeit.strombelastbarkeit);
+  return umgebung + (grenztemperatur - umgebung) * auslastung ** 2;
+}
 
-  // Prüfe jeden Verbraucher mit Leitungsdaten
-  for (const verbraucher of verteiler.verbraucher) {
-    // Nur prüfen wenn Leitungslänge und Querschnitt angegeben sind
-    if (!verbraucher.leitungslaenge || !verbraucher.leitungsquerschnitt) continue;
+/**
+ * Wirkwiderstand eines Leiters je Meter bei Betriebstemperatur [Ω/m]
+ */
+function berechneWiderstandsbelag(material: Leitermaterial, querschnitt: number, temperatur: number): number {
+  const [rho, alpha] = material === 'aluminium' ? [RHO_ALUMINIUM, ALPHA_ALUMINIUM] : [RHO_KUPFER, ALPHA_KUPFER];
+  return (rho / querschnitt) * (1 + alpha * (temperatur - 20));
+}
 
-    // Berechne Strom des Verbrauchers (mit √3 für Drehstrom)
-    const spannung = verbraucher.spannung;
-    const leistung = verbraucher.leistung * verbraucher.gleichzeitigkeitsfaktor;
-    const effectivePhasen = getEffectivePhasen(verteiler, verbraucher);
-    const strom = berechneVerbraucherStrom(leistung, spannung, effectivePhasen);
+/**
+ * Spannungsfall eines Leitungsabschnitts in % der Nennspannung:
+ *
+ * - Drehstrom:    ΔU = √3 · I · l · (R' · cos φ + X' · sin φ)
+ * - Wechselstrom: ΔU = 2 · I · l · (R' · cos φ + X' · sin φ)  (Hin- und Rückleiter)
+ *
+ * @param strom Scheinstrom im Abschnitt [A]
+ * @param widerstandsbelag R' bei Betriebstemperatur [Ω/m]
+ * @param reaktanz X' [Ω/km]
+ */
+function berechneAbschnittSpannungsfall(
+  laenge: number,
+  strom: number,
+  widerstandsbelag: number,
+  reaktanz: number,
+  cosPhi: number,
+  drehstrom: boolean,
+  nennspannung: number
+): number {
+  const sinPhi = Math.sqrt(1 - cosPhi * cosPhi);
+  const faktor = drehstrom ? Math.sqrt(3) : 2;
+  const spannungsfall = faktor * strom * laenge * (widerstandsbelag * cosPhi + (reaktanz / 1000) * sinPhi);
+  return (spannungsfall / nennspannung) * 100;
+}
 
-    // Leitungswiderstand berechnen (Cu-Leitung angenommen)
-    const rho = RHO_KUPFER;
-    const widerstand = (2 * rho * verbraucher.leitungslaenge) / verbraucher.leitungsquerschnitt;
+/**
+ * Anteile des Spannungsfalls innerhalb eines Verteilers bis zum Verbraucher [%]
+ */
+export interface SpannungsfallAnteile {
+  verdrahtung: number;          // Leitungen von der Versorgungsklemme bis zur zugewiesenen Komponente
+  leitung: number;              // Verbraucherleitung
+  gesamt: number;
+  leitertemperatur: number;     // angenommene Leitertemperatur der Verbraucherleitung [°C]
+}
 
-    // Spannungsfall berechnen
-    const spannungsfall = widerstand * strom;
-    const spannungsfallProzent = (spannungsfall / spannung) * 100;
+/**
+ * Berechnet den Spannungsfall vom Einspeisepunkt des Verteilers bis zum Verbraucher.
+ *
+ * Die Leitungen von der Versorgungsklemme bis zur zugewiesenen Komponente werden entlang
+ * des Pfads aus findPathToVersorgung aufsummiert – mit dem berechneten Strom des jeweiligen
+ * Drahts (falls bei der Validierung gesetzt), sonst mit dem Verbraucherstrom. Der cos φ des
+ * Verbrauchers wird für alle Abschnitte angesetzt. Widerstände gelten bei Betriebstemperatur,
+ * die Reaktanz kommt aus dem Kabeltyp bzw. aus Richtwerten.
+ *
+ * @returns undefined wenn keine Leitungsdaten für den Verbraucher vorhanden sind
+ */
+export function berechneSpannungsfall(
+  verteiler: Verteiler,
+  verbraucher: Verbraucher
+): SpannungsfallAnteile | undefined {
+  // Nur berechnen wenn Leitungslänge und Querschnitt angegeben sind
+  if (!verbraucher.leitungslaenge || !verbraucher.leitungsquerschnitt) return undefined;
+
+  // Wirkstrom des Verbrauchers (mit √3 für Drehstrom) und Scheinstrom über cos φ
+  const spannung = verbraucher.spannung;
+  const leistung = verbraucher.leistung * verbraucher.gleichzeitigkeitsfaktor;
+  const effectivePhasen = getEffectivePhasen(verteiler, verbraucher);
+  const cosPhi = Math.min(1, Math.max(0.1, verbraucher.cosPhi || 1));
+  const strom = berechneVerbraucherStrom(leistung, spannung, effectivePhasen) / cosPhi;
+  const drehstrom = spannung === 400 && effectivePhasen.filter((p) => p !== 'N' && p !== 'PE').length === 3;
+
+  // Verbraucherleitung
+  const kabeltyp = getKabeltyp(verbraucher.kabeltypId);
+  const leitertemperatur = berechneLeitertemperatur(verbraucher, strom);
+  const leitung = berechneAbschnittSpannungsfall(
+    verbraucher.leitungslaenge,
+    strom,
+    berechneWiderstandsbelag(kabeltyp?.leitermaterial ?? verbraucher.leitermaterial, verbraucher.leitungsquerschnitt, leitertemperatur),
+    kabeltyp?.reaktanz ?? getReaktanz(verbraucher.leitungsquerschnitt, false),
+    cosPhi,
+    drehstrom,
+    spannung
+  );
 
-    // Finde Versorgungsklemme für zusätzliche Leitungswiderstände
-    const versorgungsklemme = verteiler.komponenten.find(k => k.type === 'versorgungsklemme');
-    let gesamtSpannungsfallProzent = spannungsfallProzent;
+  // Verdrahtung von der Versorgungsklemme bis zur zugewiesenen Komponente
+  let verdrahtung = 0;
+  const versorgungsklemme = verteiler.komponenten.find(k => k.type === 'versorgungsklemme');
+  const zugewiesen = verteiler.komponenten.find(k => k.id === verbraucher.zugewieseneKomponente);
+  if (zugewiesen && versorgungsklemme) {
+    for (const wire of findLeitungspfad(verteiler, versorgungsklemme.id, zugewiesen.id)) {
+      if (!wire.laenge || !wire.querschnitt) continue;
+      verdrahtung += berechneAbschnittSpannungsfall(
+        wire.laenge,
+        wire.durchpihnittsstrom || strom,
+        berechneWiderstandsbelag(wire.material === 'Al' ? 'aluminium' : 'kupfer', wire.querschnitt, LEITERTEMPERATUR_VERDRAHTUNG),
+        getReaktanz(wire.querschnitt, true),
+        cosPhi,
+        drehstrom,
+        spannung
+      );
+    }
+  }
 
-    // Addiere Spannungsfall der Zuleitungen (von Versorgung bis zur Schutzeinrichtung)
-    if (verbraucher.zugewieseneKomponente) {
-      const schutzeinrichtung = verteiler.komponenten.find(k => k.id === verbraucher.zugewieseneKomponente);
+  return { verdrahtung, leitung, gesamt: verdrahtung + leitung, leitertemperatur };
+}
 
-      if (schutzeinrichtung && versorgungsklemme) {
-        // Finde Verbindungen zur Schutzeinrichtung
-        const zuleitungen = findLeitungspfad(verteiler, versorgungsklemme.id, schutzeinrichtung.id);
+/**
+ * Spannungsfall vom Einspeisepunkt des Verteilers bis zum Verbraucher in % (siehe berechneSpannungsfall)
+ */
+export function berechneSpannungsfallProzent(
+  verteiler: Verteiler,
+  verbraucher: Verbraucher
+): number | undefined {
+  return berechneSpannungsfall(verteiler, verbraucher)?.gesamt;
+}
 
-        for (const wire of zuleitungen) {
-          const leitungRho = wire.material === 'Cu' ? RHO_KUPFER : RHO_ALUMINIUM;
-          const leitungWiderstand = (2 * leitungRho * wire.laenge) / wire.querschnitt;
-          const leitungSpannungsfall = leitungWiderstand * strom;
-          gesamtSpannungsfallProzent += (leitungSpannungsfall / spannung) * 100;
-        }
-      }
-    }
+/**
+ * Prüft den Spannungsfall über die gesamte Leitung vom Netzanschluss bis zum Verbraucher.
+ *
+ * Zuleitungen zu Unterverteilern werden gegen den Grenzwert der Hauptleitung geprüft,
+ * alle übrigen Verbraucher gegen den Grenzwert für Endstromkreise.
+ *
+ * @param vorSpannungsfallProzent Spannungsfall bis zur Versorgungsklemme (bei Unterverteilern)
+ */
+function checkSpannungsfall(
+  verteiler: Verteiler,
+  vorSpannungsfallProzent: number
+): { errors: ValidationError[]; warnings: ValidationError[] } {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationError[] = [];
+  const grenzwerte = getSpannungsfallGrenzwerte(verteiler);
+
+  // Prüfe jeden Verbraucher mit Leitungsdaten
+  for (const verbraucher of verteiler.verbraucher) {
+    const anteile = berechneSpannungsfall(verteiler, verbraucher);
+    if (anteile === undefined) continue;
+
+    const istZuleitung = istZuleitungsVerbraucher(verbraucher.id);
+    const grenzwert = istZuleitung ? grenzwerte.hauptleitung : grenzwerte.endstromkreis;
+    const gesamtSpannungsfallProzent = vorSpannungsfallProzent + anteile.gesamt;
+
+    const details = [
+      `${verbraucher.leitungslaenge}m`,
+      `${verbraucher.leitungsquerschnitt}mm²`,
+      `${anteile.leitertemperatur.toFixed(0)}°C`,
+    ];
+    if (anteile.verdrahtung >= 0.01) details.push(`Verdrahtung ${anteile.verdrahtung.toFixed(2)}%`);
+    if (vorSpannungsfallProzent > 0) details.push(`davon ${vorSpannungsfallProzent.toFixed(2)}% bis zur Einspeisung`);
+    const art = istZuleitung ? 'Spannungsfall der Hauptleitung' : 'Spannungsfall';
 
     // Bewerte Spannungsfall
-    if (gesamtSpannungsfallProzent > MAX_SPANNUNGSFALL_PROZENT) {
+    if (gesamtSpannungsfallProzent > grenzwert) {
       errors.push({
         id: uuidv4(),
         typ: 'spannungsfall',
         komponenteId: verbraucher.id,
         komponenteName: verbraucher.name,
-        beschreibung: `Spannungsfall zu hoch: ${gesamtSpannungsfallProzent.toFixed(2)}% > ${MAX_SPANNUNGSFALL_PROZENT}% (${spannungsfall.toFixed(2)}V bei ${verbraucher.leitungslaenge}m, ${verbraucher.leitungsquerschnitt}mm²)`,
+        beschreibung: `${art} zu hoch: ${gesamtSpannungsfallProzent.toFixed(2)}% > ${grenzwert}% (${details.join(', ')})`,
         hinweis: `Verwenden Sie einen größeren Leitungsquerschnitt (aktuell ${verbraucher.leitungsquerschnitt}mm²) oder verkürzen Sie die Leitung (aktuell ${verbraucher.leitungslaenge}m)`,
         schweregrad: 'fehler',
       });
-    } else if (gesamtSpannungsfallProzent > MAX_SPANNUNGSFALL_PROZENT * 0.8) {
+    } else if (gesamtSpannungsfallProzent > grenzwert * 0.8) {
       warnings.push({
         id: uuidv4(),
         typ: 'spannungsfall',
         komponenteId: verbraucher.id,
         komponenteName: verbraucher.name,
-        beschreibung: `Spannungsfall grenzwertig: ${gesamtSpannungsfallProzent.toFixed(2)}% (${spannungsfall.toFixed(2)}V bei ${verbraucher.leitungslaenge}m, ${verbraucher.leitungsquerschnitt}mm²)`,
-        hinweis: 'Der Spannungsfall nähert sich dem Grenzwert von 4%',
+        beschreibung: `${art} grenzwertig: ${gesamtSpannungsfallProzent.toFixed(2)}% (${details.join(', ')})`,
+        hinweis: `Der Spannungsfall nähert sich dem Grenzwert von ${grenzwert}%`,
         schweregrad: 'warnung',
       });
     }
@@ -529,73 +979,44 @@ function findLeitungspfad(verteiler: Verteiler, startId: string, endId: string):
 }
 
 /**
- * Prüft die Schleifenimpedanz für den Kurzschlussschutz
+ * Prüft die Schleifenimpedanz am Einbauort jeder Überstrom-Schutzeinrichtung.
+ * Die Abschaltzeit wird aus der Zeit-Strom-Kennlinie beim kleinsten Fehlerstrom ermittelt.
  */
 function checkSchleifenimpedanz(verteiler: Verteiler): ValidationError[] {
   const errors: ValidationError[] = [];
 
-  // Finde Versorgungsklemme für Schleifenimpedanz
-  const versorgungsklemme = verteiler.komponenten.find(k => k.type === 'versorgungsklemme');
-
-  // Für jede Schutzeinrichtung prüfen
-  const schutzeinrichtungen = verteiler.komponenten.filter(
-    (k) => k.type === 'ls-schalter' || k.type === 'fi-ls-kombi'
-  ) as (LSSchalterParams | FILSKombiParams)[];
+  // Finde Versorgungsklemme für Schleifenimpedanz und Netzsystem
+  const versorgungsklemme = verteiler.komponenten.find(
+    (k): k is VersorgungsklemmeParams => k.type === 'versorgungsklemme'
+  );
+  const netzsystem = versorgungsklemme?.netzsystem ?? 'TN-C-S';
 
-  for (const schutz of schutzeinrichtungen) {
-    // Berechne maximale zulässige Schleifenimpedanz nach ÖVE/ÖNORM E 8001-1
-    // Zs_max = (2/3) × U0 / Ia (2/3-Regel für TN-System, 0,4s Abschaltzeit)
-    const charakteristik = schutz.charakteristik;
-    const bemessungsStrom = schutz.bemessungsStrom;
-
-    // Auslösestrom je nach Charakteristik (magnetisches Auslösen)
-    let ausloeseFaktor = 5; // Default für B
-    switch (charakteristik) {
-      case 'B':
-        ausloeseFaktor = 5;
-        break;
-      case 'C':
-        ausloeseFaktor = 10;
-        break;
-      case 'D':
-      case 'K':
-        ausloeseFaktor = 20;
-        break;
-    }
-
-    const ausloesestrom = bemessungsStrom * ausloeseFaktor;
-    const zsMax = (2 / 3) * (230 / ausloesestrom); // 2/3-Regel
-
-    // Schleifenimpedanz am Einspeisepunkt:
-    // Schleifenimpedanz aus Versorgungsklemme verwenden
-    let zsVorgelagert: number;
-    if (versorgungsklemme && (versorgungsklemme as any).schleifenimpedanz > 0) {
-      zsVorgelagert = (versorgungsklemme as any).schleifenimpedanz; // Direkt in Ω
-    } else {
-      zsVorgelagert = 0.5; // Standardwert falls keine Versorgungsklemme vorhanden
-    }
+  // Im TT-System übernehmen FI-Schalter den Fehlerschutz (siehe checkTTSystem)
+  if (netzsystem === 'TT') return errors;
+  const { spannung, faktor } = getFehlerschleife(verteiler);
 
-    // Addiere Leitungsimpedanz (vereinfacht)
-    const zugehoerigeLeitungen = verteiler.verbindungen.filter(
-      (w) => w.von.componentId === schutz.id || w.nach.componentId === schutz.id
-    );
+  for (const schutz of verteiler.komponenten) {
+    const kennlinie = getAusloeseKennlinie(schutz);
+    if (!kennlinie) continue;
 
-    let leitungsImpedanz = 0;
-    for (const wire of zugehoerigeLeitungen) {
-      const rho = wire.material === 'Cu' ? RHO_KUPFER : RHO_ALUMINIUM;
-      leitungsImpedanz += (2 * rho * wire.laenge) / wire.querschnitt;
-    }
+    // Schleifenimpedanz am Einbauort: Einspeisung + Verdrahtung bis zur Schutzeinrichtung (betriebswarm)
+    const zsGesamt = getVorgelagerteSchleifenimpedanz(verteiler, true) +
+      berechneZuleitungsImpedanz(verteiler, schutz.id, true);
 
-    const zsGesamt = zsVorgelagert + leitungsImpedanz;
+    // Abschaltzeit beim kleinsten Fehlerstrom am Einbauort
+    const fehlerstrom = (C_MIN * spannung) / (faktor * zsGesamt);
+    const abschaltzeit = berechneAbschaltzeit(kennlinie, fehlerstrom);
+    const maxAbschaltzeit = getMaxAbschaltzeit(netzsystem, kennlinie.bemessungsStrom <= ENDSTROMKREIS_MAX_STROM);
 
-    if (zsGesamt > zsMax) {
+    if (abschaltzeit > maxAbschaltzeit) {
+      const zsMax = (C_MIN * spannung) / (faktor * berechneAusloesestrom(kennlinie, maxAbschaltzeit));
       errors.push({
         id: uuidv4(),
-        typ: 'schleifenimpedanz',
+        typ: netzsystem === 'IT' ? 'it-system' : 'schleifenimpedanz',
         komponenteId: schutz.id,
         komponenteName: schutz.name,
-        beschreibung: `Schleifenimpedanz zu hoch: ${(zsGesamt * 1000).toFixed(1)}mΩ > ${(zsMax * 1000).toFixed(1)}mΩ`,
-        hinweis: 'Abschaltbedingung nicht erfüllt! Größeren Querschnitt verwenden.',
+        beschreibung: `Schleifenimpedanz zu hoch: ${(zsGesamt * 1000).toFixed(1)}mΩ > ${(zsMax * 1000).toFixed(1)}mΩ (Abschaltzeit ${formatAbschaltzeit(abschaltzeit)} > ${maxAbschaltzeit}s)`,
+        hinweis: `Abschaltbedingung nicht erfüllt! ${getKennlinienBezeichnung(kennlinie)} benötigt bei Ik=${fehlerstrom.toFixed(0)}A zu lange. Größeren Querschnitt verwenden.`,
         schweregrad: 'kritisch',
       });
     }
@@ -605,62 +1026,61 @@ function checkSchleifenimpedanz(verteiler: Verteiler): ValidationError[] {
 }
 
 /**
- * Prüft die Phasensymmetrie (Lastverteilung)
+ * Formatiert eine Abschaltzeit für Meldungen
  */
-function checkPhasensymmetrie(verteiler: Verteiler): ValidationError[] {
-  const warnings: ValidationError[] = [];
+function formatAbschaltzeit(zeit: number): string {
+  if (!isFinite(zeit)) return 'keine Auslösung';
+  return zeit < 1 ? `${zeit.toFixed(2)}s` : `${zeit.toFixed(1)}s`;
+}
 
-  // Berechne Last pro Phase (mit erkannten Phasen für 1-phasige Verbraucher)
+/**
+ * Berechnet die Phasenlasten [W] mit Gleichzeitigkeitsfaktor und die N-Last.
+ * Die N-Last ergibt sich aus der Phasor-Addition der Ströme mit individuellem cos φ
+ * (N-Strom × 230 V, in Watt für Konsistenz mit den Außenleitern).
+ */
+export function berechnePhasenlasten(verteiler: Verteiler): Record<Phase, number> {
   const phasenLasten: Record<Phase, number> = {
     L1: 0,
     L2: 0,
     L3: 0,
     N: 0,
     PE: 0,
+    PEN: 0,
   };
+  let nPhasor: Phasor = { real: 0, imag: 0 };
 
   for (const verbraucher of verteiler.verbraucher) {
     // Verwende erkannte Phasen statt manueller Zuweisung
     const effectivePhasen = getEffectivePhasen(verteiler, verbraucher);
-    const lastProPhase = (verbraucher.leistung * verbraucher.gleichzeitigkeitsfaktor) / effectivePhasen.length;
+    const leistung = verbraucher.leistung * verbraucher.gleichzeitigkeitsfaktor;
+    const cosPhi = verbraucher.cosPhi ?? 1.0;
+
     for (const phase of effectivePhasen) {
       if (phase in phasenLasten) {
-        phasenLasten[phase] += lastProPhase;
+        phasenLasten[phase] += leistung / effectivePhasen.length;
       }
     }
-  }
 
-  // N-Strom berechnen: Phasor-Addition mit individuellem cos φ
-  {
-    let nPhasor: Phasor = { real: 0, imag: 0 };
-    for (const verbraucher of verteiler.verbraucher) {
-      const effectivePhasen = getEffectivePhasen(verteiler, verbraucher);
-      const cosPhi = verbraucher.cosPhi ?? 1.0;
-      const phi = Math.acos(Math.min(1, Math.max(0, cosPhi)));
-      const phasenAnzahl = effectivePhasen.length;
-      const leistung = verbraucher.leistung * verbraucher.gleichzeitigkeitsfaktor;
-
-      if (phasenAnzahl === 3) {
-        const strom = leistung / (Math.sqrt(3) * 400 * cosPhi);
-        for (const phase of ['L1', 'L2', 'L3'] as Phase[]) {
-          const theta = phase === 'L1' ? 0 : phase === 'L2' ? -120 : 120;
-          const thetaRad = theta * Math.PI / 180;
-          nPhasor.real += strom * Math.cos(thetaRad - phi);
-          nPhasor.imag += strom * Math.sin(thetaRad - phi);
-        }
-      } else {
-        const strom = leistung / (230 * cosPhi);
-        const phase = effectivePhasen[0];
-        const theta = phase === 'L1' ? 0 : phase === 'L2' ? -120 : 120;
-        const thetaRad = theta * Math.PI / 180;
-        nPhasor.real += strom * Math.cos(thetaRad - phi);
-        nPhasor.imag += strom * Math.sin(thetaRad - phi);
-      }
+    const strom = effectivePhasen.length === 3
+      ? leistung / (Math.sqrt(3) * 400 * cosPhi)
+      : leistung / (230 * cosPhi);
+    for (const phase of effectivePhasen) {
+      nPhasor = phasorAdd(nPhasor, verbraucherNPhasor(strom, phase, cosPhi));
     }
-    const nStrom = phasorMagnitude(nPhasor);
-    phasenLasten.N = nStrom * 230;
   }
 
+  phasenLasten.N = phasorMagnitude(nPhasor) * 230;
+  return phasenLasten;
+}
+
+/**
+ * Prüft die Phasensymmetrie (Lastverteilung)
+ */
+function checkPhasensymmetrie(verteiler: Verteiler): ValidationError[] {
+  const warnings: ValidationError[] = [];
+
+  const phasenLasten = berechnePhasenlasten(verteiler);
+
   // Prüfe Symmetrie (nur L1, L2, L3)
   const phasenWerte = [phasenLasten.L1, phasenLasten.L2, phasenLasten.L3];
   const maxLast = Math.max(...phasenWerte);
@@ -905,7 +1325,7 @@ function checkVerbraucherErdung(verteiler: Verteiler): ValidationError[] {
         komponenteId: verbraucher.id,
         komponenteName: verbraucher.name,
         beschreibung: `Verbraucher hat keine Erdungsverbindung (PE)`,
-        hinweis: `Der Schutzleiter (PE) von ${zugewieseneKomponente.name} ist nicht mit der Erdung der Versorgungsklemme verbunden. Stellen Sie eine durchgehende PE-Verbindung über PE-Klemmen oder PE-Sammelschienen her.`,
+        hinweis: `Der Schutzleiter (PE) von ${zugewieseneKomponente.name} ist nicht mit der Erdung der Versorgungsklemme verbunden. Stellen Sie eine durchgehende PE-Verbindung über PE-Klemmen oder PE-Sammelschienen her (bei PEN-Einspeisung über die PE-Seite der PEN-Aufteilung).`,
         schweregrad: 'kritisch',
       });
     }
@@ -1011,14 +1431,18 @@ function checkVerbraucherDrehfeld(verteiler: Verteiler): ValidationError[] {
 }
 
 /**
- * Prüft ob Steckdosen durch einen FI-Schalter mit max. 30mA geschützt sind
+ * Prüft ob Steckdosen durch einen FI-Schalter mit max. 30mA geschützt sind.
+ * In Räumen mit FI-Pflicht (RAUM_FI_PFLICHT, z.B. Bad) gilt das für alle Stromkreise.
  */
-function checkSteckdosenFISchutz(verteiler: Verteiler): ValidationError[] {
+function checkSteckdosenFISchutz(verteiler: Verteiler, gebaeude: Gebaeude[]): ValidationError[] {
   const warnings: ValidationError[] = [];
 
   for (const verbraucher of verteiler.verbraucher) {
-    // Prüfe nur Steckdosen
-    if (verbraucher.typ !== 'steckdose') continue;
+    const raum = findeRaum(gebaeude, verbraucher.raumId)?.raum;
+    const raumHinweis = raum ? RAUM_FI_PFLICHT[raum.raumart] : undefined;
+
+    // Prüfe nur Steckdosen und Verbraucher in Räumen mit FI-Pflicht
+    if (verbraucher.typ !== 'steckdose' && !raumHinweis) continue;
 
     // Überspringe Verbraucher ohne Zuweisung
     if (!verbraucher.zugewieseneKomponente) continue;
@@ -1041,8 +1465,10 @@ function checkSteckdosenFISchutz(verteiler: Verteiler): ValidationError[] {
         typ: 'falsche-dimensionierung',
         komponenteId: verbraucher.id,
         komponenteName: verbraucher.name,
-        beschreibung: `Steckdose ohne FI-Schutz mit max. 30mA`,
-        hinweis: 'Steckdosen müssen gemäß ÖVE/ÖNORM durch einen FI-Schalter mit IΔn ≤ 30mA geschützt werden.',
+        beschreibung: raum && raumHinweis
+          ? `Stromkreis im Raum "${raum.name}" (${RAUMART_BEZEICHNUNGEN[raum.raumart]}) ohne FI-Schutz mit max. 30mA`
+          : `Steckdose ohne FI-Schutz mit max. 30mA`,
+        hinweis: raumHinweis ?? 'Steckdosen müssen gemäß ÖVE/ÖNORM durch einen FI-Schalter mit IΔn ≤ 30mA geschützt werden.',
         schweregrad: 'fehler',
       });
     }
@@ -1327,10 +1753,11 @@ function checkSchmelzsicherungen(verteiler: Verteiler): { errors: ValidationErro
 
     // Prüfe für jeden Verbraucher mit Leitungsdaten: Nennstrom < zulässiger Leitungsstrom
     for (const verbraucher of zugewieseneVerbraucher) {
-      if (!verbraucher.leitungsquerschnitt) continue;
+      const belastbarkeit = berechneKabelbelastbarkeit(verbraucher);
+      if (!belastbarkeit) continue;
 
-      const zulaessigerLeitungsstrom = LEITER_BELASTBARKEIT[verbraucher.leitungsquerschnitt];
-      if (!zulaessigerLeitungsstrom) continue;
+      const zulaessigerLeitungsstrom = Math.round(belastbarkeit.strombelastbarkeit * 10) / 10;
+      const bedingungen = formatVerlegebedingungen(verbraucher);
 
       // Prüfe: Nennstrom < zulässiger Leitungsstrom
       if (nennstrom >= zulaessigerLeitungsstrom) {
@@ -1339,7 +1766,7 @@ function checkSchmelzsicherungen(verteiler: Verteiler): { errors: ValidationErro
           typ: 'falsche-dimensionierung',
           komponenteId: verbraucher.id,
           komponenteName: verbraucher.name,
-          beschreibung: `Nennstrom der Sicherung (${nennstrom}A) ≥ zulässiger Leitungsstrom (${zulaessigerLeitungsstrom}A bei ${verbraucher.leitungsquerschnitt}mm²)`,
+          beschreibung: `Nennstrom der Sicherung (${nennstrom}A) ≥ zulässiger Leitungsstrom (${zulaessigerLeitungsstrom}A bei ${verbraucher.leitungsquerschnitt}mm², ${bedingungen})`,
           hinweis: `Verwenden Sie einen größeren Leitungsquerschnitt (aktuell ${verbraucher.leitungsquerschnitt}mm²) oder eine kleinere Sicherung. Für Schmelzsicherungen muss gelten: Betriebsstrom < Nennstrom < zulässiger Leitungsstrom.`,
           schweregrad: 'fehler',
         });
@@ -1350,7 +1777,7 @@ function checkSchmelzsicherungen(verteiler: Verteiler): { errors: ValidationErro
           typ: 'falsche-dimensionierung',
           komponenteId: verbraucher.id,
           komponenteName: verbraucher.name,
-          beschreibung: `Nennstrom der Sicherung (${nennstrom}A) liegt nahe am zulässigen Leitungsstrom (${zulaessigerLeitungsstrom}A bei ${verbraucher.leitungsquerschnitt}mm²)`,
+          beschreibung: `Nennstrom der Sicherung (${nennstrom}A) liegt nahe am zulässigen Leitungsstrom (${zulaessigerLeitungsstrom}A bei ${verbraucher.leitungsquerschnitt}mm², ${bedingungen})`,
           hinweis: `Erwägen Sie einen größeren Leitungsquerschnitt für mehr Sicherheitsreserve.`,
           schweregrad: 'warnung',
         });
@@ -1373,31 +1800,94 @@ function checkSchmelzsicherungen(verteiler: Verteiler): { errors: ValidationErro
  *
  * Nur Komponenten die WIRKLICH in Serie sind (durchquert werden) werden zurückgegeben.
  */
-function findeSchutzeinrichtungenAufPfad(
+export function findeSchutzeinrichtungenAufPfad(
   verteiler: Verteiler,
   startKomponenteId: string
-): (LSSchalterParams | FILSKombiParams)[] {
-  const schutzeinrichtungen: (LSSchalterParams | FILSKombiParams)[] = [];
+): UeberstromSchutz[] {
+  const schutzeinrichtungen: UeberstromSchutz[] = [];
 
   // Prüfe ob die Start-Komponente selbst eine Schutzeinrichtung ist
   const startKomponente = verteiler.komponenten.find(k => k.id === startKomponenteId);
-  if (startKomponente && (startKomponente.type === 'ls-schalter' || startKomponente.type === 'fi-ls-kombi')) {
-    schutzeinrichtungen.push(startKomponente as LSSchalterParams | FILSKombiParams);
+  if (startKomponente && getAusloeseKennlinie(startKomponente)) {
+    schutzeinrichtungen.push(startKomponente as UeberstromSchutz);
   }
 
   // Verwende die neue Terminal-basierte Logik um Komponenten in Serie zu finden
   const seriesComponents = findSeriesComponents(verteiler, startKomponenteId);
 
-  // Filtere nur LS-Schalter und FI/LS-Kombis
+  // Filtere nur Überstrom-Schutzeinrichtungen (LS, FI/LS, Schmelzsicherungen)
   for (const component of seriesComponents) {
-    if (component.type === 'ls-schalter' || component.type === 'fi-ls-kombi') {
-      schutzeinrichtungen.push(component as LSSchalterParams | FILSKombiParams);
+    if (getAusloeseKennlinie(component)) {
+      schutzeinrichtungen.push(component as UeberstromSchutz);
     }
   }
 
   return schutzeinrichtungen;
 }
 
+/**
+ * Zulässige Abschaltbedingung eines Verbraucher-Stromkreises
+ */
+export interface SchleifenimpedanzGrenzwert {
+  schutzeinrichtung: UeberstromSchutz;  // Nächste Schutzeinrichtung zum Verbraucher
+  netzsystem: Netzsystem;
+  istEndstromkreis: boolean;
+  maxAbschaltzeit: number;              // [s]
+  zsMax: number;                        // [Ω] Größte Schleifenimpedanz für rechtzeitige Abschaltung
+  erderwiderstand?: number;             // [Ω] TT: in zsMax enthaltener Erderwiderstand RA
+}
+
+/**
+ * Ermittelt die größte zulässige Schleifenimpedanz eines Verbrauchers:
+ * Die nächste Schutzeinrichtung muss beim kleinsten Fehlerstrom (c_min · U0 / Zs,
+ * im IT-System beim zweiten Fehler siehe getFehlerschleife) innerhalb der
+ * zulässigen Abschaltzeit auslösen.
+ *
+ * Endstromkreis bis 32 A → 0,4 s (TN/IT), sonst bzw. bei Unterverteiler-Zuleitungen 5 s
+ *
+ * Im TT-System fließt der Fehlerstrom über den Anlagenerder: Die Abschaltung übernimmt
+ * meist der FI (wie in checkTTAbschaltung), zsMax enthält dann den Erderwiderstand RA
+ * (wie bei der Messung) und ergibt sich aus dem Auslösestrom des FI (Vielfaches von IΔn).
+ */
+export function berechneSchleifenimpedanzGrenzwert(
+  verteiler: Verteiler,
+  verbraucher: Verbraucher
+): SchleifenimpedanzGrenzwert | null {
+  if (!verbraucher.zugewieseneKomponente) return null;
+  const schutzeinrichtung = findeSchutzeinrichtungenAufPfad(verteiler, verbraucher.zugewieseneKomponente)[0];
+  if (!schutzeinrichtung) return null;
+
+  const versorgungsklemme = verteiler.komponenten.find(
+    (k): k is VersorgungsklemmeParams => k.type === 'versorgungsklemme'
+  );
+  const netzsystem = versorgungsklemme?.netzsystem ?? 'TN-C-S';
+  const istEndstromkreis = !istZuleitungsVerbraucher(verbraucher.id) &&
+    schutzeinrichtung.bemessungsStrom <= ENDSTROMKREIS_MAX_STROM;
+  const maxAbschaltzeit = getMaxAbschaltzeit(netzsystem, istEndstromkreis);
+  const kennlinie = getAusloeseKennlinie(schutzeinrichtung)!;
+
+  if (netzsystem === 'TT') {
+    // Schnellste Abschaltung durch FI (inkl. zugewiesener FI/LS) oder Überstrom-Schutzeinrichtung
+    const zugewiesen = verteiler.komponenten.find((k) => k.id === verbraucher.zugewieseneKomponente);
+    const fis = findeFIsAufPfad(verteiler, verbraucher.zugewieseneKomponente);
+    if (zugewiesen?.type === 'fi-schalter' || zugewiesen?.type === 'fi-ls-kombi') fis.unshift(zugewiesen);
+    const ausloesestrom = Math.min(
+      berechneAusloesestrom(kennlinie, maxAbschaltzeit),
+      ...fis.map((fi) => berechneFIAusloesestrom(fi, maxAbschaltzeit))
+    );
+    const zsMax = (C_MIN * U0) / ausloesestrom;
+    return {
+      schutzeinrichtung, netzsystem, istEndstromkreis, maxAbschaltzeit, zsMax,
+      erderwiderstand: versorgungsklemme?.erderwiderstand,
+    };
+  }
+
+  const { spannung, faktor } = getFehlerschleife(verteiler);
+  const zsMax = (C_MIN * spannung) / (faktor * berechneAusloesestrom(kennlinie, maxAbschaltzeit));
+
+  return { schutzeinrichtung, netzsystem, istEndstromkreis, maxAbschaltzeit, zsMax };
+}
+
 /**
  * Prüft die Schleifenimpedanz für jeden Verbraucher
  * Prüft den gesamten Pfad vom Verbraucher bis zur Versorgung
@@ -1416,57 +1906,48 @@ function checkVerbraucherSchleifenimpedanz(verteiler: Verteiler): { errors: Vali
     // Finde alle Schutzeinrichtungen auf dem Pfad
     const schutzeinrichtungenAufPfad = findeSchutzeinrichtungenAufPfad(verteiler, startKomponente.id);
 
-    // Berechne Schleifenimpedanz
-    const zsGesamt = berechneSchleifenimpedanzFuerVerbraucher(verteiler, verbraucher);
+    // Berechne Schleifenimpedanz (betriebswarme Leiter, vor dem Ablesen der Abschaltzeit)
+    const zsGesamt = berechneSchleifenimpedanzFuerVerbraucher(verteiler, verbraucher, true);
     if (zsGesamt === undefined) continue;
 
     const zsGesamtOhm = zsGesamt / 1000; // in Ω
 
-    // Prüfe ob IRGENDEINE Schutzeinrichtung auf dem Pfad auslösen kann
-    let kannAusloesen = false;
-    let nahesteFehlerInfo: { schutz: any; zsMax: number } | null = null;
-    let minZsMax = Infinity;
-
-    for (const schutz of schutzeinrichtungenAufPfad) {
-      // Berechne Auslösefaktor (magnetisches Auslösen)
-      let ausloeseFaktor = 5;
-      switch (schutz.charakteristik) {
-        case 'B': ausloeseFaktor = 5; break;
-        case 'C': ausloeseFaktor = 10; break;
-        case 'D':
-        case 'K': ausloeseFaktor = 20; break;
-      }
-
-      const ausloesestrom = schutz.bemessungsStrom * ausloeseFaktor;
-      // 2/3-Regel für TN-Systeme (Abschaltzeit 0,4s bei 230V)
-      const zsMax = (2 / 3) * (230 / ausloesestrom); // in Ω
-
-      // Kann diese Schutzeinrichtung auslösen?
-      if (zsGesamtOhm <= zsMax) {
-        kannAusloesen = true;
+    if (istTTSystem(verteiler)) {
+      // TT-System: Fehlerstrom fließt über den Anlagenerder, Abschaltung durch den FI
+      const ttFehler = checkTTAbschaltung(verteiler, verbraucher, startKomponente.id, zsGesamtOhm);
+      if (ttFehler) errors.push(ttFehler);
+    } else {
+      // Kleinster Fehlerstrom am Verbraucher (IT: zweiter Fehler in einem anderen Außenleiter)
+      const { spannung, faktor, formel } = getFehlerschleife(verteiler);
+      const fehlerstrom = (C_MIN * spannung) / (faktor * zsGesamtOhm);
+
+      // Die erste auslösende Schutzeinrichtung auf dem Pfad bestimmt die Abschaltzeit
+      let abschaltzeit = Infinity;
+      for (const schutz of schutzeinrichtungenAufPfad) {
+        const kennlinie = getAusloeseKennlinie(schutz);
+        if (!kennlinie) continue;
+        abschaltzeit = Math.min(abschaltzeit, berechneAbschaltzeit(kennlinie, fehlerstrom));
       }
 
-      // Speichere die kritischste (niedrigste Zs_max)
-      if (zsMax < minZsMax) {
-        minZsMax = zsMax;
-        nahesteFehlerInfo = { schutz, zsMax };
+      // Wenn KEINE Schutzeinrichtung rechtzeitig auslöst → Fehler!
+      const grenzwert = berechneSchleifenimpedanzGrenzwert(verteiler, verbraucher);
+      if (grenzwert && abschaltzeit > grenzwert.maxAbschaltzeit) {
+        const { schutzeinrichtung: naechsteSchutzeinrichtung, netzsystem, istEndstromkreis, maxAbschaltzeit, zsMax } = grenzwert;
+        const kennlinie = getAusloeseKennlinie(naechsteSchutzeinrichtung)!;
+        errors.push({
+          id: uuidv4(),
+          typ: netzsystem === 'IT' ? 'it-system' : 'schleifenimpedanz',
+          komponenteId: verbraucher.id,
+          komponenteName: verbraucher.name,
+          beschreibung: netzsystem === 'IT'
+            ? `💡 Abschaltzeit beim zweiten Fehler zu lang (IT): ${formatAbschaltzeit(abschaltzeit)} > ${maxAbschaltzeit}s (Zs=${zsGesamt.toFixed(1)}mΩ, Ia=${fehlerstrom.toFixed(0)}A)`
+            : `💡 Abschaltzeit zu lang: ${formatAbschaltzeit(abschaltzeit)} > ${maxAbschaltzeit}s (Zs=${zsGesamt.toFixed(1)}mΩ, Ik=${fehlerstrom.toFixed(0)}A)`,
+          hinweis: `Nächste Schutzeinrichtung ${naechsteSchutzeinrichtung.name} (${getKennlinienBezeichnung(kennlinie)}) benötigt ${formel} ≤ ${(zsMax * 1000).toFixed(1)}mΩ für ${maxAbschaltzeit}s Abschaltzeit (${netzsystem}, ${istEndstromkreis ? 'Endstromkreis' : 'Verteilungsstromkreis'}). Größeren Querschnitt verwenden oder Schutzeinrichtung anpassen!`,
+          schweregrad: 'kritisch',
+        });
       }
     }
 
-    // Wenn KEINE Schutzeinrichtung auslösen kann → Fehler!
-    if (!kannAusloesen && nahesteFehlerInfo) {
-      const { schutz, zsMax } = nahesteFehlerInfo;
-      errors.push({
-        id: uuidv4(),
-        typ: 'schleifenimpedanz',
-        komponenteId: verbraucher.id,
-        komponenteName: verbraucher.name,
-        beschreibung: `💡 Schleifenimpedanz zu hoch: Zs=${zsGesamt.toFixed(1)}mΩ`,
-        hinweis: `Nächste Schutzeinrichtung ${schutz.name} (${schutz.charakteristik}${schutz.bemessungsStrom}) benötigt Zs ≤ ${(zsMax * 1000).toFixed(1)}mΩ (2/3-Regel für 0,4s Abschaltzeit). Größeren Querschnitt verwenden oder Schutzeinrichtung anpassen!`,
-        schweregrad: 'kritisch',
-      });
-    }
-
     // Prüfe Selektivität zwischen hintereinander geschalteten Sicherungen
     if (schutzeinrichtungenAufPfad.length > 1) {
       // Sortiere nach Position im Pfad (vom Verbraucher zur Versorgung)
@@ -1497,77 +1978,25 @@ function checkVerbraucherSchleifenimpedanz(verteiler: Verteiler): { errors: Vali
   return { errors, warnings };
 }
 
-function berechneGesamtwerte(verteiler: Verteiler): ValidationResult['berechnungen'] {
+function berechneGesamtwerte(
+  verteiler: Verteiler,
+  kurzschlussWerte: Map<string, KurzschlussWerte>,
+  vorSpannungsfallProzent: number
+): ValidationResult['berechnungen'] {
   // Gesamtleistung mit Gleichzeitigkeitsfaktor
   const gesamtLeistung = verteiler.verbraucher.reduce(
     (sum, v) => sum + v.leistung * v.gleichzeitigkeitsfaktor,
     0
   );
 
-  // Phasenlasten
-  const phasenLasten: Record<Phase, number> = {
-    L1: 0,
-    L2: 0,
-    L3: 0,
-    N: 0,
-    PE: 0,
-  };
-
-  for (const verbraucher of verteiler.verbraucher) {
-    const effectivePhasen = getEffectivePhasen(verteiler, verbraucher);
-    const lastProPhase = (verbraucher.leistung * verbraucher.gleichzeitigkeitsfaktor) / effectivePhasen.length;
-    for (const phase of effectivePhasen) {
-      if (phase in phasenLasten) {
-        phasenLasten[phase] += lastProPhase;
-      }
-    }
-  }
-
-  // N-Strom berechnen: Phasor-Addition mit individuellem cos φ
-  {
-    let nPhasor: Phasor = { real: 0, imag: 0 };
-    for (const verbraucher of verteiler.verbraucher) {
-      const effectivePhasen = getEffectivePhasen(verteiler, verbraucher);
-      const cosPhi = verbraucher.cosPhi ?? 1.0;
-      const phi = Math.acos(Math.min(1, Math.max(0, cosPhi)));
-      const phasenAnzahl = effectivePhasen.length;
-      const leistung = verbraucher.leistung * verbraucher.gleichzeitigkeitsfaktor;
-
-      if (phasenAnzahl === 3) {
-        const strom = leistung / (Math.sqrt(3) * 400 * cosPhi);
-        for (const phase of ['L1', 'L2', 'L3'] as Phase[]) {
-          const theta = phase === 'L1' ? 0 : phase === 'L2' ? -120 : 120;
-          const thetaRad = theta * Math.PI / 180;
-          nPhasor.real += strom * Math.cos(thetaRad - phi);
-          nPhasor.imag += strom * Math.sin(thetaRad - phi);
-        }
-      } else {
-        const strom = leistung / (230 * cosPhi);
-        const phase = effectivePhasen[0];
-        const theta = phase === 'L1' ? 0 : phase === 'L2' ? -120 : 120;
-        const thetaRad = theta * Math.PI / 180;
-        nPhasor.real += strom * Math.cos(thetaRad - phi);
-        nPhasor.imag += strom * Math.sin(thetaRad - phi);
-      }
-    }
-    const nStrom = phasorMagnitude(nPhasor);
-    phasenLasten.N = nStrom * 230; // Zurück in Watt für Konsistenz
-  }
+  const phasenLasten = berechnePhasenlasten(verteiler);
 
-  // Maximaler Spannungsfall (vereinfacht)
+  // Maximaler Spannungsfall vom Netzanschluss bis zu einem Verbraucher
   let maxSpannungsfall = 0;
-  for (const wire of verteiler.verbindungen) {
-    const rho = wire.material === 'Cu' ? RHO_KUPFER : RHO_ALUMINIUM;
-    const widerstand = (2 * rho * wire.laenge) / wire.querschnitt;
-
-    const zugehoerigerVerbraucher = verteiler.verbraucher.find(
-      (v) => v.zugewieseneKomponente === wire.nach.componentId
-    );
-
-    if (zugehoerigerVerbraucher) {
-      const strom = zugehoerigerVerbraucher.leistung / 230;
-      const spannungsfall = (widerstand * strom / 230) * 100;
-      maxSpannungsfall = Math.max(maxSpannungsfall, spannungsfall);
+  for (const verbraucher of verteiler.verbraucher) {
+    const spannungsfall = berechneSpannungsfallProzent(verteiler, verbraucher);
+    if (spannungsfall !== undefined) {
+      maxSpannungsfall = Math.max(maxSpannungsfall, vorSpannungsfallProzent + spannungsfall);
     }
   }
 
@@ -1586,62 +2015,76 @@ function berechneGesamtwerte(verteiler: Verteiler): ValidationResult['berechnung
     spannungsfall: maxSpannungsfall,
     schleifenimpedanz, // in mΩ
     phasenLasten,
+    kurzschlussstroeme: [...kurzschlussWerte.values()],
   };
 }
 
 /**
- * Berechnet die Schleifenimpedanz für einen Verbraucher
- * Berücksichtigt den kompletten Pfad von der Versorgung bis zum Verbraucher
+ * Schleifenimpedanz am Einspeisepunkt [Ω] aus der Versorgungsklemme
+ *
+ * @param betriebswarm Bei Unterverteilern den Wert mit betriebswarmer Zuleitung verwenden
  */
-function berechneSchleifenimpedanzFuerVerbraucher(
-  verteiler: Verteiler,
-  verbraucher: any
-): number | undefined {
-  // Finde Versorgungsklemme um deren Schleifenimpedanz zu nutzen
+function getVorgelagerteSchleifenimpedanz(verteiler: Verteiler, betriebswarm: boolean): number {
   const versorgungsklemme = verteiler.komponenten.find(
-    (k) => k.type === 'versorgungsklemme'
+    (k): k is VersorgungsklemmeParams => k.type === 'versorgungsklemme'
   );
+  // Standardwert falls keine Versorgungsklemme vorhanden
+  if (!versorgungsklemme || !(versorgungsklemme.schleifenimpedanz > 0)) return 0.5;
+  return betriebswarm
+    ? versorgungsklemme.schleifenimpedanzBetriebswarm ?? versorgungsklemme.schleifenimpedanz
+    : versorgungsklemme.schleifenimpedanz;
+}
 
-  // Schleifenimpedanz am Einspeisepunkt:
-  // Schleifenimpedanz aus Versorgungsklemme verwenden
-  let zsVorgelagert: number;
-  if (versorgungsklemme && (versorgungsklemme as any).schleifenimpedanz > 0) {
-    zsVorgelagert = (versorgungsklemme as any).schleifenimpedanz; // Direkt in Ω
-  } else {
-    zsVorgelagert = 0.5; // Standardwert falls keine Versorgungsklemme vorhanden
+/**
+ * Impedanz der Verdrahtung von der Versorgungsklemme bis zu einer Komponente [Ω]
+ * (Hin- und Rückleiter)
+ */
+function berechneZuleitungsImpedanz(verteiler: Verteiler, komponenteId: string, betriebswarm: boolean): number {
+  const versorgungsklemme = verteiler.komponenten.find((k) => k.type === 'versorgungsklemme');
+  if (!versorgungsklemme || !verteiler.komponenten.some((k) => k.id === komponenteId)) return 0;
+
+  let impedanz = 0;
+  for (const wire of findLeitungspfad(verteiler, versorgungsklemme.id, komponenteId)) {
+    impedanz += 2 * wire.laenge *
+      berechneWiderstandsbelag(
+        wire.material === 'Al' ? 'aluminium' : 'kupfer',
+        wire.querschnitt,
+        betriebswarm ? LEITERTEMPERATUR_VERDRAHTUNG : 20
+      );
   }
+  return impedanz;
+}
+
+/**
+ * Berechnet die Schleifenimpedanz für einen Verbraucher
+ * Berücksichtigt den kompletten Pfad von der Versorgung bis zum Verbraucher
+ *
+ * @param betriebswarm Leiter bei zulässiger Betriebstemperatur (Isolierung) statt 20 °C –
+ *   für die Abschaltbedingung, da der Fehler am betriebswarmen Leiter auftreten kann
+ */
+export function berechneSchleifenimpedanzFuerVerbraucher(
+  verteiler: Verteiler,
+  verbraucher: Verbraucher,
+  betriebswarm = false
+): number | undefined {
+  const zsVorgelagert = getVorgelagerteSchleifenimpedanz(verteiler, betriebswarm);
 
   // Wenn keine Leitungsdaten vorhanden, nur vorgelagerte Impedanz zurückgeben
   if (!verbraucher.leitungslaenge || !verbraucher.leitungsquerschnitt) {
     return zsVorgelagert * 1000; // in mΩ
   }
 
-  // Leitungsimpedanz vom Verbraucher zur Schutzeinrichtung
-  const rho = RHO_KUPFER;
-  const leitungsImpedanz = (2 * rho * verbraucher.leitungslaenge) / verbraucher.leitungsquerschnitt;
+  // Leitungsimpedanz vom Verbraucher zur Schutzeinrichtung (Hin- und Rückleiter)
+  const kabeltyp = getKabeltyp(verbraucher.kabeltypId);
+  const material = kabeltyp?.leitermaterial ?? verbraucher.leitermaterial;
+  const leitertemperatur = betriebswarm ? ISOLIERUNG_GRENZTEMPERATUR[kabeltyp?.isolierung ?? 'PVC'] : 20;
+  const leitungsImpedanz = 2 * verbraucher.leitungslaenge *
+    berechneWiderstandsbelag(material, verbraucher.leitungsquerschnitt, leitertemperatur);
 
-  // Finde zugewiesene Schutzeinrichtung
-  const schutzeinrichtung = verteiler.komponenten.find(
-    (k) => k.id === verbraucher.zugewieseneKomponente
-  );
-
-  if (!schutzeinrichtung) {
-    // Nur vorgelagerte Impedanz + Leitungsimpedanz
-    return (zsVorgelagert + leitungsImpedanz) * 1000; // in mΩ
-  }
-
-  if (!versorgungsklemme) {
-    return (zsVorgelagert + leitungsImpedanz) * 1000; // in mΩ
-  }
-
-  // Finde alle Leitungen von Versorgung zur Schutzeinrichtung
-  const zuleitungen = findLeitungspfad(verteiler, versorgungsklemme.id, schutzeinrichtung.id);
-
-  let zuleitungsImpedanz = 0;
-  for (const wire of zuleitungen) {
-    const rhoWire = wire.material === 'Cu' ? RHO_KUPFER : RHO_ALUMINIUM;
-    zuleitungsImpedanz += (2 * rhoWire * wire.laenge) / wire.querschnitt;
-  }
+  // Leitungen von der Versorgung zur zugewiesenen Schutzeinrichtung
+  const zuleitungsImpedanz = verbraucher.zugewieseneKomponente
+    ? berechneZuleitungsImpedanz(verteiler, verbraucher.zugewieseneKomponente, betriebswarm)
+    : 0;
 
   // Gesamtimpedanz: Vorgelagert + Zuleitungen + Verbraucherleitung
   const zsGesamt = zsVorgelagert + zuleitungsImpedanz + leitungsImpedanz;
@@ -1655,7 +2098,9 @@ function berechneSchleifenimpedanzFuerVerbraucher(
 function erstelleStromkreisErgebnisse(
   verteiler: Verteiler,
   alleErrors: ValidationError[],
-  alleWarnings: ValidationError[]
+  alleWarnings: ValidationError[],
+  kurzschlussWerte: Map<string, KurzschlussWerte>,
+  vorSpannungsfallProzent: number
 ): StromkreisResult[] {
   const stromkreise: StromkreisResult[] = [];
 
@@ -1665,17 +2110,20 @@ function erstelleStromkreisErgebnisse(
     const effectivePhasen = getEffectivePhasen(verteiler, verbraucher);
     const strom = berechneVerbraucherStrom(leistung, verbraucher.spannung, effectivePhasen);
 
-    // Spannungsfall berechnen (wenn Leitungsdaten vorhanden)
-    let spannungsfall: number | undefined;
-    if (verbraucher.leitungslaenge && verbraucher.leitungsquerschnitt) {
-      const rho = RHO_KUPFER;
-      const widerstand = (2 * rho * verbraucher.leitungslaenge) / verbraucher.leitungsquerschnitt;
-      const spannungsfallVolt = widerstand * strom;
-      spannungsfall = (spannungsfallVolt / verbraucher.spannung) * 100;
-    }
+    // Spannungsfall vom Netzanschluss bis zum Verbraucher (wenn Leitungsdaten vorhanden)
+    const spannungsfallVerteiler = berechneSpannungsfallProzent(verteiler, verbraucher);
+    const spannungsfall = spannungsfallVerteiler !== undefined
+      ? vorSpannungsfallProzent + spannungsfallVerteiler
+      : undefined;
+
+    // Schleifenimpedanz berechnen (betriebswarm, vergleichbar mit schleifenimpedanzMax)
+    const schleifenimpedanz = berechneSchleifenimpedanzFuerVerbraucher(verteiler, verbraucher, true);
+    const grenzwert = berechneSchleifenimpedanzGrenzwert(verteiler, verbraucher);
 
-    // Schleifenimpedanz berechnen
-    const schleifenimpedanz = berechneSchleifenimpedanzFuerVerbraucher(verteiler, verbraucher);
+    // Kurzschlussströme an der zugewiesenen Schutzeinrichtung
+    const kurzschluss = verbraucher.zugewieseneKomponente
+      ? kurzschlussWerte.get(verbraucher.zugewieseneKomponente)
+      : undefined;
 
     // Finde Fehler und Warnungen für diesen Verbraucher
     const fehler = alleErrors.filter(e => e.komponenteId === verbraucher.id);
@@ -1697,6 +2145,10 @@ function erstelleStromkreisErgebnisse(
         leitungslaenge: verbraucher.leitungslaenge,
         querschnitt: verbraucher.leitungsquerschnitt,
         schleifenimpedanz,
+        // TT: berechnete Schleifenimpedanz ohne Erder → RA vom Grenzwert abziehen
+        schleifenimpedanzMax: grenzwert ? Math.max(0, grenzwert.zsMax - (grenzwert.erderwiderstand ?? 0)) * 1000 : undefined,
+        kurzschlussstrom3p: kurzschluss?.ik3,
+        kurzschlussstrom1p: kurzschluss?.ik1,
       },
       fehler,
       warnungen,
@@ -1870,36 +2322,32 @@ function checkVerbraucherUeberstrom(verteiler: Verteiler): ValidationError[] {
 // 19. KABELBELASTBARKEIT PRÜFEN
 // ==========================================
 
+/**
+ * Prüft die Überlastschutz-Bedingungen nach ÖVE E 8101 Teil 4-43 für jede Verbraucherleitung:
+ *
+ * - In ≤ Iz
+ * - I2 ≤ 1,45 · Iz (I2 = großer Prüfstrom der Schutzeinrichtung)
+ *
+ * Iz ist die mit Umgebungstemperatur, Häufung und Bodenwärmewiderstand reduzierte
+ * Strombelastbarkeit. Ib ≤ In wird in checkVerbraucherUeberstrom geprüft.
+ */
 function checkKabelbelastbarkeit(verteiler: Verteiler): { errors: ValidationError[]; warnings: ValidationError[] } {
   const errors: ValidationError[] = [];
   const warnings: ValidationError[] = [];
 
-  // Prüfe jeden Verbraucher
   for (const verbraucher of verteiler.verbraucher) {
     // Überspringe Verbraucher ohne Zuweisung oder ohne Leitungsdaten
     if (!verbraucher.zugewieseneKomponente) continue;
     if (!verbraucher.leitungsquerschnitt || !verbraucher.verlegeart || !verbraucher.leitermaterial) continue;
 
-    // Finde die zugewiesene Komponente
     const zugewieseneKomponente = verteiler.komponenten.find(
       (k) => k.id === verbraucher.zugewieseneKomponente
     );
-
     if (!zugewieseneKomponente) continue;
 
-    // Bestimme die Anzahl der belasteten Adern
-    const anzahlAdern = verbraucher.spannung === 400 ? 3 : 2;
-
-    // Hole die Strombelastbarkeit aus der Tabelle
-    const strombelastbarkeit = getStrombelastbarkeit(
-      verbraucher.leitungsquerschnitt,
-      verbraucher.leitermaterial,
-      verbraucher.verlegeart,
-      anzahlAdern
-    );
+    const belastbarkeit = berechneKabelbelastbarkeit(verbraucher);
 
-    // Wenn keine Daten vorhanden, überspringe
-    if (strombelastbarkeit === null) {
+    if (!belastbarkeit) {
       warnings.push({
         id: uuidv4(),
         typ: 'kabelueberlastung',
@@ -1912,85 +2360,965 @@ function checkKabelbelastbarkeit(verteiler: Verteiler): { errors: ValidationErro
       continue;
     }
 
-    // Bestimme den Bemessungsstrom der Schutzeinrichtung
-    let bemessungsStrom = 0;
-    let schutzeinrichtungsTyp = '';
-    let istSchmelzsicherung = false;
-
-    // Prüfe verschiedene Schutzeinrichtungstypen
-    if (zugewieseneKomponente.type === 'ls-schalter') {
-      bemessungsStrom = (zugewieseneKomponente as LSSchalterParams).bemessungsStrom;
-      schutzeinrichtungsTyp = 'LS-Schalter';
-    } else if (zugewieseneKomponente.type === 'fi-ls-kombi') {
-      bemessungsStrom = (zugewieseneKomponente as FILSKombiParams).bemessungsStrom;
-      schutzeinrichtungsTyp = 'FI/LS-Kombination';
-    } else if (zugewieseneKomponente.type === 'nh-sicherung') {
-      bemessungsStrom = (zugewieseneKomponente as NHSicherungParams).bemessungsStrom;
-      schutzeinrichtungsTyp = 'NH-Sicherung';
-      istSchmelzsicherung = true;
-    } else if (zugewieseneKomponente.type === 'neozed-sicherung') {
-      bemessungsStrom = (zugewieseneKomponente as NeozedSicherungParams).bemessungsStrom;
-      schutzeinrichtungsTyp = 'Neozed-Sicherung';
-      istSchmelzsicherung = true;
-    } else if (zugewieseneKomponente.type === 'schraub-sicherung') {
-      bemessungsStrom = (zugewieseneKomponente as SchraubSicherungParams).bemessungsStrom;
-      schutzeinrichtungsTyp = 'Schraub-Sicherung';
-      istSchmelzsicherung = true;
-    } else if (zugewieseneKomponente.type === 'abgangsklemme') {
-      // Bei Abgangsklemmen: Suche vorgeschaltete Schutzeinrichtung
-      const vorgeschalteteSchutzeinrichtungen = findSeriesProtection(verteiler, zugewieseneKomponente.id);
-
-      for (const schutz of vorgeschalteteSchutzeinrichtungen) {
-        if (schutz.type === 'ls-schalter') {
-          bemessungsStrom = (schutz as LSSchalterParams).bemessungsStrom;
-          schutzeinrichtungsTyp = 'vorgeschalteter LS-Schalter';
-          break;
-        } else if (schutz.type === 'fi-ls-kombi') {
-          bemessungsStrom = (schutz as FILSKombiParams).bemessungsStrom;
-          schutzeinrichtungsTyp = 'vorgeschaltete FI/LS-Kombination';
-          break;
-        } else if (schutz.type === 'nh-sicherung') {
-          bemessungsStrom = (schutz as NHSicherungParams).bemessungsStrom;
-          schutzeinrichtungsTyp = 'vorgeschaltete NH-Sicherung';
-          istSchmelzsicherung = true;
-          break;
-        } else if (schutz.type === 'neozed-sicherung') {
-          bemessungsStrom = (schutz as NeozedSicherungParams).bemessungsStrom;
-          schutzeinrichtungsTyp = 'vorgeschaltete Neozed-Sicherung';
-          istSchmelzsicherung = true;
-          break;
-        } else if (schutz.type === 'schraub-sicherung') {
-          bemessungsStrom = (schutz as SchraubSicherungParams).bemessungsStrom;
-          schutzeinrichtungsTyp = 'vorgeschaltete Schraub-Sicherung';
-          istSchmelzsicherung = true;
-          break;
-        }
+    // Nächstgelegene Überstrom-Schutzeinrichtung (zugewiesene Komponente oder vorgeschaltet)
+    const schutz = findeSchutzeinrichtungenAufPfad(verteiler, zugewieseneKomponente.id)[0];
+    if (!schutz) continue;
+
+    const kennlinie = getAusloeseKennlinie(schutz);
+    if (!kennlinie || kennlinie.bemessungsStrom <= 0) continue;
+
+    const iz = belastbarkeit.strombelastbarkeit;
+    const inNenn = kennlinie.bemessungsStrom;
+    const i2 = getGrosserPruefstrom(kennlinie);
+    const bezeichnung = `${schutz.name} (${getKennlinienBezeichnung(kennlinie)})`;
+
+    const gesamtfaktor = belastbarkeit.temperaturfaktor * belastbarkeit.haeufungsfaktor * belastbarkeit.bodenfaktor;
+    const izText = gesamtfaktor === 1
+      ? `Iz = ${iz.toFixed(1)}A`
+      : `Iz = ${belastbarkeit.tabellenwert}A × ${gesamtfaktor.toFixed(2)} = ${iz.toFixed(1)}A`;
+    const isolierungText = belastbarkeit.isolierung === 'PVC' ? '' : ` ${belastbarkeit.isolierung}`;
+    const leitungText = `${verbraucher.leitungsquerschnitt}mm² ${verbraucher.leitermaterial}${isolierungText} (${formatVerlegebedingungen(verbraucher)})`;
+
+    // Teilbereichs-Sicherungen (aM/aR) bieten keinen Überlastschutz
+    if (i2 === null) {
+      const betriebsstrom = berechneVerbraucherStrom(
+        verbraucher.leistung * verbraucher.gleichzeitigkeitsfaktor,
+        verbraucher.spannung,
+        getEffectivePhasen(verteiler, verbraucher)
+      );
+
+      if (betriebsstrom > iz) {
+        errors.push({
+          id: uuidv4(),
+          typ: 'kabelueberlastung',
+          komponenteId: verbraucher.id,
+          komponenteName: verbraucher.name,
+          beschreibung: `Betriebsstrom (${betriebsstrom.toFixed(1)}A) > Strombelastbarkeit der Leitung ${leitungText}: ${izText}`,
+          hinweis: `${bezeichnung} bietet nur Kurzschlussschutz. Die Leitung muss daher mindestens für den Betriebsstrom Ib bemessen sein. Wählen Sie einen größeren Querschnitt.`,
+          schweregrad: 'fehler',
+        });
+      } else {
+        warnings.push({
+          id: uuidv4(),
+          typ: 'kabelueberlastung',
+          komponenteId: verbraucher.id,
+          komponenteName: verbraucher.name,
+          beschreibung: `Kein Überlastschutz für die Leitung durch ${bezeichnung}`,
+          hinweis: `Teilbereichs-Sicherungen (aM/aR) schützen die Leitung nicht gegen Überlast. Stellen Sie einen separaten Überlastschutz sicher (z.B. Motorschutzschalter).`,
+          schweregrad: 'warnung',
+        });
       }
+      continue;
     }
 
-    // Wenn kein Bemessungsstrom gefunden, überspringe
-    if (bemessungsStrom === 0) continue;
+    const verletzteBedingungen: string[] = [];
+    if (inNenn > iz) {
+      verletzteBedingungen.push(`In = ${inNenn}A > Iz = ${iz.toFixed(1)}A`);
+    }
+    if (i2 > 1.45 * iz) {
+      verletzteBedingungen.push(`I2 = ${i2.toFixed(1)}A > 1,45 · Iz = ${(1.45 * iz).toFixed(1)}A`);
+    }
 
-    // Wende die Schaltstromregel an
-    // Für LS: Strombelastbarkeit × 1,45 > Nennstrom × 1,45  =>  Strombelastbarkeit > Nennstrom
-    // Für Schmelzsicherungen: Strombelastbarkeit × 1,45 > Nennstrom × 1,6  =>  Strombelastbarkeit > Nennstrom × 1,103
+    if (verletzteBedingungen.length > 0) {
+      errors.push({
+        id: uuidv4(),
+        typ: 'kabelueberlastung',
+        komponenteId: verbraucher.id,
+        komponenteName: verbraucher.name,
+        beschreibung: `Kabelquerschnitt zu gering für ${bezeichnung}: ${verletzteBedingungen.join(', ')}`,
+        hinweis: `Leitung ${leitungText}, ${izText}. Gemäß ÖVE E 8101 muss gelten: Ib ≤ In ≤ Iz und I2 ≤ 1,45 · Iz. Wählen Sie einen größeren Kabelquerschnitt, eine kleinere Schutzeinrichtung oder günstigere Verlegebedingungen (Verlegeart, weniger Häufung).`,
+        schweregrad: 'fehler',
+      });
+    }
+  }
+
+  return { errors, warnings };
+}
+
+// ==========================================
+// SCHALTVERMÖGEN (KURZSCHLUSSFESTIGKEIT)
+// ==========================================
+
+/**
+ * Prüft ob das Bemessungs-Kurzschlussausschaltvermögen jeder Schutzeinrichtung
+ * mindestens dem größten Kurzschlussstrom an ihrem Einbauort entspricht.
+ *
+ * Ein- und zweipolige Geräte werden mit Ik1, drei- und vierpolige mit max(Ik3, Ik1) verglichen.
+ */
+function checkSchaltvermoegen(
+  verteiler: Verteiler,
+  kurzschlussWerte: Map<string, KurzschlussWerte>
+): ValidationError[] {
+  const errors: ValidationError[] = [];
 
-    const erforderlicheStrombelastbarkeit = istSchmelzsicherung
-      ? bemessungsStrom * (1.6 / 1.45) // ≈ 1.103
-      : bemessungsStrom;
+  for (const komponente of verteiler.komponenten) {
+    const schaltvermoegen = getSchaltvermoegen(komponente);
+    const werte = kurzschlussWerte.get(komponente.id);
+    if (schaltvermoegen === null || !werte) continue;
 
-    if (strombelastbarkeit < erforderlicheStrombelastbarkeit) {
-      const fehlerText = istSchmelzsicherung
-        ? `Kabelquerschnitt zu gering: ${verbraucher.leitungsquerschnitt}mm² trägt nur ${strombelastbarkeit}A (${verbraucher.verlegeart}), benötigt aber ${erforderlicheStrombelastbarkeit.toFixed(1)}A für ${bemessungsStrom}A ${schutzeinrichtungsTyp} (Schaltstromregel: Iz × 1,45 > In × 1,6)`
-        : `Kabelquerschnitt zu gering: ${verbraucher.leitungsquerschnitt}mm² trägt nur ${strombelastbarkeit}A (${verbraucher.verlegeart}), benötigt aber mindestens ${erforderlicheStrombelastbarkeit}A für ${bemessungsStrom}A ${schutzeinrichtungsTyp} (Schaltstromregel: Iz × 1,45 > In × 1,45)`;
+    const polzahl = 'polzahl' in komponente ? komponente.polzahl : 3;
+    const ikMax = polzahl >= 3 ? Math.max(werte.ik3, werte.ik1) : werte.ik1;
 
+    if (ikMax > schaltvermoegen) {
       errors.push({
         id: uuidv4(),
-        typ: 'kabelueberlastung',
+        typ: 'falsche-dimensionierung',
+        komponenteId: komponente.id,
+        komponenteName: komponente.name,
+        beschreibung: `Schaltvermögen zu gering: ${schaltvermoegen}kA < Ik max ${ikMax.toFixed(2)}kA am Einbauort`,
+        hinweis: `Schutzeinrichtung mit mindestens ${Math.ceil(ikMax)}kA Schaltvermögen verwenden oder eine vorgeschaltete Sicherung als Back-up-Schutz vorsehen.`,
+        schweregrad: 'kritisch',
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Prüft Phasenschienen (Kammschienen):
+ * - Strom je Leiter ≤ Bemessungsstrom der Schiene (Einspeisestift trägt den Summenstrom)
+ * - Eingänge, die nicht zur Leiterfolge passen (N-Klemme auf Außenleiter-Stift oder umgekehrt)
+ */
+function checkPhasenschienen(verteiler: Verteiler): { errors: ValidationError[]; warnings: ValidationError[] } {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationError[] = [];
+
+  const phasenschienen = verteiler.komponenten.filter(
+    (k): k is PhasenschieneParams => k.type === 'phasenschiene'
+  );
+  if (phasenschienen.length === 0) return { errors, warnings };
+
+  const { currents } = calculateWireCurrents(verteiler);
+  const schienenLeiter = getPhasenschienenVerbindungen(verteiler);
+
+  for (const schiene of phasenschienen) {
+    const anschluesse = getPhasenschienenAnschluesse(verteiler, schiene);
+
+    if (anschluesse.length === 0) {
+      warnings.push({
+        id: uuidv4(),
+        typ: 'fehlende-verbindung',
+        komponenteId: schiene.id,
+        komponenteName: schiene.name,
+        beschreibung: 'Phasenschiene kontaktiert keine Geräte',
+        hinweis: 'Phasenschiene über die Eingänge der zu verbindenden Geräte legen.',
+        schweregrad: 'warnung',
+      });
+    }
+
+    for (const anschluss of anschluesse.filter((a) => !a.passend)) {
+      const komponente = verteiler.komponenten.find((k) => k.id === anschluss.komponenteId);
+      warnings.push({
+        id: uuidv4(),
+        typ: 'fehlende-verbindung',
+        komponenteId: anschluss.komponenteId,
+        komponenteName: komponente?.name ?? anschluss.komponenteId,
+        beschreibung: `${anschluss.terminal} liegt auf dem ${anschluss.phase}-Stift von "${schiene.name}" und wird nicht verbunden`,
+        hinweis: 'Phasenschiene mit passender Leiterfolge (z.B. 1P+N) verwenden oder das Gerät versetzen.',
+        schweregrad: 'warnung',
+      });
+    }
+
+    // Größter Strom je Leiter
+    const stromJeLeiter = new Map<Phase, number>();
+    for (const wire of schienenLeiter) {
+      if (!istPhasenschienenVerbindung(wire, schiene.id)) continue;
+      const strom = currents.get(wire.id) ?? 0;
+      stromJeLeiter.set(wire.phase, Math.max(stromJeLeiter.get(wire.phase) ?? 0, strom));
+    }
+
+    for (const [leiter, strom] of stromJeLeiter) {
+      if (strom <= schiene.bemessungsStrom) continue;
+      errors.push({
+        id: uuidv4(),
+        typ: 'ueberlast',
+        komponenteId: schiene.id,
+        komponenteName: schiene.name,
+        beschreibung: `Phasenschiene überlastet: ${leiter} ${strom.toFixed(1)}A > ${schiene.bemessungsStrom}A Bemessungsstrom`,
+        hinweis: 'Phasenschiene mit höherem Bemessungsstrom verwenden oder die Abgänge auf mehrere Schienen aufteilen.',
+        schweregrad: 'fehler',
+      });
+    }
+  }
+
+  return { errors, warnings };
+}
+
+// ==========================================
+// 22. KABELTYPEN PRÜFEN
+// ==========================================
+
+/**
+ * Prüft die Leitungen mit hinterlegtem Kabeltyp:
+ * - Aderzahl passend zum Verbraucher (L + N + PE: 3 bzw. 5 Adern)
+ * - Querschnitt und Leitermaterial stimmen mit dem Kabeltyp überein
+ * - Verlegeart zulässig (Einzeladern nur im Rohr, NYM nicht im Erdreich)
+ */
+function checkKabeltyp(verteiler: Verteiler): { errors: ValidationError[]; warnings: ValidationError[] } {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationError[] = [];
+
+  for (const verbraucher of verteiler.verbraucher) {
+    const kabeltyp = getKabeltyp(verbraucher.kabeltypId);
+    if (!kabeltyp) continue;
+
+    const fehler = (beschreibung: string, hinweis: string, schweregrad: 'warnung' | 'fehler') => {
+      (schweregrad === 'fehler' ? errors : warnings).push({
+        id: uuidv4(),
+        typ: 'falsche-dimensionierung',
+        komponenteId: verbraucher.id,
+        komponenteName: verbraucher.name,
+        beschreibung,
+        hinweis,
+        schweregrad,
+      });
+    };
+
+    const benoetigt = getBenoetigteAdern(verbraucher);
+    if (kabeltyp.adern > 1 && kabeltyp.adern < benoetigt) {
+      fehler(
+        `${kabeltyp.bezeichnung} hat ${kabeltyp.adern} Adern, ${verbraucher.phasen.length}-phasiger Verbraucher benötigt ${benoetigt} Adern`,
+        `Außenleiter, N und PE müssen in einer Leitung geführt werden. Kabeltyp mit ${benoetigt} Adern wählen.`,
+        'fehler'
+      );
+    } else if (kabeltyp.adern > benoetigt) {
+      fehler(
+        `${kabeltyp.bezeichnung} hat ${kabeltyp.adern - benoetigt} ungenutzte Adern`,
+        `Für den ${verbraucher.phasen.length}-phasigen Verbraucher genügt eine ${benoetigt}-adrige Leitung. Ungenutzte Adern beidseitig isolieren.`,
+        'warnung'
+      );
+    }
+
+    if (verbraucher.leitungsquerschnitt !== undefined && verbraucher.leitungsquerschnitt !== kabeltyp.querschnitt) {
+      fehler(
+        `Querschnitt ${verbraucher.leitungsquerschnitt}mm² weicht vom Kabeltyp ${kabeltyp.bezeichnung} ab`,
+        'Querschnitt oder Kabeltyp korrigieren – die Berechnungen verwenden den eingetragenen Querschnitt.',
+        'warnung'
+      );
+    }
+    if (verbraucher.leitermaterial && verbraucher.leitermaterial !== kabeltyp.leitermaterial) {
+      fehler(
+        `Leitermaterial ${verbraucher.leitermaterial} weicht vom Kabeltyp ${kabeltyp.bezeichnung} (${kabeltyp.leitermaterial}) ab`,
+        'Leitermaterial oder Kabeltyp korrigieren.',
+        'warnung'
+      );
+    }
+
+    if (kabeltyp.adern === 1 && verbraucher.verlegeart && !['A1', 'B1'].includes(verbraucher.verlegeart)) {
+      fehler(
+        `Einzeladern ${kabeltyp.bezeichnung} in Verlegeart ${verbraucher.verlegeart}`,
+        'Aderleitungen dürfen nur in Elektroinstallationsrohren oder -kanälen verlegt werden (Verlegeart A1/B1).',
+        'warnung'
+      );
+    }
+    if (kabeltyp.bauart === 'NYM-J' && (verbraucher.verlegeart === 'D1' || verbraucher.verlegeart === 'D2')) {
+      fehler(
+        `${kabeltyp.bezeichnung} im Erdreich verlegt`,
+        'Mantelleitungen NYM sind für die Verlegung im Erdreich nicht zugelassen. Erdkabel (z.B. NYY-J) verwenden.',
+        'warnung'
+      );
+    }
+  }
+
+  return { errors, warnings };
+}
+
+// ==========================================
+// 23. TT-SYSTEM (ÖVE E 8101 Teil 4-41, 411.5)
+// ==========================================
+
+function getVersorgungsklemme(verteiler: Verteiler): VersorgungsklemmeParams | undefined {
+  return verteiler.komponenten.find((k): k is VersorgungsklemmeParams => k.type === 'versorgungsklemme');
+}
+
+/**
+ * Prüft ob der Verteiler aus einem TT-System gespeist wird
+ */
+export function istTTSystem(verteiler: Verteiler): boolean {
+  return getVersorgungsklemme(verteiler)?.netzsystem === 'TT';
+}
+
+/**
+ * Prüft den Fehlerschutz im TT-System:
+ * - Erderwiderstand RA muss angegeben sein
+ * - Für jeden FI gilt RA · IΔn ≤ 50 V
+ * - Jeder Endstromkreis muss durch einen FI geschützt sein
+ *   (Zuleitungen zu Unterverteilern werden dort geprüft)
+ */
+function checkTTSystem(verteiler: Verteiler): { errors: ValidationError[]; warnings: ValidationError[] } {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationError[] = [];
+  const versorgungsklemme = getVersorgungsklemme(verteiler);
+  if (!versorgungsklemme) return { errors, warnings };
+
+  const ra = versorgungsklemme.erderwiderstand;
+  if (!ra) {
+    warnings.push({
+      id: uuidv4(),
+      typ: 'erdung',
+      komponenteId: versorgungsklemme.id,
+      komponenteName: versorgungsklemme.name,
+      beschreibung: 'TT-System ohne Erderwiderstand RA',
+      hinweis: 'Geben Sie den gemessenen Widerstand des Anlagenerders (inkl. Schutzleiter) an der Versorgungsklemme an, damit die Bedingung RA · IΔn ≤ 50 V geprüft werden kann.',
+      schweregrad: 'warnung',
+    });
+  } else {
+    for (const fi of verteiler.komponenten) {
+      if (fi.type !== 'fi-schalter' && fi.type !== 'fi-ls-kombi') continue;
+      const beruehrungsspannung = ra * (fi.bemessungsFehlerstrom / 1000);
+      if (beruehrungsspannung <= BERUEHRUNGSSPANNUNG_MAX) continue;
+
+      errors.push({
+        id: uuidv4(),
+        typ: 'erdung',
+        komponenteId: fi.id,
+        komponenteName: fi.name,
+        beschreibung: `Berührungsspannung zu hoch: RA · IΔn = ${ra}Ω × ${fi.bemessungsFehlerstrom}mA = ${beruehrungsspannung.toFixed(0)}V > ${BERUEHRUNGSSPANNUNG_MAX}V`,
+        hinweis: `Für IΔn = ${fi.bemessungsFehlerstrom}mA darf der Erderwiderstand höchstens ${(BERUEHRUNGSSPANNUNG_MAX / (fi.bemessungsFehlerstrom / 1000)).toFixed(0)}Ω betragen. Erder verbessern oder FI mit kleinerem Bemessungsfehlerstrom verwenden.`,
+        schweregrad: 'kritisch',
+      });
+    }
+  }
+
+  for (const verbraucher of verteiler.verbraucher) {
+    if (!verbraucher.zugewieseneKomponente || istZuleitungsVerbraucher(verbraucher.id)) continue;
+    if (findeFIsAufPfad(verteiler, verbraucher.zugewieseneKomponente).length > 0) continue;
+
+    errors.push({
+      id: uuidv4(),
+      typ: 'fehlerstrom',
+      komponenteId: verbraucher.id,
+      komponenteName: verbraucher.name,
+      beschreibung: 'Endstromkreis im TT-System ohne FI-Schutz',
+      hinweis: 'Im TT-System reicht der Fehlerstrom über den Erder in der Regel nicht zur Auslösung von LS-Schaltern oder Sicherungen. Jeder Endstromkreis muss durch einen FI-Schalter geschützt werden.',
+      schweregrad: 'kritisch',
+    });
+  }
+
+  return { errors, warnings };
+}
+
+/**
+ * Abschaltbedingung im TT-System für einen Verbraucher.
+ * Der Fehlerstrom fließt über den Anlagenerder: Ia = c_min · U0 / (RA + Zs).
+ * Die Abschaltzeit ist die kürzeste aller Schutzeinrichtungen auf dem Pfad (inkl. FI).
+ *
+ * @returns Fehler bei zu langer Abschaltzeit, null wenn erfüllt oder RA fehlt
+ */
+function checkTTAbschaltung(
+  verteiler: Verteiler,
+  verbraucher: Verbraucher,
+  startKomponenteId: string,
+  zsOhm: number
+): ValidationError | null {
+  const ra = getVersorgungsklemme(verteiler)?.erderwiderstand;
+  if (!ra) return null;
+
+  const fehlerstrom = (C_MIN * U0) / (ra + zsOhm);
+  const schutzeinrichtungen = findeSchutzeinrichtungenAufPfad(verteiler, startKomponenteId);
+  const fis = findeFIsAufPfad(verteiler, startKomponenteId);
+  if (fis.length === 0 && schutzeinrichtungen.length === 0) return null;
+
+  const abschaltzeit = Math.min(
+    ...schutzeinrichtungen.map((s) => {
+      const kennlinie = getAusloeseKennlinie(s);
+      return kennlinie ? berechneAbschaltzeit(kennlinie, fehlerstrom) : Infinity;
+    }),
+    ...fis.map((fi) => berechneFIAbschaltzeit(fi, fehlerstrom))
+  );
+
+  const istEndstromkreis = !istZuleitungsVerbraucher(verbraucher.id) &&
+    (schutzeinrichtungen[0]?.bemessungsStrom ?? 0) <= ENDSTROMKREIS_MAX_STROM;
+  const maxAbschaltzeit = getMaxAbschaltzeit('TT', istEndstromkreis);
+  if (abschaltzeit <= maxAbschaltzeit) return null;
+
+  return {
+    id: uuidv4(),
+    typ: 'schleifenimpedanz',
+    komponenteId: verbraucher.id,
+    komponenteName: verbraucher.name,
+    beschreibung: `💡 Abschaltzeit zu lang (TT): ${formatAbschaltzeit(abschaltzeit)} > ${maxAbschaltzeit}s (RA=${ra}Ω, Ia=${fehlerstrom.toFixed(2)}A)`,
+    hinweis: fis.length > 0
+      ? `Der Fehlerstrom über den Erder reicht nicht für die Auslösung von ${fis[0].name} (IΔn ${fis[0].bemessungsFehlerstrom}mA${fis[0].verzoegerung === 'S' ? ', selektiv' : ''}) innerhalb ${maxAbschaltzeit}s. Erderwiderstand verringern oder FI mit kleinerem IΔn verwenden.`
+      : 'Ohne FI-Schalter ist die Abschaltung im TT-System über den Erder nicht erreichbar. FI-Schalter vorsehen.',
+    schweregrad: 'kritisch',
+  };
+}
+
+// ==========================================
+// 24. IT-SYSTEM (ÖVE E 8101 Teil 4-41, 411.6)
+// ==========================================
+
+/**
+ * Prüft ob der Verteiler aus einem IT-System gespeist wird
+ */
+export function istITSystem(verteiler: Verteiler): boolean {
+  return getVersorgungsklemme(verteiler)?.netzsystem === 'IT';
+}
+
+/**
+ * Wird der Neutralleiter verteilt? Einphasige Verbraucher benötigen den N,
+ * Drehstromverbraucher können ohne N angeschlossen werden.
+ */
+export function istNeutralleiterVerteilt(verteiler: Verteiler): boolean {
+  return verteiler.verbraucher.some((v) => v.phasen.length < 3);
+}
+
+/**
+ * Treibende Spannung und Schleifenfaktor für den Fehlerstrom: Ia = c_min · spannung / (faktor · Zs)
+ *
+ * - TN: Zs ≤ U0 / Ia
+ * - IT, zweiter Fehler bei gemeinsam geerdeten Körpern (411.6.4):
+ *   ohne Neutralleiter Zs ≤ U / (2 · Ia), mit Neutralleiter Z's ≤ U0 / (2 · Ia).
+ *   Der Fehlerstrom fließt über beide Fehlerstellen, daher die halbe Spannung je Schleife.
+ */
+export function getFehlerschleife(verteiler: Verteiler): { spannung: number; faktor: number; formel: 'Zs' | "Z's" } {
+  if (!istITSystem(verteiler)) return { spannung: U0, faktor: 1, formel: 'Zs' };
+  return istNeutralleiterVerteilt(verteiler)
+    ? { spannung: U0, faktor: 2, formel: "Z's" }
+    : { spannung: U_AUSSENLEITER, faktor: 2, formel: 'Zs' };
+}
+
+/**
+ * Schaltet die Schutzeinrichtung den Neutralleiter mit (Polzahl 1+N, 2 oder 4)?
+ */
+function schaltetNeutralleiter(schutz: ElektroComponent): boolean {
+  return getInternalTerminalConnections(schutz).some((c) => c.from === 'IN_N');
+}
+
+/**
+ * Prüft die Anforderungen des IT-Systems:
+ * - Eine Isolationsüberwachung (IMD) muss den ersten Fehler melden (411.6.3.1).
+ *   In Unterverteilern übernimmt das das IMD des speisenden Verteilers.
+ * - Das IMD muss an das Netz und an den PE angeschlossen sein.
+ * - Der Neutralleiter sollte nicht verteilt werden. Wird er verteilt, braucht jeder
+ *   Stromkreis eine Überstromerfassung im N, die alle aktiven Leiter abschaltet (431.2.2),
+ *   außer der Stromkreis ist durch einen FI geschützt.
+ *
+ * Die Abschaltbedingung beim zweiten Fehler prüft checkVerbraucherSchleifenimpedanz.
+ */
+function checkITSystem(verteiler: Verteiler): { errors: ValidationError[]; warnings: ValidationError[] } {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationError[] = [];
+  const versorgungsklemme = getVersorgungsklemme(verteiler);
+  if (!versorgungsklemme) return { errors, warnings };
+
+  const imds = verteiler.komponenten.filter(
+    (k): k is IsolationsueberwachungParams => k.type === 'isolationsueberwachung'
+  );
+
+  if (imds.length === 0 && !verteiler.einspeisung) {
+    errors.push({
+      id: uuidv4(),
+      typ: 'it-system',
+      komponenteId: versorgungsklemme.id,
+      komponenteName: versorgungsklemme.name,
+      beschreibung: 'IT-System ohne Isolationsüberwachung',
+      hinweis: 'Im IT-System muss der erste Isolationsfehler durch eine Isolationsüberwachungseinrichtung (IMD) gemeldet werden. Isolationswächter aus der Bibliothek einsetzen und zwischen Netz und PE anschließen.',
+      schweregrad: 'kritisch',
+    });
+  }
+
+  if (imds.length > 1) {
+    warnings.push({
+      id: uuidv4(),
+      typ: 'it-system',
+      komponenteId: imds[1].id,
+      komponenteName: imds[1].name,
+      beschreibung: `${imds.length} Isolationswächter im selben IT-System`,
+      hinweis: 'Mehrere Isolationswächter in einem galvanisch verbundenen Netz beeinflussen sich gegenseitig und messen falsch. Nur ein IMD je IT-System einsetzen.',
+      schweregrad: 'warnung',
+    });
+  }
+
+  // Inkl. Anschluss über eine Phasenschiene
+  const alleVerbindungen = getAlleVerbindungen(verteiler);
+  for (const imd of imds) {
+    const netzAngeschlossen = alleVerbindungen.some((w) =>
+      [w.von, w.nach].some((p) => p.componentId === imd.id && p.terminal.startsWith('IN_'))
+    );
+    if (!netzAngeschlossen || !hasConnectionToPE(verteiler, imd.id)) {
+      errors.push({
+        id: uuidv4(),
+        typ: 'it-system',
+        komponenteId: imd.id,
+        komponenteName: imd.name,
+        beschreibung: `Isolationswächter nicht angeschlossen (${!netzAngeschlossen ? 'Netz' : 'PE'})`,
+        hinweis: 'Der Isolationswächter misst zwischen den aktiven Leitern (L1/L2) und dem Schutzleiter. Beide Seiten müssen verdrahtet sein.',
+        schweregrad: 'fehler',
+      });
+    }
+
+    if (imd.vorwarnwert <= imd.ansprechwert) {
+      warnings.push({
+        id: uuidv4(),
+        typ: 'it-system',
+        komponenteId: imd.id,
+        komponenteName: imd.name,
+        beschreibung: `Vorwarnung ${imd.vorwarnwert}kΩ ≤ Alarm ${imd.ansprechwert}kΩ`,
+        hinweis: 'Die Vorwarnung soll bei einem höheren Isolationswiderstand ansprechen als der Alarm, damit ein sich anbahnender Fehler früh erkannt wird.',
+        schweregrad: 'warnung',
+      });
+    }
+  }
+
+  if (!istNeutralleiterVerteilt(verteiler)) return { errors, warnings };
+
+  warnings.push({
+    id: uuidv4(),
+    typ: 'it-system',
+    komponenteId: versorgungsklemme.id,
+    komponenteName: versorgungsklemme.name,
+    beschreibung: 'Neutralleiter im IT-System verteilt',
+    hinweis: 'Im IT-System wird empfohlen, den Neutralleiter nicht mitzuführen. Mit N gilt beim zweiten Fehler die strengere Bedingung Z\'s ≤ U0 / (2 · Ia), und der N muss in jedem Stromkreis überwacht werden.',
+    schweregrad: 'info',
+  });
+
+  for (const verbraucher of verteiler.verbraucher) {
+    if (!verbraucher.zugewieseneKomponente) continue;
+    const naechste = findeSchutzeinrichtungenAufPfad(verteiler, verbraucher.zugewieseneKomponente)[0];
+    if (!naechste || schaltetNeutralleiter(naechste)) continue;
+    if (findeFIsAufPfad(verteiler, verbraucher.zugewieseneKomponente).length > 0) continue;
+
+    errors.push({
+      id: uuidv4(),
+      typ: 'it-system',
+      komponenteId: verbraucher.id,
+      komponenteName: verbraucher.name,
+      beschreibung: `Neutralleiter ohne Überstromerfassung (${naechste.name} schaltet N nicht)`,
+      hinweis: 'Bei verteiltem Neutralleiter im IT-System muss jeder Stromkreis den N erfassen und alle aktiven Leiter einschließlich N abschalten. LS-Schalter 1+N bzw. 4-polig oder FI-Schalter vorsehen.',
+      schweregrad: 'fehler',
+    });
+  }
+
+  return { errors, warnings };
+}
+
+// ==========================================
+// 25. PEN-LEITER (TN-C / TN-C-S)
+// ==========================================
+
+/**
+ * Prüft PEN-Leiter und PEN-Aufteilung:
+ * - PEN nur im TN-C bzw. TN-C-S-System
+ * - PEN-Leitungen mindestens 10 mm² Cu bzw. 16 mm² Al
+ * - Im TN-C-S-System mit PEN-Einspeisung muss der PEN aufgeteilt werden
+ * - Nach der Aufteilung dürfen N und PE nicht wieder verbunden werden
+ */
+function checkPenLeiter(verteiler: Verteiler): { errors: ValidationError[]; warnings: ValidationError[] } {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationError[] = [];
+  const versorgungsklemme = getVersorgungsklemme(verteiler);
+  const netzsystem = versorgungsklemme?.netzsystem ?? 'TN-C-S';
+  const penErlaubt = netzsystem === 'TN-C' || netzsystem === 'TN-C-S';
+  const aufteilungen = verteiler.komponenten.filter((k) => k.type === 'pen-aufteilung');
+
+  if (versorgungsklemme?.penLeiter && !penErlaubt) {
+    errors.push({
+      id: uuidv4(),
+      typ: 'erdung',
+      komponenteId: versorgungsklemme.id,
+      komponenteName: versorgungsklemme.name,
+      beschreibung: `PEN-Einspeisung im ${netzsystem}-System`,
+      hinweis: 'Ein PEN-Leiter ist nur im TN-C- bzw. TN-C-S-System zulässig. Netzsystem prüfen oder die Einspeisung mit getrenntem N und PE ausführen.',
+      schweregrad: 'kritisch',
+    });
+  }
+
+  for (const wire of verteiler.verbindungen) {
+    if (wire.phase !== 'PEN') continue;
+    const minQuerschnitt = PEN_MIN_QUERSCHNITT[wire.material];
+    if (wire.querschnitt >= minQuerschnitt) continue;
+
+    const komponente = verteiler.komponenten.find((k) => k.id === wire.von.componentId);
+    errors.push({
+      id: uuidv4(),
+      typ: 'falsche-dimensionierung',
+      komponenteId: wire.von.componentId,
+      komponenteName: komponente?.name ?? wire.von.componentId,
+      beschreibung: `PEN-Leiter ${wire.querschnitt}mm² ${wire.material} < ${minQuerschnitt}mm²`,
+      hinweis: `Der PEN-Leiter muss mindestens ${PEN_MIN_QUERSCHNITT.Cu}mm² Cu bzw. ${PEN_MIN_QUERSCHNITT.Al}mm² Al haben. Bei kleineren Querschnitten N und PE getrennt führen (TN-S).`,
+      schweregrad: 'fehler',
+    });
+  }
+
+  if (versorgungsklemme?.penLeiter && netzsystem === 'TN-C-S' && aufteilungen.length === 0) {
+    warnings.push({
+      id: uuidv4(),
+      typ: 'erdung',
+      komponenteId: versorgungsklemme.id,
+      komponenteName: versorgungsklemme.name,
+      beschreibung: 'TN-C-S-Einspeisung mit PEN ohne PEN-Aufteilung',
+      hinweis: 'Im TN-C-S-System wird der PEN im Verteiler in N und PE aufgeteilt. PEN-Aufteilungsklemme einsetzen und N und PE danach getrennt weiterführen.',
+      schweregrad: 'warnung',
+    });
+  }
+
+  if (netzsystem === 'TN-C' && aufteilungen.length > 0) {
+    warnings.push({
+      id: uuidv4(),
+      typ: 'erdung',
+      komponenteId: aufteilungen[0].id,
+      komponenteName: aufteilungen[0].name,
+      beschreibung: 'PEN-Aufteilung im TN-C-System',
+      hinweis: 'Mit einer PEN-Aufteilung wird die Anlage zum TN-C-S-System. Netzsystem an der Versorgungsklemme anpassen.',
+      schweregrad: 'warnung',
+    });
+  }
+
+  for (const aufteilung of findePenWiederverbindungen(verteiler)) {
+    errors.push({
+      id: uuidv4(),
+      typ: 'erdung',
+      komponenteId: aufteilung.id,
+      komponenteName: aufteilung.name,
+      beschreibung: 'N und PE nach der PEN-Aufteilung wieder verbunden',
+      hinweis: 'Hinter dem Aufteilungspunkt dürfen Neutralleiter und Schutzleiter nicht mehr verbunden werden, sonst fließt Betriebsstrom über den PE und FI-Schalter lösen aus. Verbindung zwischen N- und PE-Klemmen entfernen.',
+      schweregrad: 'kritisch',
+    });
+  }
+
+  return { errors, warnings };
+}
+
+// ==========================================
+// 26. ÜBERSPANNUNGSSCHUTZ (ÖVE E 8101 Teil 5-53, 534)
+// ==========================================
+
+/** Mindestquerschnitt der PE-Anschlussleitung je SPD-Typ [mm² Cu] */
+const SPD_MIN_PE_QUERSCHNITT: Record<SPDKlasse, number> = {
+  'Typ 1': 16,
+  'Typ 1+2': 16,
+  'Typ 2': 6,
+  'Typ 3': 1.5,
+};
+
+/** Übliche größte Vorsicherung je SPD-Typ [A], falls keine Herstellerangabe */
+const SPD_MAX_VORSICHERUNG: Record<SPDKlasse, number> = {
+  'Typ 1': 315,
+  'Typ 1+2': 160,
+  'Typ 2': 125,
+  'Typ 3': 25,
+};
+
+/** Größte Gesamtlänge der Anschlussleitungen a + b [m] */
+const SPD_MAX_ANSCHLUSSLAENGE = 0.5;
+
+/**
+ * Mindest-Dauerspannung Uc des SPD zwischen Außenleiter und PE:
+ * TN 1,1 · U0, TT 1,5 · U0, IT Außenleiterspannung U
+ */
+function getSPDMinBemessungsSpannung(netzsystem: Netzsystem, spannung: number): number {
+  const u0 = spannung > U0 ? (spannung / U_AUSSENLEITER) * U0 : spannung;
+  if (netzsystem === 'IT') return Math.round(u0 * Math.sqrt(3));
+  if (netzsystem === 'TT') return Math.round(1.5 * u0);
+  return Math.round(1.1 * u0);
+}
+
+/**
+ * Liegt der SPD `vorgelagert` am selben oder einem vorgelagerten Punkt wie `nachgelagert`?
+ * Alle Komponenten zwischen Versorgung und vorgelagertem SPD müssen auch den
+ * nachgelagerten SPD speisen.
+ */
+function istSPDVorgelagert(
+  verteiler: Verteiler,
+  vorgelagert: UeberspannungsschutzParams,
+  nachgelagert: UeberspannungsschutzParams
+): boolean {
+  const pfadNachgelagert = new Set(findSeriesComponents(verteiler, nachgelagert.id).map((k) => k.id));
+  return findSeriesComponents(verteiler, vorgelagert.id).every((k) => pfadNachgelagert.has(k.id));
+}
+
+/**
+ * Prüft die Überspannungsschutzgeräte (SPD):
+ * - Typ 1 bzw. Typ 1+2 muss vor Typ 2 liegen, Typ 3 braucht einen vorgelagerten Typ 2
+ * - Uc muss zum Netzsystem und zur Nennspannung passen (nur AC)
+ * - PE-Anschluss mit ausreichendem Querschnitt (Typ 1: 16 mm², Typ 2: 6 mm² Cu)
+ * - Vorsicherung nicht größer als die zulässige Vorsicherung des SPD
+ * - Anschlussleitungen a + b möglichst ≤ 0,5 m
+ */
+function checkUeberspannungsschutz(verteiler: Verteiler): { errors: ValidationError[]; warnings: ValidationError[] } {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationError[] = [];
+  const spds = verteiler.komponenten.filter((k): k is UeberspannungsschutzParams => k.type === 'ueberspannungsschutz');
+  if (spds.length === 0) return { errors, warnings };
+
+  const versorgungsklemme = getVersorgungsklemme(verteiler);
+  const acSpds = spds.filter((spd) => spd.systemTyp === 'AC');
+
+  for (const spd of spds) {
+    const anschluesse = verteiler.verbindungen.filter(
+      (w) => w.von.componentId === spd.id || w.nach.componentId === spd.id
+    );
+    const istPEAnschluss = (w: Wire) =>
+      (w.von.componentId === spd.id && w.von.terminal === 'OUT_PE') ||
+      (w.nach.componentId === spd.id && w.nach.terminal === 'OUT_PE');
+    const peLeitungen = anschluesse.filter(istPEAnschluss);
+    const anschlussTerminal = (w: Wire) => (w.von.componentId === spd.id ? w.von.terminal : w.nach.terminal);
+    const zuleitungen = anschluesse.filter((w) => anschlussTerminal(w).startsWith('IN_'));
+    // V-Verdrahtung: Leiter über die Durchgangsklemmen weitergeführt, nur b zählt
+    const vVerdrahtung = anschluesse.some((w) => !istPEAnschluss(w) && anschlussTerminal(w).startsWith('OUT_'));
+
+    // Staffelung: Typ 1 bzw. Typ 1+2 vor Typ 2, Typ 2 vor Typ 3
+    if (spd.systemTyp === 'AC' && (spd.klasse === 'Typ 2' || spd.klasse === 'Typ 3')) {
+      const vorgelagerteKlassen: SPDKlasse[] = spd.klasse === 'Typ 2' ? ['Typ 1', 'Typ 1+2'] : ['Typ 2', 'Typ 1+2'];
+      const kandidaten = acSpds.filter((k) => k.id !== spd.id && vorgelagerteKlassen.includes(k.klasse));
+
+      if (spd.klasse === 'Typ 2') {
+        // Typ 2 ohne Blitzstromableiter ist zulässig – nur falsch gestaffelte Typ 1 melden
+        for (const typ1 of kandidaten.filter((k) => !istSPDVorgelagert(verteiler, k, spd))) {
+          warnings.push({
+            id: uuidv4(),
+            typ: 'ueberspannungsschutz',
+            komponenteId: typ1.id,
+            komponenteName: typ1.name,
+            beschreibung: `${typ1.klasse} liegt nicht vor ${spd.name} (Typ 2)`,
+            hinweis: 'Blitzstromableiter (Typ 1 bzw. Typ 1+2) gehören an den Einspeisepunkt vor die Überspannungsableiter Typ 2, damit der Blitzteilstrom nicht über nachgelagerte Geräte fließt.',
+            schweregrad: 'warnung',
+          });
+        }
+      } else if (!kandidaten.some((k) => istSPDVorgelagert(verteiler, k, spd))) {
+        warnings.push({
+          id: uuidv4(),
+          typ: 'ueberspannungsschutz',
+          komponenteId: spd.id,
+          komponenteName: spd.name,
+          beschreibung: 'Typ 3 ohne vorgelagerten Typ 2',
+          hinweis: 'Geräteschutz (Typ 3) ist nur in Verbindung mit einem vorgelagerten Überspannungsableiter Typ 2 bzw. Typ 1+2 wirksam.',
+          schweregrad: 'warnung',
+        });
+      }
+    }
+
+    // Bemessungsspannung Uc passend zu Netzsystem und Nennspannung
+    if (spd.systemTyp === 'AC' && versorgungsklemme) {
+      const minUc = getSPDMinBemessungsSpannung(versorgungsklemme.netzsystem, versorgungsklemme.spannung);
+      if (spd.bemessungsSpannung < minUc) {
+        errors.push({
+          id: uuidv4(),
+          typ: 'ueberspannungsschutz',
+          komponenteId: spd.id,
+          komponenteName: spd.name,
+          beschreibung: `Uc ${spd.bemessungsSpannung}V < ${minUc}V (${versorgungsklemme.netzsystem}, ${versorgungsklemme.spannung}V)`,
+          hinweis: `Die höchste Dauerspannung des SPD muss im ${versorgungsklemme.netzsystem}-System mindestens ${minUc}V betragen (TN: 1,1 · U0, TT: 1,5 · U0, IT: U), sonst wird der Ableiter im Betrieb überlastet.`,
+          schweregrad: 'fehler',
+        });
+      }
+    }
+
+    // PE-Anschluss
+    const minPEQuerschnitt = SPD_MIN_PE_QUERSCHNITT[spd.klasse];
+    if (!hasConnectionToPE(verteiler, spd.id)) {
+      errors.push({
+        id: uuidv4(),
+        typ: 'erdung',
+        komponenteId: spd.id,
+        komponenteName: spd.name,
+        beschreibung: 'SPD ohne PE-Anschluss',
+        hinweis: 'Der Überspannungsschutz leitet gegen Erde ab und ist ohne Verbindung zum Schutzleiter wirkungslos. PE-Klemme des SPD mit der PE-Schiene verbinden.',
+        schweregrad: 'fehler',
+      });
+    } else {
+      for (const wire of peLeitungen) {
+        const querschnittCu = wire.material === 'Al' ? wire.querschnitt / 1.6 : wire.querschnitt;
+        if (querschnittCu >= minPEQuerschnitt) continue;
+        errors.push({
+          id: uuidv4(),
+          typ: 'ueberspannungsschutz',
+          komponenteId: spd.id,
+          komponenteName: spd.name,
+          beschreibung: `PE-Anschluss ${wire.querschnitt}mm² ${wire.material} < ${minPEQuerschnitt}mm² Cu (${spd.klasse})`,
+          hinweis: `Die PE-Anschlussleitung eines SPD ${spd.klasse} muss mindestens ${minPEQuerschnitt}mm² Cu haben (Typ 1: ${SPD_MIN_PE_QUERSCHNITT['Typ 1']}mm², Typ 2: ${SPD_MIN_PE_QUERSCHNITT['Typ 2']}mm²).`,
+          schweregrad: 'fehler',
+        });
+      }
+    }
+
+    // Vorsicherung (nächste Überstrom-Schutzeinrichtung, sonst Hauptsicherung)
+    if (spd.systemTyp === 'AC') {
+      const maxVorsicherung = spd.maxVorsicherung ?? SPD_MAX_VORSICHERUNG[spd.klasse];
+      const vorsicherung = findeSchutzeinrichtungenAufPfad(verteiler, spd.id)[0];
+      const vorsicherungsStrom = vorsicherung ? vorsicherung.bemessungsStrom : verteiler.nennstrom || 0;
+      if (vorsicherungsStrom > maxVorsicherung) {
+        errors.push({
+          id: uuidv4(),
+          typ: 'ueberspannungsschutz',
+          komponenteId: spd.id,
+          komponenteName: spd.name,
+          beschreibung: `Vorsicherung ${vorsicherungsStrom}A > max. ${maxVorsicherung}A`,
+          hinweis: vorsicherung
+            ? `${vorsicherung.name} ist größer als die zulässige Vorsicherung des SPD. Eigene SPD-Vorsicherung ≤ ${maxVorsicherung}A im Abzweig vorsehen.`
+            : `Ohne eigene Vorsicherung ist der SPD nur durch die Hauptsicherung (${vorsicherungsStrom}A) geschützt. SPD-Vorsicherung ≤ ${maxVorsicherung}A vorsehen.`,
+          schweregrad: 'fehler',
+        });
+      }
+    }
+
+    // Anschlusslänge a (Außenleiter) + b (PE)
+    const laengeLeiter = vVerdrahtung ? 0 : Math.max(0, ...zuleitungen.map((w) => w.laenge));
+    const laengePE = Math.max(0, ...peLeitungen.map((w) => w.laenge));
+    const anschlusslaenge = laengeLeiter + laengePE;
+    if (anschlusslaenge > SPD_MAX_ANSCHLUSSLAENGE) {
+      warnings.push({
+        id: uuidv4(),
+        typ: 'ueberspannungsschutz',
+        komponenteId: spd.id,
+        komponenteName: spd.name,
+        beschreibung: `Anschlussleitungen a + b = ${anschlusslaenge.toFixed(2)}m > ${SPD_MAX_ANSCHLUSSLAENGE}m`,
+        hinweis: 'Lange Anschlussleitungen erhöhen durch ihre Induktivität den wirksamen Schutzpegel. Anschlussleitungen kürzen oder den SPD in V-Verdrahtung (Durchgangsklemmen) anschließen.',
+        schweregrad: 'warnung',
+      });
+    }
+  }
+
+  return { errors, warnings };
+}
+
+// ==========================================
+// 27. FI-TYP JE VERBRAUCHER (ÖVE E 8101 Teil 5-53, 531.3.3)
+// ==========================================
+
+/** Rangfolge der FI-Typen (höherer Typ erfasst alle Fehlerstromformen der niedrigeren) */
+export const FI_TYP_RANG: Record<FITyp, number> = {
+  AC: 0,
+  A: 1,
+  F: 2,
+  B: 3,
+  'B+': 4,
+};
+
+interface FITypAnforderung {
+  fiTyp: FITyp;                   // Mindest-FI-Typ
+  einphasig?: FITyp;              // Abweichend bei einphasigem Anschluss
+  mitDcFehlerstromerkennung?: FITyp; // Gerät mit integrierter DC-Fehlerstromerkennung
+  schweregrad: 'warnung' | 'fehler';
+  begruendung: string;
+}
+
+/**
+ * Mindest-FI-Typ je Verbrauchertyp (Geräte mit Frequenzumrichter bzw. Gleichfehlerströmen).
+ * Nicht aufgeführte Verbraucher benötigen Typ A.
+ */
+const FI_TYP_ANFORDERUNGEN: Partial<Record<VerbraucherTyp, FITypAnforderung>> = {
+  wallbox: {
+    fiTyp: 'B',
+    mitDcFehlerstromerkennung: 'A',
+    schweregrad: 'fehler',
+    begruendung: 'Ladeeinrichtungen für Elektrofahrzeuge können glatte Gleichfehlerströme verursachen. Typ A genügt nur, wenn die Wallbox eine integrierte 6 mA DC-Fehlerstromerkennung (RDC-DD) hat.',
+  },
+  photovoltaik: {
+    fiTyp: 'B',
+    mitDcFehlerstromerkennung: 'A',
+    schweregrad: 'fehler',
+    begruendung: 'Wechselrichter ohne galvanische Trennung können glatte Gleichfehlerströme einspeisen. Typ A genügt nur, wenn der Hersteller dies durch eine integrierte Fehlerstromüberwachung (RCMU) ausschließt.',
+  },
+  frequenzumrichter: {
+    fiTyp: 'B',
+    einphasig: 'F',
+    schweregrad: 'fehler',
+    begruendung: 'Dreiphasige Frequenzumrichter erzeugen im Fehlerfall glatte Gleichfehlerströme (Typ B), einphasige Umrichter Fehlerströme mit Mischfrequenzen (Typ F).',
+  },
+  klimaanlage: {
+    fiTyp: 'F',
+    schweregrad: 'warnung',
+    begruendung: 'Klimageräte mit Inverter-Verdichter erzeugen Fehlerströme mit Mischfrequenzen, die Typ A nicht sicher erfasst. Bei dreiphasigem Umrichter Herstellerangabe prüfen (ggf. Typ B).',
+  },
+  heizung: {
+    fiTyp: 'F',
+    schweregrad: 'warnung',
+    begruendung: 'Wärmepumpen mit drehzahlgeregeltem Verdichter erzeugen Fehlerströme mit Mischfrequenzen. Für rein ohmsche Heizungen genügt Typ A.',
+  },
+};
+
+/**
+ * Liefert den Mindest-FI-Typ für einen Verbraucher (Standard: Typ A)
+ */
+export function getErforderlicherFITyp(verbraucher: Verbraucher): FITyp {
+  const anforderung = FI_TYP_ANFORDERUNGEN[verbraucher.typ];
+  if (!anforderung) return 'A';
+  if (verbraucher.dcFehlerstromerkennung && anforderung.mitDcFehlerstromerkennung) {
+    return anforderung.mitDcFehlerstromerkennung;
+  }
+  if (verbraucher.phasen.length < 3 && anforderung.einphasig) return anforderung.einphasig;
+  return anforderung.fiTyp;
+}
+
+/**
+ * Kann bei diesem Verbrauchertyp eine integrierte DC-Fehlerstromerkennung angegeben werden?
+ */
+export function hatDcFehlerstromerkennungOption(typ: VerbraucherTyp): boolean {
+  return FI_TYP_ANFORDERUNGEN[typ]?.mitDcFehlerstromerkennung !== undefined;
+}
+
+/**
+ * Prüft den FI-Typ:
+ * - Der FI, der einen Verbraucher tatsächlich schützt (nächster FI je Außenleiter),
+ *   muss mindestens den erforderlichen Typ des Verbrauchers haben – ohne FI ist das ein Befund
+ * - Einem FI Typ B darf kein FI Typ AC/A/F vorgeschaltet sein, da Gleichfehlerströme
+ *   den vorgeschalteten FI vormagnetisieren und unwirksam machen
+ */
+function checkFITypVerbraucher(verteiler: Verteiler): { errors: ValidationError[]; warnings: ValidationError[] } {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationError[] = [];
+
+  for (const verbraucher of verteiler.verbraucher) {
+    const anforderung = FI_TYP_ANFORDERUNGEN[verbraucher.typ];
+    if (!anforderung || !verbraucher.zugewieseneKomponente) continue;
+
+    const zugewieseneKomponente = verteiler.komponenten.find(k => k.id === verbraucher.zugewieseneKomponente);
+    if (!zugewieseneKomponente) continue;
+
+    const erforderlicherTyp = getErforderlicherFITyp(verbraucher);
+    const naechsteFIs = findNearestFIPerPhase(verteiler, zugewieseneKomponente.id);
+    const fiIds = new Set(
+      getEffectivePhasen(verteiler, verbraucher)
+        .map((phase) => naechsteFIs.get(phase))
+        .filter((id): id is string => id !== undefined)
+    );
+
+    if (fiIds.size === 0) {
+      (anforderung.schweregrad === 'fehler' ? errors : warnings).push({
+        id: uuidv4(),
+        typ: 'fehlerstrom',
+        komponenteId: verbraucher.id,
+        komponenteName: verbraucher.name,
+        beschreibung: `Kein FI-Schutz – FI Typ ${erforderlicherTyp} erforderlich`,
+        hinweis: anforderung.begruendung,
+        schweregrad: anforderung.schweregrad,
+      });
+    }
+
+    for (const fiId of fiIds) {
+      const fi = verteiler.komponenten.find(
+        (k): k is FISchalterParams | FILSKombiParams => k.id === fiId && (k.type === 'fi-schalter' || k.type === 'fi-ls-kombi')
+      );
+      if (!fi || FI_TYP_RANG[fi.fiTyp] >= FI_TYP_RANG[erforderlicherTyp]) continue;
+
+      (anforderung.schweregrad === 'fehler' ? errors : warnings).push({
+        id: uuidv4(),
+        typ: 'fehlerstrom',
         komponenteId: verbraucher.id,
         komponenteName: verbraucher.name,
-        beschreibung: fehlerText,
-        hinweis: `Gemäß ÖVE E 8101 muss die Strombelastbarkeit des Leiters (Iz) die Bedingung erfüllen: ${istSchmelzsicherung ? 'Iz × 1,45 > In × 1,6 (bei Schmelzsicherungen)' : 'Iz ≥ In (bei Leitungsschutzschaltern)'}. Wählen Sie einen größeren Kabelquerschnitt oder ändern Sie die Verlegeart (z.B. von ${verbraucher.verlegeart} zu einer besser belüfteten Verlegeart).`,
+        beschreibung: `FI Typ ${fi.fiTyp} (${fi.name}) ungeeignet – Typ ${erforderlicherTyp} erforderlich`,
+        hinweis: anforderung.begruendung,
+        schweregrad: anforderung.schweregrad,
+      });
+    }
+  }
+
+  for (const fi of verteiler.komponenten) {
+    if ((fi.type !== 'fi-schalter' && fi.type !== 'fi-ls-kombi') || FI_TYP_RANG[fi.fiTyp] < FI_TYP_RANG.B) continue;
+
+    for (const vorgeschaltet of findSeriesFIs(verteiler, fi.id)) {
+      if (FI_TYP_RANG[vorgeschaltet.fiTyp] >= FI_TYP_RANG.B) continue;
+      errors.push({
+        id: uuidv4(),
+        typ: 'fehlerstrom',
+        komponenteId: fi.id,
+        komponenteName: fi.name,
+        beschreibung: `FI Typ ${fi.fiTyp} hinter FI Typ ${vorgeschaltet.fiTyp} (${vorgeschaltet.name})`,
+        hinweis: 'Glatte Gleichfehlerströme, die der FI Typ B erfasst, fließen auch durch den vorgeschalteten FI und können ihn unwirksam machen. FI Typ B direkt von der Einspeisung versorgen oder den vorgeschalteten FI ebenfalls als Typ B ausführen.',
         schweregrad: 'fehler',
       });
     }
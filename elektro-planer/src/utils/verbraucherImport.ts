@@ -0,0 +1,261 @@
+import { v4 as uuidv4 } from 'uuid';
+import * as XLSX from 'xlsx';
+import type { Verbraucher, VerbraucherTyp, Phase, Verlegeart, Leitermaterial } from '../types';
+import { VERBRAUCHER_DEFAULTS, VERLEGEART_BESCHREIBUNGEN, VERFUEGBARE_QUERSCHNITTE } from '../types';
+import { leseZahl } from './katalog';
+
+// ==========================================
+// VERBRAUCHER-IMPORT (RAUMBUCH AUS EXCEL/CSV)
+// ==========================================
+
+export type ImportFeld =
+  | 'name'
+  | 'geschoss'
+  | 'raum'
+  | 'typ'
+  | 'leistung'
+  | 'spannung'
+  | 'phasen'
+  | 'gleichzeitigkeitsfaktor'
+  | 'cosPhi'
+  | 'leitungslaenge'
+  | 'leitungsquerschnitt'
+  | 'verlegeart'
+  | 'leitermaterial';
+
+/**
+ * Zuordnung Feld → Spaltenindex der Tabelle (null = nicht zugeordnet, Standardwert)
+ */
+export type SpaltenZuordnung = Record<ImportFeld, number | null>;
+
+export interface ImportFeldDefinition {
+  feld: ImportFeld;
+  bezeichnung: string;
+  pflicht: boolean;
+  synonyme: string[];           // Kleingeschrieben, ohne Sonderzeichen
+}
+
+export const IMPORT_FELDER: ImportFeldDefinition[] = [
+  { feld: 'name', bezeichnung: 'Name', pflicht: true, synonyme: ['name', 'bezeichnung', 'verbraucher', 'stromkreis'] },
+  { feld: 'geschoss', bezeichnung: 'Geschoss', pflicht: false, synonyme: ['geschoss', 'etage', 'stockwerk', 'ebene', 'stock'] },
+  { feld: 'raum', bezeichnung: 'Raum', pflicht: false, synonyme: ['raum', 'raumbezeichnung', 'raumname', 'raumnummer', 'gruppe', 'ort', 'bereich'] },
+  { feld: 'typ', bezeichnung: 'Typ', pflicht: false, synonyme: ['typ', 'art', 'verbrauchertyp', 'kategorie'] },
+  { feld: 'leistung', bezeichnung: 'Leistung [W]', pflicht: false, synonyme: ['leistung', 'p', 'pw', 'leistungw', 'anschlussleistung'] },
+  { feld: 'spannung', bezeichnung: 'Spannung [V]', pflicht: false, synonyme: ['spannung', 'u', 'uv', 'spannungv'] },
+  { feld: 'phasen', bezeichnung: 'Phasen', pflicht: false, synonyme: ['phasen', 'phase', 'aussenleiter', 'außenleiter', 'polzahl'] },
+  { feld: 'gleichzeitigkeitsfaktor', bezeichnung: 'Gleichzeitigkeitsfaktor', pflicht: false, synonyme: ['gleichzeitigkeitsfaktor', 'gzf', 'gleichzeitigkeit', 'g'] },
+  { feld: 'cosPhi', bezeichnung: 'cos φ', pflicht: false, synonyme: ['cosphi', 'cosφ', 'leistungsfaktor', 'cos'] },
+  { feld: 'leitungslaenge', bezeichnung: 'Leitungslänge [m]', pflicht: false, synonyme: ['leitungslaenge', 'leitungslänge', 'laenge', 'länge', 'lm', 'kabellaenge', 'kabellänge'] },
+  { feld: 'leitungsquerschnitt', bezeichnung: 'Querschnitt [mm²]', pflicht: false, synonyme: ['leitungsquerschnitt', 'querschnitt', 'qmm2', 'qmm²'] },
+  { feld: 'verlegeart', bezeichnung: 'Verlegeart', pflicht: false, synonyme: ['verlegeart', 'verlegung'] },
+  { feld: 'leitermaterial', bezeichnung: 'Leitermaterial', pflicht: false, synonyme: ['leitermaterial', 'material', 'leiter'] },
+];
+
+/** Texte im Raumbuch, die auf einen Verbrauchertyp schließen lassen */
+const TYP_SYNONYME: Record<VerbraucherTyp, string[]> = {
+  licht: ['licht', 'beleuchtung', 'leuchte', 'lampe'],
+  steckdose: ['steckdose', 'schuko'],
+  herd: ['herd', 'kochfeld', 'ceranfeld', 'induktion'],
+  backofen: ['backofen', 'ofen', 'dampfgarer'],
+  trockner: ['trockner', 'waschmaschine', 'waschtrockner', 'geschirrspüler', 'geschirrspueler'],
+  warmwasser: ['warmwasser', 'boiler', 'durchlauferhitzer', 'speicher'],
+  heizung: ['heizung', 'wärmepumpe', 'waermepumpe', 'infrarot', 'heizstab'],
+  klimaanlage: ['klima', 'klimaanlage', 'klimagerät', 'lüftung', 'lueftung'],
+  wallbox: ['wallbox', 'ladestation', 'emobilität', 'e-auto', 'ladepunkt'],
+  photovoltaik: ['photovoltaik', 'pv-anlage', 'wechselrichter', 'solar'],
+  frequenzumrichter: ['frequenzumrichter', 'umrichter', 'antrieb'],
+  sonstige: ['sonstige', 'sonstiges', 'diverses'],
+};
+
+/**
+ * Ergebnis der Prüfung einer Tabellenzeile
+ */
+export interface ImportZeile {
+  zeile: number;                // Zeilennummer in der Datei (1-basiert)
+  verbraucher: Verbraucher | null; // null bei Fehlern
+  raum: { raum?: string; geschoss?: string }; // Raumangabe, Zuordnung zum Gebäudemodell beim Import
+  fehler: string[];
+  hinweise: string[];
+}
+
+const normalisiere = (text: string): string => text.toLowerCase().replace(/[\s_\-./()[\]]/g, '');
+
+/** Zellwert: Zahlenzellen aus XLSX bleiben Zahlen, alles andere ist Text */
+export type TabellenZelle = string | number;
+
+/**
+ * Liest alle Tabellenblätter einer XLSX- oder CSV-Datei als Zeilen mit Zellwerten.
+ *
+ * WICHTIG: CSV-Dateien werden selbst dekodiert – UTF-8, bei ungültigen Zeichen
+ * Windows-1252 (Excel-Export unter Windows). XLSX würde sie sonst als Latin-1 lesen.
+ * Zahlenzellen werden unformatiert gelesen (sonst wird 1500 mit Format "#,##0" zu "1,500"),
+ * CSV-Felder bleiben Text und werden erst bei der Prüfung als Zahl gelesen.
+ */
+export function leseTabellen(daten: ArrayBuffer, dateiname: string): Record<string, TabellenZelle[][]> {
+  let workbook: XLSX.WorkBook;
+  if (/\.(csv|txt)$/i.test(dateiname)) {
+    let text = new TextDecoder('utf-8').decode(daten);
+    if (text.includes('\uFFFD')) text = new TextDecoder('windows-1252').decode(daten);
+    workbook = XLSX.read(text.replace(/^\uFEFF/, ''), { type: 'string', raw: true });
+  } else {
+    workbook = XLSX.read(daten, { type: 'array' });
+  }
+  return Object.fromEntries(
+    workbook.SheetNames.map((name) => [
+      name,
+      (XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, raw: true, defval: '' }))
+        .map((zeile) => zeile.map((zelle): TabellenZelle => (typeof zelle === 'number' ? zelle : String(zelle ?? '').trim())))
+        .filter((zeile) => zeile.some((zelle) => zelle !== '')),
+    ])
+  );
+}
+
+/**
+ * Schlägt anhand der Spaltenüberschriften eine Zuordnung vor
+ */
+export function schlageZuordnungVor(kopfzeile: TabellenZelle[]): SpaltenZuordnung {
+  const kopf = kopfzeile.map((zelle) => normalisiere(String(zelle)));
+  const vergeben = new Set<number>();
+  const zuordnung = {} as SpaltenZuordnung;
+
+  for (const definition of IMPORT_FELDER) {
+    const index = kopf.findIndex((k, i) => !vergeben.has(i) && definition.synonyme.includes(k));
+    zuordnung[definition.feld] = index >= 0 ? index : null;
+    if (index >= 0) vergeben.add(index);
+  }
+  return zuordnung;
+}
+
+const leseTyp = (text: string): VerbraucherTyp | null => {
+  const wert = normalisiere(text);
+  const typen = Object.keys(TYP_SYNONYME) as VerbraucherTyp[];
+  return typen.find((typ) => typ === wert || TYP_SYNONYME[typ].some((s) => wert.includes(normalisiere(s)))) ?? null;
+};
+
+const lesePhasen = (text: string): Phase[] | null => {
+  const wert = text.toUpperCase().replace(/\s/g, '');
+  if (/^(3|3~|3P|L1L2L3|L1,L2,L3|L1\/L2\/L3|DREHSTROM)$/.test(wert)) return ['L1', 'L2', 'L3'];
+  const einzeln = wert.match(/^L?([123])$/);
+  if (einzeln && wert.startsWith('L')) return [`L${einzeln[1]}` as Phase];
+  if (/^(1|1~|1P|WECHSELSTROM)$/.test(wert)) return ['L1'];
+  return null;
+};
+
+/**
+ * Prüft eine Tabellenzeile und erstellt daraus einen Verbraucher.
+ *
+ * Nicht zugeordnete oder leere Felder erhalten die Standardwerte des Verbrauchertyps
+ * (VERBRAUCHER_DEFAULTS) bzw. die der manuellen Eingabe (20 m, B1, Kupfer). Ungültige Werte sind Fehler –
+ * die Zeile wird dann nicht importiert.
+ */
+export function pruefeImportZeile(zellen: TabellenZelle[], zuordnung: SpaltenZuordnung, zeile: number): ImportZeile {
+  const fehler: string[] = [];
+  const hinweise: string[] = [];
+  const zelle = (feld: ImportFeld): TabellenZelle => {
+    const index = zuordnung[feld];
+    return index !== null ? zellen[index] ?? '' : '';
+  };
+  const wert = (feld: ImportFeld): string => String(zelle(feld)).trim();
+
+  const name = wert('name');
+  if (!name) fehler.push('Name fehlt');
+
+  // Typ
+  let typ: VerbraucherTyp = 'sonstige';
+  if (wert('typ')) {
+    const erkannt = leseTyp(wert('typ'));
+    if (erkannt) typ = erkannt;
+    else hinweise.push(`Typ "${wert('typ')}" unbekannt – als "sonstige" angelegt`);
+  } else {
+    typ = leseTyp(name) ?? 'sonstige';
+  }
+  const defaults = VERBRAUCHER_DEFAULTS[typ];
+
+  // Zahlenwerte: leer = Standardwert, sonst im gültigen Bereich
+  const zahlFeld = (feld: ImportFeld, standard: number | undefined, min: number, max: number, bezeichnung: string) => {
+    if (!wert(feld)) return standard;
+    const roh = zelle(feld);
+    const zahl = typeof roh === 'number' ? roh : leseZahl(roh);
+    if (zahl === null || zahl < min || zahl > max) {
+      fehler.push(`${bezeichnung} "${wert(feld)}" ungültig`);
+      return standard;
+    }
+    return zahl;
+  };
+
+  // Leistung in kW erkennen (Einheit in der Zelle, z.B. "2,5 kW")
+  let leistung = zahlFeld('leistung', defaults.leistung, 0.001, 1_000_000, 'Leistung');
+  if (leistung !== undefined && /kw/i.test(wert('leistung'))) leistung *= 1000;
+
+  const spannung = zahlFeld('spannung', defaults.spannung, 0, 1000, 'Spannung');
+  if (spannung !== undefined && spannung !== 230 && spannung !== 400) {
+    fehler.push(`Spannung ${spannung} V – nur 230 V oder 400 V möglich`);
+  }
+
+  let phasen: Phase[] = spannung === 400 ? ['L1', 'L2', 'L3'] : ['L1'];
+  if (wert('phasen')) {
+    const gelesen = lesePhasen(wert('phasen'));
+    if (!gelesen) fehler.push(`Phasen "${wert('phasen')}" ungültig`);
+    else phasen = gelesen;
+  }
+  if (spannung === 400 && phasen.length !== 3) fehler.push('400 V-Verbraucher benötigen drei Außenleiter');
+  if (spannung === 230 && phasen.length !== 1) fehler.push('230 V-Verbraucher benötigen genau einen Außenleiter');
+
+  // Gleichzeitigkeitsfaktor auch in Prozent (z.B. "80 %")
+  let gleichzeitigkeitsfaktor = zahlFeld('gleichzeitigkeitsfaktor', 1, 0, 100, 'Gleichzeitigkeitsfaktor') ?? 1;
+  if (gleichzeitigkeitsfaktor > 1) gleichzeitigkeitsfaktor /= 100;
+
+  const cosPhi = zahlFeld('cosPhi', defaults.cosPhi, 0.1, 1, 'cos φ') ?? defaults.cosPhi;
+  const leitungslaenge = zahlFeld('leitungslaenge', 20, 0.1, 10_000, 'Leitungslänge');
+
+  const leitungsquerschnitt = zahlFeld('leitungsquerschnitt', undefined, 0.5, 1000, 'Querschnitt');
+  if (leitungsquerschnitt !== undefined && !VERFUEGBARE_QUERSCHNITTE.includes(leitungsquerschnitt)) {
+    fehler.push(`Querschnitt ${leitungsquerschnitt} mm² ist kein Normquerschnitt`);
+  }
+  if (leitungsquerschnitt === undefined) hinweise.push('Kein Querschnitt – über Dimensionierung festlegen');
+
+  let verlegeart: Verlegeart = 'B1';
+  if (wert('verlegeart')) {
+    const gelesen = wert('verlegeart').toUpperCase() as Verlegeart;
+    if (gelesen in VERLEGEART_BESCHREIBUNGEN) verlegeart = gelesen;
+    else fehler.push(`Verlegeart "${wert('verlegeart')}" ungültig`);
+  }
+
+  let leitermaterial: Leitermaterial = 'kupfer';
+  if (wert('leitermaterial')) {
+    const material = normalisiere(wert('leitermaterial'));
+    if (['al', 'alu', 'aluminium'].includes(material)) leitermaterial = 'aluminium';
+    else if (!['cu', 'kupfer'].includes(material)) fehler.push(`Leitermaterial "${wert('leitermaterial')}" ungültig`);
+  }
+
+  return {
+    zeile,
+    fehler,
+    hinweise,
+    raum: { raum: wert('raum') || undefined, geschoss: wert('geschoss') || undefined },
+    verbraucher: fehler.length > 0
+      ? null
+      : {
+          id: uuidv4(),
+          name,
+          typ,
+          leistung: leistung ?? defaults.leistung,
+          spannung: spannung ?? defaults.spannung,
+          phasen,
+          gleichzeitigkeitsfaktor,
+          cosPhi,
+          leitungslaenge,
+          leitungsquerschnitt,
+          verlegeart,
+          leitermaterial,
+        },
+  };
+}
+
+/**
+ * Prüft alle Datenzeilen einer Tabelle (optional ohne Kopfzeile)
+ */
+export function pruefeImport(tabelle: TabellenZelle[][], zuordnung: SpaltenZuordnung, mitKopfzeile: boolean): ImportZeile[] {
+  const start = mitKopfzeile ? 1 : 0;
+  return tabelle.slice(start).map((zellen, i) => pruefeImportZeile(zellen, zuordnung, start + i + 1));
+}